@@ -1,9 +1,27 @@
 import { homedir } from "node:os";
 import { join } from "node:path";
 
+export type ProviderKind = "openai" | "anthropic";
+
+/** A direct execution backend. Models whose id starts with one of `prefixes` are sent here instead of OpenRouter. */
+export interface ProviderConfig {
+  name: string;
+  kind: ProviderKind;
+  baseUrl: string;
+  apiKey: string;
+  prefixes: string[];
+}
+
 export interface McpConfig {
   openRouterApiKey: string;
   smartSpawnApiUrl: string;
+  /**
+   * Tenant key sent as X-API-Key, so feedback and spawn logs stay with that tenant.
+   * Without it the API drops the nodes' speed samples and health reports.
+   */
+  smartSpawnApiKey?: string;
+  /** Default spend budget project for runs that don't name one. */
+  smartSpawnProject?: string;
   homeDir: string;
   dbPath: string;
   artifactsDir: string;
@@ -13,6 +31,12 @@ export interface McpConfig {
   nodeTimeoutSeconds: number;
   runTimeoutSeconds: number;
   pollIntervalMs: number;
+  providers: ProviderConfig[];
+  /** Shared workspace for node tools; when null each run gets `<home>/workspaces/<runId>`. */
+  workspaceDir: string | null;
+  /** Executables nodes may start through `run_command`. Empty disables the tool. */
+  allowedCommands: string[];
+  toolTimeoutSeconds: number;
 }
 
 function parsePositiveInt(raw: string | undefined, fallback: number): number {
@@ -27,6 +51,56 @@ function parsePositiveFloat(raw: string | undefined, fallback: number): number {
   return n;
 }
 
+function parseList(raw: string | undefined): string[] {
+  return (raw ?? "")
+    .split(",")
+    .map((item) => item.trim())
+    .filter(Boolean);
+}
+
+/**
+ * Direct backends from provider keys. A key alone routes nothing: OpenAI and
+ * Anthropic models keep going through OpenRouter until PROVIDER_ROUTES
+ * ("prefix=provider,...") sends a prefix to them. Local servers get their own prefixes.
+ */
+export function loadProviders(env: NodeJS.ProcessEnv = process.env): ProviderConfig[] {
+  const providers: ProviderConfig[] = [];
+  if (env["OPENAI_API_KEY"]) {
+    providers.push({
+      name: "openai",
+      kind: "openai",
+      baseUrl: env["OPENAI_BASE_URL"] ?? "https://api.openai.com/v1",
+      apiKey: env["OPENAI_API_KEY"],
+      prefixes: [],
+    });
+  }
+  if (env["ANTHROPIC_API_KEY"]) {
+    providers.push({
+      name: "anthropic",
+      kind: "anthropic",
+      baseUrl: env["ANTHROPIC_BASE_URL"] ?? "https://api.anthropic.com",
+      apiKey: env["ANTHROPIC_API_KEY"],
+      prefixes: [],
+    });
+  }
+  if (env["LOCAL_LLM_BASE_URL"]) {
+    providers.push({
+      name: "local",
+      kind: "openai",
+      baseUrl: env["LOCAL_LLM_BASE_URL"],
+      apiKey: env["LOCAL_LLM_API_KEY"] ?? "",
+      prefixes: parseList(env["LOCAL_LLM_PREFIXES"] ?? "local/,ollama/"),
+    });
+  }
+
+  for (const route of parseList(env["PROVIDER_ROUTES"])) {
+    const [prefix, name] = route.split("=").map((part) => part.trim());
+    const provider = providers.find((p) => p.name === name);
+    if (prefix && provider && !provider.prefixes.includes(prefix)) provider.prefixes.push(prefix);
+  }
+  return providers;
+}
+
 function resolveHomePath(raw: string | undefined): string {
   if (!raw || !raw.trim()) return join(process.cwd(), ".smart-spawn-mcp");
   if (raw.startsWith("~/")) return join(homedir(), raw.slice(2));
@@ -42,6 +116,8 @@ export function loadConfig(env: NodeJS.ProcessEnv = process.env): McpConfig {
   return {
     openRouterApiKey,
     smartSpawnApiUrl: env["SMART_SPAWN_API_URL"] ?? "https://ss.deeflect.com/api",
+    smartSpawnApiKey: env["SMART_SPAWN_API_KEY"] || undefined,
+    smartSpawnProject: env["SMART_SPAWN_PROJECT"]?.trim() || undefined,
     homeDir,
     dbPath,
     artifactsDir,
@@ -51,5 +127,9 @@ export function loadConfig(env: NodeJS.ProcessEnv = process.env): McpConfig {
     nodeTimeoutSeconds: parsePositiveInt(env["NODE_TIMEOUT_SECONDS"], 180),
     runTimeoutSeconds: parsePositiveInt(env["RUN_TIMEOUT_SECONDS"], 1800),
     pollIntervalMs: parsePositiveInt(env["POLL_INTERVAL_MS"], 1200),
+    providers: loadProviders(env),
+    workspaceDir: env["MCP_WORKSPACE_DIR"] ? resolveHomePath(env["MCP_WORKSPACE_DIR"]) : null,
+    allowedCommands: parseList(env["MCP_ALLOWED_COMMANDS"]),
+    toolTimeoutSeconds: parsePositiveInt(env["MCP_TOOL_TIMEOUT_SECONDS"], 30),
   };
 }
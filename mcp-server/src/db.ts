@@ -1,6 +1,15 @@
 import { Database } from "bun:sqlite";
 import { randomUUID } from "node:crypto";
-import type { ArtifactRecord, NodeRecord, PlannedNode, RunCreateInput, RunRecord, RunStatus } from "./types.ts";
+import type {
+  ArtifactRecord,
+  CostSource,
+  ModelPricing,
+  NodeRecord,
+  PlannedNode,
+  RunCreateInput,
+  RunRecord,
+  RunStatus,
+} from "./types.ts";
 
 function nowIso(): string {
   return new Date().toISOString();
@@ -32,6 +41,7 @@ export class McpStore {
         params_json TEXT NOT NULL,
         status TEXT NOT NULL,
         error TEXT,
+        projected_cost_usd REAL,
         created_at TEXT NOT NULL,
         updated_at TEXT NOT NULL,
         started_at TEXT,
@@ -46,6 +56,8 @@ export class McpStore {
         depends_on_json TEXT NOT NULL,
         task TEXT NOT NULL,
         model TEXT NOT NULL,
+        fallback_models_json TEXT NOT NULL DEFAULT '[]',
+        output_schema_json TEXT,
         prompt TEXT NOT NULL,
         meta_json TEXT NOT NULL,
         status TEXT NOT NULL,
@@ -57,6 +69,7 @@ export class McpStore {
         tokens_prompt INTEGER NOT NULL DEFAULT 0,
         tokens_completion INTEGER NOT NULL DEFAULT 0,
         cost_usd REAL NOT NULL DEFAULT 0,
+        cost_source TEXT,
         FOREIGN KEY (run_id) REFERENCES runs(id)
       );
 
@@ -82,15 +95,44 @@ export class McpStore {
         FOREIGN KEY (run_id) REFERENCES runs(id)
       );
 
+      CREATE TABLE IF NOT EXISTS model_pricing (
+        model_id TEXT PRIMARY KEY,
+        prompt_per_1m REAL NOT NULL,
+        completion_per_1m REAL NOT NULL,
+        updated_at TEXT NOT NULL
+      );
+
       CREATE INDEX IF NOT EXISTS idx_runs_status ON runs(status);
       CREATE INDEX IF NOT EXISTS idx_nodes_run_id ON nodes(run_id);
       CREATE INDEX IF NOT EXISTS idx_nodes_status ON nodes(status);
       CREATE INDEX IF NOT EXISTS idx_artifacts_run_id ON artifacts(run_id);
       CREATE INDEX IF NOT EXISTS idx_events_run_id ON events(run_id, ts);
     `);
+
+    // Migrations for databases created before a column existed.
+    try {
+      this.db.exec(`ALTER TABLE nodes ADD COLUMN cost_source TEXT`);
+    } catch {
+      // already exists
+    }
+    try {
+      this.db.exec(`ALTER TABLE runs ADD COLUMN projected_cost_usd REAL`);
+    } catch {
+      // already exists
+    }
+    try {
+      this.db.exec(`ALTER TABLE nodes ADD COLUMN fallback_models_json TEXT NOT NULL DEFAULT '[]'`);
+    } catch {
+      // already exists
+    }
+    try {
+      this.db.exec(`ALTER TABLE nodes ADD COLUMN output_schema_json TEXT`);
+    } catch {
+      // already exists
+    }
   }
 
-  createRun(input: RunCreateInput): RunRecord {
+  createRun(input: RunCreateInput, projectedCostUsd: number | null = null): RunRecord {
     const id = randomUUID();
     const now = nowIso();
     const budget = input.budget ?? "medium";
@@ -99,10 +141,10 @@ export class McpStore {
 
     this.db
       .query(
-        `INSERT INTO runs (id, task, mode, budget, context, params_json, status, error, created_at, updated_at, started_at, finished_at)
-         VALUES (?, ?, ?, ?, ?, ?, 'queued', NULL, ?, ?, NULL, NULL)`
+        `INSERT INTO runs (id, task, mode, budget, context, params_json, status, error, projected_cost_usd, created_at, updated_at, started_at, finished_at)
+         VALUES (?, ?, ?, ?, ?, ?, 'queued', NULL, ?, ?, ?, NULL, NULL)`
       )
-      .run(id, input.task, input.mode, budget, context, params, now, now);
+      .run(id, input.task, input.mode, budget, context, params, projectedCostUsd, now, now);
 
     return this.getRun(id)!;
   }
@@ -110,7 +152,7 @@ export class McpStore {
   getRun(runId: string): RunRecord | null {
     const row = this.db
       .query(
-        `SELECT id, task, mode, budget, context, params_json, status, error, created_at, updated_at, started_at, finished_at
+        `SELECT id, task, mode, budget, context, params_json, status, error, projected_cost_usd, created_at, updated_at, started_at, finished_at
          FROM runs WHERE id = ? LIMIT 1`
       )
       .get(runId) as any;
@@ -123,13 +165,13 @@ export class McpStore {
     const rows = status
       ? (this.db
           .query(
-            `SELECT id, task, mode, budget, context, params_json, status, error, created_at, updated_at, started_at, finished_at
+            `SELECT id, task, mode, budget, context, params_json, status, error, projected_cost_usd, created_at, updated_at, started_at, finished_at
              FROM runs WHERE status = ? ORDER BY created_at DESC LIMIT ?`
           )
           .all(status, safeLimit) as any[])
       : (this.db
           .query(
-            `SELECT id, task, mode, budget, context, params_json, status, error, created_at, updated_at, started_at, finished_at
+            `SELECT id, task, mode, budget, context, params_json, status, error, projected_cost_usd, created_at, updated_at, started_at, finished_at
              FROM runs ORDER BY created_at DESC LIMIT ?`
           )
           .all(safeLimit) as any[]);
@@ -140,7 +182,7 @@ export class McpStore {
   listActiveRuns(limit: number): RunRecord[] {
     const rows = this.db
       .query(
-        `SELECT id, task, mode, budget, context, params_json, status, error, created_at, updated_at, started_at, finished_at
+        `SELECT id, task, mode, budget, context, params_json, status, error, projected_cost_usd, created_at, updated_at, started_at, finished_at
          FROM runs WHERE status IN ('queued', 'running') ORDER BY created_at ASC LIMIT ?`
       )
       .all(limit) as any[];
@@ -187,8 +229,8 @@ export class McpStore {
   createNodes(runId: string, nodes: PlannedNode[]): void {
     const insert = this.db.query(
       `INSERT INTO nodes
-      (id, run_id, kind, wave, depends_on_json, task, model, prompt, meta_json, status, retry_count, max_retries, error, started_at, finished_at, tokens_prompt, tokens_completion, cost_usd)
-      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, 'queued', 0, ?, NULL, NULL, NULL, 0, 0, 0)`
+      (id, run_id, kind, wave, depends_on_json, task, model, fallback_models_json, output_schema_json, prompt, meta_json, status, retry_count, max_retries, error, started_at, finished_at, tokens_prompt, tokens_completion, cost_usd)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, 'queued', 0, ?, NULL, NULL, NULL, 0, 0, 0)`
     );
     const tx = this.db.transaction(() => {
       const idMap = new Map<string, string>();
@@ -207,6 +249,8 @@ export class McpStore {
           JSON.stringify(mappedDependsOn),
           node.task,
           node.model,
+          JSON.stringify(node.fallbackModels ?? []),
+          node.outputSchema ? JSON.stringify(node.outputSchema) : null,
           node.prompt,
           JSON.stringify(node.meta ?? {}),
           node.maxRetries ?? 2
@@ -219,7 +263,7 @@ export class McpStore {
   listNodes(runId: string): NodeRecord[] {
     const rows = this.db
       .query(
-        `SELECT id, run_id, kind, wave, depends_on_json, task, model, prompt, meta_json, status, retry_count, max_retries, error, started_at, finished_at, tokens_prompt, tokens_completion, cost_usd
+        `SELECT id, run_id, kind, wave, depends_on_json, task, model, fallback_models_json, output_schema_json, prompt, meta_json, status, retry_count, max_retries, error, started_at, finished_at, tokens_prompt, tokens_completion, cost_usd, cost_source
          FROM nodes WHERE run_id = ? ORDER BY wave ASC, id ASC`
       )
       .all(runId) as any[];
@@ -229,7 +273,7 @@ export class McpStore {
   getNode(nodeId: string): NodeRecord | null {
     const row = this.db
       .query(
-        `SELECT id, run_id, kind, wave, depends_on_json, task, model, prompt, meta_json, status, retry_count, max_retries, error, started_at, finished_at, tokens_prompt, tokens_completion, cost_usd
+        `SELECT id, run_id, kind, wave, depends_on_json, task, model, fallback_models_json, output_schema_json, prompt, meta_json, status, retry_count, max_retries, error, started_at, finished_at, tokens_prompt, tokens_completion, cost_usd, cost_source
          FROM nodes WHERE id = ? LIMIT 1`
       )
       .get(nodeId) as any;
@@ -237,6 +281,39 @@ export class McpStore {
     return this.mapNode(row);
   }
 
+  /** Re-queue a node on its next fallback model, keeping the rest of the chain. */
+  switchNodeModel(nodeId: string, model: string, remainingFallbacks: string[], reason: string): void {
+    this.db
+      .query(
+        `UPDATE nodes
+         SET status = 'queued', model = ?, fallback_models_json = ?, retry_count = 0, error = ?
+         WHERE id = ?`
+      )
+      .run(model, JSON.stringify(remainingFallbacks), reason.slice(0, 5000), nodeId);
+  }
+
+  /** Put a finished run back in the queue; timeouts count from the resume. */
+  reopenRun(runId: string): void {
+    this.db
+      .query(
+        `UPDATE runs
+         SET status = 'queued', error = NULL, updated_at = ?, started_at = NULL, finished_at = NULL
+         WHERE id = ?`
+      )
+      .run(nowIso(), runId);
+  }
+
+  resetNode(nodeId: string, overrides: { model?: string; prompt?: string } = {}): void {
+    this.db
+      .query(
+        `UPDATE nodes
+         SET status = 'queued', retry_count = 0, error = NULL, started_at = NULL, finished_at = NULL,
+             model = COALESCE(?, model), prompt = COALESCE(?, prompt)
+         WHERE id = ?`
+      )
+      .run(overrides.model ?? null, overrides.prompt ?? null, nodeId);
+  }
+
   startNode(nodeId: string): void {
     const now = nowIso();
     this.db
@@ -248,15 +325,35 @@ export class McpStore {
       .run(now, nodeId);
   }
 
-  markNodeCompleted(nodeId: string, tokensPrompt: number, tokensCompletion: number, costUsd: number): void {
+  markNodeCompleted(
+    nodeId: string,
+    tokensPrompt: number,
+    tokensCompletion: number,
+    costUsd: number,
+    costSource: CostSource
+  ): void {
     const now = nowIso();
     this.db
       .query(
         `UPDATE nodes
-         SET status = 'completed', finished_at = ?, tokens_prompt = ?, tokens_completion = ?, cost_usd = ?, error = NULL
+         SET status = 'completed', finished_at = ?, tokens_prompt = ?, tokens_completion = ?, cost_usd = ?, cost_source = ?, error = NULL
          WHERE id = ?`
       )
-      .run(now, tokensPrompt, tokensCompletion, costUsd, nodeId);
+      .run(now, tokensPrompt, tokensCompletion, costUsd, costSource, nodeId);
+  }
+
+  updateNodeMeta(nodeId: string, meta: Record<string, unknown>): void {
+    this.db.query(`UPDATE nodes SET meta_json = ? WHERE id = ?`).run(JSON.stringify(meta), nodeId);
+  }
+
+  addNodeUsage(nodeId: string, tokensPrompt: number, tokensCompletion: number, costUsd: number): void {
+    this.db
+      .query(
+        `UPDATE nodes
+         SET tokens_prompt = tokens_prompt + ?, tokens_completion = tokens_completion + ?, cost_usd = cost_usd + ?
+         WHERE id = ?`
+      )
+      .run(tokensPrompt, tokensCompletion, costUsd, nodeId);
   }
 
   markNodeSkipped(nodeId: string, reason: string): void {
@@ -331,6 +428,12 @@ export class McpStore {
     };
   }
 
+  updateArtifactContent(artifactId: string, bytes: number, sha256: string): void {
+    this.db
+      .query(`UPDATE artifacts SET bytes = ?, sha256 = ? WHERE id = ?`)
+      .run(bytes, sha256, artifactId);
+  }
+
   listArtifacts(runId: string): ArtifactRecord[] {
     const rows = this.db
       .query(
@@ -351,11 +454,33 @@ export class McpStore {
     }));
   }
 
+  getArtifactOfType(runId: string, nodeId: string, type: ArtifactRecord["type"]): ArtifactRecord | null {
+    const row = this.db
+      .query(
+        `SELECT id, run_id, node_id, type, path, bytes, sha256, created_at
+         FROM artifacts WHERE run_id = ? AND node_id = ? AND type = ?
+         ORDER BY created_at DESC LIMIT 1`
+      )
+      .get(runId, nodeId, type) as any;
+    if (!row) return null;
+    return {
+      id: row.id,
+      runId: row.run_id,
+      nodeId: row.node_id,
+      type: row.type,
+      path: row.path,
+      bytes: row.bytes,
+      sha256: row.sha256,
+      createdAt: row.created_at,
+    };
+  }
+
   getArtifact(runId: string, nodeId: string): ArtifactRecord | null {
     const row = this.db
       .query(
         `SELECT id, run_id, node_id, type, path, bytes, sha256, created_at
-         FROM artifacts WHERE run_id = ? AND node_id = ? ORDER BY created_at DESC LIMIT 1`
+         FROM artifacts WHERE run_id = ? AND node_id = ?
+         ORDER BY (type IN ('log', 'tool', 'structured')) ASC, created_at DESC LIMIT 1`
       )
       .get(runId, nodeId) as any;
     if (!row) return null;
@@ -389,6 +514,40 @@ export class McpStore {
     };
   }
 
+  getModelPricing(modelId: string): ModelPricing | null {
+    const row = this.db
+      .query(
+        `SELECT model_id, prompt_per_1m, completion_per_1m, updated_at
+         FROM model_pricing WHERE model_id = ? LIMIT 1`
+      )
+      .get(modelId) as any;
+    if (!row) return null;
+    return {
+      modelId: row.model_id,
+      promptPer1m: Number(row.prompt_per_1m),
+      completionPer1m: Number(row.completion_per_1m),
+      updatedAt: row.updated_at,
+    };
+  }
+
+  upsertModelPricing(rows: Array<Omit<ModelPricing, "updatedAt">>): void {
+    const now = nowIso();
+    const upsert = this.db.query(
+      `INSERT INTO model_pricing (model_id, prompt_per_1m, completion_per_1m, updated_at)
+       VALUES (?, ?, ?, ?)
+       ON CONFLICT(model_id) DO UPDATE SET
+         prompt_per_1m = excluded.prompt_per_1m,
+         completion_per_1m = excluded.completion_per_1m,
+         updated_at = excluded.updated_at`
+    );
+    const tx = this.db.transaction(() => {
+      for (const row of rows) {
+        upsert.run(row.modelId, row.promptPer1m, row.completionPer1m, now);
+      }
+    });
+    tx();
+  }
+
   pingWritable(): boolean {
     try {
       this.db.exec(`
@@ -416,6 +575,7 @@ export class McpStore {
       paramsJson: row.params_json,
       status: row.status,
       error: row.error,
+      projectedCostUsd: row.projected_cost_usd == null ? null : Number(row.projected_cost_usd),
       createdAt: row.created_at,
       updatedAt: row.updated_at,
       startedAt: row.started_at,
@@ -432,6 +592,8 @@ export class McpStore {
       dependsOnJson: row.depends_on_json,
       task: row.task,
       model: row.model,
+      fallbackModelsJson: row.fallback_models_json ?? "[]",
+      outputSchemaJson: row.output_schema_json ?? null,
       prompt: row.prompt,
       metaJson: row.meta_json,
       status: row.status,
@@ -443,6 +605,7 @@ export class McpStore {
       tokensPrompt: row.tokens_prompt,
       tokensCompletion: row.tokens_completion,
       costUsd: Number(row.cost_usd ?? 0),
+      costSource: row.cost_source ?? null,
     };
   }
 }
@@ -4,6 +4,7 @@ import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js"
 import { loadConfig } from "./config.ts";
 import { McpStore } from "./db.ts";
 import { OpenRouterClient } from "./openrouter-client.ts";
+import { ProviderRouter } from "./providers/router.ts";
 import { RuntimeQueue } from "./runtime/queue.ts";
 import { SmartSpawnClient } from "./smart-spawn-client.ts";
 import { ArtifactStorage } from "./storage.ts";
@@ -11,13 +12,19 @@ import { registerToolHandlers } from "./tools.ts";
 
 async function main(): Promise<void> {
   const config = loadConfig();
+  if (!config.smartSpawnApiKey) {
+    // stdout carries the MCP protocol, so warnings go to stderr
+    console.error(
+      "[smart-spawn-mcp] SMART_SPAWN_API_KEY is not set: node speed samples and health reports will not be recorded by the API"
+    );
+  }
 
   mkdirSync(config.homeDir, { recursive: true });
   const store = new McpStore(config.dbPath);
   const storage = new ArtifactStorage(config.homeDir, config.artifactsDir);
-  const smartSpawn = new SmartSpawnClient(config.smartSpawnApiUrl);
-  const openRouter = new OpenRouterClient(config.openRouterApiKey);
-  const runtime = new RuntimeQueue(config, store, storage, smartSpawn, openRouter);
+  const smartSpawn = new SmartSpawnClient(config.smartSpawnApiUrl, config.smartSpawnApiKey);
+  const backend = new ProviderRouter(config.providers, new OpenRouterClient(config.openRouterApiKey));
+  const runtime = new RuntimeQueue(config, store, storage, smartSpawn, backend);
   await runtime.start();
 
   const server = new Server(
@@ -1,9 +1,8 @@
-import type { OpenRouterExecutionResult } from "./types.ts";
+import { DEFAULT_MAX_TOKENS, type ChatCompletionInput, type ChatMessage } from "./providers/backend.ts";
+import { OpenAICompatibleClient, toOpenAIMessages, toOpenAIToolFields } from "./providers/openai-compatible.ts";
 
-export interface OpenRouterMessage {
-  role: "system" | "user" | "assistant";
-  content: string;
-}
+export { DEFAULT_MAX_TOKENS };
+export type OpenRouterMessage = ChatMessage;
 
 export function buildOpenRouterHeaders(apiKey: string): Record<string, string> {
   return {
@@ -14,72 +13,34 @@ export function buildOpenRouterHeaders(apiKey: string): Record<string, string> {
   };
 }
 
-export class OpenRouterClient {
+export class OpenRouterClient extends OpenAICompatibleClient {
   constructor(
     private readonly apiKey: string,
-    private readonly baseUrl = "https://openrouter.ai/api/v1"
-  ) {}
+    baseUrl = "https://openrouter.ai/api/v1"
+  ) {
+    super({ name: "OpenRouter", baseUrl, apiKey });
+  }
 
-  async chatCompletion(input: {
-    model: string;
-    messages: OpenRouterMessage[];
-    maxTokens?: number;
-    temperature?: number;
-    signal?: AbortSignal;
-  }): Promise<OpenRouterExecutionResult> {
+  protected override assertConfigured(): void {
     if (!this.apiKey) {
       throw new Error("OPENROUTER_API_KEY is required to execute runs");
     }
+  }
 
-    const model = input.model.replace(/^openrouter\//, "");
-    const res = await fetch(`${this.baseUrl}/chat/completions`, {
-      method: "POST",
-      headers: buildOpenRouterHeaders(this.apiKey),
-      signal: input.signal,
-      body: JSON.stringify({
-        model,
-        messages: input.messages,
-        max_tokens: input.maxTokens ?? 2000,
-        temperature: input.temperature ?? 0.2,
-      }),
-    });
-
-    const raw = await res.text();
-    const data = raw ? JSON.parse(raw) : {};
-
-    if (!res.ok) {
-      const msg = data?.error?.message ?? `OpenRouter error ${res.status}`;
-      throw new Error(String(msg));
-    }
-
-    const choice = data?.choices?.[0];
-    const content = this.flattenContent(choice?.message?.content);
-    const promptTokens = Number(data?.usage?.prompt_tokens ?? 0);
-    const completionTokens = Number(data?.usage?.completion_tokens ?? 0);
-    const totalTokens = Number(data?.usage?.total_tokens ?? promptTokens + completionTokens);
+  protected override headers(): Record<string, string> {
+    return buildOpenRouterHeaders(this.apiKey);
+  }
 
+  protected override buildBody(input: ChatCompletionInput): Record<string, unknown> {
     return {
-      text: content,
-      promptTokens,
-      completionTokens,
-      totalTokens,
+      model: input.model.replace(/^openrouter\//, ""),
+      messages: toOpenAIMessages(input.messages),
+      max_tokens: input.maxTokens ?? DEFAULT_MAX_TOKENS,
+      temperature: input.temperature ?? 0.2,
+      ...toOpenAIToolFields(input),
+      ...(input.responseFormat === "json" ? { response_format: { type: "json_object" } } : {}),
+      usage: { include: true },
+      ...(input.onDelta ? { stream: true } : {}),
     };
   }
-
-  private flattenContent(content: unknown): string {
-    if (typeof content === "string") return content;
-    if (Array.isArray(content)) {
-      return content
-        .map((part) => {
-          if (typeof part === "string") return part;
-          if (part && typeof part === "object" && "text" in part) {
-            return String((part as any).text ?? "");
-          }
-          return "";
-        })
-        .join("\n")
-        .trim();
-    }
-    return "";
-  }
 }
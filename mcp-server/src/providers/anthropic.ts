@@ -0,0 +1,212 @@
+import type { OpenRouterExecutionResult, ToolCall } from "../types.ts";
+import {
+  DEFAULT_MAX_TOKENS,
+  flattenContent,
+  readSseData,
+  type ChatBackend,
+  type ChatCompletionInput,
+  type ChatMessage,
+} from "./backend.ts";
+
+const ANTHROPIC_VERSION = "2023-06-01";
+
+/**
+ * Catalog ids whose Messages API name isn't the dashed form: the 3.x models put
+ * the version before the family and only exist as dated ids or "-latest" aliases.
+ */
+const ANTHROPIC_MODEL_IDS: Record<string, string> = {
+  "claude-3-haiku": "claude-3-haiku-20240307",
+  "claude-3-opus": "claude-3-opus-latest",
+  "claude-3.5-haiku": "claude-3-5-haiku-latest",
+  "claude-3.5-sonnet": "claude-3-5-sonnet-latest",
+  "claude-3.7-sonnet": "claude-3-7-sonnet-latest",
+  "claude-sonnet-4": "claude-sonnet-4-0",
+  "claude-opus-4": "claude-opus-4-0",
+};
+
+/** Catalog ids use dotted versions ("claude-opus-4.1"); the Messages API uses dashes ("claude-opus-4-1"). */
+export function toAnthropicModelId(model: string): string {
+  const id = model.replace(/^anthropic\//, "");
+  return ANTHROPIC_MODEL_IDS[id] ?? id.replace(/(\d)\.(\d)/g, "$1-$2");
+}
+
+function parseArguments(raw: string): unknown {
+  try {
+    return JSON.parse(raw || "{}");
+  } catch {
+    return {};
+  }
+}
+
+/**
+ * Messages API turns: tool calls become `tool_use` blocks and tool results are sent
+ * back as `tool_result` blocks, grouped into a single user turn.
+ */
+export function toAnthropicMessages(messages: ChatMessage[]): Array<{ role: "user" | "assistant"; content: unknown }> {
+  const out: Array<{ role: "user" | "assistant"; content: unknown }> = [];
+  for (const message of messages) {
+    if (message.role === "system") continue;
+    if (message.role === "tool") {
+      const block = { type: "tool_result", tool_use_id: message.toolCallId, content: message.content };
+      const previous = out[out.length - 1];
+      if (previous?.role === "user" && Array.isArray(previous.content)) {
+        previous.content.push(block);
+      } else {
+        out.push({ role: "user", content: [block] });
+      }
+      continue;
+    }
+    if (message.role === "assistant" && message.toolCalls?.length) {
+      out.push({
+        role: "assistant",
+        content: [
+          ...(message.content ? [{ type: "text", text: message.content }] : []),
+          ...message.toolCalls.map((call) => ({
+            type: "tool_use",
+            id: call.id,
+            name: call.name,
+            input: parseArguments(call.arguments),
+          })),
+        ],
+      });
+      continue;
+    }
+    out.push({ role: message.role, content: message.content });
+  }
+  return out;
+}
+
+function parseToolUse(content: unknown): ToolCall[] {
+  if (!Array.isArray(content)) return [];
+  return content
+    .filter((block: any) => block?.type === "tool_use" && block.id && block.name)
+    .map((block: any) => ({ id: String(block.id), name: String(block.name), arguments: JSON.stringify(block.input ?? {}) }));
+}
+
+/** Direct client for Anthropic's Messages API. */
+export class AnthropicClient implements ChatBackend {
+  constructor(
+    private readonly apiKey: string,
+    private readonly baseUrl = "https://api.anthropic.com"
+  ) {}
+
+  async chatCompletion(input: ChatCompletionInput): Promise<OpenRouterExecutionResult> {
+    if (!this.apiKey) {
+      throw new Error("ANTHROPIC_API_KEY is required for anthropic models");
+    }
+
+    // The Messages API takes system prompts as a top-level field, not a message role.
+    const system = input.messages.filter((m) => m.role === "system").map((m) => m.content).join("\n\n");
+    const res = await fetch(`${this.baseUrl.replace(/\/$/, "")}/v1/messages`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        "x-api-key": this.apiKey,
+        "anthropic-version": ANTHROPIC_VERSION,
+      },
+      signal: input.signal,
+      body: JSON.stringify({
+        model: toAnthropicModelId(input.model),
+        max_tokens: input.maxTokens ?? DEFAULT_MAX_TOKENS,
+        temperature: input.temperature ?? 0.2,
+        messages: toAnthropicMessages(input.messages),
+        ...(system ? { system } : {}),
+        ...(input.tools?.length
+          ? {
+              tools: input.tools.map((tool) => ({
+                name: tool.name,
+                description: tool.description,
+                input_schema: tool.parameters,
+              })),
+              tool_choice: { type: input.toolChoice ?? "auto" },
+            }
+          : {}),
+        ...(input.onDelta ? { stream: true } : {}),
+      }),
+    });
+
+    if (!res.ok || !input.onDelta) {
+      const raw = await res.text();
+      const data = raw ? JSON.parse(raw) : {};
+
+      if (!res.ok) {
+        const msg = data?.error?.message ?? "request failed";
+        throw new Error(`Anthropic error ${res.status}: ${String(msg)}`);
+      }
+
+      const textBlocks = Array.isArray(data?.content) ? data.content.filter((block: any) => block?.type === "text") : [];
+      return toResult(
+        flattenContent(textBlocks),
+        data?.usage?.input_tokens,
+        data?.usage?.output_tokens,
+        parseToolUse(data?.content)
+      );
+    }
+
+    let text = "";
+    let promptTokens = 0;
+    let completionTokens = 0;
+    const toolCalls: Array<ToolCall | undefined> = [];
+    for await (const payload of readSseData(res)) {
+      let event: any;
+      try {
+        event = JSON.parse(payload);
+      } catch {
+        continue;
+      }
+
+      if (event?.type === "error") {
+        throw new Error(`Anthropic error ${event.error?.type ?? "stream"}: ${String(event.error?.message ?? "stream error")}`);
+      }
+      if (event?.type === "message_start") {
+        promptTokens = Number(event.message?.usage?.input_tokens ?? 0);
+        completionTokens = Number(event.message?.usage?.output_tokens ?? 0);
+      }
+      if (event?.type === "content_block_delta" && event.delta?.type === "text_delta") {
+        const delta = String(event.delta.text ?? "");
+        if (delta) {
+          text += delta;
+          input.onDelta(delta);
+        }
+      }
+      if (event?.type === "content_block_start" && event.content_block?.type === "tool_use") {
+        toolCalls[Number(event.index ?? 0)] = {
+          id: String(event.content_block.id ?? ""),
+          name: String(event.content_block.name ?? ""),
+          arguments: "",
+        };
+      }
+      if (event?.type === "content_block_delta" && event.delta?.type === "input_json_delta") {
+        const call = toolCalls[Number(event.index ?? 0)];
+        if (call) call.arguments += String(event.delta.partial_json ?? "");
+      }
+      if (event?.type === "message_delta" && event.usage?.output_tokens != null) {
+        completionTokens = Number(event.usage.output_tokens);
+      }
+    }
+
+    const calls = toolCalls
+      .filter((call): call is ToolCall => Boolean(call?.id && call.name))
+      .map((call) => ({ ...call, arguments: call.arguments || "{}" }));
+    return toResult(text, promptTokens, completionTokens, calls);
+  }
+}
+
+function toResult(
+  text: string,
+  inputTokens: unknown,
+  outputTokens: unknown,
+  toolCalls: ToolCall[] = []
+): OpenRouterExecutionResult {
+  const promptTokens = Number(inputTokens ?? 0);
+  const completionTokens = Number(outputTokens ?? 0);
+  // Anthropic does not report a price; the executor falls back to catalog pricing.
+  return {
+    text,
+    promptTokens,
+    completionTokens,
+    totalTokens: promptTokens + completionTokens,
+    costUsd: null,
+    ...(toolCalls.length > 0 ? { toolCalls } : {}),
+  };
+}
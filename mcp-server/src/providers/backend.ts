@@ -0,0 +1,82 @@
+import type { OpenRouterExecutionResult, ToolCall } from "../types.ts";
+
+export const DEFAULT_MAX_TOKENS = 2000;
+
+export interface ChatMessage {
+  role: "system" | "user" | "assistant" | "tool";
+  content: string;
+  /** Assistant turns that requested tools. */
+  toolCalls?: ToolCall[];
+  /** Tool turns: the call this message answers. */
+  toolCallId?: string;
+}
+
+/** A function the model may call; `parameters` is a JSON Schema object. */
+export interface ToolDefinition {
+  name: string;
+  description: string;
+  parameters: Record<string, unknown>;
+}
+
+export interface ChatCompletionInput {
+  model: string;
+  messages: ChatMessage[];
+  maxTokens?: number;
+  temperature?: number;
+  signal?: AbortSignal;
+  onDelta?: (delta: string) => void;
+  tools?: ToolDefinition[];
+  /** "none" keeps the tool definitions visible but forces a plain answer. */
+  toolChoice?: "auto" | "none";
+  /** "json" asks for JSON mode on backends that support it; others rely on the prompt. */
+  responseFormat?: "json";
+}
+
+/** Anything that can run a chat completion: OpenRouter, a direct provider, or the router over them. */
+export interface ChatBackend {
+  chatCompletion(input: ChatCompletionInput): Promise<OpenRouterExecutionResult>;
+}
+
+export function flattenContent(content: unknown): string {
+  if (typeof content === "string") return content;
+  if (Array.isArray(content)) {
+    return content
+      .map((part) => {
+        if (typeof part === "string") return part;
+        if (part && typeof part === "object" && "text" in part) {
+          return String((part as any).text ?? "");
+        }
+        return "";
+      })
+      .join("\n")
+      .trim();
+  }
+  return "";
+}
+
+/** Yields the payload of each `data:` line in a server-sent event stream. */
+export async function* readSseData(res: Response): AsyncGenerator<string> {
+  if (!res.body) throw new Error("Provider returned an empty stream");
+
+  const reader = res.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    buffer += decoder.decode(value, { stream: true });
+
+    let newline = buffer.indexOf("\n");
+    while (newline >= 0) {
+      const line = buffer.slice(0, newline).trim();
+      buffer = buffer.slice(newline + 1);
+      newline = buffer.indexOf("\n");
+
+      // SSE comments (": OPENROUTER PROCESSING"), event names and blank keep-alives carry no data.
+      if (!line.startsWith("data:")) continue;
+      const payload = line.slice(5).trim();
+      if (payload) yield payload;
+    }
+  }
+}
@@ -0,0 +1,178 @@
+import type { OpenRouterExecutionResult, ToolCall } from "../types.ts";
+import {
+  DEFAULT_MAX_TOKENS,
+  flattenContent,
+  readSseData,
+  type ChatBackend,
+  type ChatCompletionInput,
+  type ChatMessage,
+} from "./backend.ts";
+
+/** Chat Completions wire format for messages, including tool turns. */
+export function toOpenAIMessages(messages: ChatMessage[]): Array<Record<string, unknown>> {
+  return messages.map((message) => {
+    if (message.role === "tool") {
+      return { role: "tool", tool_call_id: message.toolCallId, content: message.content };
+    }
+    if (message.role === "assistant" && message.toolCalls?.length) {
+      return {
+        role: "assistant",
+        content: message.content || null,
+        tool_calls: message.toolCalls.map((call) => ({
+          id: call.id,
+          type: "function",
+          function: { name: call.name, arguments: call.arguments },
+        })),
+      };
+    }
+    return { role: message.role, content: message.content };
+  });
+}
+
+/** `tools` / `tool_choice` body fields, or nothing when the request offers no tools. */
+export function toOpenAIToolFields(input: ChatCompletionInput): Record<string, unknown> {
+  if (!input.tools?.length) return {};
+  return {
+    tools: input.tools.map((tool) => ({
+      type: "function",
+      function: { name: tool.name, description: tool.description, parameters: tool.parameters },
+    })),
+    tool_choice: input.toolChoice ?? "auto",
+  };
+}
+
+function parseToolCalls(raw: unknown): ToolCall[] {
+  if (!Array.isArray(raw)) return [];
+  return raw
+    .map((call: any) => ({
+      id: String(call?.id ?? ""),
+      name: String(call?.function?.name ?? ""),
+      arguments: String(call?.function?.arguments ?? "{}"),
+    }))
+    .filter((call) => call.id && call.name);
+}
+
+export interface OpenAICompatibleOptions {
+  /** Used in error messages, e.g. "OpenAI error 404: ...". */
+  name: string;
+  baseUrl: string;
+  apiKey?: string;
+}
+
+/**
+ * Chat Completions client for OpenAI and compatible servers (vLLM, Ollama's /v1,
+ * LM Studio, ...). OpenRouter specialises it with its own headers and usage accounting.
+ */
+export class OpenAICompatibleClient implements ChatBackend {
+  constructor(protected readonly options: OpenAICompatibleOptions) {}
+
+  async chatCompletion(input: ChatCompletionInput): Promise<OpenRouterExecutionResult> {
+    this.assertConfigured();
+
+    const res = await fetch(`${this.options.baseUrl.replace(/\/$/, "")}/chat/completions`, {
+      method: "POST",
+      headers: this.headers(),
+      signal: input.signal,
+      body: JSON.stringify(this.buildBody(input)),
+    });
+
+    if (!res.ok || !input.onDelta) {
+      const raw = await res.text();
+      const data = raw ? JSON.parse(raw) : {};
+
+      if (!res.ok) {
+        // Keep the status in the message so the executor can classify retries and model fallbacks.
+        const msg = data?.error?.message ?? "request failed";
+        throw new Error(`${this.options.name} error ${res.status}: ${String(msg)}`);
+      }
+
+      const choice = data?.choices?.[0];
+      return this.toExecutionResult(
+        flattenContent(choice?.message?.content),
+        data?.usage,
+        parseToolCalls(choice?.message?.tool_calls)
+      );
+    }
+
+    return this.readStream(res, input.onDelta);
+  }
+
+  protected assertConfigured(): void {}
+
+  protected headers(): Record<string, string> {
+    return {
+      "Content-Type": "application/json",
+      ...(this.options.apiKey ? { Authorization: `Bearer ${this.options.apiKey}` } : {}),
+    };
+  }
+
+  protected buildBody(input: ChatCompletionInput): Record<string, unknown> {
+    return {
+      model: input.model,
+      messages: toOpenAIMessages(input.messages),
+      max_tokens: input.maxTokens ?? DEFAULT_MAX_TOKENS,
+      temperature: input.temperature ?? 0.2,
+      ...toOpenAIToolFields(input),
+      ...(input.responseFormat === "json" ? { response_format: { type: "json_object" } } : {}),
+      ...(input.onDelta ? { stream: true, stream_options: { include_usage: true } } : {}),
+    };
+  }
+
+  private async readStream(res: Response, onDelta: (delta: string) => void): Promise<OpenRouterExecutionResult> {
+    let text = "";
+    let usage: unknown = null;
+    // Tool calls arrive as fragments keyed by index; arguments are concatenated across chunks.
+    const toolCalls: Array<{ id: string; type: string; function: { name: string; arguments: string } }> = [];
+
+    for await (const payload of readSseData(res)) {
+      if (payload === "[DONE]") continue;
+
+      let chunk: any;
+      try {
+        chunk = JSON.parse(payload);
+      } catch {
+        continue;
+      }
+      if (chunk?.error) {
+        const code = chunk.error.code ? `${this.options.name} error ${chunk.error.code}: ` : "";
+        throw new Error(`${code}${String(chunk.error.message ?? `${this.options.name} stream error`)}`);
+      }
+
+      const delta = flattenContent(chunk?.choices?.[0]?.delta?.content);
+      if (delta) {
+        text += delta;
+        onDelta(delta);
+      }
+      for (const fragment of chunk?.choices?.[0]?.delta?.tool_calls ?? []) {
+        const index = Number(fragment?.index ?? 0);
+        const call = (toolCalls[index] ??= { id: "", type: "function", function: { name: "", arguments: "" } });
+        if (fragment?.id) call.id = String(fragment.id);
+        if (fragment?.function?.name) call.function.name += String(fragment.function.name);
+        if (fragment?.function?.arguments) call.function.arguments += String(fragment.function.arguments);
+      }
+      if (chunk?.usage) usage = chunk.usage;
+    }
+
+    return this.toExecutionResult(text, usage, parseToolCalls(toolCalls.filter(Boolean)));
+  }
+
+  private toExecutionResult(text: string, usage: any, toolCalls: ToolCall[]): OpenRouterExecutionResult {
+    const promptTokens = Number(usage?.prompt_tokens ?? 0);
+    const completionTokens = Number(usage?.completion_tokens ?? 0);
+    const totalTokens = Number(usage?.total_tokens ?? promptTokens + completionTokens);
+    const reasoningTokens = Number(usage?.completion_tokens_details?.reasoning_tokens ?? 0);
+    // OpenRouter reports the billed amount in USD when usage accounting is requested.
+    const reportedCost = Number(usage?.cost);
+    const costUsd = usage?.cost != null && Number.isFinite(reportedCost) ? reportedCost : null;
+
+    return {
+      text,
+      promptTokens,
+      completionTokens,
+      totalTokens,
+      ...(reasoningTokens > 0 ? { reasoningTokens } : {}),
+      costUsd,
+      ...(toolCalls.length > 0 ? { toolCalls } : {}),
+    };
+  }
+}
@@ -0,0 +1,55 @@
+import type { ProviderConfig } from "../config.ts";
+import type { OpenRouterExecutionResult } from "../types.ts";
+import { AnthropicClient } from "./anthropic.ts";
+import type { ChatBackend, ChatCompletionInput } from "./backend.ts";
+import { OpenAICompatibleClient } from "./openai-compatible.ts";
+
+interface Route {
+  prefix: string;
+  provider: string;
+  backend: ChatBackend;
+}
+
+export function createProviderBackend(provider: ProviderConfig): ChatBackend {
+  switch (provider.kind) {
+    case "anthropic":
+      return new AnthropicClient(provider.apiKey, provider.baseUrl);
+    case "openai":
+    default:
+      return new OpenAICompatibleClient({ name: provider.name, baseUrl: provider.baseUrl, apiKey: provider.apiKey });
+  }
+}
+
+/**
+ * Sends each completion to the backend whose model prefix matches (longest prefix
+ * wins), with the prefix stripped, and everything else to OpenRouter unchanged.
+ * Pricing and fallbacks keep using the full catalog id.
+ */
+export class ProviderRouter implements ChatBackend {
+  private readonly routes: Route[];
+
+  constructor(
+    providers: ProviderConfig[],
+    private readonly openRouter: ChatBackend,
+    createBackend: (provider: ProviderConfig) => ChatBackend = createProviderBackend
+  ) {
+    this.routes = providers
+      .flatMap((provider) => {
+        const backend = createBackend(provider);
+        return provider.prefixes.map((prefix) => ({ prefix, provider: provider.name, backend }));
+      })
+      .sort((a, b) => b.prefix.length - a.prefix.length);
+  }
+
+  resolve(model: string): { provider: string; model: string; backend: ChatBackend } {
+    // An explicit openrouter/ prefix always goes through OpenRouter.
+    const route = model.startsWith("openrouter/") ? undefined : this.routes.find((r) => model.startsWith(r.prefix));
+    if (!route) return { provider: "openrouter", model, backend: this.openRouter };
+    return { provider: route.provider, model: model.slice(route.prefix.length), backend: route.backend };
+  }
+
+  async chatCompletion(input: ChatCompletionInput): Promise<OpenRouterExecutionResult> {
+    const { model, backend } = this.resolve(input.model);
+    return backend.chatCompletion({ ...input, model });
+  }
+}
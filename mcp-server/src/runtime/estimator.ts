@@ -0,0 +1,152 @@
+import { DEFAULT_MAX_TOKENS } from "../providers/backend.ts";
+import type { Budget, NodeCostEstimate, NodeToolsConfig, PlannedNode, PlannedRun, RunCostEstimate } from "../types.ts";
+import { DEFAULT_MAX_TOOL_TURNS, MAX_TOOL_TURNS, TOOL_OUTPUT_CHARS } from "./node-tools.ts";
+import { calcCostUsd, type PricingResolver, type ResolvedPricing } from "./pricing.ts";
+import { JUDGE_MAX_TOKENS, JUDGE_OUTPUT_CHARS } from "./quality-gate.ts";
+
+// Rough tokenizer-agnostic ratio; good enough for an upper-bound projection.
+const CHARS_PER_TOKEN = 4;
+
+// Executor truncation limits for context pulled from parent artifacts.
+export const DEPENDENCY_CONTEXT_CHARS = 6000;
+export const MERGE_INPUT_CHARS = 10000;
+
+// Merge instructions wrapped around the inputs (see RunExecutor.executeMergeNode).
+const MERGE_OVERHEAD_CHARS = 400;
+
+// Rubric and instructions in the judge prompt (see buildJudgePrompt).
+const JUDGE_OVERHEAD_CHARS = 800;
+
+// Raw artifacts wrap the output in a JSON envelope (ids, tokens, cost).
+const ARTIFACT_ENVELOPE_CHARS = 500;
+
+// Completion size of a turn that only requests tools (call names and arguments).
+const TOOL_TURN_COMPLETION_TOKENS = 300;
+
+const CHEAPER_BUDGET: Record<Budget, Budget | null> = {
+  any: "medium",
+  high: "medium",
+  medium: "low",
+  low: null,
+};
+
+export function estimateTokens(text: string): number {
+  return tokensForChars(text.length);
+}
+
+export function tokensForChars(chars: number): number {
+  return Math.ceil(chars / CHARS_PER_TOKEN);
+}
+
+/** Next budget tier to try when a plan is projected over the run cap, or null at the floor. */
+export function nextCheaperBudget(budget: Budget): Budget | null {
+  return CHEAPER_BUDGET[budget];
+}
+
+function estimatePromptTokens(node: PlannedNode, maxCompletionTokens: number): number {
+  const parentOutputChars = maxCompletionTokens * CHARS_PER_TOKEN + ARTIFACT_ENVELOPE_CHARS;
+
+  if (node.kind === "merge") {
+    const perInput = Math.min(MERGE_INPUT_CHARS, parentOutputChars);
+    const chars = node.task.length + MERGE_OVERHEAD_CHARS + node.dependsOn.length * perInput;
+    return Math.ceil(chars / CHARS_PER_TOKEN);
+  }
+
+  const perDependency = Math.min(DEPENDENCY_CONTEXT_CHARS, parentOutputChars);
+  return estimateTokens(node.prompt) + Math.ceil((node.dependsOn.length * perDependency) / CHARS_PER_TOKEN);
+}
+
+/** A conditional cascade node gated by an LLM judge adds one judge call before it runs. */
+function judgeCallFor(node: PlannedNode): { model: string } | null {
+  const gate = node.meta?.qualityGate as { strategy?: string; judgeModel?: string } | undefined;
+  if (gate?.strategy !== "judge") return null;
+  return { model: gate.judgeModel ?? node.model };
+}
+
+/** A node may finish on any model of its fallback chain, so it's priced as the dearest of them. */
+async function worstCasePricing(
+  node: PlannedNode,
+  pricing: PricingResolver,
+  promptTokens: number,
+  completionTokens: number
+): Promise<ResolvedPricing & { model: string }> {
+  let worst = { ...(await pricing.resolve(node.model)), model: node.model };
+  for (const model of node.fallbackModels ?? []) {
+    const price = await pricing.resolve(model);
+    if (calcCostUsd(price, promptTokens, completionTokens) > calcCostUsd(worst, promptTokens, completionTokens)) {
+      worst = { ...price, model };
+    }
+  }
+  return worst;
+}
+
+/**
+ * Tool nodes resend the growing conversation every turn: each tool turn adds its call
+ * and a full-size tool result, and the final turn carries the whole history.
+ */
+function toolLoopTokens(
+  node: PlannedNode,
+  basePromptTokens: number,
+  maxCompletionTokens: number
+): { promptTokens: number; completionTokens: number } | null {
+  const tools = node.meta?.tools as NodeToolsConfig | undefined;
+  if (!tools?.enabled?.length) return null;
+  const turns = Math.min(MAX_TOOL_TURNS, Math.max(1, tools.maxTurns ?? DEFAULT_MAX_TOOL_TURNS));
+  const perTurnGrowth = tokensForChars(TOOL_OUTPUT_CHARS) + TOOL_TURN_COMPLETION_TOKENS;
+
+  let promptTokens = 0;
+  for (let turn = 0; turn <= turns; turn += 1) {
+    promptTokens += basePromptTokens + turn * perTurnGrowth;
+  }
+  return { promptTokens, completionTokens: turns * TOOL_TURN_COMPLETION_TOKENS + maxCompletionTokens };
+}
+
+/**
+ * Project the worst-case cost of a plan: prompt size from the composed prompt plus
+ * dependency context, completion at the request's max tokens, priced at the dearest
+ * model of each node's fallback chain.
+ * Judge-gated cascade nodes include the judge call and tool nodes every loop turn. Annotates each planned node
+ * (and the plan) with its projected cost.
+ */
+export async function estimatePlanCost(
+  plan: PlannedRun,
+  pricing: PricingResolver,
+  maxCompletionTokens = DEFAULT_MAX_TOKENS
+): Promise<RunCostEstimate> {
+  const nodes: NodeCostEstimate[] = [];
+
+  for (const node of plan.nodes) {
+    const basePromptTokens = estimatePromptTokens(node, maxCompletionTokens);
+    const loop = toolLoopTokens(node, basePromptTokens, maxCompletionTokens);
+    let promptTokens = loop?.promptTokens ?? basePromptTokens;
+    let completionTokens = loop?.completionTokens ?? maxCompletionTokens;
+    const price = await worstCasePricing(node, pricing, promptTokens, completionTokens);
+    let costUsd = calcCostUsd(price, promptTokens, completionTokens);
+
+    const judge = judgeCallFor(node);
+    if (judge) {
+      const judgePromptTokens = tokensForChars(
+        node.task.length + JUDGE_OVERHEAD_CHARS + Math.min(JUDGE_OUTPUT_CHARS, maxCompletionTokens * CHARS_PER_TOKEN)
+      );
+      promptTokens += judgePromptTokens;
+      completionTokens += JUDGE_MAX_TOKENS;
+      costUsd += calcCostUsd(await pricing.resolve(judge.model), judgePromptTokens, JUDGE_MAX_TOKENS);
+    }
+
+    node.projectedCostUsd = costUsd;
+    nodes.push({
+      nodeId: node.id,
+      kind: node.kind,
+      model: node.model,
+      promptTokens,
+      completionTokens,
+      costUsd,
+      pricingSource: price.source,
+      ...(price.model !== node.model ? { pricedAs: price.model } : {}),
+    });
+  }
+
+  const totalUsd = nodes.reduce((sum, n) => sum + n.costUsd, 0);
+  plan.projectedCostUsd = totalUsd;
+  return { totalUsd, nodes };
+}
@@ -1,10 +1,33 @@
 import type { McpConfig } from "../config.ts";
 import { McpStore } from "../db.ts";
-import { OpenRouterClient } from "../openrouter-client.ts";
+import type { ChatBackend, ChatCompletionInput, ChatMessage } from "../providers/backend.ts";
 import { ArtifactStorage } from "../storage.ts";
-import type { NodeRecord, RunRecord } from "../types.ts";
-
-function parseDependsOn(raw: string): string[] {
+import type {
+  HealthErrorKind,
+  JsonSchema,
+  NodeHealthReport,
+  NodeProgressEvent,
+  NodeRecord,
+  NodeToolsConfig,
+  OpenRouterExecutionResult,
+  QualityGateConfig,
+  QualityVerdict,
+  RunRecord,
+  SpawnUsageReport,
+} from "../types.ts";
+import { DEPENDENCY_CONTEXT_CHARS, MERGE_INPUT_CHARS } from "./estimator.ts";
+import { DEFAULT_MAX_TOOL_TURNS, MAX_TOOL_TURNS, NodeToolbox, ensureWorkspace } from "./node-tools.ts";
+import {
+  MAX_CONTRACT_REPAIRS,
+  buildContractInstructions,
+  buildRepairPrompt,
+  checkOutputContract,
+} from "./output-contract.ts";
+import type { PricingResolver, ResolvedCost } from "./pricing.ts";
+import { createQualityGate } from "./quality-gate.ts";
+import { NodeOutputStream } from "./streaming.ts";
+
+function parseStringList(raw: string): string[] {
   try {
     const parsed = JSON.parse(raw);
     return Array.isArray(parsed) ? parsed.map((x) => String(x)) : [];
@@ -22,22 +45,78 @@ function parseMeta(raw: string): Record<string, unknown> {
   }
 }
 
+function parseOutputSchema(node: NodeRecord): JsonSchema | null {
+  if (!node.outputSchemaJson) return null;
+  try {
+    const parsed = JSON.parse(node.outputSchemaJson);
+    return parsed && typeof parsed === "object" && !Array.isArray(parsed) ? (parsed as JsonSchema) : null;
+  } catch {
+    return null;
+  }
+}
+
 function truncate(text: string, max = 6000): string {
   if (text.length <= max) return text;
   return `${text.slice(0, max)}\n\n[truncated ${text.length - max} chars]`;
 }
 
+// Errors that retrying the same model cannot fix: the model is gone or the prompt does not fit it.
+const MODEL_ERROR_PATTERNS = [
+  /\b404\b/,
+  /model not found/,
+  /no endpoints found/,
+  /not a valid model/,
+  /context[ _]length/,
+  /maximum context/,
+  /context window/,
+  /too many tokens/,
+];
+
+export function isModelUnavailableError(errorMessage: string): boolean {
+  const lower = errorMessage.toLowerCase();
+  return MODEL_ERROR_PATTERNS.some((pattern) => pattern.test(lower));
+}
+
 function shouldRetry(errorMessage: string): boolean {
   const lower = errorMessage.toLowerCase();
   return lower.includes("429") || lower.includes("timeout") || lower.includes("temporarily") || lower.includes("5");
 }
 
-function calcCostUsd(model: string, promptTokens: number, completionTokens: number): number {
-  void model;
-  // Conservative default estimate when exact model pricing is unknown.
-  const promptPer1m = 1;
-  const completionPer1m = 3;
-  return (promptTokens / 1_000_000) * promptPer1m + (completionTokens / 1_000_000) * completionPer1m;
+/**
+ * HTTP status and failure class of a failed call, for health reports. Backends
+ * keep the status in the message (`<backend> error 429: ...`).
+ */
+export function classifyNodeError(errorMessage: string): { status?: number; kind: HealthErrorKind } {
+  const lower = errorMessage.toLowerCase();
+  const match = /\berror (\d{3})\b/.exec(lower);
+  const status = match ? Number(match[1]) : undefined;
+  if (status === 429 || /rate.?limit|too many requests/.test(lower)) return { status, kind: "rate_limit" };
+  if ((status !== undefined && status >= 500) || /overloaded|temporarily unavailable|bad gateway/.test(lower)) {
+    return { status, kind: "server_error" };
+  }
+  if (/timed? ?out|timeout/.test(lower)) return { status, kind: "timeout" };
+  return { status, kind: "client_error" };
+}
+
+/** A node's final answer, plus the validated object when it has an output schema. */
+type NodeCompletion = OpenRouterExecutionResult & { structured?: unknown; repairs?: number };
+
+/** Timing of one streamed model call: request to first delta, and request to the end. */
+interface CallTiming {
+  ttfbMs?: number;
+  durationMs: number;
+}
+
+/** Usage of two calls on the same node; a call without a reported price leaves the total to be priced from tokens. */
+function sumUsage(total: OpenRouterExecutionResult, next: OpenRouterExecutionResult): OpenRouterExecutionResult {
+  return {
+    ...total,
+    promptTokens: total.promptTokens + next.promptTokens,
+    completionTokens: total.completionTokens + next.completionTokens,
+    totalTokens: total.totalTokens + next.totalTokens,
+    reasoningTokens: (total.reasoningTokens ?? 0) + (next.reasoningTokens ?? 0) || undefined,
+    costUsd: total.costUsd != null && next.costUsd != null ? total.costUsd + next.costUsd : null,
+  };
 }
 
 function elapsedSeconds(startedAt: string): number {
@@ -58,7 +137,11 @@ export class RunExecutor {
     private readonly config: McpConfig,
     private readonly store: McpStore,
     private readonly storage: ArtifactStorage,
-    private readonly openRouter: OpenRouterClient
+    private readonly backend: ChatBackend,
+    private readonly pricing: PricingResolver,
+    private readonly onProgress: (event: NodeProgressEvent) => void = () => {},
+    private readonly reportUsage: (report: SpawnUsageReport) => Promise<void> = async () => {},
+    private readonly reportHealth: (report: NodeHealthReport) => Promise<void> = async () => {}
   ) {}
 
   async processRun(run: RunRecord): Promise<void> {
@@ -117,16 +200,24 @@ export class RunExecutor {
         continue;
       }
 
-      const ready = nodeRows.filter((node) => {
-        if (node.status !== "queued") return false;
-        const deps = parseDependsOn(node.dependsOnJson);
-        return deps.every((depId) => {
-          const dep = findNode(nodeRows, depId);
-          return dep && (dep.status === "completed" || dep.status === "skipped");
-        });
-      });
+      const ready = nodeRows
+        .filter((node) => {
+          if (node.status !== "queued") return false;
+          const deps = parseStringList(node.dependsOnJson);
+          return deps.every((depId) => {
+            const dep = findNode(nodeRows, depId);
+            return dep && (dep.status === "completed" || dep.status === "skipped");
+          });
+        })
+        // Earlier waves unblock more of the DAG, so they get free slots first.
+        .sort((a, b) => a.wave - b.wave);
 
       if (ready.length === 0) {
+        // Nothing running and the remaining nodes wait on a failed one: stop here so the run can be resumed.
+        if (runningNodes.length === 0 && failedNodes.length > 0) {
+          this.failRun(run.id, `${failedNodes.length} node(s) failed`);
+          return;
+        }
         await Bun.sleep(200);
         continue;
       }
@@ -143,30 +234,53 @@ export class RunExecutor {
       return;
     }
 
-    if (await this.shouldSkipCascadePremium(runId, node)) {
-      this.store.markNodeSkipped(node.id, "Cascade cheap output passed quality gate");
+    const verdict = await this.evaluateCascadeGate(runId, node);
+    if (verdict?.passed) {
+      this.store.markNodeSkipped(
+        node.id,
+        `Cascade cheap output passed ${verdict.strategy} quality gate (score ${verdict.score.toFixed(2)})`
+      );
       this.store.addEvent(runId, "info", `Skipped premium cascade node ${node.id}`, node.id);
       return;
     }
 
     this.store.startNode(node.id);
     this.store.addEvent(runId, "info", `Executing node ${node.id} on ${node.model}`, node.id);
+    const stream = this.openStream(runId, node);
+    const startedMs = Date.now();
 
     try {
       const dependencyContext = await this.buildDependencyContext(runId, node);
-      const prompt = dependencyContext
-        ? `${node.prompt}\n\n## Dependency context\n${dependencyContext}`
-        : node.prompt;
-
-      const result = await this.runWithNodeTimeout(node.id, (signal) =>
-        this.openRouter.chatCompletion({
-          model: node.model,
-          messages: [{ role: "user", content: prompt }],
-          signal,
-        })
-      );
+      const schema = parseOutputSchema(node);
+      const prompt = [
+        node.prompt,
+        dependencyContext ? `## Dependency context\n${dependencyContext}` : "",
+        schema ? buildContractInstructions(schema) : "",
+      ]
+        .filter(Boolean)
+        .join("\n\n");
+
+      const tools = parseMeta(node.metaJson).tools as NodeToolsConfig | undefined;
+      // Only a plain single call says how fast the model is; tool loops and repairs add other time
+      let timing: CallTiming | undefined;
+      const { structured, repairs, ...result } = await this.runWithNodeTimeout(node.id, async (signal): Promise<NodeCompletion> => {
+        let first: OpenRouterExecutionResult;
+        if (tools?.enabled?.length) {
+          first = await this.runToolLoop(runId, node, prompt, tools, stream, signal);
+        } else {
+          const timed = await this.timedCompletion({
+            model: node.model,
+            messages: [{ role: "user", content: prompt }],
+            signal,
+            responseFormat: this.responseFormatFor(node),
+          }, stream);
+          first = timed.result;
+          timing = timed.timing;
+        }
+        return schema ? this.enforceOutputContract(runId, node, prompt, first, schema, signal) : first;
+      });
 
-      const costUsd = calcCostUsd(node.model, result.promptTokens, result.completionTokens);
+      const cost = await this.pricing.costFor(node.model, result);
       const artifactPayload = JSON.stringify(
         {
           runId,
@@ -179,7 +293,9 @@ export class RunExecutor {
             completion: result.completionTokens,
             total: result.totalTokens,
           },
-          costUsd,
+          costUsd: cost.costUsd,
+          costSource: cost.source,
+          ...(result.toolCalls ? { toolCalls: result.toolCalls.length } : {}),
           finishedAt: new Date().toISOString(),
         },
         null,
@@ -196,7 +312,13 @@ export class RunExecutor {
         sha256: file.sha256,
         createdAt: new Date().toISOString(),
       });
-      this.store.markNodeCompleted(node.id, result.promptTokens, result.completionTokens, costUsd);
+      if (structured !== undefined) await this.writeStructuredArtifact(runId, node.id, structured);
+      this.store.markNodeCompleted(node.id, result.promptTokens, result.completionTokens, cost.costUsd, cost.source);
+      await stream.close();
+      this.emitNodeDone(runId, node, "completed", result.text.length);
+      const latencyMs = Date.now() - startedMs;
+      this.reportNodeUsage(runId, node, result, cost, latencyMs, repairs ? undefined : timing);
+      this.reportNodeHealth(node, latencyMs);
 
       const runCost = this.store.getRunCost(runId);
       if (shouldStopForBudget({ spentUsd: runCost.usdEstimate, maxUsd: this.config.maxUsdPerRun })) {
@@ -205,52 +327,66 @@ export class RunExecutor {
       }
     } catch (error) {
       const message = error instanceof Error ? error.message : String(error);
-      if (node.retryCount < node.maxRetries && shouldRetry(message)) {
+      this.reportNodeHealth(node, Date.now() - startedMs, message);
+      if (this.switchToFallback(runId, node, message)) {
+        await stream.close();
+      } else if (node.retryCount < node.maxRetries && shouldRetry(message)) {
         this.store.incrementNodeRetry(node.id, message);
         this.store.addEvent(runId, "warn", `Retrying node ${node.id}: ${message}`, node.id);
         await Bun.sleep(300 * (node.retryCount + 1));
       } else {
         this.store.markNodeFailed(node.id, message);
         this.store.addEvent(runId, "error", `Node failed: ${message}`, node.id);
+        await stream.close();
+        this.emitNodeDone(runId, node, "failed", stream.outputChars);
       }
+    } finally {
+      await stream.close();
     }
   }
 
   private async executeMergeNode(runId: string, node: NodeRecord): Promise<void> {
     this.store.startNode(node.id);
+    const stream = this.openStream(runId, node);
+    const startedMs = Date.now();
 
     try {
       const inputs = [];
-      for (const parentId of parseDependsOn(node.dependsOnJson)) {
-        const artifact = this.store.getArtifact(runId, parentId);
-        if (!artifact) continue;
-        const raw = await this.storage.readArtifact(artifact.path);
-        inputs.push({ nodeId: parentId, payload: raw });
+      for (const parentId of parseStringList(node.dependsOnJson)) {
+        const payload = await this.readDependencyPayload(runId, parentId);
+        if (payload === null) continue;
+        inputs.push({ nodeId: parentId, payload });
       }
 
       const meta = parseMeta(node.metaJson);
       const style = String(meta.mergeStyle ?? "detailed");
+      const schema = parseOutputSchema(node);
       const mergePrompt = [
         `You are merging outputs from multiple sub-agents for task: ${node.task}`,
         `Output style: ${style}.`,
         "Produce one final answer, remove conflicts, and include the strongest concrete recommendations.",
         "Inputs:",
-        ...inputs.map((item, idx) => `### Input ${idx + 1} (${item.nodeId})\n${truncate(item.payload, 10000)}`),
+        ...inputs.map((item, idx) => `### Input ${idx + 1} (${item.nodeId})\n${truncate(item.payload, MERGE_INPUT_CHARS)}`),
+        ...(schema ? [buildContractInstructions(schema)] : []),
       ].join("\n\n");
 
-      const result = await this.runWithNodeTimeout(node.id, (signal) =>
-        this.openRouter.chatCompletion({
+      let timing: CallTiming | undefined;
+      const { structured, repairs, ...result } = await this.runWithNodeTimeout(node.id, async (signal): Promise<NodeCompletion> => {
+        const timed = await this.timedCompletion({
           model: node.model,
           messages: [{ role: "user", content: mergePrompt }],
           signal,
-        })
-      );
-      const costUsd = calcCostUsd(node.model, result.promptTokens, result.completionTokens);
+          responseFormat: this.responseFormatFor(node),
+        }, stream);
+        timing = timed.timing;
+        return schema ? this.enforceOutputContract(runId, node, mergePrompt, timed.result, schema, signal) : timed.result;
+      });
+      const cost = await this.pricing.costFor(node.model, result);
 
       const mergedContent = [
         `# Merged Output`,
         "",
-        result.text.trim(),
+        structured !== undefined ? JSON.stringify(structured, null, 2) : result.text.trim(),
       ].join("\n");
 
       const file = await this.storage.writeArtifact(runId, "merged", "merged", mergedContent, "md");
@@ -263,51 +399,360 @@ export class RunExecutor {
         sha256: file.sha256,
         createdAt: new Date().toISOString(),
       });
-      this.store.markNodeCompleted(node.id, result.promptTokens, result.completionTokens, costUsd);
+      if (structured !== undefined) await this.writeStructuredArtifact(runId, "merged", structured);
+      this.store.markNodeCompleted(node.id, result.promptTokens, result.completionTokens, cost.costUsd, cost.source);
+      await stream.close();
+      this.emitNodeDone(runId, node, "completed", result.text.length);
+      const latencyMs = Date.now() - startedMs;
+      this.reportNodeUsage(runId, node, result, cost, latencyMs, repairs ? undefined : timing);
+      this.reportNodeHealth(node, latencyMs);
     } catch (error) {
       const message = error instanceof Error ? error.message : String(error);
+      this.reportNodeHealth(node, Date.now() - startedMs, message);
+      if (this.switchToFallback(runId, node, message)) return;
       this.store.markNodeFailed(node.id, message);
       this.store.addEvent(runId, "error", `Merge node failed: ${message}`, node.id);
+      await stream.close();
+      this.emitNodeDone(runId, node, "failed", stream.outputChars);
+    } finally {
+      await stream.close();
+    }
+  }
+
+  /** One model call streamed into the node's output, timed from the request to its first delta and to its end. */
+  private async timedCompletion(
+    input: Omit<ChatCompletionInput, "onDelta">,
+    stream: NodeOutputStream
+  ): Promise<{ result: OpenRouterExecutionResult; timing: CallTiming }> {
+    const startedMs = Date.now();
+    let ttfbMs: number | undefined;
+    const result = await this.backend.chatCompletion({
+      ...input,
+      onDelta: (delta) => {
+        ttfbMs ??= Date.now() - startedMs;
+        stream.push(delta);
+      },
+    });
+    return { result, timing: { ...(ttfbMs !== undefined ? { ttfbMs } : {}), durationMs: Date.now() - startedMs } };
+  }
+
+  /**
+   * Bounded multi-turn loop for nodes that declared tools. Every call is recorded as a
+   * `tool` artifact; once `maxTurns` is spent the model must answer without tools.
+   * Returns the final answer with usage summed over all turns.
+   */
+  private async runToolLoop(
+    runId: string,
+    node: NodeRecord,
+    prompt: string,
+    tools: NodeToolsConfig,
+    stream: NodeOutputStream,
+    signal: AbortSignal
+  ): Promise<OpenRouterExecutionResult> {
+    const allowedCommands = tools.allowedCommands
+      ? this.config.allowedCommands.filter((cmd) => tools.allowedCommands!.includes(cmd))
+      : this.config.allowedCommands;
+    const toolbox = new NodeToolbox({
+      workspaceDir: await ensureWorkspace(this.config.homeDir, this.config.workspaceDir, runId),
+      enabled: tools.enabled,
+      allowedCommands,
+      timeoutSeconds: this.config.toolTimeoutSeconds,
+      readArtifact: (nodeId) => this.readNodeOutput(runId, nodeId),
+    });
+    const maxTurns = Math.min(MAX_TOOL_TURNS, Math.max(1, tools.maxTurns ?? DEFAULT_MAX_TOOL_TURNS));
+
+    const messages: ChatMessage[] = [{ role: "user", content: prompt }];
+    let total: OpenRouterExecutionResult = { text: "", promptTokens: 0, completionTokens: 0, totalTokens: 0, costUsd: 0 };
+    const calls: NonNullable<OpenRouterExecutionResult["toolCalls"]> = [];
+
+    for (let turn = 1; ; turn += 1) {
+      const lastTurn = turn > maxTurns;
+      const result = await this.backend.chatCompletion({
+        model: node.model,
+        messages,
+        signal,
+        tools: toolbox.definitions,
+        toolChoice: lastTurn ? "none" : "auto",
+      });
+      total = sumUsage(total, result);
+      if (result.text) stream.push(result.text);
+
+      if (lastTurn || !result.toolCalls?.length) {
+        total.text = result.text;
+        break;
+      }
+
+      messages.push({ role: "assistant", content: result.text, toolCalls: result.toolCalls });
+      for (const call of result.toolCalls) {
+        const startedAt = Date.now();
+        const outcome = await toolbox.execute(call, signal);
+        calls.push(call);
+        stream.push(`\n[tool ${call.name}${outcome.ok ? "" : " failed"}]\n`);
+        messages.push({ role: "tool", toolCallId: call.id, content: outcome.output });
+
+        const payload = JSON.stringify(
+          {
+            runId,
+            nodeId: node.id,
+            turn,
+            tool: call.name,
+            arguments: call.arguments,
+            ok: outcome.ok,
+            output: outcome.output,
+            durationMs: Date.now() - startedAt,
+          },
+          null,
+          2
+        );
+        const file = await this.storage.writeArtifact(runId, `${node.id}.tool-${calls.length}`, "tool", payload, "json");
+        this.store.createArtifact({
+          runId,
+          nodeId: node.id,
+          type: "tool",
+          path: file.relativePath,
+          bytes: file.bytes,
+          sha256: file.sha256,
+          createdAt: new Date().toISOString(),
+        });
+      }
     }
+
+    return { ...total, toolCalls: calls };
+  }
+
+  /**
+   * Validates the answer against the node's output schema, re-prompting with the
+   * violations up to MAX_CONTRACT_REPAIRS times. Throws when the answer still fails.
+   */
+  private async enforceOutputContract(
+    runId: string,
+    node: NodeRecord,
+    prompt: string,
+    first: OpenRouterExecutionResult,
+    schema: JsonSchema,
+    signal: AbortSignal
+  ): Promise<NodeCompletion> {
+    let total = first;
+    let answer = first.text;
+    for (let attempt = 0; ; attempt += 1) {
+      const check = checkOutputContract(answer, schema);
+      if (check.ok) return { ...total, text: answer, structured: check.value, repairs: attempt };
+      if (attempt >= MAX_CONTRACT_REPAIRS) {
+        throw new Error(`Output violates schema after ${MAX_CONTRACT_REPAIRS} repair attempt(s): ${check.errors.join("; ")}`);
+      }
+
+      this.store.addEvent(runId, "warn", `Node ${node.id} output violates schema, re-prompting: ${check.errors[0]}`, node.id);
+      const repair = await this.backend.chatCompletion({
+        model: node.model,
+        messages: [
+          { role: "user", content: prompt },
+          { role: "assistant", content: answer },
+          { role: "user", content: buildRepairPrompt(check.errors) },
+        ],
+        signal,
+        responseFormat: this.responseFormatFor(node),
+      });
+      total = sumUsage(total, repair);
+      answer = repair.text;
+    }
+  }
+
+  private responseFormatFor(node: NodeRecord): "json" | undefined {
+    const jsonModels = parseMeta(node.metaJson).jsonModeModels;
+    return Array.isArray(jsonModels) && jsonModels.includes(node.model) ? "json" : undefined;
+  }
+
+  private async writeStructuredArtifact(runId: string, nodeId: string, value: unknown): Promise<void> {
+    const file = await this.storage.writeArtifact(runId, `${nodeId}.structured`, "structured", JSON.stringify(value, null, 2), "json");
+    this.store.createArtifact({
+      runId,
+      nodeId,
+      type: "structured",
+      path: file.relativePath,
+      bytes: file.bytes,
+      sha256: file.sha256,
+      createdAt: new Date().toISOString(),
+    });
+  }
+
+  /** What downstream nodes see of a parent: its validated object when it has one, else its raw artifact. */
+  private async readDependencyPayload(runId: string, nodeId: string): Promise<string | null> {
+    const artifact =
+      this.store.getArtifactOfType(runId, nodeId, "structured") ?? this.store.getArtifact(runId, nodeId);
+    return artifact ? this.storage.readArtifact(artifact.path) : null;
+  }
+
+  /** Output of a sibling node for `get_artifact`; accepts planner ids or run-scoped ids. */
+  private async readNodeOutput(runId: string, nodeId: string): Promise<string | null> {
+    const scopedId = nodeId.startsWith(`${runId}:`) ? nodeId : `${runId}:${nodeId}`;
+    const artifact = this.store.getArtifact(runId, scopedId);
+    if (!artifact || artifact.type !== "raw") return null;
+    const raw = await this.storage.readArtifact(artifact.path);
+    try {
+      return String(JSON.parse(raw)?.output ?? raw);
+    } catch {
+      return raw;
+    }
+  }
+
+  /** On a model error, re-queue the node on its next fallback model. Returns false when none is left. */
+  private switchToFallback(runId: string, node: NodeRecord, message: string): boolean {
+    if (!isModelUnavailableError(message)) return false;
+    const [next, ...rest] = parseStringList(node.fallbackModelsJson);
+    if (!next) return false;
+    this.store.switchNodeModel(node.id, next, rest, message);
+    this.store.addEvent(runId, "warn", `Switching node ${node.id} from ${node.model} to ${next}: ${message}`, node.id);
+    return true;
+  }
+
+  private openStream(runId: string, node: NodeRecord): NodeOutputStream {
+    this.onProgress({ runId, nodeId: node.id, model: node.model, status: "running", outputChars: 0 });
+    return new NodeOutputStream(this.storage, this.store, runId, node.id, node.model, this.onProgress);
+  }
+
+  private emitNodeDone(runId: string, node: NodeRecord, status: "completed" | "failed", outputChars: number): void {
+    this.onProgress({ runId, nodeId: node.id, model: node.model, status, outputChars });
+  }
+
+  /**
+   * Report a completed node's actual usage to the Smart Spawn API. Fire-and-forget:
+   * the run never waits on it, and a failed report is only a warning event.
+   * `timing` (a single streamed call) adds a speed sample; without it only usage is sent.
+   */
+  private reportNodeUsage(
+    runId: string,
+    node: NodeRecord,
+    result: OpenRouterExecutionResult,
+    cost: ResolvedCost,
+    latencyMs: number,
+    timing?: CallTiming
+  ): void {
+    const run = this.store.getRun(runId);
+    if (!run) return;
+    const meta = parseMeta(node.metaJson);
+    const role = node.kind === "merge"
+      ? "merge"
+      : meta.mode === "cascade"
+        ? `cascade_${String(meta.tier ?? "cheap")}`
+        : meta.mode === "collective"
+          ? "collective_worker"
+          : "primary";
+    const reasoningTokens = Math.min(result.reasoningTokens ?? 0, result.completionTokens);
+    const project = parseMeta(run.paramsJson).project;
+
+    const report: SpawnUsageReport = {
+      model: node.model,
+      task: node.task,
+      budget: run.budget,
+      mode: run.mode,
+      role,
+      ...(run.context ? { context: run.context } : {}),
+      ...(typeof project === "string" ? { project } : {}),
+      promptTokens: result.promptTokens,
+      // Providers count reasoning inside completion tokens; the API wants them apart.
+      completionTokens: result.completionTokens - reasoningTokens,
+      ...(reasoningTokens > 0 ? { reasoningTokens } : {}),
+      latencyMs,
+      // Only a billed amount is worth reporting; the API prices everything else itself.
+      ...(cost.source === "openrouter_usage" ? { costUsd: cost.costUsd } : {}),
+      // Throughput counts every generated token, reasoning included
+      ...(timing ? { ...timing, outputTokens: result.completionTokens } : {}),
+    };
+    this.reportUsage(report).catch((error) => {
+      const message = error instanceof Error ? error.message : String(error);
+      this.store.addEvent(runId, "warn", `Usage report for node ${node.id} failed: ${message}`, node.id);
+    });
+  }
+
+  /** Report whether a node's model answered, with the failure's class when it didn't. Fire-and-forget, never an event. */
+  private reportNodeHealth(node: NodeRecord, latencyMs: number, errorMessage?: string): void {
+    const report: NodeHealthReport =
+      errorMessage === undefined
+        ? { model: node.model, ok: true, latencyMs }
+        : { model: node.model, ok: false, ...classifyNodeError(errorMessage), latencyMs, error: errorMessage.slice(0, 500) };
+    this.reportHealth(report).catch(() => {});
   }
 
   private async buildDependencyContext(runId: string, node: NodeRecord): Promise<string> {
-    const dependencyIds = parseDependsOn(node.dependsOnJson);
+    const dependencyIds = parseStringList(node.dependsOnJson);
     if (dependencyIds.length === 0) return "";
 
+    const edgeTypes = new Map<string, string>();
+    const edges = parseMeta(node.metaJson).edges;
+    if (Array.isArray(edges)) {
+      for (const edge of edges) {
+        // Planner ids are scoped to the run when nodes are stored (see McpStore.createNodes).
+        if (edge && typeof edge === "object") edgeTypes.set(`${runId}:${edge.from}`, String(edge.type));
+      }
+    }
+
     const chunks: string[] = [];
     for (const depId of dependencyIds) {
-      const artifact = this.store.getArtifact(runId, depId);
-      if (!artifact) continue;
-      const raw = await this.storage.readArtifact(artifact.path);
-      chunks.push(`## ${depId}\n${truncate(raw, 6000)}`);
+      const raw = await this.readDependencyPayload(runId, depId);
+      if (raw === null) continue;
+      const edgeType = edgeTypes.get(depId);
+      const heading = edgeType ? `## ${depId} (${edgeType} dependency)` : `## ${depId}`;
+      chunks.push(`${heading}\n${truncate(raw, DEPENDENCY_CONTEXT_CHARS)}`);
     }
     return chunks.join("\n\n");
   }
 
-  private async shouldSkipCascadePremium(runId: string, node: NodeRecord): Promise<boolean> {
+  /**
+   * Runs the premium node's quality gate against the cheap cascade output. The verdict
+   * is persisted in the premium node's meta so a retry does not re-judge.
+   */
+  private async evaluateCascadeGate(runId: string, node: NodeRecord): Promise<QualityVerdict | null> {
     const meta = parseMeta(node.metaJson);
-    if (meta.mode !== "cascade" || meta.tier !== "premium" || meta.conditional !== true) return false;
+    if (meta.mode !== "cascade" || meta.tier !== "premium" || meta.conditional !== true) return null;
+    if (meta.qualityVerdict && typeof meta.qualityVerdict === "object") {
+      return meta.qualityVerdict as QualityVerdict;
+    }
 
     const nodes = this.store.listNodes(runId);
     const cheap = nodes.find((n) => {
       const m = parseMeta(n.metaJson);
       return m.mode === "cascade" && m.tier === "cheap";
     });
-    if (!cheap || cheap.status !== "completed") return false;
+    if (!cheap || cheap.status !== "completed") return null;
 
     const artifact = this.store.getArtifact(runId, cheap.id);
-    if (!artifact) return false;
+    if (!artifact) return null;
 
+    let output: string;
     try {
       const raw = await this.storage.readArtifact(artifact.path);
-      const parsed = JSON.parse(raw);
-      const output = String(parsed?.output ?? "");
-      if (output.trim().length < 500) return false;
+      output = String(JSON.parse(raw)?.output ?? "");
     } catch {
-      return false;
+      return null;
     }
-    return true;
+
+    const gate = createQualityGate(meta.qualityGate as QualityGateConfig | undefined, {
+      backend: this.backend,
+      pricing: this.pricing,
+      defaultJudgeModel: node.model,
+    });
+    let verdict: QualityVerdict;
+    try {
+      verdict = await this.runWithNodeTimeout(node.id, (signal) =>
+        gate.evaluate({ task: node.task, output, model: cheap.model, signal })
+      );
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      verdict = { strategy: gate.strategy, passed: false, score: 0, reason: `quality gate error: ${message}` };
+    }
+
+    if (verdict.judge) {
+      // Judge spend is billed to the node it graded; the premium node's own usage is set on completion.
+      this.store.addNodeUsage(cheap.id, verdict.judge.promptTokens, verdict.judge.completionTokens, verdict.judge.costUsd);
+    }
+    this.store.updateNodeMeta(node.id, { ...meta, qualityVerdict: verdict });
+    this.store.addEvent(
+      runId,
+      "info",
+      `Quality gate (${verdict.strategy}) ${verdict.passed ? "passed" : "failed"} with score ${verdict.score.toFixed(2)}: ${verdict.reason}`,
+      node.id
+    );
+    return verdict;
   }
 
   private isRunTimedOut(run: RunRecord): boolean {
@@ -351,14 +796,15 @@ export class RunExecutor {
   }
 
   private async ensureMergedArtifact(runId: string): Promise<void> {
-    const existing = this.store.getArtifact(runId, "merged");
-    if (existing) return;
-
     const artifacts = this.store.listArtifacts(runId).filter((a) => a.type === "raw");
     if (artifacts.length === 0) return;
 
     const latest = artifacts[artifacts.length - 1];
     if (!latest) return;
+
+    // A resumed run may have produced newer raw output than the existing merge.
+    const existing = this.store.getArtifact(runId, "merged");
+    if (existing && existing.createdAt >= latest.createdAt) return;
     const raw = await this.storage.readArtifact(latest.path);
 
     let output = raw;
@@ -380,5 +826,11 @@ export class RunExecutor {
       sha256: file.sha256,
       createdAt: new Date().toISOString(),
     });
+
+    // Without a merge node the final node's validated object is the run's structured output.
+    const structured = this.store.getArtifactOfType(runId, latest.nodeId, "structured");
+    if (structured) {
+      await this.writeStructuredArtifact(runId, "merged", JSON.parse(await this.storage.readArtifact(structured.path)));
+    }
   }
 }
@@ -0,0 +1,231 @@
+import { mkdir, readdir, readFile, realpath, writeFile } from "node:fs/promises";
+import { dirname, isAbsolute, join, relative, resolve, sep } from "node:path";
+import type { ToolDefinition } from "../providers/backend.ts";
+import type { NodeToolName, ToolCall } from "../types.ts";
+
+export const NODE_TOOL_NAMES: NodeToolName[] = ["read_file", "write_file", "list_files", "run_command", "get_artifact"];
+
+export const DEFAULT_MAX_TOOL_TURNS = 6;
+export const MAX_TOOL_TURNS = 12;
+// Caps what a single tool result feeds back into the conversation.
+export const TOOL_OUTPUT_CHARS = 8000;
+const MAX_LIST_ENTRIES = 200;
+
+const TOOL_DEFINITIONS: Record<NodeToolName, ToolDefinition> = {
+  read_file: {
+    name: "read_file",
+    description: "Read a UTF-8 text file from the workspace.",
+    parameters: {
+      type: "object",
+      properties: { path: { type: "string", description: "Path relative to the workspace root." } },
+      required: ["path"],
+    },
+  },
+  write_file: {
+    name: "write_file",
+    description: "Create or overwrite a text file in the workspace. Parent directories are created.",
+    parameters: {
+      type: "object",
+      properties: {
+        path: { type: "string", description: "Path relative to the workspace root." },
+        content: { type: "string" },
+      },
+      required: ["path", "content"],
+    },
+  },
+  list_files: {
+    name: "list_files",
+    description: "List the entries of a workspace directory. Directories end with '/'.",
+    parameters: {
+      type: "object",
+      properties: { path: { type: "string", description: "Directory relative to the workspace root. Defaults to the root." } },
+    },
+  },
+  run_command: {
+    name: "run_command",
+    description: "Run an allowlisted executable in the workspace (no shell) and return its exit code and output.",
+    parameters: {
+      type: "object",
+      properties: {
+        command: { type: "string", description: "Executable name, e.g. 'bun' or 'git'." },
+        args: { type: "array", items: { type: "string" } },
+      },
+      required: ["command"],
+    },
+  },
+  get_artifact: {
+    name: "get_artifact",
+    description: "Fetch the output of another node in this run, by node id.",
+    parameters: {
+      type: "object",
+      properties: { node_id: { type: "string" } },
+      required: ["node_id"],
+    },
+  },
+};
+
+export function toolDefinitions(enabled: NodeToolName[]): ToolDefinition[] {
+  return enabled.map((name) => TOOL_DEFINITIONS[name]);
+}
+
+function isInside(root: string, target: string): boolean {
+  const rel = relative(root, target);
+  return rel === "" || (!rel.startsWith("..") && !isAbsolute(rel));
+}
+
+/**
+ * Resolves a model-supplied path inside the workspace. Symlinks are followed for the
+ * deepest existing ancestor so a link cannot point the node outside its sandbox.
+ */
+export async function resolveWorkspacePath(root: string, path: string): Promise<string> {
+  const realRoot = await realpath(root);
+  const target = resolve(realRoot, path || ".");
+  if (!isInside(realRoot, target)) throw new Error(`Path escapes the workspace: ${path}`);
+
+  let existing = target;
+  while (true) {
+    try {
+      existing = await realpath(existing);
+      break;
+    } catch {
+      const parent = dirname(existing);
+      if (parent === existing) break;
+      existing = parent;
+    }
+  }
+  if (!isInside(realRoot, existing)) throw new Error(`Path escapes the workspace: ${path}`);
+  return target;
+}
+
+function truncateOutput(text: string): string {
+  if (text.length <= TOOL_OUTPUT_CHARS) return text;
+  return `${text.slice(0, TOOL_OUTPUT_CHARS)}\n[truncated ${text.length - TOOL_OUTPUT_CHARS} chars]`;
+}
+
+export interface NodeToolboxOptions {
+  workspaceDir: string;
+  enabled: NodeToolName[];
+  allowedCommands: string[];
+  timeoutSeconds: number;
+  /** Returns a sibling node's output, or null when it has none yet. */
+  readArtifact: (nodeId: string) => Promise<string | null>;
+}
+
+export interface ToolResult {
+  ok: boolean;
+  output: string;
+}
+
+/**
+ * Executes the tools a node declared. Failures are returned to the model as text
+ * rather than thrown, so a bad path or command costs one turn, not the node.
+ */
+export class NodeToolbox {
+  constructor(private readonly options: NodeToolboxOptions) {}
+
+  get definitions(): ToolDefinition[] {
+    return toolDefinitions(this.options.enabled);
+  }
+
+  async execute(call: ToolCall, signal?: AbortSignal): Promise<ToolResult> {
+    try {
+      if (!this.options.enabled.includes(call.name as NodeToolName)) {
+        throw new Error(`Tool ${call.name} is not enabled for this node`);
+      }
+      let args: Record<string, unknown>;
+      try {
+        const parsed = JSON.parse(call.arguments || "{}");
+        args = parsed && typeof parsed === "object" ? parsed : {};
+      } catch {
+        throw new Error("Tool arguments must be a JSON object");
+      }
+      return { ok: true, output: truncateOutput(await this.dispatch(call.name as NodeToolName, args, signal)) };
+    } catch (error) {
+      return { ok: false, output: `Error: ${error instanceof Error ? error.message : String(error)}` };
+    }
+  }
+
+  private async dispatch(name: NodeToolName, args: Record<string, unknown>, signal?: AbortSignal): Promise<string> {
+    switch (name) {
+      case "read_file":
+        return readFile(await this.path(args.path), "utf-8");
+      case "write_file": {
+        const target = await this.path(args.path);
+        const content = String(args.content ?? "");
+        await mkdir(dirname(target), { recursive: true });
+        await writeFile(target, content, "utf-8");
+        return `Wrote ${Buffer.byteLength(content, "utf-8")} bytes to ${relative(await realpath(this.options.workspaceDir), target)}`;
+      }
+      case "list_files": {
+        const target = await this.path(args.path ?? ".");
+        const entries = await readdir(target, { withFileTypes: true });
+        const names = entries
+          .map((entry) => (entry.isDirectory() ? `${entry.name}/` : entry.name))
+          .sort()
+          .slice(0, MAX_LIST_ENTRIES);
+        return names.length > 0 ? names.join("\n") : "(empty directory)";
+      }
+      case "run_command":
+        return this.runCommand(args, signal);
+      case "get_artifact": {
+        const nodeId = String(args.node_id ?? "");
+        if (!nodeId) throw new Error("node_id is required");
+        const output = await this.options.readArtifact(nodeId);
+        if (output === null) throw new Error(`No output for node ${nodeId}`);
+        return output;
+      }
+    }
+  }
+
+  private async path(raw: unknown): Promise<string> {
+    if (typeof raw !== "string") throw new Error("path must be a string");
+    return resolveWorkspacePath(this.options.workspaceDir, raw);
+  }
+
+  private async runCommand(args: Record<string, unknown>, signal?: AbortSignal): Promise<string> {
+    const command = String(args.command ?? "");
+    // Bare names only: "./x" or "/usr/bin/x" would bypass the allowlist.
+    if (!command || command.includes("/") || command.includes(sep) || !this.options.allowedCommands.includes(command)) {
+      const allowed = this.options.allowedCommands.length ? this.options.allowedCommands.join(", ") : "none";
+      throw new Error(`Command not allowed: ${command || "(empty)"} (allowed: ${allowed})`);
+    }
+    const argv = Array.isArray(args.args) ? args.args.map((a) => String(a)) : [];
+
+    const proc = Bun.spawn([command, ...argv], {
+      cwd: this.options.workspaceDir,
+      env: { PATH: process.env.PATH ?? "", HOME: this.options.workspaceDir },
+      stdin: "ignore",
+      stdout: "pipe",
+      stderr: "pipe",
+    });
+    let timedOut = false;
+    const kill = () => proc.kill();
+    const timer = setTimeout(() => {
+      timedOut = true;
+      kill();
+    }, this.options.timeoutSeconds * 1000);
+    signal?.addEventListener("abort", kill, { once: true });
+
+    try {
+      const [stdout, stderr, exitCode] = await Promise.all([
+        new Response(proc.stdout).text(),
+        new Response(proc.stderr).text(),
+        proc.exited,
+      ]);
+      const status = timedOut ? `timed out after ${this.options.timeoutSeconds}s` : `exit code ${exitCode}`;
+      return [`$ ${[command, ...argv].join(" ")}`, status, stdout && `stdout:\n${stdout}`, stderr && `stderr:\n${stderr}`]
+        .filter(Boolean)
+        .join("\n");
+    } finally {
+      clearTimeout(timer);
+      signal?.removeEventListener("abort", kill);
+    }
+  }
+}
+
+/** Per-run workspace unless MCP_WORKSPACE_DIR shares one across runs. */
+export async function ensureWorkspace(homeDir: string, workspaceDir: string | null, runId: string): Promise<string> {
+  const dir = workspaceDir ?? join(homeDir, "workspaces", runId);
+  await mkdir(dir, { recursive: true });
+  return dir;
+}
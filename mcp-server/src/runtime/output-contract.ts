@@ -0,0 +1,116 @@
+import type { JsonSchema } from "../types.ts";
+import { stripCodeFence } from "./quality-gate.ts";
+
+// Re-prompts after the first answer before the node is failed.
+export const MAX_CONTRACT_REPAIRS = 2;
+const MAX_REPORTED_VIOLATIONS = 10;
+
+function typeOf(value: unknown): string {
+  if (value === null) return "null";
+  if (Array.isArray(value)) return "array";
+  if (typeof value === "number" && Number.isInteger(value)) return "integer";
+  return typeof value;
+}
+
+function matchesType(value: unknown, expected: string): boolean {
+  const actual = typeOf(value);
+  if (expected === "number") return actual === "number" || actual === "integer";
+  return actual === expected;
+}
+
+/**
+ * Validates `value` against the commonly used subset of JSON Schema: type, enum,
+ * const, properties/required/additionalProperties, items, anyOf/oneOf and the
+ * length, size and range bounds. Returns one message per violation.
+ */
+export function validateJsonSchema(value: unknown, schema: JsonSchema, path = "$"): string[] {
+  const errors: string[] = [];
+  const s = schema as Record<string, any>;
+
+  if (s.type !== undefined) {
+    const types: string[] = Array.isArray(s.type) ? s.type : [s.type];
+    if (!types.some((t) => matchesType(value, t))) {
+      return [`${path}: expected ${types.join("|")}, got ${typeOf(value)}`];
+    }
+  }
+  if (Array.isArray(s.enum) && !s.enum.some((option: unknown) => JSON.stringify(option) === JSON.stringify(value))) {
+    errors.push(`${path}: must be one of ${s.enum.map((o: unknown) => JSON.stringify(o)).join(", ")}`);
+  }
+  if ("const" in s && JSON.stringify(s.const) !== JSON.stringify(value)) {
+    errors.push(`${path}: must equal ${JSON.stringify(s.const)}`);
+  }
+
+  if (Array.isArray(s.anyOf) && !s.anyOf.some((sub: JsonSchema) => validateJsonSchema(value, sub, path).length === 0)) {
+    errors.push(`${path}: does not match any allowed schema`);
+  }
+  if (Array.isArray(s.oneOf)) {
+    const matches = s.oneOf.filter((sub: JsonSchema) => validateJsonSchema(value, sub, path).length === 0).length;
+    if (matches !== 1) errors.push(`${path}: must match exactly one schema (matched ${matches})`);
+  }
+
+  if (typeof value === "string") {
+    if (typeof s.minLength === "number" && value.length < s.minLength) errors.push(`${path}: shorter than ${s.minLength} chars`);
+    if (typeof s.maxLength === "number" && value.length > s.maxLength) errors.push(`${path}: longer than ${s.maxLength} chars`);
+  }
+  if (typeof value === "number") {
+    if (typeof s.minimum === "number" && value < s.minimum) errors.push(`${path}: below minimum ${s.minimum}`);
+    if (typeof s.maximum === "number" && value > s.maximum) errors.push(`${path}: above maximum ${s.maximum}`);
+  }
+
+  if (Array.isArray(value)) {
+    if (typeof s.minItems === "number" && value.length < s.minItems) errors.push(`${path}: fewer than ${s.minItems} items`);
+    if (typeof s.maxItems === "number" && value.length > s.maxItems) errors.push(`${path}: more than ${s.maxItems} items`);
+    if (s.items && typeof s.items === "object") {
+      value.forEach((item, idx) => errors.push(...validateJsonSchema(item, s.items, `${path}[${idx}]`)));
+    }
+  }
+
+  if (typeOf(value) === "object") {
+    const obj = value as Record<string, unknown>;
+    const properties: Record<string, JsonSchema> = s.properties && typeof s.properties === "object" ? s.properties : {};
+    for (const key of Array.isArray(s.required) ? s.required : []) {
+      if (!(key in obj)) errors.push(`${path}: missing required property "${key}"`);
+    }
+    for (const [key, child] of Object.entries(obj)) {
+      if (properties[key]) {
+        errors.push(...validateJsonSchema(child, properties[key]!, `${path}.${key}`));
+      } else if (s.additionalProperties === false) {
+        errors.push(`${path}: unexpected property "${key}"`);
+      } else if (s.additionalProperties && typeof s.additionalProperties === "object") {
+        errors.push(...validateJsonSchema(child, s.additionalProperties, `${path}.${key}`));
+      }
+    }
+  }
+
+  return errors;
+}
+
+export type ContractResult = { ok: true; value: unknown } | { ok: false; errors: string[] };
+
+/** Parses a model answer (optionally fenced) as JSON and validates it against the schema. */
+export function checkOutputContract(text: string, schema: JsonSchema): ContractResult {
+  let value: unknown;
+  try {
+    value = JSON.parse(stripCodeFence(text));
+  } catch (error) {
+    return { ok: false, errors: [`not valid JSON: ${error instanceof Error ? error.message : String(error)}`] };
+  }
+  const errors = validateJsonSchema(value, schema);
+  return errors.length === 0 ? { ok: true, value } : { ok: false, errors: errors.slice(0, MAX_REPORTED_VIOLATIONS) };
+}
+
+export function buildContractInstructions(schema: JsonSchema): string {
+  return [
+    "## Output format",
+    "Respond with a single JSON value and nothing else (no prose, no code fence). It must validate against this JSON Schema:",
+    JSON.stringify(schema, null, 2),
+  ].join("\n");
+}
+
+export function buildRepairPrompt(errors: string[]): string {
+  return [
+    "Your answer does not satisfy the required JSON Schema:",
+    ...errors.map((e) => `- ${e}`),
+    "Reply with the corrected JSON only.",
+  ].join("\n");
+}
@@ -1,11 +1,16 @@
 import { randomUUID } from "node:crypto";
-import type { RunCreateInput, PlannedRun, PlannedNode } from "../types.ts";
+import type { DependencyEdge, RunCreateInput, PlannedRun, PlannedNode } from "../types.ts";
 import { SmartSpawnClient } from "../smart-spawn-client.ts";
 
 function makeNodeId(prefix: string): string {
   return `${prefix}-${randomUUID().slice(0, 8)}`;
 }
 
+// Width cap passed to the server's /swarm wave computation.
+const SWARM_MAX_PARALLEL = 5;
+
+const MAX_FALLBACK_MODELS = 2;
+
 function fallbackModel(): string {
   return "openai/gpt-4o-mini";
 }
@@ -55,6 +60,102 @@ export async function buildRunPlan(
   input: RunCreateInput,
   smartSpawn: SmartSpawnClient
 ): Promise<PlannedRun> {
+  const plan = await buildModePlan(input, smartSpawn);
+  await attachFallbackModels(plan, input, smartSpawn);
+  const capabilities = await loadModelCapabilities(input, smartSpawn);
+  attachNodeTools(plan, input, capabilities);
+  attachOutputContract(plan, input, capabilities);
+  return plan;
+}
+
+type ModelCapabilities = Map<string, { functionCalling: boolean; json: boolean }>;
+
+/** Catalog capabilities, fetched only when a run asks for tools or structured output. */
+async function loadModelCapabilities(input: RunCreateInput, smartSpawn: SmartSpawnClient): Promise<ModelCapabilities> {
+  if (!input.tools?.enabled.length && !input.outputSchema) return new Map();
+  try {
+    const models = await smartSpawn.listModelCapabilities();
+    return new Map(models.map((m) => [m.modelId, { functionCalling: m.functionCalling, json: m.json }]));
+  } catch {
+    // catalog unavailable: capabilities unknown
+    return new Map();
+  }
+}
+
+/**
+ * Hand the run's tool set to every task node whose model supports function calling.
+ * Models missing from the catalog (direct or local backends) are given the benefit
+ * of the doubt; catalog models without the capability run as plain completions.
+ */
+function attachNodeTools(plan: PlannedRun, input: RunCreateInput, capabilities: ModelCapabilities): void {
+  if (!input.tools?.enabled.length) return;
+  const canCallTools = (model: string) => capabilities.get(model)?.functionCalling !== false;
+
+  for (const node of plan.nodes) {
+    if (node.kind !== "task") continue;
+    if (!canCallTools(node.model)) {
+      node.meta = { ...node.meta, toolsSkipped: `${node.model} does not support function calling` };
+      continue;
+    }
+    node.meta = { ...node.meta, tools: input.tools };
+    // A fallback must be able to carry on with the same tools.
+    if (node.fallbackModels) node.fallbackModels = node.fallbackModels.filter(canCallTools);
+  }
+}
+
+/**
+ * The run's output schema applies to whatever produces the final answer: the merge
+ * node, or the leaf task nodes of a plan without one. Models with the catalog `json`
+ * capability are listed so the executor can request JSON mode for them.
+ */
+function attachOutputContract(plan: PlannedRun, input: RunCreateInput, capabilities: ModelCapabilities): void {
+  if (input.outputSchema) {
+    const merges = plan.nodes.filter((n) => n.kind === "merge");
+    const targets =
+      merges.length > 0 ? merges : plan.nodes.filter((n) => !plan.nodes.some((other) => other.dependsOn.includes(n.id)));
+    for (const node of targets) node.outputSchema ??= input.outputSchema;
+  }
+
+  for (const node of plan.nodes) {
+    if (!node.outputSchema) continue;
+    const models = [node.model, ...(node.fallbackModels ?? [])];
+    node.meta = { ...node.meta, jsonModeModels: models.filter((m) => capabilities.get(m)?.json === true) };
+  }
+}
+
+/**
+ * Give every node an ordered fallback chain: the next /recommend candidates for the
+ * run's task (already within its budget tier), then the static fallbacks that fit the
+ * tier, excluding the node's own model. The estimator prices the chain's worst case.
+ */
+async function attachFallbackModels(
+  plan: PlannedRun,
+  input: RunCreateInput,
+  smartSpawn: SmartSpawnClient
+): Promise<void> {
+  let candidates: string[] = [];
+  try {
+    const recommended = await smartSpawn.recommend({
+      task: input.task,
+      budget: input.budget,
+      count: MAX_FALLBACK_MODELS + 2,
+      context: input.context,
+      project: input.project,
+    });
+    candidates = recommended.map((r) => r.modelId);
+  } catch {
+    // static fallbacks only
+  }
+  const staticFallbacks = input.budget === "low" ? [fallbackModel()] : [fallbackModel(), fallbackPremiumModel()];
+  candidates = [...new Set([...candidates, ...staticFallbacks])];
+
+  for (const node of plan.nodes) {
+    if (node.fallbackModels) continue;
+    node.fallbackModels = candidates.filter((m) => m !== node.model).slice(0, MAX_FALLBACK_MODELS);
+  }
+}
+
+async function buildModePlan(input: RunCreateInput, smartSpawn: SmartSpawnClient): Promise<PlannedRun> {
   switch (input.mode) {
     case "single":
       return buildSinglePlan(input, smartSpawn);
@@ -83,6 +184,7 @@ export async function buildSinglePlan(
         task: input.task,
         budget: input.budget,
         context: input.context,
+        project: input.project,
       });
     } catch {
       planningSource = "fallback";
@@ -132,6 +234,7 @@ async function buildCollectivePlan(
       budget: input.budget,
       count,
       context: input.context,
+      project: input.project,
     });
   } catch {
     planningSource = "fallback";
@@ -195,12 +298,14 @@ async function buildCascadePlan(
       task: input.task,
       budget: "low",
       context: input.context,
+      project: input.project,
     });
 
     premium = await smartSpawn.pick({
       task: input.task,
       budget: input.budget === "high" ? "high" : "medium",
       context: input.context,
+      project: input.project,
       exclude: [cheap.modelId],
     });
   } catch {
@@ -240,7 +345,18 @@ async function buildCascadePlan(
     task: input.task,
     model: premium.modelId,
     prompt,
-    meta: { mode: "cascade", tier: "premium", reason: premium.reason, conditional: true, planningSource },
+    meta: {
+      mode: "cascade",
+      tier: "premium",
+      reason: premium.reason,
+      conditional: true,
+      // The premium pick judges the cheap output unless the caller named a judge
+      qualityGate:
+        input.qualityGate?.strategy === "judge"
+          ? { ...input.qualityGate, judgeModel: input.qualityGate.judgeModel ?? premium.modelId }
+          : input.qualityGate ?? { strategy: "length" },
+      planningSource,
+    },
   };
 
   const mergeNode: PlannedNode = {
@@ -260,10 +376,87 @@ async function buildCascadePlan(
   };
 }
 
+/** Incoming typed edges per node, keeping only edges between planned nodes. */
+function incomingEdges(edges: DependencyEdge[], nodeIds: Set<string>): Map<string, Array<Omit<DependencyEdge, "to">>> {
+  const byNode = new Map<string, Array<Omit<DependencyEdge, "to">>>();
+  for (const edge of edges) {
+    if (!nodeIds.has(edge.from) || !nodeIds.has(edge.to)) continue;
+    const list = byNode.get(edge.to) ?? [];
+    list.push({ from: edge.from, type: edge.type });
+    byNode.set(edge.to, list);
+  }
+  return byNode;
+}
+
+/**
+ * Plan-mode variant backed by the server's /swarm DAG: steps only depend on what
+ * their phase/artifact/temporal edges require, so independent steps share a wave.
+ * Returns null when the task does not decompose, so callers fall back to a chain.
+ */
+async function buildDagPlan(input: RunCreateInput, smartSpawn: SmartSpawnClient): Promise<PlannedRun | null> {
+  let result: Awaited<ReturnType<SmartSpawnClient["swarm"]>>;
+  try {
+    result = await smartSpawn.swarm({
+      task: input.task,
+      budget: input.budget,
+      context: input.context,
+      maxParallel: SWARM_MAX_PARALLEL,
+    });
+  } catch {
+    return null;
+  }
+  if (!result.decomposed || result.tasks.length < 2) return null;
+
+  const nodeIds = new Set(result.tasks.map((t) => t.id));
+  const edgesByNode = incomingEdges(result.edges, nodeIds);
+  const nodes: PlannedNode[] = [];
+  for (const t of result.tasks) {
+    let prompt = t.task;
+    try {
+      prompt = await smartSpawn.composeRole(t.task, input.role);
+    } catch {
+      prompt = t.task;
+    }
+    nodes.push({
+      id: t.id,
+      kind: "task",
+      wave: t.wave,
+      // Tasks dropped by the server (no model) must not leave dangling dependencies.
+      dependsOn: t.dependsOn.filter((d) => nodeIds.has(d)),
+      task: t.task,
+      model: t.modelId,
+      prompt,
+      meta: { mode: "plan", graph: "dag", reason: t.reason, edges: edgesByNode.get(t.id) ?? [], planningSource: "api" },
+    });
+  }
+
+  const waves = new Set(nodes.map((n) => n.wave)).size;
+  const mergeNode: PlannedNode = {
+    id: "merged",
+    kind: "merge",
+    wave: Math.max(...nodes.map((n) => n.wave)) + 1,
+    dependsOn: nodes.map((n) => n.id),
+    task: input.task,
+    model: input.merge?.model ?? nodes[nodes.length - 1]?.model ?? fallbackModel(),
+    prompt: "",
+    meta: { mode: "plan", graph: "dag", mergeStyle: input.merge?.style ?? "detailed", planningSource: "api" },
+  };
+
+  return {
+    plannerSummary: `plan mode with ${nodes.length} nodes in ${waves} dependency waves`,
+    nodes: [...nodes, mergeNode],
+  };
+}
+
 async function buildSequentialPlan(
   input: RunCreateInput,
   smartSpawn: SmartSpawnClient
 ): Promise<PlannedRun> {
+  if (input.planGraph === "dag") {
+    const dag = await buildDagPlan(input, smartSpawn);
+    if (dag) return dag;
+  }
+
   let planningSource: "api" | "fallback" = "api";
   let steps: Array<{ id: string; task: string; modelId: string; wave: number; dependsOn: string[]; reason: string }> = [];
   try {
@@ -338,15 +531,17 @@ async function buildSwarmPlan(
 ): Promise<PlannedRun> {
   let planningSource: "api" | "fallback" = "api";
   let tasks: Array<{ id: string; task: string; modelId: string; wave: number; dependsOn: string[]; reason: string }> = [];
+  let edges: DependencyEdge[] = [];
   try {
     const result = await smartSpawn.swarm({
       task: input.task,
       budget: input.budget,
       context: input.context,
-      maxParallel: 5,
+      maxParallel: SWARM_MAX_PARALLEL,
     });
     if (result.decomposed && result.tasks.length > 0) {
       tasks = result.tasks;
+      edges = result.edges;
     }
   } catch {
     // fall through to fallback tasks
@@ -380,6 +575,7 @@ async function buildSwarmPlan(
     }
   }
 
+  const edgesByNode = incomingEdges(edges, new Set(tasks.map((t) => t.id)));
   const nodes: PlannedNode[] = [];
   for (const t of tasks) {
     let prompt = t.task;
@@ -396,7 +592,7 @@ async function buildSwarmPlan(
       task: t.task,
       model: t.modelId,
       prompt,
-      meta: { mode: "swarm", reason: t.reason, planningSource },
+      meta: { mode: "swarm", reason: t.reason, edges: edgesByNode.get(t.id) ?? [], planningSource },
     });
   }
 
@@ -0,0 +1,104 @@
+import type { McpStore } from "../db.ts";
+import type { SmartSpawnClient } from "../smart-spawn-client.ts";
+import type { CostSource, OpenRouterExecutionResult } from "../types.ts";
+
+// Used only when neither OpenRouter usage nor the catalog knows the model.
+const FALLBACK_PROMPT_PER_1M = 1;
+const FALLBACK_COMPLETION_PER_1M = 3;
+
+// Catalog prices change rarely; refetch at most this often.
+const CATALOG_TTL_MS = 6 * 60 * 60 * 1000;
+
+export interface ResolvedPricing {
+  promptPer1m: number;
+  completionPer1m: number;
+  source: Exclude<CostSource, "openrouter_usage">;
+}
+
+export interface ResolvedCost {
+  costUsd: number;
+  source: CostSource;
+}
+
+export function normalizeModelId(model: string): string {
+  return model.replace(/^openrouter\//, "");
+}
+
+export function calcCostUsd(
+  pricing: { promptPer1m: number; completionPer1m: number },
+  promptTokens: number,
+  completionTokens: number
+): number {
+  return (promptTokens / 1_000_000) * pricing.promptPer1m + (completionTokens / 1_000_000) * pricing.completionPer1m;
+}
+
+function isFresh(updatedAt: string): boolean {
+  return Date.now() - new Date(updatedAt).getTime() < CATALOG_TTL_MS;
+}
+
+/**
+ * Resolves per-model prices from the Smart Spawn catalog, cached in McpStore.
+ * OpenRouter's own `usage.cost` always wins when the response carries it.
+ */
+export class PricingResolver {
+  private lastCatalogFetch = 0;
+  private inflight: Promise<void> | null = null;
+
+  constructor(
+    private readonly store: McpStore,
+    private readonly smartSpawn: Pick<SmartSpawnClient, "listModelPricing">
+  ) {}
+
+  async resolve(model: string): Promise<ResolvedPricing> {
+    const modelId = normalizeModelId(model);
+    const cached = this.store.getModelPricing(modelId);
+    if (cached && isFresh(cached.updatedAt)) {
+      return { promptPer1m: cached.promptPer1m, completionPer1m: cached.completionPer1m, source: "catalog" };
+    }
+
+    await this.refreshCatalog();
+    // A stale catalog price is still closer to reality than the flat fallback.
+    const latest = this.store.getModelPricing(modelId) ?? cached;
+    if (latest) {
+      return { promptPer1m: latest.promptPer1m, completionPer1m: latest.completionPer1m, source: "catalog" };
+    }
+
+    return {
+      promptPer1m: FALLBACK_PROMPT_PER_1M,
+      completionPer1m: FALLBACK_COMPLETION_PER_1M,
+      source: "fallback",
+    };
+  }
+
+  async costFor(
+    model: string,
+    result: Pick<OpenRouterExecutionResult, "promptTokens" | "completionTokens" | "costUsd">
+  ): Promise<ResolvedCost> {
+    if (typeof result.costUsd === "number" && Number.isFinite(result.costUsd) && result.costUsd >= 0) {
+      return { costUsd: result.costUsd, source: "openrouter_usage" };
+    }
+    const pricing = await this.resolve(model);
+    return {
+      costUsd: calcCostUsd(pricing, result.promptTokens, result.completionTokens),
+      source: pricing.source,
+    };
+  }
+
+  private async refreshCatalog(): Promise<void> {
+    if (Date.now() - this.lastCatalogFetch < CATALOG_TTL_MS) return;
+    if (!this.inflight) {
+      this.inflight = (async () => {
+        try {
+          const rows = await this.smartSpawn.listModelPricing();
+          if (rows.length > 0) this.store.upsertModelPricing(rows);
+        } catch {
+          // keep whatever is cached; callers fall back per model
+        } finally {
+          this.lastCatalogFetch = Date.now();
+          this.inflight = null;
+        }
+      })();
+    }
+    await this.inflight;
+  }
+}
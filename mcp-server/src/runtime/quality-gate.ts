@@ -0,0 +1,218 @@
+import type { ChatBackend } from "../providers/backend.ts";
+import type { QualityGateConfig, QualityGateStrategy, QualityVerdict } from "../types.ts";
+import type { PricingResolver } from "./pricing.ts";
+
+// Length heuristic: the original cascade rule.
+export const DEFAULT_MIN_CHARS = 500;
+
+// Judge score (0..1) required to accept the cheap output.
+export const DEFAULT_JUDGE_THRESHOLD = 0.7;
+export const JUDGE_MAX_TOKENS = 300;
+export const JUDGE_OUTPUT_CHARS = 12000;
+
+export interface QualityGateInput {
+  task: string;
+  output: string;
+  /** Model that produced the cheap output. */
+  model: string;
+  signal?: AbortSignal;
+}
+
+export interface QualityGate {
+  readonly strategy: QualityGateStrategy;
+  evaluate(input: QualityGateInput): Promise<QualityVerdict>;
+}
+
+export class LengthQualityGate implements QualityGate {
+  readonly strategy = "length" as const;
+
+  constructor(private readonly minChars = DEFAULT_MIN_CHARS) {}
+
+  async evaluate(input: QualityGateInput): Promise<QualityVerdict> {
+    const chars = input.output.trim().length;
+    const passed = chars >= this.minChars;
+    return {
+      strategy: this.strategy,
+      passed,
+      score: Math.min(1, chars / this.minChars),
+      reason: passed ? `${chars} chars >= ${this.minChars}` : `${chars} chars < ${this.minChars}`,
+    };
+  }
+}
+
+export function stripCodeFence(text: string): string {
+  const match = text.trim().match(/^```[\w-]*\n([\s\S]*?)\n?```$/);
+  return match ? match[1]! : text.trim();
+}
+
+function extractCodeBlocks(text: string, languages: string[]): string[] {
+  const blocks: string[] = [];
+  for (const match of text.matchAll(/```([\w-]*)\n([\s\S]*?)```/g)) {
+    const lang = (match[1] ?? "").toLowerCase();
+    if (!lang || languages.includes(lang)) blocks.push(match[2] ?? "");
+  }
+  return blocks;
+}
+
+function hasSection(text: string, section: string): boolean {
+  const wanted = section.trim().toLowerCase();
+  return text
+    .split("\n")
+    .some((line) => {
+      const heading = line.match(/^\s*(?:#{1,6}\s+|\*\*)(.+?)(?:\*\*)?:?\s*$/);
+      return heading ? heading[1]!.trim().toLowerCase().includes(wanted) : false;
+    });
+}
+
+/**
+ * Checks the shape of the output rather than its substance: JSON parses, TypeScript
+ * code blocks transpile, and every required section heading is present.
+ */
+export class StructuralQualityGate implements QualityGate {
+  readonly strategy = "structural" as const;
+
+  constructor(
+    private readonly format: QualityGateConfig["format"],
+    private readonly requiredSections: string[] = []
+  ) {}
+
+  async evaluate(input: QualityGateInput): Promise<QualityVerdict> {
+    const failures: string[] = [];
+    let checks = 0;
+
+    if (!input.output.trim()) {
+      return { strategy: this.strategy, passed: false, score: 0, reason: "empty output" };
+    }
+
+    if (this.format === "json") {
+      checks += 1;
+      try {
+        JSON.parse(stripCodeFence(input.output));
+      } catch (error) {
+        failures.push(`invalid JSON: ${error instanceof Error ? error.message : String(error)}`);
+      }
+    }
+
+    if (this.format === "typescript") {
+      const blocks = extractCodeBlocks(input.output, ["ts", "typescript", "tsx"]);
+      const sources = blocks.length > 0 ? blocks : [stripCodeFence(input.output)];
+      const transpiler = new Bun.Transpiler({ loader: "tsx" });
+      for (const [idx, source] of sources.entries()) {
+        checks += 1;
+        try {
+          transpiler.transformSync(source);
+        } catch (error) {
+          failures.push(`code block ${idx + 1} does not compile: ${error instanceof Error ? error.message : String(error)}`);
+        }
+      }
+    }
+
+    for (const section of this.requiredSections) {
+      checks += 1;
+      if (!hasSection(input.output, section)) failures.push(`missing section "${section}"`);
+    }
+
+    if (checks === 0) {
+      return { strategy: this.strategy, passed: true, score: 1, reason: "no structural requirements" };
+    }
+
+    return {
+      strategy: this.strategy,
+      passed: failures.length === 0,
+      score: (checks - failures.length) / checks,
+      reason: failures.length === 0 ? `${checks} structural check(s) passed` : failures.join("; "),
+    };
+  }
+}
+
+export function buildJudgePrompt(task: string, output: string): string {
+  return [
+    "You are a strict reviewer deciding whether a draft answer is good enough to ship without escalating to a stronger model.",
+    "Score the draft from 0 to 10 using this rubric:",
+    "- Correctness: no factual or logical errors, code would run as written.",
+    "- Completeness: every part of the task is addressed.",
+    "- Specificity: concrete, actionable detail rather than generic advice.",
+    "- Clarity: well organized and easy to follow.",
+    'Respond with JSON only: {"score": <0-10>, "reason": "<one sentence>"}',
+    `## Task\n${task}`,
+    `## Draft answer\n${output.length > JUDGE_OUTPUT_CHARS ? `${output.slice(0, JUDGE_OUTPUT_CHARS)}\n\n[truncated]` : output}`,
+  ].join("\n\n");
+}
+
+export function parseJudgeResponse(text: string): { score: number; reason: string } | null {
+  const match = text.match(/\{[\s\S]*\}/);
+  if (!match) return null;
+  try {
+    const parsed = JSON.parse(match[0]);
+    const score = Number(parsed?.score);
+    if (!Number.isFinite(score)) return null;
+    return {
+      score: Math.min(1, Math.max(0, score / 10)),
+      reason: String(parsed?.reason ?? "").slice(0, 500),
+    };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Asks a model to grade the cheap output against the task with a fixed rubric.
+ * The judge is a different, stronger model than the one it grades.
+ */
+export class JudgeQualityGate implements QualityGate {
+  readonly strategy = "judge" as const;
+
+  constructor(
+    private readonly backend: ChatBackend,
+    private readonly pricing: Pick<PricingResolver, "costFor">,
+    private readonly judgeModel: string,
+    private readonly threshold = DEFAULT_JUDGE_THRESHOLD
+  ) {}
+
+  async evaluate(input: QualityGateInput): Promise<QualityVerdict> {
+    const model = this.judgeModel;
+    const result = await this.backend.chatCompletion({
+      model,
+      messages: [{ role: "user", content: buildJudgePrompt(input.task, input.output) }],
+      maxTokens: JUDGE_MAX_TOKENS,
+      temperature: 0,
+      signal: input.signal,
+    });
+    const cost = await this.pricing.costFor(model, result);
+    const usage = {
+      model,
+      promptTokens: result.promptTokens,
+      completionTokens: result.completionTokens,
+      costUsd: cost.costUsd,
+    };
+
+    const parsed = parseJudgeResponse(result.text);
+    if (!parsed) {
+      return { strategy: this.strategy, passed: false, score: 0, reason: "judge returned an unparseable verdict", judge: usage };
+    }
+
+    return {
+      strategy: this.strategy,
+      passed: parsed.score >= this.threshold,
+      score: parsed.score,
+      reason: parsed.reason || `score ${parsed.score.toFixed(2)} vs threshold ${this.threshold}`,
+      judge: usage,
+    };
+  }
+}
+
+/** `defaultJudgeModel` (the premium tier's model) judges when the config names no judge. */
+export function createQualityGate(
+  config: QualityGateConfig | undefined,
+  deps: { backend: ChatBackend; pricing: Pick<PricingResolver, "costFor">; defaultJudgeModel: string }
+): QualityGate {
+  switch (config?.strategy) {
+    case "judge":
+      return new JudgeQualityGate(deps.backend, deps.pricing, config.judgeModel ?? deps.defaultJudgeModel, config.threshold);
+    case "structural":
+      return new StructuralQualityGate(config.format, config.requiredSections);
+    case "length":
+    default:
+      return new LengthQualityGate(config?.minChars);
+  }
+}
@@ -1,11 +1,24 @@
 import type { McpConfig } from "../config.ts";
 import { McpStore } from "../db.ts";
-import { OpenRouterClient } from "../openrouter-client.ts";
+import { DEFAULT_MAX_TOKENS, type ChatBackend } from "../providers/backend.ts";
 import { SmartSpawnClient } from "../smart-spawn-client.ts";
 import { ArtifactStorage } from "../storage.ts";
-import type { RunCreateInput, RunProgress, RunRecord, RunStatus } from "../types.ts";
+import type {
+  Budget,
+  NodeProgressEvent,
+  NodeRecord,
+  PlannedRun,
+  QualityVerdict,
+  RunCostEstimate,
+  RunCreateInput,
+  RunProgress,
+  RunRecord,
+  RunStatus,
+} from "../types.ts";
 import { buildRunPlan } from "./planner.ts";
-import { RunExecutor } from "./executor.ts";
+import { RunExecutor, shouldStopForBudget } from "./executor.ts";
+import { estimatePlanCost, nextCheaperBudget, tokensForChars } from "./estimator.ts";
+import { PricingResolver } from "./pricing.ts";
 
 function parseJson<T>(raw: string): T {
   return JSON.parse(raw) as T;
@@ -15,19 +28,57 @@ function formatPercent(value: number): number {
   return Math.max(0, Math.min(100, Number(value.toFixed(2))));
 }
 
+function formatUsd(value: number): string {
+  return `$${value.toFixed(4)}`;
+}
+
+// A running node never counts as more than this fraction of done.
+const MAX_RUNNING_CREDIT = 0.9;
+
+export interface NodeLiveStatus {
+  nodeId: string;
+  kind: string;
+  model: string;
+  status: string;
+  outputChars: number;
+  completionTokens: number;
+}
+
+export interface BudgetedPlan {
+  action: "accept" | "downgrade" | "reject";
+  requestedBudget: Budget;
+  input: RunCreateInput;
+  plan: PlannedRun;
+  estimate: RunCostEstimate;
+  maxUsd: number;
+}
+
 export class RuntimeQueue {
   private interval: Timer | null = null;
   private processing = new Set<string>();
+  private liveOutput = new Map<string, NodeProgressEvent>();
+  private listeners = new Map<string, Set<(event: NodeProgressEvent) => void>>();
   private readonly executor: RunExecutor;
+  private readonly pricing: PricingResolver;
 
   constructor(
     private readonly config: McpConfig,
     private readonly store: McpStore,
     private readonly storage: ArtifactStorage,
     private readonly smartSpawn: SmartSpawnClient,
-    private readonly openRouter: OpenRouterClient
+    private readonly backend: ChatBackend
   ) {
-    this.executor = new RunExecutor(config, store, storage, openRouter);
+    this.pricing = new PricingResolver(store, smartSpawn);
+    this.executor = new RunExecutor(
+      config,
+      store,
+      storage,
+      backend,
+      this.pricing,
+      (event) => this.emitProgress(event),
+      (report) => this.smartSpawn.logSpawn(report),
+      (report) => this.smartSpawn.reportHealth(report)
+    );
   }
 
   async start(): Promise<void> {
@@ -44,12 +95,32 @@ export class RuntimeQueue {
   }
 
   async createRun(input: RunCreateInput): Promise<RunRecord> {
-    const run = this.store.createRun(input);
+    const budgeted = await this.planWithinBudget(input);
+    if (budgeted.action === "reject") {
+      throw new Error(
+        `Projected cost ${formatUsd(budgeted.estimate.totalUsd)} exceeds MAX_USD_PER_RUN ${formatUsd(budgeted.maxUsd)} even at ${budgeted.input.budget} budget`
+      );
+    }
+
+    const run = this.store.createRun(budgeted.input, budgeted.estimate.totalUsd);
     this.store.addEvent(run.id, "info", "Run created");
+    if (budgeted.action === "downgrade") {
+      this.store.addEvent(
+        run.id,
+        "warn",
+        `Budget downgraded from ${budgeted.requestedBudget} to ${budgeted.input.budget}: projected ${formatUsd(budgeted.estimate.totalUsd)} within ${formatUsd(budgeted.maxUsd)} cap`
+      );
+    }
+    await this.persistPlan(run.id, budgeted.plan);
     await this.tick();
     return run;
   }
 
+  /** Plan and project a run's cost without creating or executing it. */
+  async estimateRun(input: RunCreateInput): Promise<BudgetedPlan> {
+    return this.planWithinBudget(input);
+  }
+
   getRun(runId: string): RunRecord | null {
     return this.store.getRun(runId);
   }
@@ -67,16 +138,103 @@ export class RuntimeQueue {
     return this.store.getRun(runId);
   }
 
+  /**
+   * Re-queue a failed or canceled run from its frontier. Failed (and orphaned running)
+   * nodes go back to `queued`; completed nodes and their artifacts are kept, so only
+   * the remaining work is paid for. With `nodeId`, only that node (plus any nodes a
+   * cancel or crash left `running`) is reset, and it may be given a different model or prompt.
+   */
+  async resumeRun(
+    runId: string,
+    options: { nodeId?: string; model?: string; prompt?: string } = {}
+  ): Promise<{ run: RunRecord; resetNodes: string[] } | null> {
+    const run = this.store.getRun(runId);
+    if (!run) return null;
+    if (run.status !== "failed" && run.status !== "canceled") {
+      throw new Error(`Run is ${run.status}; only failed or canceled runs can be resumed`);
+    }
+    if (this.processing.has(runId)) {
+      throw new Error("Run is still winding down; retry the resume in a moment");
+    }
+    if ((options.model || options.prompt) && !options.nodeId) {
+      throw new Error("model and prompt overrides require node_id");
+    }
+
+    const spent = this.store.getRunCost(runId).usdEstimate;
+    if (shouldStopForBudget({ spentUsd: spent, maxUsd: this.config.maxUsdPerRun })) {
+      throw new Error(`Run has already spent ${formatUsd(spent)} of MAX_USD_PER_RUN ${formatUsd(this.config.maxUsdPerRun)}`);
+    }
+
+    const nodes = this.store.listNodes(runId);
+    let targets: NodeRecord[];
+    if (options.nodeId) {
+      const scopedId = options.nodeId.startsWith(`${runId}:`) ? options.nodeId : `${runId}:${options.nodeId}`;
+      const node = nodes.find((n) => n.id === scopedId);
+      if (!node) throw new Error(`node not found: ${options.nodeId}`);
+      if (node.status === "completed" || node.status === "skipped") {
+        throw new Error(`Node ${options.nodeId} is ${node.status}; only failed or unfinished nodes can be retried`);
+      }
+      // Nothing is executing once a run is failed or canceled, so a "running" node is orphaned
+      // and would otherwise block its dependents forever
+      targets = [node, ...nodes.filter((n) => n.status === "running" && n.id !== node.id)];
+    } else {
+      targets = nodes.filter((n) => n.status === "failed" || n.status === "canceled" || n.status === "running");
+    }
+
+    for (const [index, node] of targets.entries()) {
+      this.store.resetNode(node.id, options.nodeId && index === 0 ? { model: options.model, prompt: options.prompt } : {});
+    }
+    this.store.reopenRun(runId);
+    const overrides = [options.model && `model=${options.model}`, options.prompt && "prompt edited"].filter(Boolean);
+    this.store.addEvent(
+      runId,
+      "info",
+      `Run resumed: reset ${targets.length} node(s)${overrides.length > 0 ? ` (${overrides.join(", ")})` : ""}`,
+      options.nodeId ? targets[0]?.id : undefined
+    );
+
+    await this.tick();
+    return { run: this.store.getRun(runId)!, resetNodes: targets.map((n) => n.id) };
+  }
+
   getProgress(runId: string): RunProgress {
     const nodes = this.store.listNodes(runId);
     const totalNodes = nodes.length;
     const doneNodes = nodes.filter((n) => n.status === "completed" || n.status === "skipped").length;
-    const runningNodes = nodes.filter((n) => n.status === "running").length;
+    const running = nodes.filter((n) => n.status === "running");
+    const runningNodes = running.length;
     const failedNodes = nodes.filter((n) => n.status === "failed").length;
-    const percent = totalNodes > 0 ? formatPercent((doneNodes / totalNodes) * 100) : 0;
+    // Running nodes earn partial credit as streamed tokens approach the completion cap.
+    const runningCredit = running.reduce((sum, n) => {
+      const chars = this.liveOutput.get(n.id)?.outputChars ?? 0;
+      return sum + Math.min(MAX_RUNNING_CREDIT, tokensForChars(chars) / DEFAULT_MAX_TOKENS);
+    }, 0);
+    const percent = totalNodes > 0 ? formatPercent(((doneNodes + runningCredit) / totalNodes) * 100) : 0;
     return { totalNodes, doneNodes, runningNodes, failedNodes, percent };
   }
 
+  getNodeStatuses(runId: string): NodeLiveStatus[] {
+    return this.store.listNodes(runId).map((n) => ({
+      nodeId: n.id,
+      kind: n.kind,
+      model: n.model,
+      status: n.status,
+      outputChars: this.liveOutput.get(n.id)?.outputChars ?? 0,
+      completionTokens: n.tokensCompletion,
+    }));
+  }
+
+  /** Subscribe to per-node streaming progress for a run. Returns an unsubscribe function. */
+  subscribe(runId: string, listener: (event: NodeProgressEvent) => void): () => void {
+    const set = this.listeners.get(runId) ?? new Set();
+    set.add(listener);
+    this.listeners.set(runId, set);
+    return () => {
+      set.delete(listener);
+      if (set.size === 0) this.listeners.delete(runId);
+    };
+  }
+
   getLastEvent(runId: string): string | null {
     const events = this.store.listRecentEvents(runId, 1);
     return events.length > 0 ? (events[0]?.message ?? null) : null;
@@ -85,9 +243,11 @@ export class RuntimeQueue {
   async getResult(runId: string, includeRaw = false): Promise<{
     status: string;
     mergedOutput: string | null;
+    structuredOutput: unknown | null;
     summary: string;
     artifacts: Array<{ nodeId: string; path: string; type: string; model: string; status: string }>;
-    cost: { promptTokens: number; completionTokens: number; usdEstimate: number };
+    cost: { promptTokens: number; completionTokens: number; usdEstimate: number; usdProjected: number | null };
+    qualityGates: Array<QualityVerdict & { nodeId: string }>;
     rawOutputs?: Array<{ nodeId: string; output: string }>;
   } | null> {
     const run = this.store.getRun(runId);
@@ -95,8 +255,12 @@ export class RuntimeQueue {
 
     const nodes = this.store.listNodes(runId);
     const artifacts = this.store.listArtifacts(runId);
-    const mergedArtifact = artifacts.find((a) => a.nodeId === "merged");
+    const mergedArtifact = this.store.getArtifactOfType(runId, "merged", "merged");
     const mergedOutput = mergedArtifact ? await this.storage.readArtifact(mergedArtifact.path) : null;
+    const structuredArtifact = this.store.getArtifactOfType(runId, "merged", "structured");
+    const structuredOutput = structuredArtifact
+      ? parseJson<unknown>(await this.storage.readArtifact(structuredArtifact.path))
+      : null;
     const cost = this.store.getRunCost(runId);
 
     const artifactRows = artifacts.map((a) => {
@@ -110,6 +274,11 @@ export class RuntimeQueue {
       };
     });
 
+    const qualityGates = nodes.flatMap((n) => {
+      const verdict = parseJson<{ qualityVerdict?: QualityVerdict }>(n.metaJson)?.qualityVerdict;
+      return verdict ? [{ nodeId: n.id, ...verdict }] : [];
+    });
+
     const rawOutputs = [];
     if (includeRaw) {
       for (const artifact of artifacts.filter((a) => a.type === "raw")) {
@@ -121,9 +290,11 @@ export class RuntimeQueue {
     return {
       status: run.status,
       mergedOutput,
+      structuredOutput,
       summary: `${run.mode} run with ${nodes.length} nodes`,
       artifacts: artifactRows,
-      cost,
+      cost: { ...cost, usdProjected: run.projectedCostUsd },
+      qualityGates,
       ...(includeRaw ? { rawOutputs } : {}),
     };
   }
@@ -158,6 +329,9 @@ export class RuntimeQueue {
       this.processing.add(run.id);
       void this.processRun(run).finally(() => {
         this.processing.delete(run.id);
+        for (const nodeId of this.liveOutput.keys()) {
+          if (nodeId.startsWith(`${run.id}:`)) this.liveOutput.delete(nodeId);
+        }
       });
     }
   }
@@ -172,18 +346,8 @@ export class RuntimeQueue {
     if (nodes.length === 0) {
       const input = parseJson<RunCreateInput>(latest.paramsJson);
       const plan = await buildRunPlan(input, this.smartSpawn);
-      this.store.createNodes(run.id, plan.nodes);
-      const planFile = await this.storage.writeArtifact(run.id, "plan", "plan", JSON.stringify(plan, null, 2), "json");
-      this.store.createArtifact({
-        runId: run.id,
-        nodeId: "plan",
-        type: "plan",
-        path: planFile.relativePath,
-        bytes: planFile.bytes,
-        sha256: planFile.sha256,
-        createdAt: new Date().toISOString(),
-      });
-      this.store.addEvent(run.id, "info", plan.plannerSummary);
+      await estimatePlanCost(plan, this.pricing);
+      await this.persistPlan(run.id, plan);
       nodes = this.store.listNodes(run.id);
       if (nodes.length === 0) {
         this.store.updateRunStatus(run.id, "failed", "Planner returned no nodes");
@@ -194,12 +358,61 @@ export class RuntimeQueue {
     await this.executor.processRun(run);
   }
 
+  private emitProgress(event: NodeProgressEvent): void {
+    this.liveOutput.set(event.nodeId, event);
+    for (const listener of this.listeners.get(event.runId) ?? []) {
+      try {
+        listener(event);
+      } catch {
+        // a failing subscriber must not break execution
+      }
+    }
+  }
+
+  private async planWithinBudget(input: RunCreateInput): Promise<BudgetedPlan> {
+    const maxUsd = this.config.maxUsdPerRun;
+    const requestedBudget = input.budget ?? "medium";
+    const project = input.project ?? this.config.smartSpawnProject;
+    let current: RunCreateInput = { ...input, budget: requestedBudget, ...(project ? { project } : {}) };
+    let plan = await buildRunPlan(current, this.smartSpawn);
+    let estimate = await estimatePlanCost(plan, this.pricing);
+
+    while (estimate.totalUsd > maxUsd) {
+      const cheaper = nextCheaperBudget(current.budget ?? requestedBudget);
+      if (!cheaper) {
+        return { action: "reject", requestedBudget, input: current, plan, estimate, maxUsd };
+      }
+      current = { ...current, budget: cheaper };
+      plan = await buildRunPlan(current, this.smartSpawn);
+      estimate = await estimatePlanCost(plan, this.pricing);
+    }
+
+    const action = current.budget === requestedBudget ? "accept" : "downgrade";
+    return { action, requestedBudget, input: current, plan, estimate, maxUsd };
+  }
+
+  private async persistPlan(runId: string, plan: PlannedRun): Promise<void> {
+    this.store.createNodes(runId, plan.nodes);
+    const planFile = await this.storage.writeArtifact(runId, "plan", "plan", JSON.stringify(plan, null, 2), "json");
+    this.store.createArtifact({
+      runId,
+      nodeId: "plan",
+      type: "plan",
+      path: planFile.relativePath,
+      bytes: planFile.bytes,
+      sha256: planFile.sha256,
+      createdAt: new Date().toISOString(),
+    });
+    this.store.addEvent(runId, "info", plan.plannerSummary);
+  }
+
   async health(): Promise<{
     openrouterConfigured: boolean;
     smartSpawnApiReachable: boolean;
     dbWritable: boolean;
     artifactStorageWritable: boolean;
     workerAlive: boolean;
+    providers: Array<{ name: string; kind: string; prefixes: string[] }>;
   }> {
     const smart = await this.smartSpawn.health();
     const dbWritable = this.store.pingWritable();
@@ -218,6 +431,7 @@ export class RuntimeQueue {
       dbWritable,
       artifactStorageWritable,
       workerAlive: this.interval !== null,
+      providers: this.config.providers.map((p) => ({ name: p.name, kind: p.kind, prefixes: p.prefixes })),
     };
   }
 }
@@ -0,0 +1,96 @@
+import type { McpStore } from "../db.ts";
+import type { ArtifactStorage } from "../storage.ts";
+import type { NodeProgressEvent } from "../types.ts";
+
+// Flush partial output to disk (and report progress) at most this often.
+const FLUSH_INTERVAL_MS = 250;
+const FLUSH_CHARS = 2000;
+
+/**
+ * Incrementally writes streamed model output to a `log` artifact for the node,
+ * so `smartspawn_artifact_get` shows partial output while the node is running.
+ * The file is only created once the first delta arrives.
+ */
+export class NodeOutputStream {
+  private artifactId: string | null = null;
+  private relativePath: string | null = null;
+  private buffer = "";
+  private chars = 0;
+  private lastFlush = Date.now();
+  private pending: Promise<void> = Promise.resolve();
+  private closed = false;
+
+  constructor(
+    private readonly storage: ArtifactStorage,
+    private readonly store: McpStore,
+    private readonly runId: string,
+    private readonly nodeId: string,
+    private readonly model: string,
+    private readonly onProgress: (event: NodeProgressEvent) => void
+  ) {}
+
+  get outputChars(): number {
+    return this.chars;
+  }
+
+  push(delta: string): void {
+    if (this.closed) return;
+    this.buffer += delta;
+    this.chars += delta.length;
+    if (Date.now() - this.lastFlush >= FLUSH_INTERVAL_MS || this.buffer.length >= FLUSH_CHARS) {
+      this.flush();
+    }
+  }
+
+  async close(): Promise<void> {
+    if (this.closed) return;
+    this.closed = true;
+    this.flush();
+    await this.pending;
+    if (!this.artifactId || !this.relativePath) return;
+    try {
+      const { bytes, sha256 } = await this.storage.describeArtifact(this.relativePath);
+      this.store.updateArtifactContent(this.artifactId, bytes, sha256);
+    } catch {
+      // partial output is best-effort
+    }
+  }
+
+  private flush(): void {
+    if (!this.buffer) return;
+    const chunk = this.buffer;
+    this.buffer = "";
+    this.lastFlush = Date.now();
+    this.onProgress({
+      runId: this.runId,
+      nodeId: this.nodeId,
+      model: this.model,
+      status: "running",
+      outputChars: this.chars,
+    });
+
+    this.pending = this.pending
+      .then(async () => {
+        if (!this.relativePath) {
+          // Start from an empty file so a retried attempt does not append to the previous one.
+          const file = await this.storage.writeArtifact(this.runId, `${this.nodeId}.partial`, "log", "", "txt");
+          this.relativePath = file.relativePath;
+          this.artifactId =
+            this.store.listArtifacts(this.runId).find((a) => a.path === file.relativePath)?.id ??
+            this.store.createArtifact({
+              runId: this.runId,
+              nodeId: this.nodeId,
+              type: "log",
+              path: file.relativePath,
+              bytes: 0,
+              sha256: file.sha256,
+              createdAt: new Date().toISOString(),
+            }).id;
+        }
+        await this.storage.appendArtifact(this.relativePath, chunk);
+      })
+      .catch(() => {
+        // partial output is best-effort; the final raw artifact is authoritative
+      });
+  }
+}
@@ -1,18 +1,27 @@
-import type { Budget, RoleConfig } from "./types.ts";
+import type { Budget, DependencyEdge, NodeHealthReport, RoleConfig, SpawnUsageReport } from "./types.ts";
 
 interface HttpOptions {
   method?: string;
   body?: unknown;
 }
 
+/** /models caps `limit` at this, so the full catalog takes several pages */
+const MODELS_PAGE_SIZE = 500;
+/** Stop paging past this many models, in case the API ignores `offset` */
+const MAX_CATALOG_MODELS = 20_000;
+
 export class SmartSpawnClient {
-  constructor(private readonly baseUrl: string) {}
+  constructor(
+    private readonly baseUrl: string,
+    private readonly apiKey?: string
+  ) {}
 
   async pick(params: {
     task: string;
     budget?: Budget;
     context?: string;
     exclude?: string[];
+    project?: string;
   }): Promise<{ modelId: string; reason: string }> {
     const query = new URLSearchParams({
       task: params.task,
@@ -20,6 +29,7 @@ export class SmartSpawnClient {
     });
     if (params.context) query.set("context", params.context);
     if (params.exclude?.length) query.set("exclude", params.exclude.join(","));
+    if (params.project) query.set("project", params.project);
 
     const data = await this.getJson(`/pick?${query.toString()}`);
     const modelId = data?.data?.id as string | undefined;
@@ -33,6 +43,7 @@ export class SmartSpawnClient {
     count?: number;
     context?: string;
     exclude?: string[];
+    project?: string;
   }): Promise<Array<{ modelId: string; reason: string }>> {
     const query = new URLSearchParams({
       task: params.task,
@@ -41,6 +52,7 @@ export class SmartSpawnClient {
     });
     if (params.context) query.set("context", params.context);
     if (params.exclude?.length) query.set("exclude", params.exclude.join(","));
+    if (params.project) query.set("project", params.project);
 
     const data = await this.getJson(`/recommend?${query.toString()}`);
     const items = Array.isArray(data?.data) ? data.data : [];
@@ -98,6 +110,7 @@ export class SmartSpawnClient {
   }): Promise<{
     decomposed: boolean;
     tasks: Array<{ id: string; task: string; modelId: string; wave: number; dependsOn: string[]; reason: string }>;
+    edges: DependencyEdge[];
   }> {
     const data = await this.postJson("/swarm", {
       task: params.task,
@@ -106,8 +119,9 @@ export class SmartSpawnClient {
       maxParallel: params.maxParallel ?? 5,
     });
 
-    if (!data?.decomposed || !data?.dag) return { decomposed: false, tasks: [] };
+    if (!data?.decomposed || !data?.dag) return { decomposed: false, tasks: [], edges: [] };
     const tasks = Array.isArray(data?.dag?.tasks) ? data.dag.tasks : [];
+    const edges = Array.isArray(data?.dag?.edges) ? data.dag.edges : [];
     return {
       decomposed: true,
       tasks: tasks
@@ -127,9 +141,56 @@ export class SmartSpawnClient {
           dependsOn: string[];
           reason: string;
         }>,
+      edges: edges
+        .map((edge: any) => ({ from: String(edge?.from ?? ""), to: String(edge?.to ?? ""), type: edge?.type }))
+        .filter(
+          (edge: { from: string; to: string; type: unknown }) =>
+            edge.from && edge.to && ["phase", "artifact", "temporal"].includes(String(edge.type))
+        ) as DependencyEdge[],
     };
   }
 
+  async listModelPricing(): Promise<Array<{ modelId: string; promptPer1m: number; completionPer1m: number }>> {
+    const items = await this.listModels();
+    return items
+      .map((item: any) => ({
+        modelId: item?.id as string | undefined,
+        promptPer1m: Number(item?.pricing?.prompt),
+        completionPer1m: Number(item?.pricing?.completion),
+      }))
+      .filter(
+        (item: { modelId: string | undefined; promptPer1m: number; completionPer1m: number }) =>
+          Boolean(item.modelId) &&
+          Number.isFinite(item.promptPer1m) &&
+          Number.isFinite(item.completionPer1m) &&
+          item.promptPer1m >= 0 &&
+          item.completionPer1m >= 0
+      ) as Array<{ modelId: string; promptPer1m: number; completionPer1m: number }>;
+  }
+
+  async listModelCapabilities(): Promise<Array<{ modelId: string; functionCalling: boolean; json: boolean }>> {
+    const items = await this.listModels();
+    return items
+      .filter((item: any) => typeof item?.id === "string" && item.id)
+      .map((item: any) => ({
+        modelId: item.id as string,
+        functionCalling: item?.capabilities?.functionCalling === true,
+        json: item?.capabilities?.json === true,
+      }));
+  }
+
+  /** Every catalog model, paged through /models */
+  private async listModels(): Promise<any[]> {
+    const models: any[] = [];
+    while (models.length < MAX_CATALOG_MODELS) {
+      const data = await this.getJson(`/models?limit=${MODELS_PAGE_SIZE}&offset=${models.length}`);
+      const page = Array.isArray(data?.data) ? data.data : [];
+      models.push(...page);
+      if (page.length < MODELS_PAGE_SIZE) break;
+    }
+    return models;
+  }
+
   async composeRole(task: string, role?: RoleConfig): Promise<string> {
     if (!role) return task;
     const data = await this.postJson("/roles/compose", {
@@ -140,6 +201,17 @@ export class SmartSpawnClient {
     return prompt && prompt.trim().length > 0 ? prompt : task;
   }
 
+  /** Log a finished spawn with its actual usage, for the API's spend stats and cost estimates. */
+  async logSpawn(report: SpawnUsageReport): Promise<void> {
+    await this.postJson("/spawn-log", { ...report, source: "mcp" });
+  }
+
+  /** Report a node call's outcome so routing steers around failing providers. The API only takes keyed reports. */
+  async reportHealth(report: NodeHealthReport): Promise<void> {
+    if (!this.apiKey) return;
+    await this.postJson("/health-report", { ...report, source: "mcp" });
+  }
+
   async health(): Promise<{ reachable: boolean; payload: unknown | null }> {
     try {
       const data = await this.getJson("/status");
@@ -163,6 +235,7 @@ export class SmartSpawnClient {
       method: options.method ?? "GET",
       headers: {
         "Content-Type": "application/json",
+        ...(this.apiKey ? { "X-API-Key": this.apiKey } : {}),
       },
       body: options.body !== undefined ? JSON.stringify(options.body) : undefined,
     });
@@ -1,5 +1,5 @@
 import { createHash } from "node:crypto";
-import { mkdir, readFile, writeFile } from "node:fs/promises";
+import { appendFile, mkdir, readFile, writeFile } from "node:fs/promises";
 import { dirname, join } from "node:path";
 
 export class ArtifactStorage {
@@ -16,7 +16,7 @@ export class ArtifactStorage {
   async writeArtifact(
     runId: string,
     nodeId: string,
-    type: "raw" | "merged" | "plan" | "log",
+    type: "raw" | "merged" | "plan" | "log" | "tool" | "structured",
     content: string,
     extension: "json" | "md" | "txt" = "json"
   ): Promise<{ relativePath: string; bytes: number; sha256: string }> {
@@ -35,6 +35,17 @@ export class ArtifactStorage {
     return { relativePath, bytes, sha256 };
   }
 
+  async appendArtifact(relativePath: string, content: string): Promise<void> {
+    const absolutePath = join(this.homeDir, relativePath);
+    await mkdir(dirname(absolutePath), { recursive: true });
+    await appendFile(absolutePath, content, "utf-8");
+  }
+
+  async describeArtifact(relativePath: string): Promise<{ bytes: number; sha256: string }> {
+    const data = await readFile(join(this.homeDir, relativePath));
+    return { bytes: data.byteLength, sha256: createHash("sha256").update(data).digest("hex") };
+  }
+
   async readArtifact(relativePath: string): Promise<string> {
     const absolutePath = join(this.homeDir, relativePath);
     const data = await readFile(absolutePath, "utf-8");
@@ -1,50 +1,103 @@
 import { CallToolRequestSchema, ListToolsRequestSchema } from "@modelcontextprotocol/sdk/types.js";
+import { MAX_TOOL_TURNS, NODE_TOOL_NAMES } from "./runtime/node-tools.ts";
 import type { RuntimeQueue } from "./runtime/queue.ts";
-import type { RunCreateInput, RunStatus } from "./types.ts";
+import type { NodeToolName, NodeToolsConfig, QualityGateConfig, RunCreateInput, RunStatus } from "./types.ts";
 
-const TOOL_DEFS = [
-  {
-    name: "smartspawn_run_create",
-    description: "Create an async Smart Spawn run. This orchestrates sub-agents and returns a run_id immediately.",
-    inputSchema: {
+const RUN_INPUT_SCHEMA = {
+  type: "object",
+  properties: {
+    task: { type: "string" },
+    mode: { type: "string", enum: ["single", "collective", "cascade", "plan", "swarm"] },
+    budget: { type: "string", enum: ["low", "medium", "high", "any"] },
+    context: { type: "string" },
+    project: {
+      type: "string",
+      description: "Spend budget project on the Smart Spawn API (defaults to SMART_SPAWN_PROJECT).",
+    },
+    collectiveCount: { type: "number" },
+    role: {
       type: "object",
       properties: {
-        task: { type: "string" },
-        mode: { type: "string", enum: ["single", "collective", "cascade", "plan", "swarm"] },
-        budget: { type: "string", enum: ["low", "medium", "high", "any"] },
-        context: { type: "string" },
-        collectiveCount: { type: "number" },
-        role: {
-          type: "object",
-          properties: {
-            persona: { type: "string" },
-            stack: { type: "array", items: { type: "string" } },
-            domain: { type: "string" },
-            format: { type: "string" },
-            guardrails: { type: "array", items: { type: "string" } },
-          },
-          additionalProperties: false,
-        },
-        merge: {
-          type: "object",
-          properties: {
-            style: { type: "string", enum: ["concise", "detailed", "decision"] },
-            model: { type: "string" },
-          },
-          additionalProperties: false,
+        persona: { type: "string" },
+        stack: { type: "array", items: { type: "string" } },
+        domain: { type: "string" },
+        format: { type: "string" },
+        guardrails: { type: "array", items: { type: "string" } },
+      },
+      additionalProperties: false,
+    },
+    merge: {
+      type: "object",
+      properties: {
+        style: { type: "string", enum: ["concise", "detailed", "decision"] },
+        model: { type: "string" },
+      },
+      additionalProperties: false,
+    },
+    planGraph: {
+      type: "string",
+      enum: ["linear", "dag"],
+      description: "Plan mode only: linear chains every step; dag lets independent steps run in parallel waves.",
+    },
+    qualityGate: {
+      type: "object",
+      description: "Cascade only: how to decide whether the cheap output is good enough to skip the premium model.",
+      properties: {
+        strategy: { type: "string", enum: ["length", "judge", "structural"] },
+        minChars: { type: "number" },
+        judgeModel: { type: "string" },
+        threshold: { type: "number" },
+        format: { type: "string", enum: ["json", "typescript"] },
+        requiredSections: { type: "array", items: { type: "string" } },
+      },
+      required: ["strategy"],
+      additionalProperties: false,
+    },
+    tools: {
+      type: "object",
+      description:
+        "Let task nodes call tools in a bounded loop: workspace file access, allowlisted commands (MCP_ALLOWED_COMMANDS) and sibling node outputs.",
+      properties: {
+        enabled: {
+          type: "array",
+          items: { type: "string", enum: ["read_file", "write_file", "list_files", "run_command", "get_artifact"] },
         },
+        allowedCommands: { type: "array", items: { type: "string" } },
+        maxTurns: { type: "number", minimum: 1, maximum: 12 },
       },
-      required: ["task", "mode"],
+      required: ["enabled"],
       additionalProperties: false,
     },
+    outputSchema: {
+      type: "object",
+      description:
+        "JSON Schema for the final output. The merge node (or final node) must answer with matching JSON; it is validated, re-prompted on violations and returned as structured_output.",
+    },
+  },
+  required: ["task", "mode"],
+  additionalProperties: false,
+} as const;
+
+const TOOL_DEFS = [
+  {
+    name: "smartspawn_run_create",
+    description: "Create an async Smart Spawn run. Plans the run and checks its projected cost against MAX_USD_PER_RUN first (downgrading the budget or rejecting it), then returns a run_id while the sub-agents execute in the background.",
+    inputSchema: RUN_INPUT_SCHEMA,
+  },
+  {
+    name: "smartspawn_run_estimate",
+    description: "Project the cost of a run (same input as run_create) without executing it.",
+    inputSchema: RUN_INPUT_SCHEMA,
   },
   {
     name: "smartspawn_run_status",
-    description: "Get status/progress for an async run.",
+    description:
+      "Get status/progress for an async run. Set wait_seconds to block until the run finishes (or the wait elapses); pass a progressToken to receive per-node progress notifications while waiting.",
     inputSchema: {
       type: "object",
       properties: {
         run_id: { type: "string" },
+        wait_seconds: { type: "number" },
       },
       required: ["run_id"],
       additionalProperties: false,
@@ -75,6 +128,22 @@ const TOOL_DEFS = [
       additionalProperties: false,
     },
   },
+  {
+    name: "smartspawn_run_resume",
+    description:
+      "Resume a failed or canceled run from where it stopped. Completed nodes are kept; failed nodes are re-queued. Pass node_id to retry one node, optionally with a different model or prompt.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        run_id: { type: "string" },
+        node_id: { type: "string" },
+        model: { type: "string" },
+        prompt: { type: "string" },
+      },
+      required: ["run_id"],
+      additionalProperties: false,
+    },
+  },
   {
     name: "smartspawn_run_list",
     description: "List recent runs.",
@@ -124,6 +193,150 @@ function toErrorContent(message: string) {
   };
 }
 
+/** Project keys as the Smart Spawn API accepts them */
+const PROJECT_RE = /^[a-zA-Z0-9][a-zA-Z0-9._:-]{0,63}$/;
+
+function parseRunInput(args: Record<string, unknown>): RunCreateInput | string {
+  const task = String(args.task ?? "").trim();
+  const mode = String(args.mode ?? "").trim();
+  if (!task) return "task is required";
+  if (!["single", "collective", "cascade", "plan", "swarm"].includes(mode)) {
+    return "mode must be one of single|collective|cascade|plan|swarm";
+  }
+  const qualityGate = parseQualityGate(args.qualityGate);
+  if (typeof qualityGate === "string") return qualityGate;
+  if (args.planGraph !== undefined && args.planGraph !== "linear" && args.planGraph !== "dag") {
+    return "planGraph must be one of linear|dag";
+  }
+  const tools = parseNodeTools(args.tools);
+  if (typeof tools === "string") return tools;
+  const project = typeof args.project === "string" ? args.project.trim() : "";
+  if (project && !PROJECT_RE.test(project)) return "project must be letters, digits and . _ : - (max 64)";
+  if (
+    args.outputSchema !== undefined &&
+    (typeof args.outputSchema !== "object" || args.outputSchema === null || Array.isArray(args.outputSchema))
+  ) {
+    return "outputSchema must be a JSON Schema object";
+  }
+  return {
+    task,
+    mode: mode as RunCreateInput["mode"],
+    budget: args.budget as RunCreateInput["budget"],
+    context: typeof args.context === "string" ? args.context : undefined,
+    project: project || undefined,
+    collectiveCount: typeof args.collectiveCount === "number" ? args.collectiveCount : undefined,
+    role: typeof args.role === "object" && args.role ? (args.role as RunCreateInput["role"]) : undefined,
+    merge: typeof args.merge === "object" && args.merge ? (args.merge as RunCreateInput["merge"]) : undefined,
+    qualityGate,
+    planGraph: args.planGraph as RunCreateInput["planGraph"],
+    tools,
+    outputSchema: args.outputSchema as RunCreateInput["outputSchema"],
+  };
+}
+
+function parseNodeTools(raw: unknown): NodeToolsConfig | undefined | string {
+  if (raw === undefined || raw === null) return undefined;
+  if (typeof raw !== "object") return "tools must be an object";
+  const tools = raw as Record<string, unknown>;
+  if (!Array.isArray(tools.enabled) || tools.enabled.length === 0) {
+    return "tools.enabled must be a non-empty array";
+  }
+  const unknown = tools.enabled.find((name) => !NODE_TOOL_NAMES.includes(name as NodeToolName));
+  if (unknown !== undefined) {
+    return `tools.enabled must only contain ${NODE_TOOL_NAMES.join("|")}`;
+  }
+  if (
+    tools.maxTurns !== undefined &&
+    (typeof tools.maxTurns !== "number" || !Number.isInteger(tools.maxTurns) || tools.maxTurns < 1 || tools.maxTurns > MAX_TOOL_TURNS)
+  ) {
+    return `tools.maxTurns must be an integer between 1 and ${MAX_TOOL_TURNS}`;
+  }
+  return {
+    enabled: [...new Set(tools.enabled as NodeToolName[])],
+    allowedCommands: Array.isArray(tools.allowedCommands) ? tools.allowedCommands.map((x) => String(x)) : undefined,
+    maxTurns: tools.maxTurns as number | undefined,
+  };
+}
+
+function parseQualityGate(raw: unknown): QualityGateConfig | undefined | string {
+  if (raw === undefined || raw === null) return undefined;
+  if (typeof raw !== "object") return "qualityGate must be an object";
+  const gate = raw as Record<string, unknown>;
+  const strategy = String(gate.strategy ?? "");
+  if (!["length", "judge", "structural"].includes(strategy)) {
+    return "qualityGate.strategy must be one of length|judge|structural";
+  }
+  if (gate.threshold !== undefined && (typeof gate.threshold !== "number" || gate.threshold < 0 || gate.threshold > 1)) {
+    return "qualityGate.threshold must be a number between 0 and 1";
+  }
+  if (gate.minChars !== undefined && (typeof gate.minChars !== "number" || gate.minChars <= 0)) {
+    return "qualityGate.minChars must be a positive number";
+  }
+  if (gate.format !== undefined && gate.format !== "json" && gate.format !== "typescript") {
+    return "qualityGate.format must be one of json|typescript";
+  }
+  return {
+    strategy: strategy as QualityGateConfig["strategy"],
+    minChars: gate.minChars as number | undefined,
+    judgeModel: typeof gate.judgeModel === "string" && gate.judgeModel ? gate.judgeModel : undefined,
+    threshold: gate.threshold as number | undefined,
+    format: gate.format as QualityGateConfig["format"],
+    requiredSections: Array.isArray(gate.requiredSections) ? gate.requiredSections.map((x) => String(x)) : undefined,
+  };
+}
+
+const MAX_WAIT_SECONDS = 300;
+const PROGRESS_NOTIFY_INTERVAL_MS = 250;
+
+function isTerminal(status: string): boolean {
+  return status === "completed" || status === "failed" || status === "canceled";
+}
+
+/**
+ * Block until a run reaches a terminal state or the wait elapses. When the caller
+ * supplied a progressToken, node streaming progress is forwarded as MCP progress
+ * notifications tied to this (still open) request.
+ */
+async function waitForRun(runtime: RuntimeQueue, runId: string, waitMs: number, extra: any): Promise<void> {
+  const progressToken = extra?._meta?.progressToken;
+  const signal: AbortSignal | undefined = extra?.signal;
+  let lastProgress = -1;
+  let lastSentAt = 0;
+
+  const notify = (message: string, force = false) => {
+    if (progressToken === undefined || typeof extra?.sendNotification !== "function") return;
+    const percent = runtime.getProgress(runId).percent;
+    const now = Date.now();
+    // MCP requires progress to strictly increase; a retried node can move it backwards.
+    if (percent <= lastProgress) return;
+    if (!force && now - lastSentAt < PROGRESS_NOTIFY_INTERVAL_MS) return;
+    lastProgress = percent;
+    lastSentAt = now;
+    void extra
+      .sendNotification({
+        method: "notifications/progress",
+        params: { progressToken, progress: lastProgress, total: 100, message },
+      })
+      .catch(() => {});
+  };
+
+  const unsubscribe = runtime.subscribe(runId, (event) => {
+    const label = `${event.nodeId} (${event.model}) ${event.status}`;
+    notify(event.status === "running" ? `${label}: ${event.outputChars} chars` : label, event.status !== "running");
+  });
+
+  try {
+    const deadline = Date.now() + waitMs;
+    while (Date.now() < deadline && !signal?.aborted) {
+      const run = runtime.getRun(runId);
+      if (!run || isTerminal(run.status)) break;
+      await Bun.sleep(100);
+    }
+  } finally {
+    unsubscribe();
+  }
+}
+
 export function listToolNames(): string[] {
   return TOOL_DEFS.map((tool) => tool.name);
 }
@@ -133,38 +346,56 @@ export function registerToolHandlers(server: any, runtime: RuntimeQueue): void {
     tools: TOOL_DEFS,
   }));
 
-  server.setRequestHandler(CallToolRequestSchema, async (request: any) => {
+  server.setRequestHandler(CallToolRequestSchema, async (request: any, extra: any) => {
     const name = request?.params?.name as string | undefined;
     const args = (request?.params?.arguments ?? {}) as Record<string, unknown>;
 
     try {
       if (name === "smartspawn_run_create") {
-        const task = String(args.task ?? "").trim();
-        const mode = String(args.mode ?? "").trim();
-        if (!task) return toErrorContent("task is required");
-        if (!["single", "collective", "cascade", "plan", "swarm"].includes(mode)) {
-          return toErrorContent("mode must be one of single|collective|cascade|plan|swarm");
-        }
-        const runInput: RunCreateInput = {
-          task,
-          mode: mode as RunCreateInput["mode"],
-          budget: args.budget as RunCreateInput["budget"],
-          context: typeof args.context === "string" ? args.context : undefined,
-          collectiveCount: typeof args.collectiveCount === "number" ? args.collectiveCount : undefined,
-          role: typeof args.role === "object" && args.role ? (args.role as RunCreateInput["role"]) : undefined,
-          merge: typeof args.merge === "object" && args.merge ? (args.merge as RunCreateInput["merge"]) : undefined,
-        };
+        const runInput = parseRunInput(args);
+        if (typeof runInput === "string") return toErrorContent(runInput);
         const run = await runtime.createRun(runInput);
         return asToolContent({
           run_id: run.id,
           status: run.status,
+          budget: run.budget,
+          projected_usd: run.projectedCostUsd,
           created_at: run.createdAt,
         });
       }
 
+      if (name === "smartspawn_run_estimate") {
+        const runInput = parseRunInput(args);
+        if (typeof runInput === "string") return toErrorContent(runInput);
+        const estimate = await runtime.estimateRun(runInput);
+        return asToolContent({
+          action: estimate.action,
+          requested_budget: estimate.requestedBudget,
+          budget: estimate.input.budget,
+          projected_usd: estimate.estimate.totalUsd,
+          max_usd_per_run: estimate.maxUsd,
+          planner_summary: estimate.plan.plannerSummary,
+          nodes: estimate.estimate.nodes.map((n) => ({
+            node_id: n.nodeId,
+            kind: n.kind,
+            model: n.model,
+            prompt_tokens: n.promptTokens,
+            completion_tokens: n.completionTokens,
+            usd: n.costUsd,
+            pricing_source: n.pricingSource,
+            ...(n.pricedAs ? { priced_as: n.pricedAs } : {}),
+          })),
+        });
+      }
+
       if (name === "smartspawn_run_status") {
         const runId = String(args.run_id ?? "");
         if (!runId) return toErrorContent("run_id is required");
+        if (!runtime.getRun(runId)) return toErrorContent(`run not found: ${runId}`);
+        const waitSeconds = typeof args.wait_seconds === "number" ? Math.min(Math.max(0, args.wait_seconds), MAX_WAIT_SECONDS) : 0;
+        if (waitSeconds > 0) {
+          await waitForRun(runtime, runId, waitSeconds * 1000, extra);
+        }
         const run = runtime.getRun(runId);
         if (!run) return toErrorContent(`run not found: ${runId}`);
         const progress = runtime.getProgress(runId);
@@ -178,6 +409,14 @@ export function registerToolHandlers(server: any, runtime: RuntimeQueue): void {
             failed_nodes: progress.failedNodes,
             percent: progress.percent,
           },
+          nodes: runtime.getNodeStatuses(runId).map((n) => ({
+            node_id: n.nodeId,
+            kind: n.kind,
+            model: n.model,
+            status: n.status,
+            streamed_chars: n.outputChars,
+            completion_tokens: n.completionTokens,
+          })),
           last_event: runtime.getLastEvent(runId),
           updated_at: run.updatedAt,
         });
@@ -192,6 +431,7 @@ export function registerToolHandlers(server: any, runtime: RuntimeQueue): void {
         return asToolContent({
           status: result.status,
           merged_output: result.mergedOutput,
+          structured_output: result.structuredOutput,
           summary: result.summary,
           artifacts: result.artifacts.map((a) => ({
             node_id: a.nodeId,
@@ -204,7 +444,16 @@ export function registerToolHandlers(server: any, runtime: RuntimeQueue): void {
             prompt_tokens: result.cost.promptTokens,
             completion_tokens: result.cost.completionTokens,
             usd_estimate: result.cost.usdEstimate,
+            usd_projected: result.cost.usdProjected,
           },
+          quality_gates: result.qualityGates.map((g) => ({
+            node_id: g.nodeId,
+            strategy: g.strategy,
+            passed: g.passed,
+            score: g.score,
+            reason: g.reason,
+            ...(g.judge ? { judge_model: g.judge.model, judge_usd: g.judge.costUsd } : {}),
+          })),
           ...(includeRaw ? { raw_outputs: result.rawOutputs } : {}),
         });
       }
@@ -220,6 +469,22 @@ export function registerToolHandlers(server: any, runtime: RuntimeQueue): void {
         });
       }
 
+      if (name === "smartspawn_run_resume") {
+        const runId = String(args.run_id ?? "");
+        if (!runId) return toErrorContent("run_id is required");
+        const resumed = await runtime.resumeRun(runId, {
+          nodeId: typeof args.node_id === "string" && args.node_id ? args.node_id : undefined,
+          model: typeof args.model === "string" && args.model ? args.model : undefined,
+          prompt: typeof args.prompt === "string" && args.prompt ? args.prompt : undefined,
+        });
+        if (!resumed) return toErrorContent(`run not found: ${runId}`);
+        return asToolContent({
+          run_id: runId,
+          status: resumed.run.status,
+          reset_nodes: resumed.resetNodes,
+        });
+      }
+
       if (name === "smartspawn_run_list") {
         const status = (args.status ? String(args.status) : undefined) as RunStatus | undefined;
         const limit = typeof args.limit === "number" ? args.limit : undefined;
@@ -261,6 +526,7 @@ export function registerToolHandlers(server: any, runtime: RuntimeQueue): void {
           db_writable: health.dbWritable,
           artifact_storage_writable: health.artifactStorageWritable,
           worker_alive: health.workerAlive,
+          direct_providers: health.providers,
         });
       }
 
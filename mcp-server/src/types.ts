@@ -3,6 +3,11 @@ export type Budget = "low" | "medium" | "high" | "any";
 export type RunStatus = "queued" | "running" | "completed" | "failed" | "canceled";
 export type NodeStatus = "queued" | "running" | "completed" | "failed" | "canceled" | "skipped";
 export type NodeKind = "task" | "merge";
+export type CostSource = "openrouter_usage" | "catalog" | "fallback";
+export type PlanGraph = "linear" | "dag";
+export type DependencyEdgeType = "phase" | "artifact" | "temporal";
+export type QualityGateStrategy = "length" | "judge" | "structural";
+export type NodeToolName = "read_file" | "write_file" | "list_files" | "run_command" | "get_artifact";
 
 export interface RoleConfig {
   persona?: string;
@@ -17,14 +22,63 @@ export interface MergeConfig {
   model?: string;
 }
 
+export interface QualityGateConfig {
+  strategy: QualityGateStrategy;
+  minChars?: number;
+  judgeModel?: string;
+  threshold?: number;
+  format?: "json" | "typescript";
+  requiredSections?: string[];
+}
+
+/** A JSON Schema document; see runtime/output-contract.ts for the supported keywords. */
+export type JsonSchema = Record<string, unknown>;
+
+/** Tools a task node may call during its completion. */
+export interface NodeToolsConfig {
+  enabled: NodeToolName[];
+  /** Narrows MCP_ALLOWED_COMMANDS for this run; it can never widen it. */
+  allowedCommands?: string[];
+  /** Model turns before the node must answer without tools. */
+  maxTurns?: number;
+}
+
+export interface QualityVerdict {
+  strategy: QualityGateStrategy;
+  passed: boolean;
+  /** 0..1, higher is better. */
+  score: number;
+  reason: string;
+  judge?: {
+    model: string;
+    promptTokens: number;
+    completionTokens: number;
+    costUsd: number;
+  };
+}
+
 export interface RunCreateInput {
   task: string;
   mode: RunMode;
   budget?: Budget;
   context?: string;
+  /** Spend budget key on the Smart Spawn API; SMART_SPAWN_PROJECT when left out. */
+  project?: string;
   collectiveCount?: number;
   role?: RoleConfig;
   merge?: MergeConfig;
+  qualityGate?: QualityGateConfig;
+  /** Plan mode only: "dag" keeps independent steps in the same wave. */
+  planGraph?: PlanGraph;
+  tools?: NodeToolsConfig;
+  /** JSON Schema the run's final output must satisfy. */
+  outputSchema?: JsonSchema;
+}
+
+export interface DependencyEdge {
+  from: string;
+  to: string;
+  type: DependencyEdgeType;
 }
 
 export interface RunRecord {
@@ -36,6 +90,7 @@ export interface RunRecord {
   paramsJson: string;
   status: RunStatus;
   error: string | null;
+  projectedCostUsd: number | null;
   createdAt: string;
   updatedAt: string;
   startedAt: string | null;
@@ -50,6 +105,8 @@ export interface NodeRecord {
   dependsOnJson: string;
   task: string;
   model: string;
+  fallbackModelsJson: string;
+  outputSchemaJson: string | null;
   prompt: string;
   metaJson: string;
   status: NodeStatus;
@@ -61,13 +118,14 @@ export interface NodeRecord {
   tokensPrompt: number;
   tokensCompletion: number;
   costUsd: number;
+  costSource: CostSource | null;
 }
 
 export interface ArtifactRecord {
   id: string;
   runId: string;
   nodeId: string;
-  type: "raw" | "merged" | "plan" | "log";
+  type: "raw" | "merged" | "plan" | "log" | "tool" | "structured";
   path: string;
   bytes: number;
   sha256: string;
@@ -84,11 +142,40 @@ export interface PlannedNode {
   prompt: string;
   meta?: Record<string, unknown>;
   maxRetries?: number;
+  /** Tried in order when `model` fails with a non-transient model error. */
+  fallbackModels?: string[];
+  /** Output must be JSON matching this schema; it is validated and stored as a `structured` artifact. */
+  outputSchema?: JsonSchema;
+  projectedCostUsd?: number;
 }
 
 export interface PlannedRun {
   nodes: PlannedNode[];
   plannerSummary: string;
+  projectedCostUsd?: number;
+}
+
+export interface NodeCostEstimate {
+  nodeId: string;
+  kind: NodeKind;
+  model: string;
+  promptTokens: number;
+  completionTokens: number;
+  costUsd: number;
+  pricingSource: Exclude<CostSource, "openrouter_usage">;
+  pricedAs?: string; // the fallback model whose price was projected, when dearer than `model`
+}
+
+export interface RunCostEstimate {
+  totalUsd: number;
+  nodes: NodeCostEstimate[];
+}
+
+export interface ToolCall {
+  id: string;
+  name: string;
+  /** JSON-encoded arguments exactly as the model produced them. */
+  arguments: string;
 }
 
 export interface OpenRouterExecutionResult {
@@ -96,6 +183,57 @@ export interface OpenRouterExecutionResult {
   promptTokens: number;
   completionTokens: number;
   totalTokens: number;
+  /** Part of completionTokens spent on hidden reasoning, when the provider breaks it out */
+  reasoningTokens?: number;
+  costUsd?: number | null;
+  toolCalls?: ToolCall[];
+}
+
+export interface ModelPricing {
+  modelId: string;
+  promptPer1m: number;
+  completionPer1m: number;
+  updatedAt: string;
+}
+
+/** A completed node's actual usage, reported to the Smart Spawn API's /spawn-log */
+export interface SpawnUsageReport {
+  model: string;
+  task: string;
+  budget: Budget;
+  mode: string;
+  role: string;
+  context?: string;
+  project?: string;
+  promptTokens: number;
+  completionTokens: number; // visible output, excluding reasoning
+  reasoningTokens?: number;
+  latencyMs: number;
+  costUsd?: number;
+  /** Speed of the node's model call, only when it was a single streamed call */
+  ttfbMs?: number;
+  durationMs?: number;
+  outputTokens?: number; // completion plus reasoning tokens generated in durationMs
+}
+
+export type HealthErrorKind = "rate_limit" | "server_error" | "timeout" | "client_error";
+
+/** Outcome of one node's model call, for the API's provider health window */
+export interface NodeHealthReport {
+  model: string;
+  ok: boolean;
+  kind?: HealthErrorKind;
+  status?: number;
+  latencyMs: number;
+  error?: string;
+}
+
+export interface NodeProgressEvent {
+  runId: string;
+  nodeId: string;
+  model: string;
+  status: "running" | "completed" | "failed";
+  outputChars: number;
 }
 
 export interface RunProgress {
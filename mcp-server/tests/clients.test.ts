@@ -1,7 +1,114 @@
 import { expect, test } from "bun:test";
-import { buildOpenRouterHeaders } from "../src/openrouter-client.ts";
+import { OpenRouterClient, buildOpenRouterHeaders } from "../src/openrouter-client.ts";
+import { SmartSpawnClient } from "../src/smart-spawn-client.ts";
 
 test("buildOpenRouterHeaders includes bearer token", () => {
   const headers = buildOpenRouterHeaders("test-key");
   expect(headers.Authorization).toBe("Bearer test-key");
 });
+
+test("OpenRouterClient streams deltas and reads usage from the final SSE chunk", async () => {
+  const chunks = [
+    { choices: [{ delta: { content: "Hello" } }] },
+    { choices: [{ delta: { content: ", world" } }] },
+    { choices: [], usage: { prompt_tokens: 12, completion_tokens: 3, total_tokens: 15, cost: 0.0021 } },
+  ];
+  const server = Bun.serve({
+    port: 0,
+    fetch() {
+      const body = chunks.map((c) => `data: ${JSON.stringify(c)}\n\n`).join("") + ": keep-alive\n\ndata: [DONE]\n\n";
+      return new Response(body, { headers: { "Content-Type": "text/event-stream" } });
+    },
+  });
+
+  try {
+    const client = new OpenRouterClient("test-key", `http://localhost:${server.port}`);
+    const deltas: string[] = [];
+    const result = await client.chatCompletion({
+      model: "openai/gpt-4o-mini",
+      messages: [{ role: "user", content: "hi" }],
+      onDelta: (delta) => deltas.push(delta),
+    });
+
+    expect(deltas).toEqual(["Hello", ", world"]);
+    expect(result.text).toBe("Hello, world");
+    expect(result.promptTokens).toBe(12);
+    expect(result.completionTokens).toBe(3);
+    expect(result.costUsd).toBe(0.0021);
+  } finally {
+    server.stop(true);
+  }
+});
+
+test("SmartSpawnClient prices the whole catalog, not just its first /models page", async () => {
+  // Cheapest first, so a single capped page would miss the priciest models
+  const catalog = Array.from({ length: 1200 }, (_, i) => ({
+    id: `vendor/model-${i}`,
+    pricing: { prompt: i / 100, completion: i / 25 },
+  }));
+  const server = Bun.serve({
+    port: 0,
+    fetch(req) {
+      const url = new URL(req.url);
+      const limit = Math.min(Number(url.searchParams.get("limit") ?? 50), 500);
+      const offset = Number(url.searchParams.get("offset") ?? 0);
+      return Response.json({ data: catalog.slice(offset, offset + limit) });
+    },
+  });
+
+  try {
+    const client = new SmartSpawnClient(`http://localhost:${server.port}`);
+    const pricing = await client.listModelPricing();
+
+    expect(pricing).toHaveLength(1200);
+    expect(pricing.at(-1)).toEqual({ modelId: "vendor/model-1199", promptPer1m: 11.99, completionPer1m: 47.96 });
+  } finally {
+    server.stop(true);
+  }
+});
+
+test("SmartSpawnClient reports node health only with a tenant key", async () => {
+  const received: Array<{ key: string | null; body: any }> = [];
+  const server = Bun.serve({
+    port: 0,
+    async fetch(req) {
+      received.push({ key: req.headers.get("X-API-Key"), body: await req.json() });
+      return Response.json({ data: { recorded: 1 } });
+    },
+  });
+
+  try {
+    const report = { model: "openai/gpt-4o", ok: false, kind: "rate_limit" as const, status: 429, latencyMs: 850 };
+    await new SmartSpawnClient(`http://localhost:${server.port}`).reportHealth(report);
+    await new SmartSpawnClient(`http://localhost:${server.port}`, "sk_tenant").reportHealth(report);
+
+    expect(received).toEqual([{ key: "sk_tenant", body: { ...report, source: "mcp" } }]);
+  } finally {
+    server.stop(true);
+  }
+});
+
+test("SmartSpawnClient sends the run's project on /pick and /recommend", async () => {
+  const queries: Array<string | null> = [];
+  const server = Bun.serve({
+    port: 0,
+    fetch(req) {
+      const url = new URL(req.url);
+      queries.push(url.searchParams.get("project"));
+      return Response.json({
+        data: url.pathname === "/pick" ? { id: "openai/gpt-4o" } : [{ model: { id: "openai/gpt-4o" } }],
+      });
+    },
+  });
+
+  try {
+    const client = new SmartSpawnClient(`http://localhost:${server.port}`);
+    await client.pick({ task: "Write a haiku", project: "checkout" });
+    await client.recommend({ task: "Write a haiku", project: "checkout" });
+    await client.recommend({ task: "Write a haiku" });
+
+    expect(queries).toEqual(["checkout", "checkout", null]);
+  } finally {
+    server.stop(true);
+  }
+});
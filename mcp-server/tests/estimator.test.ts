@@ -0,0 +1,76 @@
+import { expect, test } from "bun:test";
+import { McpStore } from "../src/db.ts";
+import { estimatePlanCost, estimateTokens, nextCheaperBudget } from "../src/runtime/estimator.ts";
+import { PricingResolver } from "../src/runtime/pricing.ts";
+import type { PlannedRun } from "../src/types.ts";
+
+function buildResolver(store: McpStore): PricingResolver {
+  return new PricingResolver(store, {
+    async listModelPricing() {
+      return [
+        { modelId: "anthropic/claude-opus-4", promptPer1m: 15, completionPer1m: 75 },
+        { modelId: "openai/gpt-4o-mini", promptPer1m: 0.15, completionPer1m: 0.6 },
+      ];
+    },
+  });
+}
+
+test("estimateTokens approximates four characters per token", () => {
+  expect(estimateTokens("")).toBe(0);
+  expect(estimateTokens("a".repeat(400))).toBe(100);
+});
+
+test("estimatePlanCost prices each node and annotates the plan", async () => {
+  const store = new McpStore(":memory:");
+  const plan: PlannedRun = {
+    plannerSummary: "test",
+    nodes: [
+      { id: "a", kind: "task", wave: 0, dependsOn: [], task: "t", model: "openai/gpt-4o-mini", prompt: "x".repeat(4000) },
+      { id: "b", kind: "task", wave: 1, dependsOn: ["a"], task: "t", model: "anthropic/claude-opus-4", prompt: "x".repeat(4000) },
+      { id: "merged", kind: "merge", wave: 2, dependsOn: ["a", "b"], task: "t", model: "anthropic/claude-opus-4", prompt: "" },
+    ],
+  };
+
+  const estimate = await estimatePlanCost(plan, buildResolver(store), 1000);
+  const [cheap, premium, merge] = estimate.nodes;
+
+  expect(cheap?.promptTokens).toBe(1000);
+  expect(cheap?.completionTokens).toBe(1000);
+  expect(premium!.promptTokens).toBeGreaterThan(cheap!.promptTokens);
+  expect(merge?.pricingSource).toBe("catalog");
+  expect(premium!.costUsd).toBeGreaterThan(cheap!.costUsd * 50);
+  expect(plan.projectedCostUsd).toBeCloseTo(estimate.totalUsd);
+  expect(plan.nodes[1]?.projectedCostUsd).toBeCloseTo(premium!.costUsd);
+  store.close();
+});
+
+test("estimatePlanCost prices a node at its dearest fallback", async () => {
+  const store = new McpStore(":memory:");
+  const plan: PlannedRun = {
+    plannerSummary: "test",
+    nodes: [
+      {
+        id: "a",
+        kind: "task",
+        wave: 0,
+        dependsOn: [],
+        task: "t",
+        model: "openai/gpt-4o-mini",
+        prompt: "x".repeat(4000),
+        fallbackModels: ["anthropic/claude-opus-4"],
+      },
+    ],
+  };
+
+  const estimate = await estimatePlanCost(plan, buildResolver(store), 1000);
+  expect(estimate.nodes[0]).toMatchObject({ model: "openai/gpt-4o-mini", pricedAs: "anthropic/claude-opus-4" });
+  expect(estimate.totalUsd).toBeCloseTo((1000 / 1_000_000) * 15 + (1000 / 1_000_000) * 75);
+  store.close();
+});
+
+test("nextCheaperBudget steps down to low and stops", () => {
+  expect(nextCheaperBudget("any")).toBe("medium");
+  expect(nextCheaperBudget("high")).toBe("medium");
+  expect(nextCheaperBudget("medium")).toBe("low");
+  expect(nextCheaperBudget("low")).toBeNull();
+});
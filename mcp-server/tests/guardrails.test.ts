@@ -1,7 +1,14 @@
 import { expect, test } from "bun:test";
-import { shouldStopForBudget } from "../src/runtime/executor.ts";
+import { isModelUnavailableError, shouldStopForBudget } from "../src/runtime/executor.ts";
 
 test("stops run when estimated cost exceeds max", () => {
   expect(shouldStopForBudget({ spentUsd: 5.1, maxUsd: 5 })).toBe(true);
   expect(shouldStopForBudget({ spentUsd: 4.9, maxUsd: 5 })).toBe(false);
 });
+
+test("classifies model-not-found and context-length errors as model errors", () => {
+  expect(isModelUnavailableError("OpenRouter error 404: No endpoints found for openai/gpt-3")).toBe(true);
+  expect(isModelUnavailableError("OpenRouter error 400: This model's maximum context length is 8192 tokens")).toBe(true);
+  expect(isModelUnavailableError("OpenRouter error 429: Rate limit exceeded")).toBe(false);
+  expect(isModelUnavailableError("OpenRouter error 502: upstream timeout")).toBe(false);
+});
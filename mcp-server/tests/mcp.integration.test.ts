@@ -10,6 +10,7 @@ import { McpStore } from "../src/db.ts";
 import { RuntimeQueue } from "../src/runtime/queue.ts";
 import { registerToolHandlers } from "../src/tools.ts";
 import type { McpConfig } from "../src/config.ts";
+import type { NodeHealthReport, SpawnUsageReport } from "../src/types.ts";
 
 const cleanupDirs: string[] = [];
 
@@ -22,7 +23,13 @@ afterEach(() => {
 });
 
 class MockSmartSpawnClient {
-  async pick(params: { task: string; budget?: string; context?: string; exclude?: string[] }) {
+  readonly spawnLogs: SpawnUsageReport[] = [];
+  readonly healthReports: NodeHealthReport[] = [];
+  /** `project` of every /pick and /recommend call */
+  readonly planningProjects: Array<string | undefined> = [];
+
+  async pick(params: { task: string; budget?: string; context?: string; exclude?: string[]; project?: string }) {
+    this.planningProjects.push(params.project);
     const budget = params.budget ?? "medium";
     if (budget === "low") {
       return { modelId: "openai/gpt-4o-mini", reason: "cheap pick" };
@@ -33,15 +40,19 @@ class MockSmartSpawnClient {
     return { modelId: "anthropic/claude-sonnet-4", reason: "default pick" };
   }
 
-  async recommend(params: { count?: number }) {
+  async recommend(params: { count?: number; budget?: string; project?: string }) {
+    this.planningProjects.push(params.project);
     const count = Math.max(1, Math.min(params.count ?? 3, 5));
-    const models = [
-      "openai/gpt-4o-mini",
-      "anthropic/claude-sonnet-4",
-      "google/gemini-2.5-pro",
-      "openai/gpt-4o",
-      "meta-llama/llama-3.3-70b-instruct",
-    ];
+    const models =
+      params.budget === "low"
+        ? ["openai/gpt-4o-mini", "meta-llama/llama-3.3-70b-instruct"]
+        : [
+            "openai/gpt-4o-mini",
+            "anthropic/claude-sonnet-4",
+            "google/gemini-2.5-pro",
+            "openai/gpt-4o",
+            "meta-llama/llama-3.3-70b-instruct",
+          ];
     return models.slice(0, count).map((modelId, idx) => ({
       modelId,
       reason: `recommend-${idx + 1}`,
@@ -104,6 +115,10 @@ class MockSmartSpawnClient {
           reason: "tests",
         },
       ],
+      edges: [
+        { from: "swarm-1", to: "swarm-3", type: "phase" },
+        { from: "swarm-2", to: "swarm-3", type: "artifact" },
+      ],
     };
   }
 
@@ -111,6 +126,30 @@ class MockSmartSpawnClient {
     return task;
   }
 
+  async listModelPricing() {
+    return [
+      { modelId: "openai/gpt-4o-mini", promptPer1m: 0.15, completionPer1m: 0.6 },
+      { modelId: "anthropic/claude-sonnet-4", promptPer1m: 3, completionPer1m: 15 },
+      { modelId: "openai/gpt-4o", promptPer1m: 2.5, completionPer1m: 10 },
+    ];
+  }
+
+  async listModelCapabilities() {
+    return [
+      { modelId: "openai/gpt-4o-mini", functionCalling: true, json: true },
+      { modelId: "anthropic/claude-sonnet-4", functionCalling: true, json: true },
+      { modelId: "openai/gpt-4o", functionCalling: false, json: false },
+    ];
+  }
+
+  async logSpawn(report: SpawnUsageReport) {
+    this.spawnLogs.push(report);
+  }
+
+  async reportHealth(report: NodeHealthReport) {
+    this.healthReports.push(report);
+  }
+
   async health() {
     return { reachable: true, payload: { ok: true } };
   }
@@ -118,18 +157,60 @@ class MockSmartSpawnClient {
 
 class MockOpenRouterClient {
   private calls = 0;
-
-  async chatCompletion(input: { model: string; messages: Array<{ role: string; content: string }> }) {
+  /** model -> error message thrown for every call to that model */
+  readonly failModels = new Map<string, string>();
+  readonly prompts: string[] = [];
+  readonly jsonModeModels: string[] = [];
+
+  async chatCompletion(input: {
+    model: string;
+    messages: Array<{ role: string; content: string }>;
+    onDelta?: (delta: string) => void;
+    tools?: Array<{ name: string }>;
+    responseFormat?: "json";
+  }) {
     this.calls += 1;
     const prompt = input.messages.map((m) => m.content).join("\n");
+    this.prompts.push(prompt);
+    if (input.responseFormat === "json") this.jsonModeModels.push(input.model);
+    const failure = this.failModels.get(input.model);
+    if (failure) throw new Error(failure);
+    if (prompt.includes("Reply with the corrected JSON only")) {
+      return { text: '{"summary": "two options", "options": ["a", "b"]}', promptTokens: 200, completionTokens: 20, totalTokens: 220 };
+    }
+    if (prompt.includes("It must validate against this JSON Schema")) {
+      // First structured answer breaks the contract so the executor has to re-prompt.
+      return { text: '{"summary": 42}', promptTokens: 150, completionTokens: 10, totalTokens: 160 };
+    }
+    if (input.tools?.length && !input.messages.some((m) => m.role === "tool")) {
+      return {
+        text: "",
+        promptTokens: 100,
+        completionTokens: 10,
+        totalTokens: 110,
+        toolCalls: [
+          { id: "call-1", name: "write_file", arguments: '{"path":"notes/plan.md","content":"draft"}' },
+          { id: "call-2", name: "read_file", arguments: '{"path":"../../etc/passwd"}' },
+        ],
+      };
+    }
     const isMerge = prompt.includes("You are merging outputs");
-
-    await Bun.sleep(8);
+    if (prompt.includes("You are a strict reviewer")) {
+      return { text: '{"score": 9, "reason": "covers the task"}', promptTokens: 300, completionTokens: 20, totalTokens: 320 };
+    }
+    const text = isMerge ? `Merged final answer from ${input.model}.` : `Node answer ${this.calls} from ${input.model}.`;
+
+    if (input.onDelta) {
+      for (const word of text.split(/(?= )/)) {
+        input.onDelta(word);
+        await Bun.sleep(2);
+      }
+    } else {
+      await Bun.sleep(8);
+    }
 
     return {
-      text: isMerge
-        ? `Merged final answer from ${input.model}.`
-        : `Node answer ${this.calls} from ${input.model}.`,
+      text,
       promptTokens: 120 + this.calls,
       completionTokens: 80 + this.calls,
       totalTokens: 200 + this.calls * 2,
@@ -172,23 +253,31 @@ function buildTestConfig(homeDir: string): McpConfig {
     nodeTimeoutSeconds: 30,
     runTimeoutSeconds: 120,
     pollIntervalMs: 20,
+    providers: [],
+    workspaceDir: null,
+    allowedCommands: [],
+    toolTimeoutSeconds: 30,
   };
 }
 
-async function withMcpHarness<T>(fn: (ctx: { client: Client; runtime: RuntimeQueue }) => Promise<T>): Promise<T> {
+async function withMcpHarness<T>(
+  fn: (ctx: {
+    client: Client;
+    runtime: RuntimeQueue;
+    openRouter: MockOpenRouterClient;
+    smartSpawn: MockSmartSpawnClient;
+  }) => Promise<T>,
+  overrides: Partial<McpConfig> = {}
+): Promise<T> {
   const homeDir = mkdtempSync(join(tmpdir(), "smart-spawn-mcp-test-"));
   cleanupDirs.push(homeDir);
 
-  const config = buildTestConfig(homeDir);
+  const config = { ...buildTestConfig(homeDir), ...overrides };
   const store = new McpStore(config.dbPath);
   const storage = new ArtifactStorage(config.homeDir, config.artifactsDir);
-  const runtime = new RuntimeQueue(
-    config,
-    store,
-    storage,
-    new MockSmartSpawnClient() as any,
-    new MockOpenRouterClient() as any
-  );
+  const openRouter = new MockOpenRouterClient();
+  const smartSpawn = new MockSmartSpawnClient();
+  const runtime = new RuntimeQueue(config, store, storage, smartSpawn as any, openRouter as any);
   await runtime.start();
 
   const server = new Server(
@@ -203,7 +292,7 @@ async function withMcpHarness<T>(fn: (ctx: { client: Client; runtime: RuntimeQue
   await Promise.all([server.connect(serverTransport), client.connect(clientTransport)]);
 
   try {
-    return await fn({ client, runtime });
+    return await fn({ client, runtime, openRouter, smartSpawn });
   } finally {
     runtime.stop();
     await client.close();
@@ -213,7 +302,7 @@ async function withMcpHarness<T>(fn: (ctx: { client: Client; runtime: RuntimeQue
 }
 
 test("MCP single run lifecycle returns merged output and artifacts", async () => {
-  await withMcpHarness(async ({ client }) => {
+  await withMcpHarness(async ({ client, smartSpawn }) => {
     const tools = await client.listTools();
     const toolNames = tools.tools.map((t) => t.name);
     expect(toolNames).toContain("smartspawn_run_create");
@@ -253,9 +342,57 @@ test("MCP single run lifecycle returns merged output and artifacts", async () =>
     const mergedPayload = parseToolPayload(mergedArtifact);
     expect(mergedPayload.artifact_type).toBe("merged");
     expect(mergedPayload.content).toContain("Merged Output");
+
+    // Each completed node reports its actual usage back to the API.
+    expect(smartSpawn.spawnLogs.map((r) => r.role)).toEqual(["primary"]);
+    for (const report of smartSpawn.spawnLogs) {
+      expect(report.budget).toBe("low");
+      expect(report.mode).toBe("single");
+      expect(report.promptTokens).toBeGreaterThan(0);
+      expect(report.completionTokens).toBeGreaterThan(0);
+      expect(report.latencyMs).toBeGreaterThanOrEqual(0);
+      expect(report.costUsd).toBeUndefined();
+      // A single streamed call is also a speed sample, timed around the model call only
+      expect(report.ttfbMs).toBeGreaterThanOrEqual(0);
+      expect(report.durationMs).toBeGreaterThanOrEqual(report.ttfbMs!);
+      expect(report.durationMs).toBeLessThanOrEqual(report.latencyMs);
+      expect(report.outputTokens).toBe(report.completionTokens);
+    }
+    expect(smartSpawn.healthReports).toEqual([
+      { model: "openai/gpt-4o-mini", ok: true, latencyMs: smartSpawn.spawnLogs[0]!.latencyMs },
+    ]);
   });
 });
 
+test("MCP runs send their project to /pick, /recommend and the spawn log, defaulting to SMART_SPAWN_PROJECT", async () => {
+  await withMcpHarness(
+    async ({ client, smartSpawn }) => {
+      const runProject = async (args: Record<string, unknown>) => {
+        smartSpawn.planningProjects.length = 0;
+        smartSpawn.spawnLogs.length = 0;
+        const created = parseToolPayload(
+          await client.callTool({
+            name: "smartspawn_run_create",
+            arguments: { task: "Write a haiku", mode: "single", budget: "medium", ...args },
+          })
+        );
+        expect((await waitForRunCompletion(client, String(created.run_id))).status).toBe("completed");
+        return { planning: [...new Set(smartSpawn.planningProjects)], logged: smartSpawn.spawnLogs.map((r) => r.project) };
+      };
+
+      expect(await runProject({ project: "checkout" })).toEqual({ planning: ["checkout"], logged: ["checkout"] });
+      expect(await runProject({})).toEqual({ planning: ["team-default"], logged: ["team-default"] });
+
+      const invalid = await client.callTool({
+        name: "smartspawn_run_create",
+        arguments: { task: "Write a haiku", mode: "single", project: "team checkout" },
+      });
+      expect(invalid.isError).toBe(true);
+    },
+    { smartSpawnProject: "team-default" }
+  );
+});
+
 test("MCP swarm mode runs parallel tasks and returns merged answer", async () => {
   await withMcpHarness(async ({ client }) => {
     const createResult = await client.callTool({
@@ -297,3 +434,327 @@ test("MCP swarm mode runs parallel tasks and returns merged answer", async () =>
     expect(health.worker_alive).toBe(true);
   });
 });
+
+test("MCP run estimate projects per-node cost without creating a run", async () => {
+  await withMcpHarness(async ({ client, runtime }) => {
+    const estimateResult = await client.callTool({
+      name: "smartspawn_run_estimate",
+      arguments: { task: "Build backend and frontend and tests", mode: "swarm", budget: "medium" },
+    });
+    const estimate = parseToolPayload(estimateResult);
+
+    expect(estimate.action).toBe("accept");
+    expect(estimate.nodes.length).toBe(4);
+    expect(estimate.nodes.every((n: any) => n.pricing_source === "catalog")).toBe(true);
+    expect(estimate.projected_usd).toBeGreaterThan(0);
+    expect(runtime.listRuns().length).toBe(0);
+  });
+});
+
+test("MCP run create downgrades budget or rejects when projection exceeds the cap", async () => {
+  await withMcpHarness(
+    async ({ client }) => {
+      const created = parseToolPayload(
+        await client.callTool({
+          name: "smartspawn_run_create",
+          arguments: { task: "Write a haiku", mode: "single", budget: "medium" },
+        })
+      );
+      expect(created.budget).toBe("low");
+      expect(created.projected_usd).toBeLessThanOrEqual(0.01);
+      await waitForRunCompletion(client, String(created.run_id));
+    },
+    { maxUsdPerRun: 0.01 }
+  );
+
+  await withMcpHarness(
+    async ({ client, runtime }) => {
+      const rejected = await client.callTool({
+        name: "smartspawn_run_create",
+        arguments: { task: "Write a haiku", mode: "single", budget: "medium" },
+      });
+      expect(rejected.isError).toBe(true);
+      expect(parseToolPayload(rejected).error).toContain("exceeds MAX_USD_PER_RUN");
+      expect(runtime.listRuns().length).toBe(0);
+    },
+    { maxUsdPerRun: 0.0001 }
+  );
+});
+
+test("MCP run status waits for completion and reports per-node streaming progress", async () => {
+  await withMcpHarness(async ({ client }) => {
+    const created = parseToolPayload(
+      await client.callTool({
+        name: "smartspawn_run_create",
+        arguments: { task: "Build backend and frontend and tests", mode: "swarm", budget: "medium" },
+      })
+    );
+    const runId = String(created.run_id);
+
+    const progressEvents: Array<{ progress: number; total?: number; message?: string }> = [];
+    const status = parseToolPayload(
+      await client.callTool(
+        { name: "smartspawn_run_status", arguments: { run_id: runId, wait_seconds: 10 } },
+        undefined,
+        { onprogress: (p) => progressEvents.push(p) }
+      )
+    );
+
+    expect(status.status).toBe("completed");
+    expect(status.nodes.length).toBe(status.progress.total_nodes);
+    expect(status.nodes.every((n: any) => n.status === "completed" && typeof n.model === "string")).toBe(true);
+
+    expect(progressEvents.length).toBeGreaterThan(0);
+    expect(progressEvents.every((p) => p.total === 100)).toBe(true);
+    for (let i = 1; i < progressEvents.length; i += 1) {
+      expect(progressEvents[i]!.progress).toBeGreaterThan(progressEvents[i - 1]!.progress);
+    }
+
+    const result = parseToolPayload(
+      await client.callTool({ name: "smartspawn_run_result", arguments: { run_id: runId } })
+    );
+    expect(result.artifacts.some((a: any) => a.type === "log" && a.path.endsWith(".partial.txt"))).toBe(true);
+  });
+});
+
+test("MCP cascade quality gate skips or escalates the premium node and reports the verdict", async () => {
+  await withMcpHarness(async ({ client }) => {
+    const judged = parseToolPayload(
+      await client.callTool({
+        name: "smartspawn_run_create",
+        arguments: { task: "Explain DNS", mode: "cascade", qualityGate: { strategy: "judge" } },
+      })
+    );
+    expect((await waitForRunCompletion(client, String(judged.run_id))).status).toBe("completed");
+    const judgedResult = parseToolPayload(
+      await client.callTool({ name: "smartspawn_run_result", arguments: { run_id: String(judged.run_id) } })
+    );
+    expect(judgedResult.quality_gates).toHaveLength(1);
+    expect(judgedResult.quality_gates[0]).toMatchObject({ strategy: "judge", passed: true, score: 0.9 });
+    expect(judgedResult.quality_gates[0].judge_usd).toBeGreaterThan(0);
+    // The premium pick judges; the cheap model never grades itself
+    expect(judgedResult.quality_gates[0].judge_model).toBe("anthropic/claude-sonnet-4");
+    expect(judgedResult.artifacts.find((a: any) => a.node_id.includes(":cascade-premium"))).toBeUndefined();
+
+    const structural = parseToolPayload(
+      await client.callTool({
+        name: "smartspawn_run_create",
+        arguments: {
+          task: "Return the config as JSON",
+          mode: "cascade",
+          qualityGate: { strategy: "structural", format: "json" },
+        },
+      })
+    );
+    expect((await waitForRunCompletion(client, String(structural.run_id))).status).toBe("completed");
+    const structuralResult = parseToolPayload(
+      await client.callTool({ name: "smartspawn_run_result", arguments: { run_id: String(structural.run_id) } })
+    );
+    expect(structuralResult.quality_gates[0]).toMatchObject({ strategy: "structural", passed: false, score: 0 });
+    expect(structuralResult.artifacts.some((a: any) => a.node_id.includes(":cascade-premium") && a.type === "raw")).toBe(true);
+
+    const invalid = await client.callTool({
+      name: "smartspawn_run_create",
+      arguments: { task: "x", mode: "cascade", qualityGate: { strategy: "vibes" } },
+    });
+    expect(invalid.isError).toBe(true);
+  });
+});
+
+test("MCP plan mode with planGraph dag runs independent steps in the same wave", async () => {
+  await withMcpHarness(async ({ client, runtime }) => {
+    const args = { task: "Build backend and frontend and tests", mode: "plan", planGraph: "dag" };
+    const estimate = parseToolPayload(await client.callTool({ name: "smartspawn_run_estimate", arguments: args }));
+    expect(estimate.planner_summary).toBe("plan mode with 3 nodes in 2 dependency waves");
+
+    const created = parseToolPayload(await client.callTool({ name: "smartspawn_run_create", arguments: args }));
+    const runId = String(created.run_id);
+    expect((await waitForRunCompletion(client, runId)).status).toBe("completed");
+
+    const nodes = new Map<string, any>(
+      (runtime as any).store.listNodes(runId).map((n: any) => [n.id.slice(runId.length + 1), n])
+    );
+    expect([...nodes.keys()].sort()).toEqual(["merged", "swarm-1", "swarm-2", "swarm-3"]);
+    expect(nodes.get("swarm-1").wave).toBe(0);
+    expect(nodes.get("swarm-2").wave).toBe(0);
+    expect(nodes.get("swarm-3").wave).toBe(1);
+
+    const meta = JSON.parse(nodes.get("swarm-3").metaJson);
+    expect(meta.graph).toBe("dag");
+    expect(meta.edges).toEqual([
+      { from: "swarm-1", type: "phase" },
+      { from: "swarm-2", type: "artifact" },
+    ]);
+  });
+});
+
+test("MCP run resume retries a failed node without re-running completed work", async () => {
+  await withMcpHarness(async ({ client, openRouter }) => {
+    openRouter.failModels.set("openai/gpt-4o-mini", "OpenRouter error 400: invalid request");
+    const created = parseToolPayload(
+      await client.callTool({
+        name: "smartspawn_run_create",
+        arguments: { task: "Build backend and frontend and tests", mode: "swarm", budget: "medium" },
+      })
+    );
+    const runId = String(created.run_id);
+    expect((await waitForRunCompletion(client, runId)).status).toBe("failed");
+
+    const notResumable = await client.callTool({ name: "smartspawn_run_resume", arguments: { run_id: "missing" } });
+    expect(notResumable.isError).toBe(true);
+
+    const resumed = parseToolPayload(
+      await client.callTool({
+        name: "smartspawn_run_resume",
+        arguments: { run_id: runId, node_id: "swarm-2", model: "openai/gpt-4o" },
+      })
+    );
+    expect(resumed.reset_nodes).toEqual([`${runId}:swarm-2`]);
+
+    const final = await waitForRunCompletion(client, runId);
+    expect(final.status).toBe("completed");
+    expect(final.nodes.find((n: any) => n.node_id.endsWith(":swarm-2")).model).toBe("openai/gpt-4o");
+    expect(openRouter.prompts.filter((p) => p === "Create backend service")).toHaveLength(1);
+
+    const again = await client.callTool({ name: "smartspawn_run_resume", arguments: { run_id: runId } });
+    expect(again.isError).toBe(true);
+    expect(parseToolPayload(again).error).toContain("only failed or canceled runs");
+  });
+});
+
+test("MCP resuming one node after a cancel also resets nodes the cancel left running", async () => {
+  await withMcpHarness(async ({ client, runtime, openRouter }) => {
+    openRouter.failModels.set("openai/gpt-4o-mini", "OpenRouter error 400: invalid request");
+    const created = parseToolPayload(
+      await client.callTool({
+        name: "smartspawn_run_create",
+        arguments: { task: "Build backend and frontend and tests", mode: "swarm", budget: "medium" },
+      })
+    );
+    const runId = String(created.run_id);
+    expect((await waitForRunCompletion(client, runId)).status).toBe("failed");
+
+    // Simulate a cancel that landed while swarm-3 was mid-call: its executor is gone but the row still says running.
+    const store = (runtime as any).store;
+    store.startNode(`${runId}:swarm-3`);
+    store.updateRunStatus(runId, "canceled");
+
+    const resumed = parseToolPayload(
+      await client.callTool({
+        name: "smartspawn_run_resume",
+        arguments: { run_id: runId, node_id: "swarm-2", model: "openai/gpt-4o" },
+      })
+    );
+    expect(resumed.reset_nodes).toEqual([`${runId}:swarm-2`, `${runId}:swarm-3`]);
+
+    const final = await waitForRunCompletion(client, runId);
+    expect(final.status).toBe("completed");
+    const byId = (id: string) => final.nodes.find((n: any) => n.node_id.endsWith(`:${id}`));
+    expect(byId("swarm-2").model).toBe("openai/gpt-4o");
+    expect(byId("swarm-3").status).toBe("completed");
+  });
+});
+
+test("MCP executor switches to the next fallback model on model-not-found", async () => {
+  await withMcpHarness(async ({ client, runtime, openRouter, smartSpawn }) => {
+    openRouter.failModels.set("anthropic/claude-sonnet-4", "OpenRouter error 404: No endpoints found for anthropic/claude-sonnet-4");
+    const created = parseToolPayload(
+      await client.callTool({
+        name: "smartspawn_run_create",
+        arguments: { task: "Write a haiku", mode: "single", budget: "medium" },
+      })
+    );
+    const runId = String(created.run_id);
+    const final = await waitForRunCompletion(client, runId);
+
+    expect(final.status).toBe("completed");
+    expect(final.nodes[0].model).toBe("openai/gpt-4o-mini");
+    const events = (runtime as any).store.listRecentEvents(runId, 20).map((e: any) => e.message);
+    expect(events.some((m: string) => m.includes("from anthropic/claude-sonnet-4 to openai/gpt-4o-mini"))).toBe(true);
+
+    // Both calls are reported for provider health, the failure with its status and class
+    const [failed, recovered] = smartSpawn.healthReports;
+    expect(failed).toMatchObject({ model: "anthropic/claude-sonnet-4", ok: false, status: 404, kind: "client_error" });
+    expect(failed!.latencyMs).toBeGreaterThanOrEqual(0);
+    expect(recovered).toMatchObject({ model: "openai/gpt-4o-mini", ok: true });
+  });
+});
+
+test("MCP tool nodes run a bounded tool loop and record each call", async () => {
+  await withMcpHarness(async ({ client, runtime, openRouter, smartSpawn }) => {
+    const created = parseToolPayload(
+      await client.callTool({
+        name: "smartspawn_run_create",
+        arguments: {
+          task: "Write a plan file",
+          mode: "single",
+          budget: "medium",
+          tools: { enabled: ["read_file", "write_file"], maxTurns: 2 },
+        },
+      })
+    );
+    const runId = String(created.run_id);
+    const final = await waitForRunCompletion(client, runId);
+    expect(final.status).toBe("completed");
+
+    const store = (runtime as any).store;
+    const toolArtifacts = store.listArtifacts(runId).filter((a: any) => a.type === "tool");
+    expect(toolArtifacts).toHaveLength(2);
+    const calls = await Promise.all(
+      toolArtifacts.map(async (a: any) => JSON.parse(await (runtime as any).storage.readArtifact(a.path)))
+    );
+    expect(calls.map((c: any) => [c.tool, c.ok])).toEqual([
+      ["write_file", true],
+      ["read_file", false],
+    ]);
+    expect(calls[1].output).toContain("escapes the workspace");
+
+    const workspace = join((runtime as any).config.homeDir, "workspaces", runId);
+    expect(await Bun.file(join(workspace, "notes/plan.md")).text()).toBe("draft");
+    // The tool results went back to the model, and the raw artifact is still the node's answer.
+    expect(openRouter.prompts.some((p) => p.includes("Wrote 5 bytes to notes/plan.md"))).toBe(true);
+    const [node] = store.listNodes(runId);
+    const raw = JSON.parse(await (runtime as any).storage.readArtifact(store.getArtifact(runId, node.id).path));
+    expect(raw.toolCalls).toBe(2);
+    expect(raw.output).toContain("Node answer");
+    // Tool turns aren't a measure of model speed, so only usage is reported
+    expect(smartSpawn.spawnLogs).toHaveLength(1);
+    expect(smartSpawn.spawnLogs[0]!.durationMs).toBeUndefined();
+
+    const rejected = await client.callTool({
+      name: "smartspawn_run_create",
+      arguments: { task: "x", mode: "single", tools: { enabled: ["delete_everything"] } },
+    });
+    expect(rejected.isError).toBe(true);
+  });
+});
+
+test("MCP output schema is enforced on the merge node and returned as structured output", async () => {
+  await withMcpHarness(async ({ client, runtime, openRouter }) => {
+    const outputSchema = {
+      type: "object",
+      properties: { summary: { type: "string" }, options: { type: "array", items: { type: "string" } } },
+      required: ["summary", "options"],
+    };
+    const created = parseToolPayload(
+      await client.callTool({
+        name: "smartspawn_run_create",
+        arguments: { task: "Compare queue libraries", mode: "collective", collectiveCount: 2, outputSchema },
+      })
+    );
+    const runId = String(created.run_id);
+    expect((await waitForRunCompletion(client, runId)).status).toBe("completed");
+
+    const result = parseToolPayload(
+      await client.callTool({ name: "smartspawn_run_result", arguments: { run_id: runId } })
+    );
+    expect(result.structured_output).toEqual({ summary: "two options", options: ["a", "b"] });
+    expect(result.artifacts.filter((a: any) => a.type === "structured").map((a: any) => a.node_id)).toEqual(["merged"]);
+
+    const store = (runtime as any).store;
+    const merge = store.listNodes(runId).find((n: any) => n.kind === "merge");
+    expect(openRouter.jsonModeModels).toContain(merge.model);
+    const events = store.listRecentEvents(runId, 30).map((e: any) => e.message);
+    expect(events.some((m: string) => m.includes(`violates schema, re-prompting: $: missing required property "options"`))).toBe(true);
+  });
+});
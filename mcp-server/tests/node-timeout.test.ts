@@ -6,7 +6,7 @@ import type { McpConfig } from "../src/config.ts";
 import { McpStore } from "../src/db.ts";
 import { RuntimeQueue } from "../src/runtime/queue.ts";
 import { ArtifactStorage } from "../src/storage.ts";
-import type { RunRecord } from "../src/types.ts";
+import type { NodeHealthReport, RunRecord } from "../src/types.ts";
 
 const cleanupDirs: string[] = [];
 
@@ -19,6 +19,8 @@ afterEach(() => {
 });
 
 class MockSmartSpawnClient {
+  readonly healthReports: NodeHealthReport[] = [];
+
   async pick() {
     return { modelId: "openai/gpt-4o-mini", reason: "mock pick" };
   }
@@ -27,6 +29,12 @@ class MockSmartSpawnClient {
     return task;
   }
 
+  async logSpawn() {}
+
+  async reportHealth(report: NodeHealthReport) {
+    this.healthReports.push(report);
+  }
+
   async health() {
     return { reachable: true, payload: { ok: true } };
   }
@@ -57,6 +65,10 @@ function buildTestConfig(homeDir: string): McpConfig {
     nodeTimeoutSeconds: 1,
     runTimeoutSeconds: 30,
     pollIntervalMs: 20,
+    providers: [],
+    workspaceDir: null,
+    allowedCommands: [],
+    toolTimeoutSeconds: 30,
   };
 }
 
@@ -78,11 +90,12 @@ test("run fails when a node exceeds node timeout", async () => {
   const config = buildTestConfig(homeDir);
   const store = new McpStore(config.dbPath);
   const storage = new ArtifactStorage(config.homeDir, config.artifactsDir);
+  const smartSpawn = new MockSmartSpawnClient();
   const runtime = new RuntimeQueue(
     config,
     store,
     storage,
-    new MockSmartSpawnClient() as any,
+    smartSpawn as any,
     new SlowOpenRouterClient() as any
   );
 
@@ -99,6 +112,11 @@ test("run fails when a node exceeds node timeout", async () => {
 
     const events = store.listRecentEvents(run.id, 30);
     expect(events.some((event) => event.message.includes("timed out after 1s"))).toBe(true);
+    // Every timed-out attempt counts against the model's health
+    expect(smartSpawn.healthReports.length).toBeGreaterThan(0);
+    for (const report of smartSpawn.healthReports) {
+      expect(report).toMatchObject({ model: "openai/gpt-4o-mini", ok: false, kind: "timeout" });
+    }
   } finally {
     runtime.stop();
     store.close();
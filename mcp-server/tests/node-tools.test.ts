@@ -0,0 +1,66 @@
+import { afterEach, expect, test } from "bun:test";
+import { mkdtempSync, rmSync, symlinkSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { NodeToolbox, resolveWorkspacePath } from "../src/runtime/node-tools.ts";
+
+const cleanupDirs: string[] = [];
+
+afterEach(() => {
+  while (cleanupDirs.length > 0) {
+    const dir = cleanupDirs.pop();
+    if (dir) rmSync(dir, { recursive: true, force: true });
+  }
+});
+
+function makeWorkspace(): string {
+  const dir = mkdtempSync(join(tmpdir(), "smart-spawn-tools-"));
+  cleanupDirs.push(dir);
+  return dir;
+}
+
+function makeToolbox(workspaceDir: string, allowedCommands: string[] = []): NodeToolbox {
+  return new NodeToolbox({
+    workspaceDir,
+    enabled: ["read_file", "write_file", "list_files", "run_command", "get_artifact"],
+    allowedCommands,
+    timeoutSeconds: 5,
+    readArtifact: async (nodeId) => (nodeId === "step-1" ? "step one output" : null),
+  });
+}
+
+const call = (name: string, args: unknown) => ({ id: name, name, arguments: JSON.stringify(args) });
+
+test("confines paths to the workspace, including through symlinks", async () => {
+  const workspace = makeWorkspace();
+  const outside = makeWorkspace();
+  symlinkSync(outside, join(workspace, "escape"));
+
+  expect(await resolveWorkspacePath(workspace, "src/new.ts")).toEndWith("src/new.ts");
+  await expect(resolveWorkspacePath(workspace, "../secret")).rejects.toThrow("escapes the workspace");
+  await expect(resolveWorkspacePath(workspace, "/etc/passwd")).rejects.toThrow("escapes the workspace");
+  await expect(resolveWorkspacePath(workspace, "escape/file.txt")).rejects.toThrow("escapes the workspace");
+});
+
+test("reads, writes and lists workspace files and fetches sibling output", async () => {
+  const toolbox = makeToolbox(makeWorkspace());
+
+  expect((await toolbox.execute(call("write_file", { path: "docs/a.md", content: "hello" }))).ok).toBe(true);
+  expect(await toolbox.execute(call("read_file", { path: "docs/a.md" }))).toEqual({ ok: true, output: "hello" });
+  expect((await toolbox.execute(call("list_files", {}))).output).toBe("docs/");
+  expect((await toolbox.execute(call("get_artifact", { node_id: "step-1" }))).output).toBe("step one output");
+  expect((await toolbox.execute(call("get_artifact", { node_id: "step-9" }))).ok).toBe(false);
+});
+
+test("runs only allowlisted commands, without a shell", async () => {
+  const toolbox = makeToolbox(makeWorkspace(), ["echo"]);
+
+  const echoed = await toolbox.execute(call("run_command", { command: "echo", args: ["hi", "$HOME"] }));
+  expect(echoed.ok).toBe(true);
+  expect(echoed.output).toContain("exit code 0");
+  expect(echoed.output).toContain("hi $HOME");
+
+  const denied = await toolbox.execute(call("run_command", { command: "rm", args: ["-rf", "."] }));
+  expect(denied).toEqual({ ok: false, output: "Error: Command not allowed: rm (allowed: echo)" });
+  expect((await toolbox.execute(call("run_command", { command: "/bin/echo" }))).ok).toBe(false);
+});
@@ -0,0 +1,38 @@
+import { expect, test } from "bun:test";
+import { checkOutputContract, validateJsonSchema } from "../src/runtime/output-contract.ts";
+
+const schema = {
+  type: "object",
+  properties: {
+    verdict: { enum: ["ship", "hold"] },
+    score: { type: "integer", minimum: 0, maximum: 10 },
+    risks: { type: "array", items: { type: "string", minLength: 1 }, maxItems: 3 },
+  },
+  required: ["verdict", "score"],
+  additionalProperties: false,
+};
+
+test("validates the supported JSON Schema keywords with paths", () => {
+  expect(validateJsonSchema({ verdict: "ship", score: 7, risks: ["none yet"] }, schema)).toEqual([]);
+  expect(validateJsonSchema({ verdict: "maybe", score: 11.5, risks: [""], extra: true }, schema)).toEqual([
+    '$.verdict: must be one of "ship", "hold"',
+    "$.score: expected integer, got number",
+    "$.risks[0]: shorter than 1 chars",
+    '$: unexpected property "extra"',
+  ]);
+  expect(validateJsonSchema({}, schema)).toEqual([
+    '$: missing required property "verdict"',
+    '$: missing required property "score"',
+  ]);
+  expect(validateJsonSchema(3, { anyOf: [{ type: "string" }, { type: "number" }] })).toEqual([]);
+});
+
+test("parses fenced JSON answers and reports parse errors", () => {
+  expect(checkOutputContract('```json\n{"verdict": "hold", "score": 3}\n```', schema)).toEqual({
+    ok: true,
+    value: { verdict: "hold", score: 3 },
+  });
+  const broken = checkOutputContract("Sure! Here it is: {verdict: ship}", schema);
+  expect(broken.ok).toBe(false);
+  if (!broken.ok) expect(broken.errors[0]).toStartWith("not valid JSON");
+});
@@ -0,0 +1,63 @@
+import { expect, test } from "bun:test";
+import { McpStore } from "../src/db.ts";
+import { PricingResolver, calcCostUsd } from "../src/runtime/pricing.ts";
+
+class CountingCatalog {
+  calls = 0;
+
+  constructor(private readonly rows: Array<{ modelId: string; promptPer1m: number; completionPer1m: number }>) {}
+
+  async listModelPricing() {
+    this.calls += 1;
+    return this.rows;
+  }
+}
+
+test("calcCostUsd applies per-million prices", () => {
+  expect(calcCostUsd({ promptPer1m: 15, completionPer1m: 75 }, 1_000_000, 100_000)).toBeCloseTo(22.5);
+  expect(calcCostUsd({ promptPer1m: 0, completionPer1m: 0 }, 50_000, 50_000)).toBe(0);
+});
+
+test("PricingResolver prefers OpenRouter usage cost over catalog pricing", async () => {
+  const store = new McpStore(":memory:");
+  const catalog = new CountingCatalog([{ modelId: "anthropic/claude-opus-4", promptPer1m: 15, completionPer1m: 75 }]);
+  const resolver = new PricingResolver(store, catalog);
+
+  const cost = await resolver.costFor("anthropic/claude-opus-4", { promptTokens: 1000, completionTokens: 1000, costUsd: 0.42 });
+  expect(cost).toEqual({ costUsd: 0.42, source: "openrouter_usage" });
+  expect(catalog.calls).toBe(0);
+  store.close();
+});
+
+test("PricingResolver caches catalog prices in the store", async () => {
+  const store = new McpStore(":memory:");
+  const catalog = new CountingCatalog([
+    { modelId: "anthropic/claude-opus-4", promptPer1m: 15, completionPer1m: 75 },
+    { modelId: "meta-llama/llama-3.3-70b-instruct:free", promptPer1m: 0, completionPer1m: 0 },
+  ]);
+  const resolver = new PricingResolver(store, catalog);
+
+  const opus = await resolver.costFor("openrouter/anthropic/claude-opus-4", { promptTokens: 1_000_000, completionTokens: 0 });
+  expect(opus).toEqual({ costUsd: 15, source: "catalog" });
+
+  const free = await resolver.costFor("meta-llama/llama-3.3-70b-instruct:free", { promptTokens: 5000, completionTokens: 5000 });
+  expect(free).toEqual({ costUsd: 0, source: "catalog" });
+
+  expect(catalog.calls).toBe(1);
+  expect(store.getModelPricing("anthropic/claude-opus-4")?.completionPer1m).toBe(75);
+  store.close();
+});
+
+test("PricingResolver falls back when the catalog is unavailable", async () => {
+  const store = new McpStore(":memory:");
+  const resolver = new PricingResolver(store, {
+    async listModelPricing() {
+      throw new Error("catalog down");
+    },
+  });
+
+  const pricing = await resolver.resolve("unknown/model");
+  expect(pricing.source).toBe("fallback");
+  expect(pricing.promptPer1m).toBeGreaterThan(0);
+  store.close();
+});
@@ -0,0 +1,153 @@
+import { expect, test } from "bun:test";
+import { loadProviders } from "../src/config.ts";
+import { AnthropicClient, toAnthropicMessages, toAnthropicModelId } from "../src/providers/anthropic.ts";
+import { OpenAICompatibleClient, toOpenAIMessages } from "../src/providers/openai-compatible.ts";
+import { ProviderRouter } from "../src/providers/router.ts";
+
+function namedBackend(name: string, seen: string[]) {
+  return {
+    async chatCompletion(input: { model: string }) {
+      seen.push(`${name}:${input.model}`);
+      return { text: name, promptTokens: 1, completionTokens: 1, totalTokens: 2 };
+    },
+  };
+}
+
+test("loadProviders builds direct backends from keys and PROVIDER_ROUTES", () => {
+  const providers = loadProviders({
+    ANTHROPIC_API_KEY: "sk-ant",
+    LOCAL_LLM_BASE_URL: "http://localhost:11434/v1",
+    PROVIDER_ROUTES: "anthropic/=anthropic, meta-llama/=local, mistralai/=missing",
+  });
+
+  expect(providers.map((p) => p.name)).toEqual(["anthropic", "local"]);
+  expect(providers[0]).toMatchObject({ kind: "anthropic", prefixes: ["anthropic/"] });
+  expect(providers[1]).toMatchObject({ kind: "openai", prefixes: ["local/", "ollama/", "meta-llama/"] });
+  expect(loadProviders({})).toEqual([]);
+});
+
+test("provider keys alone leave OpenAI and Anthropic models on OpenRouter", async () => {
+  const seen: string[] = [];
+  const router = new ProviderRouter(
+    loadProviders({ OPENAI_API_KEY: "sk-oa", ANTHROPIC_API_KEY: "sk-ant" }),
+    namedBackend("openrouter", seen),
+    (provider) => namedBackend(provider.name, seen)
+  );
+
+  for (const model of ["openai/gpt-4o", "anthropic/claude-sonnet-4"]) {
+    await router.chatCompletion({ model, messages: [] });
+  }
+  expect(seen).toEqual(["openrouter:openai/gpt-4o", "openrouter:anthropic/claude-sonnet-4"]);
+});
+
+test("ProviderRouter routes by longest prefix and defaults to OpenRouter", async () => {
+  const seen: string[] = [];
+  const router = new ProviderRouter(
+    [
+      { name: "anthropic", kind: "anthropic", baseUrl: "", apiKey: "k", prefixes: ["anthropic/"] },
+      { name: "local", kind: "openai", baseUrl: "", apiKey: "", prefixes: ["ollama/", "ollama/qwen/"] },
+    ],
+    namedBackend("openrouter", seen),
+    (provider) => namedBackend(provider.name, seen)
+  );
+
+  for (const model of ["anthropic/claude-sonnet-4", "ollama/llama3.1", "openai/gpt-4o", "openrouter/anthropic/claude-sonnet-4"]) {
+    await router.chatCompletion({ model, messages: [] });
+  }
+  expect(seen).toEqual([
+    "anthropic:claude-sonnet-4",
+    "local:llama3.1",
+    "openrouter:openai/gpt-4o",
+    "openrouter:openrouter/anthropic/claude-sonnet-4",
+  ]);
+  expect(router.resolve("ollama/qwen/qwen3").provider).toBe("local");
+  expect(router.resolve("ollama/qwen/qwen3").model).toBe("qwen3");
+});
+
+test("OpenAICompatibleClient talks to local servers without an API key", async () => {
+  let body: any = null;
+  let auth: string | null = "unset";
+  const server = Bun.serve({
+    port: 0,
+    async fetch(req) {
+      body = await req.json();
+      auth = req.headers.get("authorization");
+      return Response.json({
+        choices: [{ message: { content: "pong" } }],
+        usage: { prompt_tokens: 5, completion_tokens: 1, total_tokens: 6 },
+      });
+    },
+  });
+
+  try {
+    const client = new OpenAICompatibleClient({ name: "local", baseUrl: `http://localhost:${server.port}/v1/` });
+    const result = await client.chatCompletion({ model: "llama3.1", messages: [{ role: "user", content: "ping" }] });
+    expect(result).toMatchObject({ text: "pong", promptTokens: 5, completionTokens: 1, costUsd: null });
+    expect(body.model).toBe("llama3.1");
+    expect(auth).toBeNull();
+  } finally {
+    server.stop(true);
+  }
+});
+
+test("AnthropicClient streams Messages API events and lifts system prompts", async () => {
+  let body: any = null;
+  const events = [
+    { type: "message_start", message: { usage: { input_tokens: 21, output_tokens: 1 } } },
+    { type: "content_block_delta", index: 0, delta: { type: "text_delta", text: "Hi" } },
+    { type: "content_block_delta", index: 0, delta: { type: "text_delta", text: " there" } },
+    { type: "message_delta", delta: { stop_reason: "end_turn" }, usage: { output_tokens: 4 } },
+    { type: "message_stop" },
+  ];
+  const server = Bun.serve({
+    port: 0,
+    async fetch(req) {
+      body = await req.json();
+      const sse = events.map((e) => `event: ${e.type}\ndata: ${JSON.stringify(e)}\n\n`).join("");
+      return new Response(sse, { headers: { "Content-Type": "text/event-stream" } });
+    },
+  });
+
+  try {
+    const client = new AnthropicClient("sk-ant", `http://localhost:${server.port}`);
+    const deltas: string[] = [];
+    const result = await client.chatCompletion({
+      model: "claude-3.5-haiku",
+      messages: [
+        { role: "system", content: "Be brief." },
+        { role: "user", content: "hello" },
+      ],
+      onDelta: (d) => deltas.push(d),
+    });
+
+    expect(deltas).toEqual(["Hi", " there"]);
+    expect(result).toMatchObject({ text: "Hi there", promptTokens: 21, completionTokens: 4, costUsd: null });
+    expect(body).toMatchObject({ model: "claude-3-5-haiku-latest", system: "Be brief.", stream: true });
+    expect(body.messages).toEqual([{ role: "user", content: "hello" }]);
+  } finally {
+    server.stop(true);
+  }
+  expect(toAnthropicModelId("anthropic/claude-opus-4.1")).toBe("claude-opus-4-1");
+  expect(toAnthropicModelId("anthropic/claude-3.5-sonnet")).toBe("claude-3-5-sonnet-latest");
+  expect(toAnthropicModelId("anthropic/claude-sonnet-4.5")).toBe("claude-sonnet-4-5");
+});
+
+test("tool turns map to each provider's wire format", () => {
+  const messages = [
+    { role: "user" as const, content: "Read the config" },
+    { role: "assistant" as const, content: "", toolCalls: [{ id: "t1", name: "read_file", arguments: '{"path":"a.json"}' }] },
+    { role: "tool" as const, toolCallId: "t1", content: "{}" },
+  ];
+
+  expect(toOpenAIMessages(messages)[1]).toEqual({
+    role: "assistant",
+    content: null,
+    tool_calls: [{ id: "t1", type: "function", function: { name: "read_file", arguments: '{"path":"a.json"}' } }],
+  });
+  expect(toOpenAIMessages(messages)[2]).toEqual({ role: "tool", tool_call_id: "t1", content: "{}" });
+
+  expect(toAnthropicMessages(messages).slice(1)).toEqual([
+    { role: "assistant", content: [{ type: "tool_use", id: "t1", name: "read_file", input: { path: "a.json" } }] },
+    { role: "user", content: [{ type: "tool_result", tool_use_id: "t1", content: "{}" }] },
+  ]);
+});
@@ -0,0 +1,87 @@
+import { expect, test } from "bun:test";
+import {
+  JudgeQualityGate,
+  LengthQualityGate,
+  StructuralQualityGate,
+  createQualityGate,
+  parseJudgeResponse,
+} from "../src/runtime/quality-gate.ts";
+
+const fixedPricing = {
+  async costFor() {
+    return { costUsd: 0.0001, source: "catalog" as const };
+  },
+};
+
+function judgeReplying(text: string) {
+  const calls: Array<{ model: string; prompt: string }> = [];
+  return {
+    calls,
+    async chatCompletion(input: { model: string; messages: Array<{ content: string }> }) {
+      calls.push({ model: input.model, prompt: input.messages[0]!.content });
+      return { text, promptTokens: 400, completionTokens: 30, totalTokens: 430 };
+    },
+  };
+}
+
+test("LengthQualityGate keeps the original 500 char default", async () => {
+  const gate = new LengthQualityGate();
+  expect((await gate.evaluate({ task: "t", output: "x".repeat(499), model: "m" })).passed).toBe(false);
+  const verdict = await gate.evaluate({ task: "t", output: "x".repeat(500), model: "m" });
+  expect(verdict).toMatchObject({ strategy: "length", passed: true, score: 1 });
+});
+
+test("StructuralQualityGate checks JSON, TypeScript blocks and required sections", async () => {
+  const json = new StructuralQualityGate("json");
+  expect((await json.evaluate({ task: "t", output: '```json\n{"ok": true}\n```', model: "m" })).passed).toBe(true);
+  expect((await json.evaluate({ task: "t", output: '{"ok": tru', model: "m" })).passed).toBe(false);
+
+  const ts = new StructuralQualityGate("typescript", ["Summary", "Usage"]);
+  const good = await ts.evaluate({
+    task: "t",
+    output: "## Summary\nAdds a helper.\n\n```ts\nexport const add = (a: number, b: number): number => a + b;\n```\n\n## Usage\nCall add().",
+    model: "m",
+  });
+  expect(good).toMatchObject({ passed: true, score: 1 });
+
+  const bad = await ts.evaluate({
+    task: "t",
+    output: "## Summary\n```ts\nexport const add = (a: number, b: number => a + b;\n```",
+    model: "m",
+  });
+  expect(bad.passed).toBe(false);
+  expect(bad.score).toBeCloseTo(1 / 3);
+  expect(bad.reason).toContain('missing section "Usage"');
+});
+
+test("JudgeQualityGate scores against the rubric and reports judge spend", async () => {
+  const openRouter = judgeReplying('Verdict: {"score": 8, "reason": "complete and correct"}');
+  const gate = new JudgeQualityGate(openRouter, fixedPricing, "judge/model");
+  const verdict = await gate.evaluate({ task: "Explain TCP", output: "TCP is...", model: "cheap/model" });
+
+  expect(verdict).toMatchObject({ strategy: "judge", passed: true, score: 0.8, reason: "complete and correct" });
+  expect(verdict.judge).toEqual({ model: "judge/model", promptTokens: 400, completionTokens: 30, costUsd: 0.0001 });
+  expect(openRouter.calls[0]!.prompt).toContain("## Task\nExplain TCP");
+
+  const strict = new JudgeQualityGate(judgeReplying('{"score": 6}'), fixedPricing, "judge/model", 0.7);
+  expect((await strict.evaluate({ task: "t", output: "o", model: "cheap/model" })).passed).toBe(false);
+
+  const garbled = new JudgeQualityGate(judgeReplying("looks fine"), fixedPricing, "judge/model");
+  expect((await garbled.evaluate({ task: "t", output: "o", model: "m" })).passed).toBe(false);
+});
+
+test("createQualityGate defaults to the length heuristic", () => {
+  const deps = { backend: judgeReplying("{}"), pricing: fixedPricing, defaultJudgeModel: "premium/model" };
+  expect(createQualityGate(undefined, deps).strategy).toBe("length");
+  expect(createQualityGate({ strategy: "judge" }, deps).strategy).toBe("judge");
+  expect(parseJudgeResponse('{"score": 14}')?.score).toBe(1);
+});
+
+test("the cheap model is never its own default judge", async () => {
+  const backend = judgeReplying('{"score": 9}');
+  const gate = createQualityGate({ strategy: "judge" }, { backend, pricing: fixedPricing, defaultJudgeModel: "premium/model" });
+  const verdict = await gate.evaluate({ task: "t", output: "o", model: "cheap/model" });
+
+  expect(backend.calls.map((c) => c.model)).toEqual(["premium/model"]);
+  expect(verdict.judge?.model).toBe("premium/model");
+});
@@ -130,6 +130,32 @@ function getInstanceId(pluginDir: string): string {
   return id;
 }
 
+type SpawnUsage = Partial<Record<(typeof USAGE_FIELDS)[number] | (typeof TIMING_FIELDS)[number], number>>;
+
+const USAGE_FIELDS = ["promptTokens", "completionTokens", "reasoningTokens", "latencyMs", "costUsd"] as const;
+/** Model-call timings for the API's measured speeds; read from sub-agent events only, never from a feedback call */
+const TIMING_FIELDS = ["ttfbMs", "durationMs", "outputTokens"] as const;
+
+/** The usage fields present on a feedback call or sub-agent event, ignoring anything not a non-negative number */
+function usageFrom(source: any, fields: readonly (keyof SpawnUsage)[] = USAGE_FIELDS): SpawnUsage {
+  if (!source || typeof source !== "object") return {};
+  return Object.fromEntries(
+    fields
+      .filter((key) => typeof source[key] === "number" && source[key] >= 0)
+      .map((key) => [key, source[key] as number])
+  );
+}
+
+/** Error text and HTTP status of a sub-agent that failed, or null if its end event shows no failure */
+function failureFrom(event: any): { error: string; status?: number } | null {
+  const error = event?.error ?? event?.result?.error;
+  const outcome = String(event?.outcome ?? event?.status ?? "").toLowerCase();
+  if (!error && !["error", "failed", "timeout"].includes(outcome)) return null;
+  const message = typeof error === "string" ? error : typeof error?.message === "string" ? error.message : outcome;
+  const status = Number.isInteger(error?.status) ? (error.status as number) : undefined;
+  return { error: message.slice(0, 500), ...(status !== undefined ? { status } : {}) };
+}
+
 export default function (api: any) {
   const pluginConfig =
     api.config?.plugins?.entries?.["smart-spawn"]?.config ?? {};
@@ -140,6 +166,8 @@ export default function (api: any) {
   const collectiveCount = pluginConfig.collectiveCount ?? 3;
   const telemetryOptIn = pluginConfig.telemetryOptIn ?? false;
   const communityUrl = pluginConfig.communityUrl ?? apiUrl;
+  const project = pluginConfig.project || undefined;
+  const apiKey = pluginConfig.apiKey || undefined;
 
   // Detect which providers the user has direct access to
   const directProviders = detectDirectProviders(api);
@@ -170,7 +198,7 @@ export default function (api: any) {
     return routeModel(RAW_FALLBACKS[category] ?? RAW_FALLBACKS.general, directProviders);
   }
 
-  const client = new ApiClient(apiUrl, communityUrl);
+  const client = new ApiClient(apiUrl, communityUrl, project, apiKey);
 
   // Instance ID for community telemetry (lazy-loaded)
   let instanceId: string | null = null;
@@ -181,10 +209,52 @@ export default function (api: any) {
     return instanceId;
   }
 
+  // Spawn ids are handed out before the /spawn-log write finishes, so no response waits on
+  // logging. Each maps to the pending server id; labels map back to spawns for end events.
+  const MAX_TRACKED_SPAWNS = 500;
+  const pendingSpawns = new Map<string, Promise<number | null>>();
+  const spawnByLabel = new Map<string, { spawnId: string; model: string }>();
+
+  function trackSpawn(entry: Parameters<ApiClient["logSpawn"]>[0], label?: string): string {
+    const spawnId = `sp_${randomUUID().slice(0, 8)}`;
+    pendingSpawns.set(spawnId, client.logSpawn(entry));
+    if (label) spawnByLabel.set(label, { spawnId, model: entry.model });
+    if (pendingSpawns.size > MAX_TRACKED_SPAWNS) {
+      pendingSpawns.delete(pendingSpawns.keys().next().value!);
+    }
+    if (spawnByLabel.size > MAX_TRACKED_SPAWNS) {
+      spawnByLabel.delete(spawnByLabel.keys().next().value!);
+    }
+    return spawnId;
+  }
+
+  /** Attach usage to a tracked spawn once its log entry exists. False if the spawn is unknown or wasn't logged. */
+  async function reportUsage(spawnId: string, usage: SpawnUsage): Promise<boolean> {
+    const id = await pendingSpawns.get(spawnId);
+    if (id == null || Object.keys(usage).length === 0) return false;
+    client.logUsage({ id, ...usage });
+    return true;
+  }
+
+  // OpenClaw versions that emit sub-agent end events carry the run's usage, and its
+  // model-call timings when known: record them against the spawn with that label, so
+  // they don't depend on a feedback call.
+  // Whether the sub-agent's model answered also goes to the API's provider health.
+  if (typeof api.on === "function") {
+    api.on("subagent_ended", (event: any) => {
+      const tracked = typeof event?.label === "string" ? spawnByLabel.get(event.label) : undefined;
+      if (!tracked) return;
+      const usage = usageFrom(event.usage ?? event.result?.usage, [...USAGE_FIELDS, ...TIMING_FIELDS]);
+      void reportUsage(tracked.spawnId, usage);
+      const failure = failureFrom(event);
+      client.reportHealth({ model: tracked.model, ok: !failure, ...failure, latencyMs: usage.latencyMs });
+    });
+  }
+
   /** Build a fallback-to-single-mode response when the API is unavailable */
   function buildFallbackResponse(category: string, budget: string, enrichedTask: string, context?: string) {
     const modelId = getFallback(category);
-    client.logSpawn({ model: modelId, category, budget, mode: "single", role: "primary", source: "fallback", context });
+    const spawnId = trackSpawn({ model: modelId, category, budget, mode: "single", role: "primary", source: "fallback", context });
     return {
       content: [{
         type: "text",
@@ -196,6 +266,7 @@ export default function (api: any) {
           budget,
           reason: "API unavailable, falling back to single mode",
           source: "fallback",
+          spawnId,
         }),
       }],
     };
@@ -304,7 +375,7 @@ export default function (api: any) {
 
         const label = input.label ?? `smart-spawn: ${category} (${modelId.split("/").pop()})`;
 
-        client.logSpawn({ model: modelId, category, budget, mode, role: "primary", source, context });
+        const spawnId = trackSpawn({ model: modelId, category, budget, mode, role: "primary", source, context }, label);
 
         return {
           content: [{
@@ -318,6 +389,7 @@ export default function (api: any) {
               reason,
               source,
               label,
+              spawnId,
             }),
           }],
         };
@@ -328,22 +400,18 @@ export default function (api: any) {
         const count = input.collectiveCount ?? collectiveCount;
         try {
           const rec = await client.recommend({ task: category, budget, count, context });
-          const models = rec.data.map((r) => ({
-            id: routeModel(r.model.id, directProviders),
-            reason: r.reason,
-          }));
-          for (const m of models) {
-            client.logSpawn({ model: m.id, category, budget, mode, role: "collective_worker", source: "api", context });
-          }
+          const models = rec.data.map((r, i) => {
+            const id = routeModel(r.model.id, directProviders);
+            const label = `smart-spawn-collective-${i + 1}: ${category} (${id.split("/").pop()})`;
+            const spawnId = trackSpawn({ model: id, category, budget, mode, role: "collective_worker", source: "api", context }, label);
+            return { id, reason: r.reason, label, spawnId };
+          });
           return {
             content: [{
               type: "text",
               text: JSON.stringify({
                 action: "collective",
-                models: models.map((m, i) => ({
-                  ...m,
-                  label: `smart-spawn-collective-${i + 1}: ${category} (${m.id.split("/").pop()})`,
-                })),
+                models,
                 task: enrichedTask,
                 category,
                 budget,
@@ -366,8 +434,16 @@ export default function (api: any) {
           const premiumPick = await client.pick(category, "high", [cheapId], context);
           const routedCheap = routeModel(cheapId, directProviders);
           const routedPremium = routeModel(premiumPick.data.id, directProviders);
-          client.logSpawn({ model: routedCheap, category, budget: "low", mode, role: "cascade_cheap", source: "api", context });
-          client.logSpawn({ model: routedPremium, category, budget: "high", mode, role: "cascade_premium", source: "api", context });
+          const cheapLabel = `smart-spawn-cascade-cheap: ${category} (${cheapId.split("/").pop()})`;
+          const premiumLabel = `smart-spawn-cascade-premium: ${category} (${premiumPick.data.id.split("/").pop()})`;
+          const cheapSpawnId = trackSpawn(
+            { model: routedCheap, category, budget: "low", mode, role: "cascade_cheap", source: "api", context },
+            cheapLabel
+          );
+          const premiumSpawnId = trackSpawn(
+            { model: routedPremium, category, budget: "high", mode, role: "cascade_premium", source: "api", context },
+            premiumLabel
+          );
           return {
             content: [{
               type: "text",
@@ -379,8 +455,10 @@ export default function (api: any) {
                 premiumModel: routedPremium,
                 premiumScore: premiumPick.data.score,
                 premiumPricing: premiumPick.data.pricing,
-                cheapLabel: `smart-spawn-cascade-cheap: ${category} (${cheapId.split("/").pop()})`,
-                premiumLabel: `smart-spawn-cascade-premium: ${category} (${premiumPick.data.id.split("/").pop()})`,
+                cheapLabel,
+                premiumLabel,
+                cheapSpawnId,
+                premiumSpawnId,
                 task: enrichedTask,
                 category,
                 escalationHint: "If the cheap model's response is incomplete, incorrect, or low quality, escalate to the premium model.",
@@ -414,7 +492,7 @@ export default function (api: any) {
             }
 
             const lbl = input.label ?? `smart-spawn: ${category} (${modelId.split("/").pop()})`;
-            client.logSpawn({ model: modelId, category, budget, mode: "single", role: "primary", source, context });
+            const spawnId = trackSpawn({ model: modelId, category, budget, mode: "single", role: "primary", source, context }, lbl);
 
             return {
               content: [{
@@ -428,6 +506,7 @@ export default function (api: any) {
                   reason: `Task not decomposable — ${reason}`,
                   source,
                   label: lbl,
+                  spawnId,
                 }),
               }],
             };
@@ -439,7 +518,8 @@ export default function (api: any) {
               ? routeModel(step.model.id, directProviders)
               : getFallback(step.category);
 
-            client.logSpawn({
+            const label = `smart-spawn-plan-${step.step}: ${step.category} (${modelId.split("/").pop()})`;
+            const spawnId = trackSpawn({
               model: modelId,
               category: step.category,
               budget: step.budget,
@@ -447,7 +527,7 @@ export default function (api: any) {
               role: `plan_step_${step.step}`,
               source: step.model ? "api" : "fallback",
               context,
-            });
+            }, label);
 
             const stepTask = await client.composeTaskPrompt({
               task: step.task,
@@ -465,7 +545,8 @@ export default function (api: any) {
               model: modelId,
               budget: step.budget,
               reason: step.reason,
-              label: `smart-spawn-plan-${step.step}: ${step.category} (${modelId.split("/").pop()})`,
+              label,
+              spawnId,
             };
           }));
 
@@ -508,7 +589,7 @@ export default function (api: any) {
             }
 
             const lbl = input.label ?? `smart-spawn: ${category} (${modelId.split("/").pop()})`;
-            client.logSpawn({ model: modelId, category, budget, mode: "single", role: "primary", source, context });
+            const spawnId = trackSpawn({ model: modelId, category, budget, mode: "single", role: "primary", source, context }, lbl);
 
             return {
               content: [{
@@ -522,6 +603,7 @@ export default function (api: any) {
                   reason: `Task not decomposable — ${reason}`,
                   source,
                   label: lbl,
+                  spawnId,
                 }),
               }],
             };
@@ -534,7 +616,8 @@ export default function (api: any) {
               ? routeModel(t.model.id, directProviders)
               : getFallback(t.category);
 
-            client.logSpawn({
+            const label = `smart-spawn-${t.id}: ${t.category} (${modelId.split("/").pop()})`;
+            const spawnId = trackSpawn({
               model: modelId,
               category: t.category,
               budget: t.budget,
@@ -542,7 +625,7 @@ export default function (api: any) {
               role: `swarm_${t.id}`,
               source: t.model ? "api" : "fallback",
               context,
-            });
+            }, label);
 
             const swarmTask = await client.composeTaskPrompt({
               task: t.description,
@@ -563,7 +646,8 @@ export default function (api: any) {
               dependsOn: t.dependsOn,
               wave: t.wave,
               reason: t.reason,
-              label: `smart-spawn-${t.id}: ${t.category} (${modelId.split("/").pop()})`,
+              label,
+              spawnId,
             };
           }));
 
@@ -608,7 +692,7 @@ export default function (api: any) {
   // --- FEEDBACK TOOL (learning loop) ---
   api.registerTool({
     name: "smart_spawn_feedback",
-    description: `Report quality feedback after a smart_spawn task completes. Rate the spawned model's output 1-5 (1=terrible, 5=excellent). This feedback improves future model recommendations for your specific use patterns.`,
+    description: `Report quality feedback after a smart_spawn task completes. Rate the spawned model's output 1-5 (1=terrible, 5=excellent). This feedback improves future model recommendations for your specific use patterns. Pass the spawnId from the smart_spawn response with the usage the sub-agent's result reported (tokens, run time, cost) so spend tracking uses real numbers instead of estimates. Leave usage out rather than guessing it.`,
     parameters: {
       type: "object",
       properties: {
@@ -629,6 +713,30 @@ export default function (api: any) {
           type: "string",
           description: "Project context tags from the original smart_spawn call (e.g. 'typescript,nextjs').",
         },
+        spawnId: {
+          type: "string",
+          description: "spawnId from the smart_spawn response (each model or task has its own), to attach the usage below to that spawn.",
+        },
+        promptTokens: {
+          type: "number",
+          description: "Prompt tokens the sub-agent's result reported.",
+        },
+        completionTokens: {
+          type: "number",
+          description: "Output tokens the sub-agent generated, excluding reasoning.",
+        },
+        reasoningTokens: {
+          type: "number",
+          description: "Hidden reasoning tokens, for reasoning models.",
+        },
+        latencyMs: {
+          type: "number",
+          description: "How long the sub-agent ran, in milliseconds.",
+        },
+        costUsd: {
+          type: "number",
+          description: "What the sub-agent cost in USD, if reported.",
+        },
       },
       required: ["model", "category", "rating"],
     },
@@ -640,6 +748,9 @@ export default function (api: any) {
 
       client.logOutcome({ model, category, rating, context });
 
+      const spawnId = typeof input.spawnId === "string" ? input.spawnId : undefined;
+      const usageReported = spawnId !== undefined && await reportUsage(spawnId, usageFrom(input));
+
       // Community telemetry (opt-in)
       if (telemetryOptIn) {
         client.reportCommunity({
@@ -659,6 +770,7 @@ export default function (api: any) {
             category,
             rating,
             communityReported: telemetryOptIn,
+            usageReported,
             message: rating >= 3
               ? "Positive feedback recorded — this model will be favored for similar tasks."
               : "Negative feedback recorded — this model will be deprioritized for similar tasks.",
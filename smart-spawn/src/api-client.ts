@@ -33,7 +33,7 @@ export interface SwarmResponse {
     totalWaves: number;
     originalTask: string;
     context: string | null;
-    estimatedCost: { low: number; high: number };
+    estimatedCost: { low: number; expected: number; high: number };
     warning?: string;
   };
 }
@@ -95,10 +95,23 @@ export interface RecommendResponse {
 export class ApiClient {
   private baseUrl: string;
   private communityUrl: string;
+  /** Spend budget key sent with picks and spawn logs */
+  private project?: string;
+  /** Tenant API key; only sent to baseUrl, never to the community endpoint */
+  private apiKey?: string;
 
-  constructor(baseUrl: string, communityUrl?: string) {
+  constructor(baseUrl: string, communityUrl?: string, project?: string, apiKey?: string) {
     this.baseUrl = baseUrl.replace(/\/$/, "");
     this.communityUrl = (communityUrl ?? baseUrl).replace(/\/$/, "");
+    this.project = project;
+    this.apiKey = apiKey;
+  }
+
+  private headers(json = false): Record<string, string> {
+    return {
+      ...(json ? { "Content-Type": "application/json" } : {}),
+      ...(this.apiKey ? { "X-API-Key": this.apiKey } : {}),
+    };
   }
 
   async pick(
@@ -111,8 +124,9 @@ export class ApiClient {
     if (budget) params.set("budget", budget);
     if (exclude?.length) params.set("exclude", exclude.join(","));
     if (context) params.set("context", context);
+    if (this.project) params.set("project", this.project);
 
-    const res = await fetch(`${this.baseUrl}/pick?${params}`);
+    const res = await fetch(`${this.baseUrl}/pick?${params}`, { headers: this.headers() });
     if (!res.ok) {
       throw new Error(`API /pick failed: ${res.status} ${res.statusText}`);
     }
@@ -135,8 +149,9 @@ export class ApiClient {
     if (opts.require?.length) params.set("require", opts.require.join(","));
     if (opts.minContext) params.set("minContext", String(opts.minContext));
     if (opts.context) params.set("context", opts.context);
+    if (this.project) params.set("project", this.project);
 
-    const res = await fetch(`${this.baseUrl}/recommend?${params}`);
+    const res = await fetch(`${this.baseUrl}/recommend?${params}`, { headers: this.headers() });
     if (!res.ok) {
       throw new Error(
         `API /recommend failed: ${res.status} ${res.statusText}`
@@ -152,7 +167,7 @@ export class ApiClient {
   }): Promise<DecomposeResponse> {
     const res = await fetch(`${this.baseUrl}/decompose`, {
       method: "POST",
-      headers: { "Content-Type": "application/json" },
+      headers: this.headers(true),
       body: JSON.stringify(opts),
     });
     if (!res.ok) {
@@ -169,7 +184,7 @@ export class ApiClient {
   }): Promise<SwarmResponse> {
     const res = await fetch(`${this.baseUrl}/swarm`, {
       method: "POST",
-      headers: { "Content-Type": "application/json" },
+      headers: this.headers(true),
       body: JSON.stringify(opts),
     });
     if (!res.ok) {
@@ -180,7 +195,7 @@ export class ApiClient {
 
   async health(): Promise<boolean> {
     try {
-      const res = await fetch(`${this.baseUrl}/status`);
+      const res = await fetch(`${this.baseUrl}/status`, { headers: this.headers() });
       return res.ok;
     } catch {
       return false;
@@ -207,7 +222,7 @@ export class ApiClient {
     try {
       const res = await fetch(`${this.baseUrl}/roles/compose`, {
         method: "POST",
-        headers: { "Content-Type": "application/json" },
+        headers: this.headers(true),
         body: JSON.stringify(opts),
       });
       if (!res.ok) {
@@ -233,8 +248,11 @@ export class ApiClient {
     }
   }
 
-  /** Fire-and-forget spawn log for cost tracking */
-  logSpawn(entry: {
+  /**
+   * Spawn log for cost tracking. Never rejects; resolves to the spawn's ID
+   * (for logUsage later), or null if logging failed.
+   */
+  async logSpawn(entry: {
     model: string;
     category: string;
     budget: string;
@@ -242,12 +260,56 @@ export class ApiClient {
     role: string;
     source: string;
     context?: string;
+  }): Promise<number | null> {
+    try {
+      const res = await fetch(`${this.baseUrl}/spawn-log`, {
+        method: "POST",
+        headers: this.headers(true),
+        body: JSON.stringify({ ...entry, project: this.project }),
+        signal: AbortSignal.timeout(5_000),
+      });
+      if (!res.ok) return null;
+      const body = (await res.json()) as { data?: { id?: number } };
+      return body.data?.id ?? null;
+    } catch (e) {
+      this.handleLogError("/spawn-log", e);
+      return null;
+    }
+  }
+
+  /** Fire-and-forget actual usage for a logged spawn */
+  logUsage(entry: {
+    id: number;
+    promptTokens?: number;
+    completionTokens?: number;
+    reasoningTokens?: number;
+    latencyMs?: number;
+    costUsd?: number;
+    ttfbMs?: number;
+    durationMs?: number;
+    outputTokens?: number;
   }): void {
-    fetch(`${this.baseUrl}/spawn-log`, {
+    fetch(`${this.baseUrl}/spawn-log/usage`, {
       method: "POST",
-      headers: { "Content-Type": "application/json" },
+      headers: this.headers(true),
       body: JSON.stringify(entry),
-    }).catch((e) => this.handleLogError("/spawn-log", e));
+    }).catch((e) => this.handleLogError("/spawn-log/usage", e));
+  }
+
+  /** Fire-and-forget outcome of a sub-agent's model call, for provider health. The API only takes keyed reports. */
+  reportHealth(entry: {
+    model: string;
+    ok: boolean;
+    status?: number;
+    error?: string;
+    latencyMs?: number;
+  }): void {
+    if (!this.apiKey) return;
+    fetch(`${this.baseUrl}/health-report`, {
+      method: "POST",
+      headers: this.headers(true),
+      body: JSON.stringify({ ...entry, source: "plugin" }),
+    }).catch((e) => this.handleLogError("/health-report", e));
   }
 
   /** Fire-and-forget outcome feedback for learning loop */
@@ -259,7 +321,7 @@ export class ApiClient {
   }): void {
     fetch(`${this.baseUrl}/spawn-log/outcome`, {
       method: "POST",
-      headers: { "Content-Type": "application/json" },
+      headers: this.headers(true),
       body: JSON.stringify(entry),
     }).catch((e) => this.handleLogError("/spawn-log/outcome", e));
   }
@@ -0,0 +1,191 @@
+import { DEFAULT_TENANT, dbGetTokenUsageByCategory, type SpawnCostFn } from "./db.ts";
+import { pipeline } from "./enrichment/pipeline.ts";
+import type { Category, EnrichedModel } from "./types.ts";
+
+/**
+ * Token-aware cost estimates. Prompt tokens are approximated from the text
+ * actually sent (task plus composed role prompt) using the model's tokenizer;
+ * completion length is predicted per category from the tenant's token usage
+ * reported to /spawn-log, falling back to typical lengths until there's enough history.
+ */
+
+/** Average characters per token by OpenRouter tokenizer family */
+const CHARS_PER_TOKEN: Record<string, number> = {
+  GPT: 4.0,
+  Claude: 3.5,
+  Gemini: 4.0,
+  Llama2: 3.7,
+  Llama3: 3.9,
+  Llama4: 3.9,
+  Mistral: 3.5,
+  Qwen: 3.7,
+  Qwen3: 3.7,
+  DeepSeek: 3.7,
+  Grok: 3.9,
+  Cohere: 3.8,
+};
+const DEFAULT_CHARS_PER_TOKEN = 3.8;
+
+/** Chat template and agent harness overhead on top of the prompt text */
+const PROMPT_OVERHEAD_TOKENS = 500;
+/** Prompt size assumed for spawns that didn't report usage */
+const DEFAULT_PROMPT_TOKENS = 2000;
+
+/** Typical visible output per category, before any history */
+const DEFAULT_COMPLETION_TOKENS: Record<Category, number> = {
+  coding: 2500,
+  reasoning: 2000,
+  creative: 1500,
+  research: 2000,
+  vision: 800,
+  "fast-cheap": 600,
+  general: 1200,
+};
+/** The default counts as this many reported spawns when blending with history */
+const PRIOR_SPAWNS = 5;
+const HISTORY_WINDOW_DAYS = 30;
+const HISTORY_CACHE_TTL_MS = 60 * 1000;
+
+/** Hidden reasoning tokens per visible output token, for reasoning-capable models */
+const REASONING_RATIO: Partial<Record<Category, number>> = {
+  reasoning: 2,
+  coding: 1,
+  research: 1,
+};
+const DEFAULT_REASONING_RATIO = 0.5;
+
+/** Output length spread for the low/high range */
+const LOW_FACTOR = 0.5;
+const HIGH_FACTOR = 2;
+
+export interface CostEstimate {
+  promptTokens: number;
+  /** Part of promptTokens billed at the cache-read price */
+  cachedTokens: number;
+  completionTokens: number;
+  reasoningTokens: number;
+  costUsd: number;
+  low: number;
+  high: number;
+}
+
+export interface CostInput {
+  category: Category | string;
+  /** Full prompt text: task plus role prompt */
+  text?: string;
+  /** Leading part of `text` expected to be served from the provider's prompt cache */
+  cachedText?: string;
+  /** Reported token counts override the estimates */
+  promptTokens?: number | null;
+  completionTokens?: number | null;
+  reasoningTokens?: number | null;
+  /** Whose reported usage predicts the missing token counts */
+  tenant?: string;
+}
+
+type PricedModel = Pick<EnrichedModel, "pricing"> & Partial<Pick<EnrichedModel, "tokenizer" | "capabilities">>;
+
+type TokenHistory = ReturnType<typeof dbGetTokenUsageByCategory>;
+/** Keyed by tenant */
+const history = new Map<string, { at: number; usage: TokenHistory }>();
+
+function tokenHistory(tenant: string, now = Date.now()): TokenHistory {
+  const hit = history.get(tenant);
+  if (hit && now - hit.at < HISTORY_CACHE_TTL_MS) return hit.usage;
+  const usage = dbGetTokenUsageByCategory(new Date(now - HISTORY_WINDOW_DAYS * 86400_000).toISOString(), tenant);
+  history.set(tenant, { at: now, usage });
+  return usage;
+}
+
+/** Drop cached history after new usage is logged */
+export function invalidateTokenHistory(): void {
+  history.clear();
+}
+
+/** Approximate token count of `text` for a tokenizer family */
+export function countTokens(text: string, tokenizer?: string): number {
+  if (!text) return 0;
+  const ratio = (tokenizer && CHARS_PER_TOKEN[tokenizer]) || DEFAULT_CHARS_PER_TOKEN;
+  return Math.ceil(text.length / ratio);
+}
+
+/**
+ * Expected visible output tokens for a category: the default blended with
+ * the tenant's average reported usage, weighted by how many spawns reported it.
+ */
+export function predictCompletionTokens(category: Category | string, tenant = DEFAULT_TENANT): number {
+  const prior = DEFAULT_COMPLETION_TOKENS[category as Category] ?? DEFAULT_COMPLETION_TOKENS.general;
+  const seen = tokenHistory(tenant).get(category);
+  if (!seen?.completionTokens || seen.samples === 0) return prior;
+  return Math.round((prior * PRIOR_SPAWNS + seen.completionTokens * seen.samples) / (PRIOR_SPAWNS + seen.samples));
+}
+
+function predictPromptTokens(category: Category | string, tenant = DEFAULT_TENANT): number {
+  return Math.round(tokenHistory(tenant).get(category)?.promptTokens ?? DEFAULT_PROMPT_TOKENS);
+}
+
+/**
+ * Estimate what one call costs on `model`. Cached prompt tokens use the
+ * model's cache-read price and hidden reasoning tokens its reasoning price,
+ * each falling back to the regular prompt/completion price.
+ */
+export function estimateCost(model: PricedModel, input: CostInput): CostEstimate {
+  const { pricing } = model;
+  const promptTokens = input.promptTokens
+    ?? (input.text !== undefined
+      ? countTokens(input.text, model.tokenizer) + PROMPT_OVERHEAD_TOKENS
+      : predictPromptTokens(input.category, input.tenant));
+  const cachedTokens = pricing.cacheRead !== undefined && input.cachedText
+    ? Math.min(countTokens(input.cachedText, model.tokenizer), promptTokens)
+    : 0;
+  const completionTokens = input.completionTokens ?? predictCompletionTokens(input.category, input.tenant);
+  const reasoningTokens = input.reasoningTokens ?? (model.capabilities?.reasoning
+    ? Math.round(completionTokens * (REASONING_RATIO[input.category as Category] ?? DEFAULT_REASONING_RATIO))
+    : 0);
+
+  const promptCost = (promptTokens - cachedTokens) * pricing.prompt + cachedTokens * (pricing.cacheRead ?? pricing.prompt);
+  const outputCost = (completionTokens * pricing.completion + reasoningTokens * (pricing.reasoning ?? pricing.completion));
+  const cost = (factor: number) => (promptCost + outputCost * factor) / 1_000_000;
+  // Reported usage is exact, so there's no range to give
+  const spread = input.completionTokens != null ? [1, 1] : [LOW_FACTOR, HIGH_FACTOR];
+
+  return {
+    promptTokens,
+    cachedTokens,
+    completionTokens,
+    reasoningTokens,
+    costUsd: roundUsd(cost(1)),
+    low: roundUsd(cost(spread[0]!)),
+    high: roundUsd(cost(spread[1]!)),
+  };
+}
+
+/**
+ * SpawnCostFn for dbGetSpawnStats: logged prices, reported token counts where
+ * the spawn has them (the tenant's history where not), and the catalog's
+ * tokenizer/cache/reasoning pricing.
+ */
+export function spawnCost(tenant = DEFAULT_TENANT): SpawnCostFn {
+  const catalog = new Map(pipeline.getState().models.map((m) => [m.id, m]));
+  return (spawn) => {
+    const known = catalog.get(spawn.model);
+    return estimateCost(
+      {
+        pricing: { ...known?.pricing, prompt: spawn.promptPrice, completion: spawn.completionPrice },
+        tokenizer: known?.tokenizer,
+        capabilities: known?.capabilities,
+      },
+      {
+        category: spawn.category,
+        promptTokens: spawn.promptTokens,
+        completionTokens: spawn.completionTokens,
+        reasoningTokens: spawn.reasoningTokens,
+        tenant,
+      }
+    ).costUsd;
+  };
+}
+
+function roundUsd(n: number): number {
+  return Math.round(n * 1_000_000) / 1_000_000;
+}
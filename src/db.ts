@@ -2,7 +2,8 @@ import { Database } from "bun:sqlite";
 import { existsSync, mkdirSync } from "fs";
 import { join, dirname } from "path";
 
-const DB_PATH = join(import.meta.dir, "../data/smart-spawn.db");
+// DB_PATH=:memory: keeps tests off the real database
+const DB_PATH = process.env["DB_PATH"] || join(import.meta.dir, "../data/smart-spawn.db");
 
 // Ensure data directory exists
 const dir = dirname(DB_PATH);
@@ -38,9 +39,13 @@ db.run(`
   )
 `);
 
+/** Tenant for requests without an API key, and for data from before tenants existed */
+export const DEFAULT_TENANT = "default";
+
 // --- Personal scores table (learning loop) ---
-db.run(`
+const PERSONAL_SCORES_TABLE = `
   CREATE TABLE IF NOT EXISTS personal_scores (
+    tenant TEXT NOT NULL DEFAULT 'default',
     model TEXT NOT NULL,
     category TEXT NOT NULL,
     successes INTEGER NOT NULL DEFAULT 0,
@@ -48,13 +53,15 @@ db.run(`
     total INTEGER NOT NULL DEFAULT 0,
     score REAL,
     updated_at TEXT NOT NULL DEFAULT (datetime('now')),
-    PRIMARY KEY (model, category)
+    PRIMARY KEY (tenant, model, category)
   )
-`);
+`;
+db.run(PERSONAL_SCORES_TABLE);
 
 // --- Context scores table (context-aware learning loop) ---
-db.run(`
+const CONTEXT_SCORES_TABLE = `
   CREATE TABLE IF NOT EXISTS context_scores (
+    tenant TEXT NOT NULL DEFAULT 'default',
     model TEXT NOT NULL,
     category TEXT NOT NULL,
     context_tag TEXT NOT NULL,
@@ -63,9 +70,10 @@ db.run(`
     total INTEGER NOT NULL DEFAULT 0,
     score REAL,
     updated_at TEXT NOT NULL DEFAULT (datetime('now')),
-    PRIMARY KEY (model, category, context_tag)
+    PRIMARY KEY (tenant, model, category, context_tag)
   )
-`);
+`;
+db.run(CONTEXT_SCORES_TABLE);
 
 // --- Community scores tables ---
 db.run(`
@@ -90,6 +98,122 @@ db.run(`
   )
 `);
 
+// --- Model snapshots (one per pipeline refresh) ---
+db.run(`
+  CREATE TABLE IF NOT EXISTS snapshots (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    taken_at TEXT NOT NULL,
+    model_count INTEGER NOT NULL
+  )
+`);
+
+db.run(`
+  CREATE TABLE IF NOT EXISTS model_snapshots (
+    snapshot_id INTEGER NOT NULL,
+    model TEXT NOT NULL,
+    prompt_price REAL NOT NULL,
+    completion_price REAL NOT NULL,
+    scores TEXT NOT NULL DEFAULT '{}',
+    benchmarks TEXT NOT NULL DEFAULT '{}',
+    PRIMARY KEY (snapshot_id, model),
+    FOREIGN KEY (snapshot_id) REFERENCES snapshots(id)
+  )
+`);
+db.run(`CREATE INDEX IF NOT EXISTS idx_model_snapshots_model ON model_snapshots(model, snapshot_id)`);
+db.run(`CREATE INDEX IF NOT EXISTS idx_snapshots_taken_at ON snapshots(taken_at)`);
+
+// --- Custom (private) benchmarks ---
+db.run(`
+  CREATE TABLE IF NOT EXISTS custom_benchmarks (
+    name TEXT PRIMARY KEY,
+    description TEXT NOT NULL DEFAULT '',
+    weights TEXT NOT NULL DEFAULT '{}',
+    created_at TEXT NOT NULL,
+    updated_at TEXT NOT NULL
+  )
+`);
+
+db.run(`
+  CREATE TABLE IF NOT EXISTS custom_benchmark_scores (
+    benchmark TEXT NOT NULL,
+    model TEXT NOT NULL,
+    score REAL NOT NULL,
+    updated_at TEXT NOT NULL,
+    PRIMARY KEY (benchmark, model)
+  )
+`);
+
+// --- Provider health reports (rolling error/latency windows) ---
+db.run(`
+  CREATE TABLE IF NOT EXISTS health_reports (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    model TEXT NOT NULL,
+    provider TEXT NOT NULL,
+    ok INTEGER NOT NULL,
+    kind TEXT,
+    status INTEGER,
+    latency_ms INTEGER,
+    source TEXT NOT NULL DEFAULT 'api',
+    created_at TEXT NOT NULL
+  )
+`);
+db.run(`CREATE INDEX IF NOT EXISTS idx_health_reports_created ON health_reports(created_at)`);
+
+// --- Measured speed (TTFB / throughput from real executions) ---
+db.run(`
+  CREATE TABLE IF NOT EXISTS speed_samples (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    model TEXT NOT NULL,
+    ttfb_ms INTEGER,
+    tokens_per_second REAL,
+    source TEXT NOT NULL DEFAULT 'api',
+    created_at TEXT NOT NULL
+  )
+`);
+db.run(`CREATE INDEX IF NOT EXISTS idx_speed_samples_created ON speed_samples(created_at)`);
+
+// --- Spend budgets (daily caps per tenant project) ---
+const SPEND_BUDGETS_TABLE = `
+  CREATE TABLE IF NOT EXISTS spend_budgets (
+    tenant TEXT NOT NULL DEFAULT 'default',
+    project TEXT NOT NULL,
+    daily_usd REAL NOT NULL,
+    alert_at REAL NOT NULL DEFAULT 0.8,
+    created_at TEXT NOT NULL,
+    updated_at TEXT NOT NULL,
+    PRIMARY KEY (tenant, project)
+  )
+`;
+db.run(SPEND_BUDGETS_TABLE);
+const BUDGET_ALERTS_TABLE = `
+  CREATE TABLE IF NOT EXISTS budget_alerts (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    tenant TEXT NOT NULL DEFAULT 'default',
+    project TEXT NOT NULL,
+    day TEXT NOT NULL,
+    level TEXT NOT NULL,
+    spent_usd REAL NOT NULL,
+    daily_usd REAL NOT NULL,
+    created_at TEXT NOT NULL,
+    UNIQUE(tenant, project, day, level)
+  )
+`;
+db.run(BUDGET_ALERTS_TABLE);
+
+// --- API keys (one tenant each; only the SHA-256 of the key is stored) ---
+db.run(`
+  CREATE TABLE IF NOT EXISTS api_keys (
+    id TEXT PRIMARY KEY,
+    tenant TEXT NOT NULL,
+    key_hash TEXT NOT NULL UNIQUE,
+    label TEXT,
+    created_at TEXT NOT NULL,
+    last_used_at TEXT,
+    revoked_at TEXT
+  )
+`);
+db.run(`CREATE INDEX IF NOT EXISTS idx_api_keys_tenant ON api_keys(tenant)`);
+
 // --- Migrations ---
 try {
   db.run(`ALTER TABLE spawn_log ADD COLUMN role TEXT NOT NULL DEFAULT 'primary'`);
@@ -100,6 +224,55 @@ try {
 try {
   db.run(`ALTER TABLE spawn_log ADD COLUMN context TEXT`);
 } catch { /* already exists */ }
+try {
+  db.run(`ALTER TABLE spawn_log ADD COLUMN prompt_tokens INTEGER`);
+} catch { /* already exists */ }
+try {
+  db.run(`ALTER TABLE spawn_log ADD COLUMN completion_tokens INTEGER`);
+} catch { /* already exists */ }
+try {
+  db.run(`ALTER TABLE spawn_log ADD COLUMN reasoning_tokens INTEGER`);
+} catch { /* already exists */ }
+try {
+  db.run(`ALTER TABLE spawn_log ADD COLUMN latency_ms INTEGER`);
+} catch { /* already exists */ }
+try {
+  db.run(`ALTER TABLE spawn_log ADD COLUMN cost_usd REAL`);
+} catch { /* already exists */ }
+try {
+  db.run(`ALTER TABLE spawn_log ADD COLUMN project TEXT`);
+} catch { /* already exists */ }
+db.run(`CREATE INDEX IF NOT EXISTS idx_spawn_log_project ON spawn_log(project, created_at)`);
+try {
+  db.run(`ALTER TABLE spawn_log ADD COLUMN tenant TEXT NOT NULL DEFAULT 'default'`);
+} catch { /* already exists */ }
+try {
+  db.run(`ALTER TABLE health_reports ADD COLUMN reporter TEXT`);
+} catch { /* already exists */ }
+try {
+  db.run(`ALTER TABLE speed_samples ADD COLUMN reporter TEXT`);
+} catch { /* already exists */ }
+db.run(`CREATE INDEX IF NOT EXISTS idx_spawn_log_tenant ON spawn_log(tenant, created_at)`);
+
+/**
+ * Tables keyed before tenants existed can't gain `tenant` in their key with
+ * ALTER TABLE: rebuild them from `schema`, moving existing rows to the default tenant.
+ */
+function migrateToTenantKey(table: string, schema: string): void {
+  const columns = db.prepare<{ name: string }, []>(`PRAGMA table_info(${table})`).all().map((c) => c.name);
+  if (columns.includes("tenant")) return;
+  const list = columns.join(", ");
+  db.transaction(() => {
+    db.run(`ALTER TABLE ${table} RENAME TO ${table}_pre_tenant`);
+    db.run(schema);
+    db.run(`INSERT INTO ${table} (${list}) SELECT ${list} FROM ${table}_pre_tenant`);
+    db.run(`DROP TABLE ${table}_pre_tenant`);
+  })();
+}
+migrateToTenantKey("personal_scores", PERSONAL_SCORES_TABLE);
+migrateToTenantKey("context_scores", CONTEXT_SCORES_TABLE);
+migrateToTenantKey("spend_budgets", SPEND_BUDGETS_TABLE);
+migrateToTenantKey("budget_alerts", BUDGET_ALERTS_TABLE);
 
 const getStmt = db.prepare<{ key: string; value: string; updated_at: string }, [string]>(
   "SELECT key, value, updated_at FROM kv WHERE key = ?"
@@ -126,7 +299,16 @@ export type SpawnRole =
   | "cascade_premium"  // cascade: premium escalation option
   | "collective_worker"; // collective: one of N parallel workers
 
-export interface SpawnLogEntry {
+/** Actual usage of a spawn, reported by the caller once it has finished */
+export interface SpawnUsage {
+  promptTokens?: number;
+  completionTokens?: number; // visible output, excluding reasoning
+  reasoningTokens?: number;
+  latencyMs?: number;
+  costUsd?: number; // billed amount, when the provider reports it
+}
+
+export interface SpawnLogEntry extends SpawnUsage {
   model: string;
   category: string;
   budget: string;
@@ -136,19 +318,75 @@ export interface SpawnLogEntry {
   promptPrice: number;
   completionPrice: number;
   context?: string;
+  project?: string; // spend budget key
+  tenant?: string;
 }
 
 const insertSpawnStmt = db.prepare(
-  `INSERT INTO spawn_log (model, category, budget, mode, role, source, prompt_price, completion_price, context)
-   VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`
+  `INSERT INTO spawn_log (model, category, budget, mode, role, source, prompt_price, completion_price, context,
+                          prompt_tokens, completion_tokens, reasoning_tokens, latency_ms, cost_usd, project, tenant)
+   VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
 );
 
-export function dbLogSpawn(entry: SpawnLogEntry): void {
-  insertSpawnStmt.run(
+/** Log a spawn. Returns its ID, for reporting usage later via dbUpdateSpawnUsage. */
+export function dbLogSpawn(entry: SpawnLogEntry): number {
+  const result = insertSpawnStmt.run(
     entry.model, entry.category, entry.budget, entry.mode,
     entry.role, entry.source, entry.promptPrice, entry.completionPrice,
-    entry.context ?? null
+    entry.context ?? null, entry.promptTokens ?? null, entry.completionTokens ?? null,
+    entry.reasoningTokens ?? null, entry.latencyMs ?? null, entry.costUsd ?? null, entry.project ?? null,
+    entry.tenant ?? DEFAULT_TENANT
+  );
+  return Number(result.lastInsertRowid);
+}
+
+/**
+ * Record actual usage for a tenant's logged spawn; fields left out keep their value.
+ * Returns the spawn's model, category and project, or null if the tenant has no such spawn.
+ */
+export function dbUpdateSpawnUsage(
+  id: number,
+  usage: SpawnUsage,
+  tenant = DEFAULT_TENANT
+): { model: string; category: string; project: string | null } | null {
+  const row = db.prepare<{ model: string; category: string; project: string | null }, [number, string]>(
+    `SELECT model, category, project FROM spawn_log WHERE id = ? AND tenant = ?`
+  ).get(id, tenant);
+  if (!row) return null;
+  db.prepare(
+    `UPDATE spawn_log SET
+       prompt_tokens = COALESCE(?, prompt_tokens),
+       completion_tokens = COALESCE(?, completion_tokens),
+       reasoning_tokens = COALESCE(?, reasoning_tokens),
+       latency_ms = COALESCE(?, latency_ms),
+       cost_usd = COALESCE(?, cost_usd)
+     WHERE id = ?`
+  ).run(
+    usage.promptTokens ?? null, usage.completionTokens ?? null, usage.reasoningTokens ?? null,
+    usage.latencyMs ?? null, usage.costUsd ?? null, id
   );
+  return row;
+}
+
+/** A tenant's average reported token usage per category since `since`, for spawns that reported it. */
+export function dbGetTokenUsageByCategory(
+  since: string,
+  tenant = DEFAULT_TENANT
+): Map<string, { promptTokens: number | null; completionTokens: number | null; samples: number }> {
+  const rows = db.prepare<
+    { category: string; prompt_tokens: number | null; completion_tokens: number | null; samples: number },
+    [string, string]
+  >(
+    `SELECT category, AVG(prompt_tokens) AS prompt_tokens, AVG(completion_tokens) AS completion_tokens,
+            COUNT(completion_tokens) AS samples
+     FROM spawn_log
+     WHERE created_at >= datetime(?) AND tenant = ? AND completion_tokens IS NOT NULL
+     GROUP BY category`
+  ).all(since, tenant);
+  return new Map(rows.map((r) => [
+    r.category,
+    { promptTokens: r.prompt_tokens, completionTokens: r.completion_tokens, samples: r.samples },
+  ]));
 }
 
 // --- Stats ---
@@ -158,7 +396,8 @@ export interface SpawnStats {
   byModel: Record<string, number>;
   byCategory: Record<string, number>;
   byMode: Record<string, number>;
-  totalEstimatedCost: number;
+  totalEstimatedCost: number; // measured cost where reported, estimated otherwise
+  measuredSpawns: number; // spawns with a reported cost
   opusCostEstimate: number;
   savings: number;
   since: string;
@@ -182,25 +421,70 @@ interface CascadeStats {
   avgSavingsPerCascade: number;
 }
 
-// Assume 2K prompt + 2K completion tokens per spawn
-const EST_TOKENS = 2000;
+const OPUS_MODEL = "anthropic/claude-opus-4";
 const OPUS_PROMPT = 15;  // $/1M
 const OPUS_COMPLETION = 75;
 
-function estimateCost(promptPrice: number, completionPrice: number): number {
-  return (promptPrice * EST_TOKENS + completionPrice * EST_TOKENS) / 1_000_000;
+/** A logged spawn, as priced by a SpawnCostFn */
+export interface SpawnCostInput {
+  model: string;
+  category: string;
+  promptPrice: number;
+  completionPrice: number;
+  promptTokens: number | null;
+  completionTokens: number | null;
+  reasoningTokens: number | null;
+}
+
+export type SpawnCostFn = (spawn: SpawnCostInput) => number;
+
+// Fallback when no estimator is passed: 2K prompt + 2K completion tokens per spawn
+const EST_TOKENS = 2000;
+function toSpawnCostInput(r: {
+  model: string; category: string; prompt_price: number; completion_price: number;
+  prompt_tokens: number | null; completion_tokens: number | null; reasoning_tokens: number | null;
+}): SpawnCostInput {
+  return {
+    model: r.model,
+    category: r.category,
+    promptPrice: r.prompt_price,
+    completionPrice: r.completion_price,
+    promptTokens: r.prompt_tokens,
+    completionTokens: r.completion_tokens,
+    reasoningTokens: r.reasoning_tokens,
+  };
 }
 
-export function dbGetSpawnStats(sinceDays = 7): SpawnStats {
+const flatSpawnCost: SpawnCostFn = (s) =>
+  (s.promptPrice * (s.promptTokens ?? EST_TOKENS)
+    + s.completionPrice * ((s.completionTokens ?? EST_TOKENS) + (s.reasoningTokens ?? 0))) / 1_000_000;
+
+/**
+ * A tenant's spawn statistics since `sinceDays` ago, optionally for one
+ * project. Spawns with a reported cost count at that cost; `costOf` prices
+ * the rest (see cost-estimate.ts). The Opus comparison prices every spawn's
+ * tokens at Opus rates.
+ */
+export function dbGetSpawnStats(
+  sinceDays = 7,
+  costOf: SpawnCostFn = flatSpawnCost,
+  filter: { tenant?: string; project?: string } = {}
+): SpawnStats {
   const since = new Date(Date.now() - sinceDays * 86400_000).toISOString();
 
   const rows = db.prepare<
-    { model: string; category: string; mode: string; role: string; prompt_price: number; completion_price: number; created_at: string },
-    [string]
+    {
+      model: string; category: string; mode: string; role: string; prompt_price: number; completion_price: number;
+      prompt_tokens: number | null; completion_tokens: number | null; reasoning_tokens: number | null;
+      cost_usd: number | null; created_at: string;
+    },
+    [string, string, string | null]
   >(
-    `SELECT model, category, mode, role, prompt_price, completion_price, created_at
-     FROM spawn_log WHERE created_at >= ? ORDER BY created_at`
-  ).all(since);
+    `SELECT model, category, mode, role, prompt_price, completion_price, prompt_tokens, completion_tokens,
+            reasoning_tokens, cost_usd, created_at
+     FROM spawn_log WHERE created_at >= datetime(?1) AND tenant = ?2 AND (?3 IS NULL OR project = ?3)
+     ORDER BY created_at`
+  ).all(since, filter.tenant ?? DEFAULT_TENANT, filter.project ?? null);
 
   const byModel: Record<string, number> = {};
   const byCategory: Record<string, number> = {};
@@ -209,6 +493,8 @@ export function dbGetSpawnStats(sinceDays = 7): SpawnStats {
   const categoryCosts: Record<string, { total: number; count: number }> = {};
   const modelCosts: Record<string, { count: number; totalCost: number }> = {};
   let totalEstimatedCost = 0;
+  let opusCostEstimate = 0;
+  let measuredSpawns = 0;
 
   // Cascade tracking
   let cascadeTotal = 0;
@@ -219,8 +505,11 @@ export function dbGetSpawnStats(sinceDays = 7): SpawnStats {
     byCategory[r.category] = (byCategory[r.category] ?? 0) + 1;
     byMode[r.mode] = (byMode[r.mode] ?? 0) + 1;
 
-    const cost = estimateCost(r.prompt_price, r.completion_price);
+    const spawn = toSpawnCostInput(r);
+    const cost = r.cost_usd ?? costOf(spawn);
+    if (r.cost_usd !== null) measuredSpawns++;
     totalEstimatedCost += cost;
+    opusCostEstimate += costOf({ ...spawn, model: OPUS_MODEL, promptPrice: OPUS_PROMPT, completionPrice: OPUS_COMPLETION });
 
     // Daily
     const day = r.created_at.slice(0, 10);
@@ -243,8 +532,6 @@ export function dbGetSpawnStats(sinceDays = 7): SpawnStats {
     if (r.role === "cascade_premium") cascadePremiums++;
   }
 
-  const opusCostEstimate = rows.length * estimateCost(OPUS_PROMPT, OPUS_COMPLETION);
-
   // Daily breakdown
   const daily = Object.entries(dailyMap)
     .map(([date, d]) => ({
@@ -259,7 +546,7 @@ export function dbGetSpawnStats(sinceDays = 7): SpawnStats {
   const avgCheapCost = cascadeTotal > 0
     ? totalEstimatedCost / rows.length  // rough avg
     : 0;
-  const avgPremiumCost = estimateCost(OPUS_PROMPT, OPUS_COMPLETION);
+  const avgPremiumCost = rows.length > 0 ? opusCostEstimate / rows.length : 0;
   const cascade: CascadeStats = {
     total: cascadeTotal,
     cheapOnly: cascadeCheapOnly,
@@ -296,6 +583,7 @@ export function dbGetSpawnStats(sinceDays = 7): SpawnStats {
     byCategory,
     byMode,
     totalEstimatedCost: rounded(totalEstimatedCost),
+    measuredSpawns,
     opusCostEstimate: rounded(opusCostEstimate),
     savings: rounded(opusCostEstimate - totalEstimatedCost),
     since,
@@ -318,17 +606,18 @@ export type Outcome = "success" | "failure";
 export function dbReportOutcome(
   model: string,
   category: string,
-  rating: number
+  rating: number,
+  tenant = DEFAULT_TENANT
 ): void {
   const outcome: Outcome = rating >= 3 ? "success" : "failure";
 
   // Update personal_scores with running tally
   const existing = db.prepare<
     { successes: number; failures: number; total: number },
-    [string, string]
+    [string, string, string]
   >(
-    `SELECT successes, failures, total FROM personal_scores WHERE model = ? AND category = ?`
-  ).get(model, category);
+    `SELECT successes, failures, total FROM personal_scores WHERE tenant = ? AND model = ? AND category = ?`
+  ).get(tenant, model, category);
 
   const successes = (existing?.successes ?? 0) + (outcome === "success" ? 1 : 0);
   const failures = (existing?.failures ?? 0) + (outcome === "failure" ? 1 : 0);
@@ -336,9 +625,9 @@ export function dbReportOutcome(
   const score = total > 0 ? successes / total : null;
 
   db.prepare(
-    `INSERT OR REPLACE INTO personal_scores (model, category, successes, failures, total, score, updated_at)
-     VALUES (?, ?, ?, ?, ?, ?, datetime('now'))`
-  ).run(model, category, successes, failures, total, score);
+    `INSERT OR REPLACE INTO personal_scores (tenant, model, category, successes, failures, total, score, updated_at)
+     VALUES (?, ?, ?, ?, ?, ?, ?, datetime('now'))`
+  ).run(tenant, model, category, successes, failures, total, score);
 }
 
 // --- Learning Loop: Personal Scores ---
@@ -351,18 +640,19 @@ export interface PersonalScore {
 }
 
 /**
- * Get personal scores for a category (or all categories).
+ * Get a tenant's personal scores for a category (or all categories).
  * Only returns models with at least minSamples feedback entries.
  */
 export function dbGetPersonalScores(
   category?: string,
+  tenant = DEFAULT_TENANT,
   minSamples = 3
 ): PersonalScore[] {
   const query = category
-    ? `SELECT model, category, score, total FROM personal_scores WHERE category = ? AND total >= ?`
-    : `SELECT model, category, score, total FROM personal_scores WHERE total >= ?`;
+    ? `SELECT model, category, score, total FROM personal_scores WHERE tenant = ? AND category = ? AND total >= ?`
+    : `SELECT model, category, score, total FROM personal_scores WHERE tenant = ? AND total >= ?`;
 
-  const args = category ? [category, minSamples] : [minSamples];
+  const args = category ? [tenant, category, minSamples] : [tenant, minSamples];
 
   const rows = db.prepare<
     { model: string; category: string; score: number; total: number },
@@ -384,14 +674,15 @@ export function dbGetPersonalScores(
 export function dbGetPersonalScore(
   model: string,
   category: string,
+  tenant = DEFAULT_TENANT,
   minSamples = 3
 ): number | null {
   const row = db.prepare<
     { score: number; total: number },
-    [string, string]
+    [string, string, string]
   >(
-    `SELECT score, total FROM personal_scores WHERE model = ? AND category = ?`
-  ).get(model, category);
+    `SELECT score, total FROM personal_scores WHERE tenant = ? AND model = ? AND category = ?`
+  ).get(tenant, model, category);
 
   if (!row || row.total < minSamples) return null;
   return row.score;
@@ -407,17 +698,19 @@ export function dbReportContextOutcome(
   model: string,
   category: string,
   contextTags: string[],
-  rating: number
+  rating: number,
+  tenant = DEFAULT_TENANT
 ): void {
   const outcome = rating >= 3 ? "success" : "failure";
 
   for (const tag of contextTags) {
     const existing = db.prepare<
       { successes: number; failures: number; total: number },
-      [string, string, string]
+      [string, string, string, string]
     >(
-      `SELECT successes, failures, total FROM context_scores WHERE model = ? AND category = ? AND context_tag = ?`
-    ).get(model, category, tag);
+      `SELECT successes, failures, total FROM context_scores
+       WHERE tenant = ? AND model = ? AND category = ? AND context_tag = ?`
+    ).get(tenant, model, category, tag);
 
     const successes = (existing?.successes ?? 0) + (outcome === "success" ? 1 : 0);
     const failures = (existing?.failures ?? 0) + (outcome === "failure" ? 1 : 0);
@@ -425,9 +718,10 @@ export function dbReportContextOutcome(
     const score = total > 0 ? successes / total : null;
 
     db.prepare(
-      `INSERT OR REPLACE INTO context_scores (model, category, context_tag, successes, failures, total, score, updated_at)
-       VALUES (?, ?, ?, ?, ?, ?, ?, datetime('now'))`
-    ).run(model, category, tag, successes, failures, total, score);
+      `INSERT OR REPLACE INTO context_scores
+         (tenant, model, category, context_tag, successes, failures, total, score, updated_at)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, datetime('now'))`
+    ).run(tenant, model, category, tag, successes, failures, total, score);
   }
 }
 
@@ -439,6 +733,7 @@ export function dbGetContextScore(
   model: string,
   category: string,
   contextTags: string[],
+  tenant = DEFAULT_TENANT,
   minSamples = 3
 ): number | null {
   if (!contextTags.length) return null;
@@ -449,8 +744,8 @@ export function dbGetContextScore(
     any[]
   >(
     `SELECT score, total FROM context_scores
-     WHERE model = ? AND category = ? AND context_tag IN (${placeholders}) AND total >= ?`
-  ).all(model, category, ...contextTags, minSamples);
+     WHERE tenant = ? AND model = ? AND category = ? AND context_tag IN (${placeholders}) AND total >= ?`
+  ).all(tenant, model, category, ...contextTags, minSamples);
 
   if (rows.length === 0) return null;
 
@@ -467,14 +762,15 @@ export function dbGetContextScore(
  */
 export function dbGetPersonalScoreBatch(
   category: string,
+  tenant = DEFAULT_TENANT,
   minSamples = 3
 ): Map<string, number> {
   const rows = db.prepare<
     { model: string; score: number; total: number },
-    [string, number]
+    [string, string, number]
   >(
-    `SELECT model, score, total FROM personal_scores WHERE category = ? AND total >= ?`
-  ).all(category, minSamples);
+    `SELECT model, score, total FROM personal_scores WHERE tenant = ? AND category = ? AND total >= ?`
+  ).all(tenant, category, minSamples);
 
   const map = new Map<string, number>();
   for (const r of rows) {
@@ -489,6 +785,7 @@ export function dbGetPersonalScoreBatch(
 export function dbGetContextScoreBatch(
   category: string,
   contextTags: string[],
+  tenant = DEFAULT_TENANT,
   minSamples = 3
 ): Map<string, number> {
   if (!contextTags.length) return new Map();
@@ -499,10 +796,10 @@ export function dbGetContextScoreBatch(
     any[]
   >(
     `SELECT model, AVG(score) as score FROM context_scores
-     WHERE category = ? AND context_tag IN (${placeholders}) AND total >= ?
+     WHERE tenant = ? AND category = ? AND context_tag IN (${placeholders}) AND total >= ?
      AND score IS NOT NULL
      GROUP BY model`
-  ).all(category, ...contextTags, minSamples);
+  ).all(tenant, category, ...contextTags, minSamples);
 
   const map = new Map<string, number>();
   for (const r of rows) {
@@ -643,3 +940,560 @@ export function dbGetCommunityScore(
   if (!row || row.total_ratings < minRatings) return null;
   return row.avg_rating / 5; // normalize to 0-1
 }
+
+// --- Model Snapshots (history + changes) ---
+
+export interface SnapshotInfo {
+  id: number;
+  takenAt: string;
+  modelCount: number;
+}
+
+export interface ModelSnapshot {
+  model: string;
+  pricing: { prompt: number; completion: number };
+  scores: Record<string, number>;
+  benchmarks: Record<string, number>;
+}
+
+export interface ModelHistoryPoint extends Omit<ModelSnapshot, "model"> {
+  snapshotId: number;
+  takenAt: string;
+}
+
+type ModelSnapshotRow = {
+  snapshot_id: number;
+  model: string;
+  prompt_price: number;
+  completion_price: number;
+  scores: string;
+  benchmarks: string;
+};
+
+function toModelSnapshot(r: ModelSnapshotRow): ModelSnapshot {
+  return {
+    model: r.model,
+    pricing: { prompt: r.prompt_price, completion: r.completion_price },
+    scores: JSON.parse(r.scores),
+    benchmarks: JSON.parse(r.benchmarks),
+  };
+}
+
+const insertSnapshotStmt = db.prepare(
+  "INSERT INTO snapshots (taken_at, model_count) VALUES (?, ?)"
+);
+const insertModelSnapshotStmt = db.prepare(
+  `INSERT INTO model_snapshots (snapshot_id, model, prompt_price, completion_price, scores, benchmarks)
+   VALUES (?, ?, ?, ?, ?, ?)`
+);
+
+/** Persist one refresh's prices, scores and benchmarks. Returns the snapshot id. */
+export function dbSaveSnapshot(takenAt: string, models: ModelSnapshot[]): number {
+  const save = db.transaction(() => {
+    const { lastInsertRowid } = insertSnapshotStmt.run(takenAt, models.length);
+    const id = Number(lastInsertRowid);
+    for (const m of models) {
+      insertModelSnapshotStmt.run(
+        id, m.model, m.pricing.prompt, m.pricing.completion,
+        JSON.stringify(m.scores), JSON.stringify(m.benchmarks)
+      );
+    }
+    return id;
+  });
+  return save();
+}
+
+/** Drop snapshots older than the cutoff. Returns how many were removed. */
+export function dbPruneSnapshots(olderThan: string): number {
+  const prune = db.transaction(() => {
+    db.prepare(
+      `DELETE FROM model_snapshots WHERE snapshot_id IN (SELECT id FROM snapshots WHERE taken_at < ?)`
+    ).run(olderThan);
+    return db.prepare(`DELETE FROM snapshots WHERE taken_at < ?`).run(olderThan).changes;
+  });
+  return prune();
+}
+
+function toSnapshotInfo(r: { id: number; taken_at: string; model_count: number }): SnapshotInfo {
+  return { id: r.id, takenAt: r.taken_at, modelCount: r.model_count };
+}
+
+/** The most recent snapshots, newest first. */
+export function dbListSnapshots(limit = 2): SnapshotInfo[] {
+  return db.prepare<{ id: number; taken_at: string; model_count: number }, [number]>(
+    `SELECT id, taken_at, model_count FROM snapshots ORDER BY taken_at DESC, id DESC LIMIT ?`
+  ).all(limit).map(toSnapshotInfo);
+}
+
+/**
+ * The snapshot that was current at `at`: the latest taken at or before it, or the
+ * earliest one when `at` predates all history.
+ */
+export function dbGetSnapshotAt(at: string): SnapshotInfo | null {
+  const row =
+    db.prepare<{ id: number; taken_at: string; model_count: number }, [string]>(
+      `SELECT id, taken_at, model_count FROM snapshots WHERE taken_at <= ? ORDER BY taken_at DESC, id DESC LIMIT 1`
+    ).get(at) ??
+    db.prepare<{ id: number; taken_at: string; model_count: number }, []>(
+      `SELECT id, taken_at, model_count FROM snapshots ORDER BY taken_at ASC, id ASC LIMIT 1`
+    ).get();
+  return row ? toSnapshotInfo(row) : null;
+}
+
+export function dbGetSnapshotModels(snapshotId: number): ModelSnapshot[] {
+  return db.prepare<ModelSnapshotRow, [number]>(
+    `SELECT snapshot_id, model, prompt_price, completion_price, scores, benchmarks
+     FROM model_snapshots WHERE snapshot_id = ?`
+  ).all(snapshotId).map(toModelSnapshot);
+}
+
+/** Time series for one model, oldest first. */
+export function dbGetModelHistory(model: string, since?: string, limit = 100): ModelHistoryPoint[] {
+  const rows = db.prepare<ModelSnapshotRow & { taken_at: string }, [string, string, number]>(
+    `SELECT ms.snapshot_id, ms.model, ms.prompt_price, ms.completion_price, ms.scores, ms.benchmarks, s.taken_at
+     FROM model_snapshots ms JOIN snapshots s ON s.id = ms.snapshot_id
+     WHERE ms.model = ? AND s.taken_at >= ?
+     ORDER BY s.taken_at DESC, s.id DESC LIMIT ?`
+  ).all(model, since ?? "", limit);
+
+  return rows.reverse().map((r) => {
+    const { model: _model, ...snapshot } = toModelSnapshot(r);
+    return { snapshotId: r.snapshot_id, takenAt: r.taken_at, ...snapshot };
+  });
+}
+
+// --- Custom Benchmarks (private eval ingestion) ---
+
+export interface CustomBenchmark {
+  name: string;
+  description: string;
+  weights: Record<string, number>;
+  modelCount: number;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface CustomBenchmarkScore {
+  benchmark: string;
+  model: string;
+  score: number;
+}
+
+/**
+ * Create or update a benchmark and store its scores. With `replace`, scores
+ * for models missing from this upload are dropped; otherwise they are kept.
+ */
+export function dbSaveCustomBenchmark(
+  def: { name: string; description?: string; weights?: Record<string, number> },
+  scores: Array<{ model: string; score: number }>,
+  replace: boolean
+): void {
+  const now = new Date().toISOString();
+  const save = db.transaction(() => {
+    db.prepare(
+      `INSERT INTO custom_benchmarks (name, description, weights, created_at, updated_at)
+       VALUES (?, ?, ?, ?, ?)
+       ON CONFLICT(name) DO UPDATE SET
+         description = COALESCE(?, description),
+         weights = COALESCE(?, weights),
+         updated_at = excluded.updated_at`
+    ).run(
+      def.name, def.description ?? "", JSON.stringify(def.weights ?? {}), now, now,
+      def.description ?? null, def.weights ? JSON.stringify(def.weights) : null
+    );
+    if (replace) {
+      db.prepare(`DELETE FROM custom_benchmark_scores WHERE benchmark = ?`).run(def.name);
+    }
+    const upsert = db.prepare(
+      `INSERT OR REPLACE INTO custom_benchmark_scores (benchmark, model, score, updated_at) VALUES (?, ?, ?, ?)`
+    );
+    for (const s of scores) upsert.run(def.name, s.model, s.score, now);
+  });
+  save();
+}
+
+export function dbListCustomBenchmarks(): CustomBenchmark[] {
+  return db.prepare<
+    { name: string; description: string; weights: string; created_at: string; updated_at: string; model_count: number },
+    []
+  >(
+    `SELECT b.name, b.description, b.weights, b.created_at, b.updated_at,
+            (SELECT COUNT(*) FROM custom_benchmark_scores s WHERE s.benchmark = b.name) AS model_count
+     FROM custom_benchmarks b ORDER BY b.name`
+  ).all().map((r) => ({
+    name: r.name,
+    description: r.description,
+    weights: JSON.parse(r.weights),
+    modelCount: r.model_count,
+    createdAt: r.created_at,
+    updatedAt: r.updated_at,
+  }));
+}
+
+export function dbGetCustomBenchmarkScores(): CustomBenchmarkScore[] {
+  return db.prepare<CustomBenchmarkScore, []>(
+    `SELECT benchmark, model, score FROM custom_benchmark_scores ORDER BY benchmark, model`
+  ).all();
+}
+
+/** Delete a benchmark and its scores. Returns false when it did not exist. */
+export function dbDeleteCustomBenchmark(name: string): boolean {
+  const remove = db.transaction(() => {
+    db.prepare(`DELETE FROM custom_benchmark_scores WHERE benchmark = ?`).run(name);
+    return db.prepare(`DELETE FROM custom_benchmarks WHERE name = ?`).run(name).changes > 0;
+  });
+  return remove();
+}
+
+// --- Provider Health ---
+
+/** Failure kinds; only rate_limit, server_error and timeout count against reliability */
+export type HealthErrorKind = "rate_limit" | "server_error" | "timeout" | "client_error";
+
+export interface HealthReport {
+  model: string;
+  ok: boolean;
+  kind?: HealthErrorKind;
+  status?: number;
+  latencyMs?: number;
+  source?: string;
+  reporter?: string; // API key ID or "ingest" (see middleware/reporter-auth.ts)
+}
+
+export interface HealthStats {
+  key: string; // model ID or provider
+  requests: number;
+  reporters: number; // distinct reporters behind `requests`
+  failures: number; // reliability failures: rate limits, 5xx, timeouts
+  rateLimited: number;
+  serverErrors: number;
+  timeouts: number;
+  avgLatencyMs: number | null;
+}
+
+/** Record a batch of call outcomes in one transaction. */
+export function dbRecordHealthReports(reports: HealthReport[]): void {
+  const now = new Date().toISOString();
+  const insert = db.prepare(
+    `INSERT INTO health_reports (model, provider, ok, kind, status, latency_ms, source, reporter, created_at)
+     VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`
+  );
+  const record = db.transaction(() => {
+    for (const r of reports) {
+      insert.run(
+        r.model, r.model.split("/")[0] ?? "unknown", r.ok ? 1 : 0, r.kind ?? null,
+        r.status ?? null, r.latencyMs ?? null, r.source ?? "api", r.reporter ?? null, now
+      );
+    }
+  });
+  record();
+}
+
+/**
+ * Aggregate health reports since `since`, per model and per provider. Only
+ * each reporter's latest `maxPerReporter` reports for a key count, so no
+ * single reporter can outweigh the rest.
+ */
+export function dbGetHealthStats(
+  since: string,
+  maxPerReporter: number
+): { models: HealthStats[]; providers: HealthStats[] } {
+  const aggregate = (column: "model" | "provider") =>
+    db.prepare<
+      {
+        key: string; requests: number; reporters: number; rate_limited: number; server_errors: number;
+        timeouts: number; avg_latency: number | null;
+      },
+      [string, number]
+    >(
+      `SELECT key, COUNT(*) AS requests, COUNT(DISTINCT reporter) AS reporters,
+              SUM(CASE WHEN kind = 'rate_limit' THEN 1 ELSE 0 END) AS rate_limited,
+              SUM(CASE WHEN kind = 'server_error' THEN 1 ELSE 0 END) AS server_errors,
+              SUM(CASE WHEN kind = 'timeout' THEN 1 ELSE 0 END) AS timeouts,
+              AVG(CASE WHEN ok = 1 THEN latency_ms END) AS avg_latency
+       FROM (
+         SELECT ${column} AS key, reporter, ok, kind, latency_ms,
+                ROW_NUMBER() OVER (PARTITION BY ${column}, reporter ORDER BY id DESC) AS n
+         FROM health_reports WHERE created_at >= ?
+       )
+       WHERE n <= ? GROUP BY key`
+    ).all(since, maxPerReporter).map((r) => ({
+      key: r.key,
+      requests: r.requests,
+      reporters: r.reporters,
+      failures: r.rate_limited + r.server_errors + r.timeouts,
+      rateLimited: r.rate_limited,
+      serverErrors: r.server_errors,
+      timeouts: r.timeouts,
+      avgLatencyMs: r.avg_latency === null ? null : Math.round(r.avg_latency),
+    }));
+
+  return { models: aggregate("model"), providers: aggregate("provider") };
+}
+
+/** Delete health reports older than `olderThan`. Returns rows removed. */
+export function dbPruneHealthReports(olderThan: string): number {
+  return db.prepare(`DELETE FROM health_reports WHERE created_at < ?`).run(olderThan).changes;
+}
+
+// --- Measured Speed ---
+
+export interface SpeedSample {
+  model: string;
+  ttfbMs?: number;
+  tokensPerSecond?: number;
+  source?: string;
+  reporter?: string; // API key ID or "ingest" (see middleware/reporter-auth.ts)
+}
+
+/** Record speed measurements in one transaction. */
+export function dbRecordSpeedSamples(samples: SpeedSample[]): void {
+  const now = new Date().toISOString();
+  const insert = db.prepare(
+    `INSERT INTO speed_samples (model, ttfb_ms, tokens_per_second, source, reporter, created_at)
+     VALUES (?, ?, ?, ?, ?, ?)`
+  );
+  const record = db.transaction(() => {
+    for (const s of samples) {
+      insert.run(s.model, s.ttfbMs ?? null, s.tokensPerSecond ?? null, s.source ?? "api", s.reporter ?? null, now);
+    }
+  });
+  record();
+}
+
+export interface StoredSpeedSample {
+  ttfbMs: number | null;
+  tokensPerSecond: number | null;
+  reporter: string | null;
+}
+
+/**
+ * Speed samples since `since`, grouped by model (oldest first). Only each
+ * reporter's latest `maxPerReporter` samples for a model are returned.
+ */
+export function dbGetSpeedSamples(since: string, maxPerReporter: number): Map<string, StoredSpeedSample[]> {
+  const rows = db.prepare<
+    { model: string; ttfb_ms: number | null; tokens_per_second: number | null; reporter: string | null },
+    [string, number]
+  >(
+    `SELECT model, ttfb_ms, tokens_per_second, reporter FROM (
+       SELECT id, model, ttfb_ms, tokens_per_second, reporter,
+              ROW_NUMBER() OVER (PARTITION BY model, reporter ORDER BY id DESC) AS n
+       FROM speed_samples WHERE created_at >= ?
+     )
+     WHERE n <= ? ORDER BY id`
+  ).all(since, maxPerReporter);
+
+  const byModel = new Map<string, StoredSpeedSample[]>();
+  for (const r of rows) {
+    const list = byModel.get(r.model) ?? [];
+    list.push({ ttfbMs: r.ttfb_ms, tokensPerSecond: r.tokens_per_second, reporter: r.reporter });
+    byModel.set(r.model, list);
+  }
+  return byModel;
+}
+
+/** Delete speed samples older than `olderThan`. Returns rows removed. */
+export function dbPruneSpeedSamples(olderThan: string): number {
+  return db.prepare(`DELETE FROM speed_samples WHERE created_at < ?`).run(olderThan).changes;
+}
+
+// --- Spend Budgets ---
+
+export interface SpendBudget {
+  tenant: string;
+  project: string;
+  dailyUsd: number;
+  alertAt: number; // fraction of dailyUsd that raises a warning
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type BudgetAlertLevel = "warning" | "exceeded";
+
+export interface BudgetAlert {
+  tenant: string;
+  project: string;
+  day: string; // UTC date
+  level: BudgetAlertLevel;
+  spentUsd: number;
+  dailyUsd: number;
+  createdAt: string;
+}
+
+/** Create or replace a tenant project's daily budget. */
+export function dbSaveSpendBudget(
+  project: string,
+  dailyUsd: number,
+  alertAt: number,
+  tenant = DEFAULT_TENANT
+): SpendBudget {
+  const now = new Date().toISOString();
+  db.prepare(
+    `INSERT INTO spend_budgets (tenant, project, daily_usd, alert_at, created_at, updated_at) VALUES (?, ?, ?, ?, ?, ?)
+     ON CONFLICT(tenant, project) DO UPDATE SET daily_usd = excluded.daily_usd, alert_at = excluded.alert_at,
+                                                updated_at = excluded.updated_at`
+  ).run(tenant, project, dailyUsd, alertAt, now, now);
+  return dbGetSpendBudget(project, tenant)!;
+}
+
+type SpendBudgetRow = {
+  tenant: string; project: string; daily_usd: number; alert_at: number; created_at: string; updated_at: string;
+};
+
+function toSpendBudget(r: SpendBudgetRow): SpendBudget {
+  return {
+    tenant: r.tenant,
+    project: r.project,
+    dailyUsd: r.daily_usd,
+    alertAt: r.alert_at,
+    createdAt: r.created_at,
+    updatedAt: r.updated_at,
+  };
+}
+
+export function dbGetSpendBudget(project: string, tenant = DEFAULT_TENANT): SpendBudget | null {
+  const row = db.prepare<SpendBudgetRow, [string, string]>(
+    `SELECT * FROM spend_budgets WHERE tenant = ? AND project = ?`
+  ).get(tenant, project);
+  return row ? toSpendBudget(row) : null;
+}
+
+export function dbListSpendBudgets(tenant = DEFAULT_TENANT): SpendBudget[] {
+  return db.prepare<SpendBudgetRow, [string]>(
+    `SELECT * FROM spend_budgets WHERE tenant = ? ORDER BY project`
+  ).all(tenant).map(toSpendBudget);
+}
+
+/** Delete a tenant project's budget and its alerts. Returns false if it had none. */
+export function dbDeleteSpendBudget(project: string, tenant = DEFAULT_TENANT): boolean {
+  const remove = db.transaction(() => {
+    db.prepare(`DELETE FROM budget_alerts WHERE tenant = ? AND project = ?`).run(tenant, project);
+    return db.prepare(`DELETE FROM spend_budgets WHERE tenant = ? AND project = ?`).run(tenant, project).changes > 0;
+  });
+  return remove();
+}
+
+/**
+ * A tenant project's spend since `since`: reported costs where spawns have
+ * them, `costOf` estimates for the rest.
+ */
+export function dbGetProjectSpend(
+  project: string,
+  since: string,
+  costOf: SpawnCostFn = flatSpawnCost,
+  tenant = DEFAULT_TENANT
+): { spawns: number; spentUsd: number } {
+  const rows = db.prepare<
+    {
+      model: string; category: string; prompt_price: number; completion_price: number;
+      prompt_tokens: number | null; completion_tokens: number | null; reasoning_tokens: number | null;
+      cost_usd: number | null;
+    },
+    [string, string, string]
+  >(
+    `SELECT model, category, prompt_price, completion_price, prompt_tokens, completion_tokens, reasoning_tokens, cost_usd
+     FROM spawn_log WHERE tenant = ? AND project = ? AND created_at >= datetime(?)`
+  ).all(tenant, project, since);
+  return { spawns: rows.length, spentUsd: rows.reduce((sum, r) => sum + (r.cost_usd ?? costOf(toSpawnCostInput(r))), 0) };
+}
+
+/** Record an alert once per tenant project, day and level. Returns true if it's new. */
+export function dbRecordBudgetAlert(alert: Omit<BudgetAlert, "createdAt">): boolean {
+  return db.prepare(
+    `INSERT OR IGNORE INTO budget_alerts (tenant, project, day, level, spent_usd, daily_usd, created_at)
+     VALUES (?, ?, ?, ?, ?, ?, ?)`
+  ).run(
+    alert.tenant, alert.project, alert.day, alert.level, alert.spentUsd, alert.dailyUsd, new Date().toISOString()
+  ).changes > 0;
+}
+
+/** A tenant's alerts raised since `sinceDay` (a UTC date), newest first, optionally for one project. */
+export function dbListBudgetAlerts(sinceDay: string, tenant = DEFAULT_TENANT, project?: string): BudgetAlert[] {
+  return db.prepare<
+    {
+      tenant: string; project: string; day: string; level: BudgetAlertLevel;
+      spent_usd: number; daily_usd: number; created_at: string;
+    },
+    [string, string, string | null]
+  >(
+    `SELECT tenant, project, day, level, spent_usd, daily_usd, created_at FROM budget_alerts
+     WHERE day >= ?1 AND tenant = ?2 AND (?3 IS NULL OR project = ?3) ORDER BY created_at DESC`
+  ).all(sinceDay, tenant, project ?? null).map((r) => ({
+    tenant: r.tenant,
+    project: r.project,
+    day: r.day,
+    level: r.level,
+    spentUsd: r.spent_usd,
+    dailyUsd: r.daily_usd,
+    createdAt: r.created_at,
+  }));
+}
+
+// --- API Keys ---
+
+export interface ApiKey {
+  id: string;
+  tenant: string;
+  label: string | null;
+  createdAt: string;
+  lastUsedAt: string | null;
+  revokedAt: string | null;
+}
+
+type ApiKeyRow = {
+  id: string; tenant: string; label: string | null; created_at: string;
+  last_used_at: string | null; revoked_at: string | null;
+};
+
+function toApiKey(r: ApiKeyRow): ApiKey {
+  return {
+    id: r.id,
+    tenant: r.tenant,
+    label: r.label,
+    createdAt: r.created_at,
+    lastUsedAt: r.last_used_at,
+    revokedAt: r.revoked_at,
+  };
+}
+
+/** Store a new key by its hash; the plaintext key is never written. */
+export function dbCreateApiKey(id: string, tenant: string, keyHash: string, label?: string): ApiKey {
+  db.prepare(
+    `INSERT INTO api_keys (id, tenant, key_hash, label, created_at) VALUES (?, ?, ?, ?, ?)`
+  ).run(id, tenant, keyHash, label ?? null, new Date().toISOString());
+  return dbGetApiKey(id)!;
+}
+
+export function dbGetApiKey(id: string): ApiKey | null {
+  const row = db.prepare<ApiKeyRow, [string]>(
+    `SELECT id, tenant, label, created_at, last_used_at, revoked_at FROM api_keys WHERE id = ?`
+  ).get(id);
+  return row ? toApiKey(row) : null;
+}
+
+export function dbGetApiKeyByHash(keyHash: string): ApiKey | null {
+  const row = db.prepare<ApiKeyRow, [string]>(
+    `SELECT id, tenant, label, created_at, last_used_at, revoked_at FROM api_keys WHERE key_hash = ?`
+  ).get(keyHash);
+  return row ? toApiKey(row) : null;
+}
+
+/** Keys newest first, optionally for one tenant (revoked keys included). */
+export function dbListApiKeys(tenant?: string): ApiKey[] {
+  return db.prepare<ApiKeyRow, [string | null]>(
+    `SELECT id, tenant, label, created_at, last_used_at, revoked_at FROM api_keys
+     WHERE (?1 IS NULL OR tenant = ?1) ORDER BY created_at DESC`
+  ).all(tenant ?? null).map(toApiKey);
+}
+
+/** Revoke a key. Returns false if there's no such key or it was already revoked. */
+export function dbRevokeApiKey(id: string): boolean {
+  return db.prepare(
+    `UPDATE api_keys SET revoked_at = ? WHERE id = ? AND revoked_at IS NULL`
+  ).run(new Date().toISOString(), id).changes > 0;
+}
+
+export function dbTouchApiKey(id: string): void {
+  db.prepare(`UPDATE api_keys SET last_used_at = ? WHERE id = ?`).run(new Date().toISOString(), id);
+}
@@ -0,0 +1,214 @@
+import type { EnrichedModel } from "../types.ts";
+import { getNamesForId, resolveAlias } from "./alias-map.ts";
+
+/**
+ * Unified source-name → OpenRouter ID matching.
+ *
+ * Each lookup tries, in order: the name as an OpenRouter ID, the alias map,
+ * a normalized form of the name (see normalizeModelName), and finally fuzzy
+ * similarity against every catalog ID, display name and alias. Fuzzy matches
+ * are only accepted above FUZZY_ACCEPT with a clear lead over the runner-up;
+ * everything else is recorded with suggestions for /status/unmatched.
+ */
+
+export type MatchMethod = "id" | "alias" | "normalized" | "fuzzy";
+
+export interface MatchSuggestion {
+  id: string;
+  similarity: number;
+}
+
+export interface UnmatchedEntry {
+  source: string;
+  name: string;
+  suggestions: MatchSuggestion[];
+}
+
+export interface MatchOptions {
+  /**
+   * Exact ID and alias lookups only. For sources full of fine-tunes and
+   * re-uploads (HF leaderboard), where "close" usually means "different model".
+   */
+  strict?: boolean;
+  /** Don't record a miss in the unmatched report */
+  quiet?: boolean;
+}
+
+export interface ModelMatcher {
+  /**
+   * Resolve a source entry. `candidates` are extra spellings to try (most
+   * specific first); `name` is what gets reported when nothing matches.
+   */
+  match(source: string, name: string, candidates?: string[], opts?: MatchOptions): { id: string; method: MatchMethod } | null;
+  /** Misses recorded so far, grouped by source */
+  unmatched(): Record<string, UnmatchedEntry[]>;
+}
+
+/** Minimum similarity to auto-accept a fuzzy match */
+export const FUZZY_ACCEPT = 0.88;
+/** Required lead of the best fuzzy match over the next-best model */
+const FUZZY_MARGIN = 0.05;
+/** Suggestions below this aren't worth a curator's time */
+const SUGGEST_MIN = 0.5;
+const MAX_SUGGESTIONS = 3;
+
+const VENDOR_WORDS = new Set([
+  "openai", "anthropic", "google", "meta", "nvidia", "mistralai", "amazon", "microsoft", "cohere",
+]);
+
+// Variant markers that don't change which model it is
+const VARIANT_WORDS = new Set([
+  "thinking", "nothinking", "highthinking", "reasoning", "non-reasoning", "adaptive",
+  "preview", "exp", "experimental", "latest", "auto", "effort",
+]);
+const EFFORT_WORDS = new Set(["high", "medium", "low", "minimal"]);
+
+/**
+ * Canonical form of a model name for comparison across sources:
+ * "Claude-Sonnet-4-5-20250929 (thinking)" → "claude sonnet 4.5",
+ * "meta-llama/Meta-Llama-3.1-8B-Instruct" → "llama 3.1 8b instruct".
+ */
+export function normalizeModelName(name: string): string {
+  let s = name.toLowerCase().trim();
+  // OpenRouter variants (:free, :thinking) and vendor prefixes (openai/, amazon.)
+  s = s.replace(/:[a-z0-9-]+$/, "").replace(/^[^/\s]+\//, "").replace(/^amazon\./, "");
+  // Parenthesized qualifiers: "(thinking-16k)", "(2025-03-26)", "(Reasoning)"
+  s = s.replace(/\s*\([^)]*\)/g, " ");
+  s = s.replace(/[\s_]+/g, "-");
+  // Date suffixes: -2025-04-14, -20250514, -11-2025, -05-06, -0709
+  s = s.replace(/-\d{4}-\d{2}-\d{2}(?=-|$)/g, "");
+  s = s.replace(/-(?:19|20)\d{6}(?=-|$)/g, "");
+  s = s.replace(/-\d{2}-(?:19|20)\d{2}(?=-|$)/g, "");
+  s = s.replace(/-(?:0[1-9]|1[0-2])-\d{2}(?=-|$)/g, "");
+  s = s.replace(/-(?:0[1-9]|1[0-2])\d{2}$/, "");
+  // "thinking-16k" budgets, then version separators: "4-5" → "4.5" (not "qwen3-235b")
+  s = s.replace(/-thinking-\d+k(?=-|$)/g, "-thinking");
+  s = s.replace(/(?<![\d.])(\d)-(\d)(?![\d])/g, "$1.$2");
+
+  const kept = s.split("-").filter((t) => t && !VARIANT_WORDS.has(t));
+  while (kept.length > 1 && EFFORT_WORDS.has(kept[kept.length - 1]!)) kept.pop();
+  if (kept.length > 1 && VENDOR_WORDS.has(kept[0]!)) kept.shift();
+  return kept.join(" ");
+}
+
+function bigrams(s: string): Map<string, number> {
+  const grams = new Map<string, number>();
+  for (let i = 0; i < s.length - 1; i++) {
+    const g = s.slice(i, i + 2);
+    grams.set(g, (grams.get(g) ?? 0) + 1);
+  }
+  return grams;
+}
+
+interface IndexedName {
+  id: string;
+  grams: Map<string, number>;
+  size: number;
+  versions: string;
+}
+
+/** Order-insensitive fingerprint: sorted tokens, bigrams, and the numeric tokens */
+function fingerprint(id: string, normalized: string): IndexedName {
+  const tokens = normalized.split(" ").sort();
+  const grams = bigrams(tokens.join(" "));
+  let size = 0;
+  for (const n of grams.values()) size += n;
+  return { id, grams, size, versions: tokens.filter((t) => /\d/.test(t)).join(" ") };
+}
+
+/**
+ * Dice coefficient over character bigrams of the sorted tokens. Differing
+ * version numbers ("gpt 4.1" vs "gpt 4o") cut the score hard, since that's
+ * almost always a different model.
+ */
+function similarity(a: IndexedName, b: IndexedName): number {
+  if (a.size === 0 || b.size === 0) return 0;
+  let common = 0;
+  for (const [g, n] of a.grams) common += Math.min(n, b.grams.get(g) ?? 0);
+  const dice = (2 * common) / (a.size + b.size);
+  return a.versions === b.versions ? dice : dice * 0.6;
+}
+
+const round2 = (n: number) => Math.round(n * 100) / 100;
+
+/** Build a matcher over the current catalog. Create one per refresh. */
+export function createModelMatcher(models: Map<string, EnrichedModel>): ModelMatcher {
+  // Normalized name → IDs; more than one ID means the name is ambiguous
+  const byNormalized = new Map<string, Set<string>>();
+  const index: IndexedName[] = [];
+  const misses = new Map<string, UnmatchedEntry[]>();
+  const seen = new Set<string>();
+
+  for (const [id, model] of models) {
+    // Variants (:free, :thinking) share their base model's scores
+    if (id.includes(":") && models.has(id.split(":")[0]!)) continue;
+    for (const name of new Set([id, model.name, ...getNamesForId(id)])) {
+      const normalized = normalizeModelName(name);
+      if (!normalized) continue;
+      let ids = byNormalized.get(normalized);
+      if (!ids) byNormalized.set(normalized, (ids = new Set()));
+      if (!ids.has(id)) {
+        ids.add(id);
+        index.push(fingerprint(id, normalized));
+      }
+    }
+  }
+
+  /** Best similarity per model, highest first */
+  function rank(normalized: string): MatchSuggestion[] {
+    const target = fingerprint("", normalized);
+    const best = new Map<string, number>();
+    for (const entry of index) {
+      const score = similarity(target, entry);
+      if (score > (best.get(entry.id) ?? 0)) best.set(entry.id, score);
+    }
+    return Array.from(best, ([id, score]) => ({ id, similarity: round2(score) }))
+      .sort((a, b) => b.similarity - a.similarity);
+  }
+
+  function record(source: string, name: string, suggestions: MatchSuggestion[]): void {
+    const key = `${source}\u0000${name}`;
+    if (seen.has(key)) return;
+    seen.add(key);
+    const entries = misses.get(source) ?? [];
+    entries.push({ source, name, suggestions: suggestions.filter((s) => s.similarity >= SUGGEST_MIN).slice(0, MAX_SUGGESTIONS) });
+    misses.set(source, entries);
+  }
+
+  return {
+    match(source, name, candidates = [], opts = {}) {
+      const names = [...new Set([name, ...candidates].map((n) => n.trim()).filter(Boolean))];
+
+      for (const n of names) {
+        if (models.has(n)) return { id: n, method: "id" };
+        if (models.has(n.toLowerCase())) return { id: n.toLowerCase(), method: "id" };
+      }
+      for (const n of names) {
+        const id = resolveAlias(n);
+        if (id && models.has(id)) return { id, method: "alias" };
+      }
+      if (opts.strict) {
+        if (!opts.quiet) record(source, name, []);
+        return null;
+      }
+
+      const normalized = [...new Set(names.map(normalizeModelName).filter(Boolean))];
+      for (const n of normalized) {
+        const ids = byNormalized.get(n);
+        if (ids?.size === 1) return { id: [...ids][0]!, method: "normalized" };
+      }
+
+      const ranked = rank(normalized[0] ?? "");
+      const [best, runnerUp] = ranked;
+      if (best && best.similarity >= FUZZY_ACCEPT && best.similarity - (runnerUp?.similarity ?? 0) >= FUZZY_MARGIN) {
+        return { id: best.id, method: "fuzzy" };
+      }
+      if (!opts.quiet) record(source, name, ranked);
+      return null;
+    },
+
+    unmatched() {
+      return Object.fromEntries(misses);
+    },
+  };
+}
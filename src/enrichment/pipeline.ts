@@ -1,31 +1,45 @@
 import { readFileSync, existsSync } from "fs";
 import { join } from "path";
 import { parse } from "yaml";
-import { dbGet, dbSet } from "../db.ts";
+import { dbGet, dbSet, dbPruneSnapshots, dbSaveSnapshot } from "../db.ts";
 import type {
   EnrichedModel,
   PipelineState,
+  SourceResult,
   SourceStatus,
   OpenRouterModel,
-  ArtificialAnalysisModel,
-  HFLeaderboardEntry,
-  LMArenaEntry,
   Category,
 } from "../types.ts";
-import { pullOpenRouter, parsePricing, extractCapabilities } from "./sources/openrouter.ts";
-import { pullArtificialAnalysis } from "./sources/artificial.ts";
-import { pullHFLeaderboard } from "./sources/hf-leaderboard.ts";
-import { pullLMArena } from "./sources/lmarena.ts";
-import { pullLiveBench, type LiveBenchEntry } from "./sources/livebench.ts";
-import { resolveAlias } from "./alias-map.ts";
+import { pullOpenRouter, extractPricing, extractCapabilities } from "./sources/openrouter.ts";
+import { artificialAnalysisSource } from "./sources/artificial.ts";
+import { hfLeaderboardSource } from "./sources/hf-leaderboard.ts";
+import { lmArenaSource } from "./sources/lmarena.ts";
+import { liveBenchSource } from "./sources/livebench.ts";
+import { loadConfiguredSources } from "./sources/configured.ts";
+import { customBenchmarkSource } from "./sources/custom-benchmarks.ts";
+import { getSources, registerSource } from "./source-registry.ts";
+import { createModelMatcher, type ModelMatcher, type UnmatchedEntry } from "./model-matcher.ts";
+import { loadRecording, recordingEnabled, replayResult, saveRecording, type RefreshRecording } from "./recordings.ts";
 import { classifyTier, deriveCategories, deriveTags } from "./rules.ts";
 import { computeScores, computeCostEfficiency, computeNormParams } from "./scoring.ts";
 
 const SEED_PATH = join(import.meta.dir, "../data/seed-overrides.yaml");
 const REFRESH_INTERVAL_MS = 6 * 60 * 60 * 1000; // 6 hours
+const SNAPSHOT_RETENTION_DAYS = 180;
 
 import type { NormParams } from "./scoring.ts";
 
+// Merge order matters: built-ins first, then declarative sources from sources.yaml,
+// then private benchmarks uploaded through /benchmarks/custom
+registerSource(artificialAnalysisSource);
+registerSource(hfLeaderboardSource);
+registerSource(lmArenaSource);
+registerSource(liveBenchSource);
+for (const source of loadConfiguredSources()) {
+  registerSource(source);
+}
+registerSource(customBenchmarkSource);
+
 let state: PipelineState = {
   models: [],
   lastRefresh: "",
@@ -33,7 +47,14 @@ let state: PipelineState = {
   version: "1.0.0",
 };
 
+/** Source entries that matched no OpenRouter ID, by source, from the last merge of each */
+export interface UnmatchedReport {
+  updatedAt: string;
+  sources: Record<string, UnmatchedEntry[]>;
+}
+
 let cachedNormParams: Record<string, NormParams> = {};
+let unmatchedReport: UnmatchedReport = { updatedAt: "", sources: {} };
 let refreshTimer: ReturnType<typeof setInterval> | null = null;
 
 /** Get current pipeline state */
@@ -46,9 +67,15 @@ export function getNormParams(): Record<string, NormParams> {
   return cachedNormParams;
 }
 
+/** Get the unmatched-entries report (available after loadFromCache or refresh) */
+export function getUnmatchedReport(): UnmatchedReport {
+  return unmatchedReport;
+}
+
 /** Load cached data from SQLite */
 export async function loadFromCache(): Promise<void> {
   try {
+    unmatchedReport = dbGet<UnmatchedReport>("unmatched_report")?.data ?? unmatchedReport;
     const cached = dbGet<PipelineState>("pipeline_state");
     if (cached) {
       state = cached.data;
@@ -87,8 +114,46 @@ function saveToCache(): void {
   }
 }
 
+/**
+ * Replace the report entries of the sources that were merged with this
+ * matcher; sources that were skipped keep their last report.
+ */
+function saveUnmatchedReport(matcher: ModelMatcher, merged: string[]): void {
+  const found = matcher.unmatched();
+  const sources = { ...unmatchedReport.sources };
+  for (const name of merged) {
+    if (found[name]?.length) sources[name] = found[name]!;
+    else delete sources[name];
+  }
+  unmatchedReport = { updatedAt: new Date().toISOString(), sources };
+  try {
+    dbSet("unmatched_report", unmatchedReport);
+  } catch (e) {
+    console.error("[pipeline] Failed to save unmatched report:", e);
+  }
+}
+
+/** Persist a versioned snapshot of this refresh for /models/:id/history and /changes */
+function saveSnapshot(models: EnrichedModel[], takenAt: string): void {
+  try {
+    const id = dbSaveSnapshot(
+      takenAt,
+      models.map((m) => ({
+        model: m.id,
+        pricing: { prompt: m.pricing.prompt, completion: m.pricing.completion },
+        scores: m.scores as Record<string, number>,
+        benchmarks: (m.benchmarks ?? {}) as Record<string, number>,
+      }))
+    );
+    const pruned = dbPruneSnapshots(new Date(Date.now() - SNAPSHOT_RETENTION_DAYS * 86400_000).toISOString());
+    console.log(`[pipeline] Saved snapshot #${id}${pruned > 0 ? ` (pruned ${pruned} old)` : ""}`);
+  } catch (e) {
+    console.error("[pipeline] Failed to save snapshot:", e);
+  }
+}
+
 /** Load seed overrides from YAML */
-function loadSeedOverrides(): Record<string, { categories?: Category[]; scores?: Partial<Record<Category, number>> }> {
+export function loadSeedOverrides(): Record<string, { categories?: Category[]; scores?: Partial<Record<Category, number>> }> {
   try {
     if (!existsSync(SEED_PATH)) return {};
     const raw = readFileSync(SEED_PATH, "utf-8");
@@ -98,9 +163,31 @@ function loadSeedOverrides(): Record<string, { categories?: Category[]; scores?:
   }
 }
 
+export interface RefreshOptions {
+  /**
+   * Replay a refresh recording (file, or directory for the newest one) instead
+   * of pulling sources. State is rebuilt from scratch, nothing is recorded and
+   * no snapshot is saved. Defaults to PIPELINE_REPLAY.
+   */
+  fixtures?: string;
+}
+
+/** Save this refresh's pull results; a failed write never fails the refresh */
+function recordPulls(results: Array<SourceResult<unknown>>, names: string[]): void {
+  if (!recordingEnabled()) return;
+  try {
+    const path = saveRecording(Object.fromEntries(names.map((name, i) => [name, results[i]!])));
+    console.log(`[pipeline] Recorded source payloads to ${path}`);
+  } catch (e) {
+    console.error("[pipeline] Failed to record source payloads:", e);
+  }
+}
+
 /** Incremental refresh — update what's new, keep what's old */
-export async function refresh(): Promise<void> {
-  console.log("[pipeline] Starting refresh...");
+export async function refresh(opts: RefreshOptions = {}): Promise<void> {
+  const fixtures = opts.fixtures ?? process.env["PIPELINE_REPLAY"];
+  const replay: RefreshRecording | null = fixtures ? loadRecording(fixtures) : null;
+  console.log(replay ? `[pipeline] Replaying refresh recorded ${replay.recordedAt}...` : "[pipeline] Starting refresh...");
   const sources: Record<string, SourceStatus> = {};
 
   // Pull all sources in parallel with per-source timeouts
@@ -118,23 +205,27 @@ export async function refresh(): Promise<void> {
     });
   }
 
-  const [orResult, aaResult, hfResult, arenaResult, lbResult] = await Promise.all([
-    withTimeout(pullOpenRouter(), "openrouter"),
-    withTimeout(pullArtificialAnalysis(), "artificial-analysis"),
-    withTimeout(pullHFLeaderboard(), "hf-leaderboard"),
-    withTimeout(pullLMArena(), "lmarena"),
-    withTimeout(pullLiveBench(), "livebench"),
-  ]);
-
-  for (const [key, r] of Object.entries({
-    openrouter: orResult,
-    "artificial-analysis": aaResult,
-    "hf-leaderboard": hfResult,
-    lmarena: arenaResult,
-    livebench: lbResult,
-  })) {
+  const enrichmentSources = getSources();
+  const [orResult, ...enrichmentResults] = replay
+    ? [
+        replayResult<OpenRouterModel>(replay, "openrouter"),
+        ...enrichmentSources.map((source) => replayResult<unknown>(replay, source.name)),
+      ]
+    : await Promise.all([
+        withTimeout(pullOpenRouter(), "openrouter"),
+        ...enrichmentSources.map((source) => withTimeout(source.pull(), source.name)),
+      ]);
+  if (!replay) recordPulls([orResult, ...enrichmentResults], ["openrouter", ...enrichmentSources.map((s) => s.name)]);
+
+  // A replay starts from nothing; a live refresh builds on the current state
+  const previous: PipelineState = replay ? { models: [], lastRefresh: "", sources: {}, version: state.version } : state;
+
+  for (const [key, r] of [
+    ["openrouter", orResult] as const,
+    ...enrichmentSources.map((source, i) => [source.name, enrichmentResults[i]!] as const),
+  ]) {
     // Preserve last-known-good status for failed sources
-    const prev = state.sources[key];
+    const prev = previous.sources[key];
     sources[key] = r.error
       ? { status: "stale", lastPull: prev?.lastPull ?? null, count: prev?.count ?? 0, error: r.error }
       : { status: "ok", lastPull: r.pulledAt, count: r.count };
@@ -148,7 +239,7 @@ export async function refresh(): Promise<void> {
 
   // Step 1: Sync catalog from OpenRouter — add new models, update pricing/caps on existing
   const models = new Map<string, EnrichedModel>();
-  const existing = new Map(state.models.map((m) => [m.id, m]));
+  const existing = new Map(previous.models.map((m) => [m.id, m]));
 
   for (const or of orResult.data) {
     const prev = existing.get(or.id);
@@ -156,43 +247,61 @@ export async function refresh(): Promise<void> {
       // Update mutable fields from OR, keep enrichment data
       prev.name = or.name.replace(/^[^:]+:\s*/, "");
       prev.contextLength = or.context_length;
-      prev.pricing = {
-        prompt: parsePricing(or.pricing.prompt, or.id),
-        completion: parsePricing(or.pricing.completion, or.id),
-      };
+      prev.pricing = extractPricing(or);
+      prev.tokenizer = or.architecture?.tokenizer || undefined;
       prev.capabilities = extractCapabilities(or);
       prev.tier = classifyTier(prev.provider, prev.pricing.prompt);
+      prev.expiresAt = or.expiration_date ?? undefined;
       models.set(or.id, prev);
     } else {
       models.set(or.id, buildBaseModel(or));
     }
   }
 
-  // Step 2-5: Merge enrichment sources — only if they succeeded
-  if (!aaResult.error && aaResult.data.length > 0) {
-    mergeArtificialAnalysis(models, aaResult.data);
-  } else {
-    console.log(`[pipeline] Skipping AA merge (${aaResult.error ?? "no data"}), keeping old scores`);
-  }
+  // Step 2-5: Merge enrichment sources in registration order — only if they succeeded
+  const mergeContext = { models, openRouter: orResult.data, matcher: createModelMatcher(models) };
+  const merged: string[] = [];
+  enrichmentSources.forEach((source, i) => {
+    const result = enrichmentResults[i]!;
+    if (!result.error && result.data.length > 0) {
+      source.merge(mergeContext, result.data);
+      merged.push(source.name);
+    } else {
+      console.log(`[pipeline] Skipping ${source.name} merge (${result.error ?? "no data"}), keeping old scores`);
+    }
+  });
 
-  if (!hfResult.error && hfResult.data.length > 0) {
-    mergeHFLeaderboard(models, hfResult.data, orResult.data);
-  } else {
-    console.log(`[pipeline] Skipping HF merge (${hfResult.error ?? "no data"}), keeping old scores`);
-  }
+  // Step 6-9: Propagate, classify, score, apply seed overrides
+  rescoreModels(models);
 
-  if (!arenaResult.error && arenaResult.data.length > 0) {
-    mergeLMArena(models, arenaResult.data);
-  } else {
-    console.log(`[pipeline] Skipping LMArena merge (${arenaResult.error ?? "no data"}), keeping old scores`);
-  }
+  // Step 10: Finalize
+  const modelArray = Array.from(models.values());
+  const prevCount = state.models.length;
 
-  if (!lbResult.error && lbResult.data.length > 0) {
-    mergeLiveBench(models, lbResult.data);
-  } else {
-    console.log(`[pipeline] Skipping LiveBench merge (${lbResult.error ?? "no data"}), keeping old scores`);
+  state = {
+    models: modelArray,
+    lastRefresh: replay?.recordedAt ?? new Date().toISOString(),
+    sources,
+    version: "1.0.0",
+  };
+
+  // A replay only rebuilds the in-memory state: the cache, snapshots and unmatched report stay as they were
+  if (!replay) {
+    saveToCache();
+    saveSnapshot(modelArray, state.lastRefresh);
+    saveUnmatchedReport(mergeContext.matcher, merged);
   }
 
+  const withBenchmarks = modelArray.filter(
+    (m) => m.benchmarks && Object.keys(m.benchmarks).length > 0
+  ).length;
+  console.log(
+    `[pipeline] Refresh complete: ${modelArray.length} models (was ${prevCount}), ${withBenchmarks} with benchmarks`
+  );
+}
+
+/** Steps 6-9 of a refresh, shared with single-source merges */
+function rescoreModels(models: Map<string, EnrichedModel>): void {
   // Step 6: Propagate enrichment to variant models (:free, :thinking, :exacto, etc.)
   propagateToVariants(models);
 
@@ -221,498 +330,66 @@ export async function refresh(): Promise<void> {
       model.costEfficiency = computeCostEfficiency(model);
     }
   }
+}
 
-  // Step 10: Finalize
-  const modelArray = Array.from(models.values());
-  const prevCount = state.models.length;
+/**
+ * Pull one registered source and merge it into the current catalog without a
+ * full refresh (e.g. right after private benchmarks are uploaded). Returns
+ * false when the source is unknown or there is no catalog yet; the next
+ * refresh picks the data up either way.
+ */
+export async function mergeSource(name: string): Promise<boolean> {
+  const source = getSources().find((s) => s.name === name);
+  if (!source || state.models.length === 0) return false;
+
+  const result = await source.pull();
+  if (result.error) {
+    console.warn(`[pipeline] Skipping ${name} merge: ${result.error}`);
+    return false;
+  }
+
+  const models = new Map(state.models.map((m) => [m.id, m]));
+  const matcher = createModelMatcher(models);
+  source.merge({ models, openRouter: [], matcher }, result.data);
+  rescoreModels(models);
 
   state = {
-    models: modelArray,
-    lastRefresh: new Date().toISOString(),
-    sources,
-    version: "1.0.0",
+    ...state,
+    models: Array.from(models.values()),
+    sources: { ...state.sources, [name]: { status: "ok", lastPull: result.pulledAt, count: result.count } },
   };
-
   saveToCache();
-
-  const withBenchmarks = modelArray.filter(
-    (m) => m.benchmarks && Object.keys(m.benchmarks).length > 0
-  ).length;
-  console.log(
-    `[pipeline] Refresh complete: ${modelArray.length} models (was ${prevCount}), ${withBenchmarks} with benchmarks`
-  );
+  saveUnmatchedReport(matcher, [name]);
+  console.log(`[pipeline] Merged ${name} into ${state.models.length} models`);
+  return true;
 }
 
 /** Build a base EnrichedModel from OpenRouter data */
 function buildBaseModel(or: OpenRouterModel): EnrichedModel {
   const provider = or.id.split("/")[0] ?? "unknown";
-  const promptPrice = parsePricing(or.pricing.prompt, or.id);
-  const completionPrice = parsePricing(or.pricing.completion, or.id);
+  const pricing = extractPricing(or);
 
   return {
     id: or.id,
     name: or.name.replace(/^[^:]+:\s*/, ""), // Strip "Provider: " prefix
     provider,
     contextLength: or.context_length,
-    pricing: {
-      prompt: promptPrice,
-      completion: completionPrice,
-    },
+    pricing,
+    tokenizer: or.architecture?.tokenizer || undefined,
     capabilities: extractCapabilities(or),
     categories: [],
     scores: {},
     costEfficiency: {},
-    tier: classifyTier(provider, promptPrice),
+    tier: classifyTier(provider, pricing.prompt),
     benchmarks: {},
     speed: undefined,
     tags: [],
+    expiresAt: or.expiration_date ?? undefined,
     lastUpdated: new Date().toISOString(),
     sourcesCovered: ["openrouter"],
   };
 }
 
-/**
- * Normalize AA Intelligence Index scores to 0-100 scale.
- *
- * AA Index v4.0 uses a -100 to +100 scale:
- *   - 0 means as many correct as incorrect answers
- *   - Negative means more incorrect than correct
- *   - Current top: Opus 4.6 ~53, GPT-5.2 ~51
- *   - 4 equal-weight categories: Agents, Coding, General, Scientific Reasoning
- *   - Scored via pass@1 across 10 evaluations
- *
- * We normalize the -100..+100 range to 0-100:
- *   normalized = (raw + 100) / 2
- *   So -100 → 0, 0 → 50, 53 → 76.5, 100 → 100
- */
-function normalizeAA(raw: number | undefined | null): number | undefined {
-  if (raw === undefined || raw === null) return undefined;
-  return Math.max(0, Math.min(100, Math.round((raw + 100) / 2)));
-}
-
-/** Convert 0-1 fraction to 0-100 percentage, rounding to 1 decimal */
-function toPercent(raw: number | undefined | null): number | undefined {
-  if (raw === undefined || raw === null) return undefined;
-  return Math.round(raw * 1000) / 10; // e.g. 0.896 → 89.6
-}
-
-/**
- * Strip AA name variant suffixes for alias matching.
- * AA has entries like "Claude 4.5 Sonnet (Reasoning)" — we need "Claude 4.5 Sonnet".
- */
-function stripAAVariant(name: string): string {
-  return name
-    .replace(/\s*\(Adaptive Reasoning\)\s*$/i, "")
-    .replace(/\s*\(Reasoning\)\s*$/i, "")
-    .replace(/\s*\(Non-reasoning\)\s*$/i, "")
-    .replace(/\s*\([^)]*'[0-9]{2}\)\s*$/i, "") // "(Sep '25)" date suffixes
-    .trim();
-}
-
-/** Check if an AA entry is a reasoning variant (preferred over non-reasoning) */
-function isReasoningVariant(name: string): boolean {
-  return /\((?:Adaptive )?Reasoning\)/i.test(name);
-}
-
-/** Merge Artificial Analysis benchmark data into models */
-function mergeArtificialAnalysis(
-  models: Map<string, EnrichedModel>,
-  aaModels: ArtificialAnalysisModel[]
-): void {
-  let matched = 0;
-
-  // Group AA entries by resolved OpenRouter ID, preferring reasoning variants
-  const bestByOrId = new Map<string, ArtificialAnalysisModel>();
-
-  for (const aa of aaModels) {
-    const stripped = stripAAVariant(aa.name);
-    const id =
-      resolveAlias(aa.name) ??
-      resolveAlias(stripped) ??
-      resolveAlias(aa.slug) ??
-      resolveAlias(`${aa.model_creator.name} ${stripped}`) ??
-      resolveAlias(`${aa.model_creator.slug} ${stripped}`);
-
-    if (!id || !models.has(id)) continue;
-
-    const existing = bestByOrId.get(id);
-    if (!existing) {
-      bestByOrId.set(id, aa);
-    } else if (isReasoningVariant(aa.name) && !isReasoningVariant(existing.name)) {
-      // Prefer reasoning variant
-      bestByOrId.set(id, aa);
-    }
-  }
-
-  for (const [id, aa] of bestByOrId) {
-    const model = models.get(id);
-    if (!model) continue;
-
-    matched++;
-    if (!model.sourcesCovered.includes("artificial-analysis")) {
-      model.sourcesCovered.push("artificial-analysis");
-    }
-
-    // Merge benchmarks
-    // AA Index scores (-100 to +100) → normalized to 0-100 via normalizeAA()
-    // AA accuracy benchmarks (mmluPro, gpqa, etc.) are 0-1 fractions → multiply by 100
-    // Note: HF uses a different normalization (random=0, perfect=100), so
-    // these values are NOT directly comparable across sources.
-    const evals = aa.evaluations;
-    model.benchmarks = {
-      ...model.benchmarks,
-      intelligenceIndex: normalizeAA(evals.artificial_analysis_intelligence_index),
-      codingIndex: normalizeAA(evals.artificial_analysis_coding_index),
-      mathIndex: normalizeAA(evals.artificial_analysis_math_index),
-      mmluPro: toPercent(evals.mmlu_pro),
-      gpqa: toPercent(evals.gpqa),
-      liveCodeBench: toPercent(evals.livecodebench),
-      math500: toPercent(evals.math_500),
-    };
-
-    // Merge speed data
-    if (aa.median_output_tokens_per_second || aa.median_time_to_first_token_seconds) {
-      model.speed = {
-        outputTokensPerSecond: aa.median_output_tokens_per_second,
-        timeToFirstToken: aa.median_time_to_first_token_seconds,
-      };
-    }
-  }
-
-  console.log(
-    `[pipeline] Artificial Analysis: matched ${matched}/${aaModels.length} models`
-  );
-}
-
-/** Merge HF Leaderboard data using hugging_face_id + alias map */
-function mergeHFLeaderboard(
-  models: Map<string, EnrichedModel>,
-  hfEntries: HFLeaderboardEntry[],
-  orModels: OpenRouterModel[]
-): void {
-  // Build HF ID → OpenRouter ID mapping from OpenRouter's hugging_face_id field
-  const hfToOr = new Map<string, string>();
-  for (const or of orModels) {
-    if (or.hugging_face_id) {
-      hfToOr.set(or.hugging_face_id.toLowerCase(), or.id);
-    }
-  }
-
-  // Group by resolved OpenRouter ID, keeping best entry (highest Average)
-  const bestByOrId = new Map<string, HFLeaderboardEntry>();
-
-  for (const hf of hfEntries) {
-    if (!hf.Model) continue;
-
-    // Strategy 1: Match via OpenRouter hugging_face_id
-    let orId = hfToOr.get(hf.Model.toLowerCase());
-
-    // Strategy 2: Try alias map with full HF path
-    if (!orId) orId = resolveAlias(hf.Model) ?? null;
-
-    // Strategy 3: Try alias map with just the model name (after org/)
-    if (!orId && hf.Model.includes("/")) {
-      const modelName = hf.Model.split("/").pop()!;
-      orId = resolveAlias(modelName) ?? null;
-    }
-
-    // Strategy 4: Try matching HF org/model against OpenRouter ID patterns
-    // e.g. "meta-llama/Meta-Llama-3.1-8B-Instruct" → "meta-llama/llama-3.1-8b-instruct"
-    if (!orId) {
-      const lowered = hf.Model.toLowerCase();
-      if (models.has(lowered)) orId = lowered;
-    }
-
-    if (!orId || !models.has(orId)) continue;
-
-    const existing = bestByOrId.get(orId);
-    if (!existing || hf.Average > existing.Average) {
-      bestByOrId.set(orId, hf);
-    }
-  }
-
-  let matched = 0;
-
-  for (const [orId, hf] of bestByOrId) {
-    const model = models.get(orId);
-    if (!model) continue;
-
-    matched++;
-    if (!model.sourcesCovered.includes("hf-leaderboard")) {
-      model.sourcesCovered.push("hf-leaderboard");
-    }
-
-    // HF scores are already on 0-100 scale
-    // Only set if we don't already have this data (from Artificial Analysis)
-    model.benchmarks = {
-      ...model.benchmarks,
-      ifEval: model.benchmarks?.ifEval ?? hf.IFEval,
-      bbh: model.benchmarks?.bbh ?? hf.BBH,
-      mmluPro: model.benchmarks?.mmluPro ?? hf["MMLU-PRO"],
-      gpqa: model.benchmarks?.gpqa ?? hf.GPQA,
-    };
-  }
-
-  console.log(
-    `[pipeline] HF Leaderboard: matched ${matched}/${hfEntries.length} models`
-  );
-}
-
-/**
- * Progressively strip LMArena display name suffixes for alias matching.
- * Arena uses names like "ChatGPT-4o-latest (2025-03-26)", "Grok-4-0709",
- * "GPT-4.1-2025-04-14", "Gemini-2.5-Pro-Preview-05-06".
- * Returns array of candidate names from most specific to least.
- */
-function arenaNameCandidates(name: string): string[] {
-  const candidates: string[] = [name];
-
-  // Strip parenthesized suffixes: "(2025-03-26)", "(Early Grok-3)", "(thinking-16k)", "(20250514)"
-  let stripped = name.replace(/\s*\([^)]+\)\s*$/, "").trim();
-  if (stripped !== name) candidates.push(stripped);
-
-  // Strip trailing date: "-2025-04-14", "-0709", "-02-24"
-  let noDate = stripped
-    .replace(/-\d{4}-\d{2}-\d{2}$/, "")
-    .replace(/-\d{4}$/, "")
-    .replace(/-\d{2}-\d{2}$/, "");
-  if (noDate !== stripped) candidates.push(noDate);
-
-  // Strip version suffixes: "-Preview-05-06", "-Exp-0827", "-001", "-002"
-  let noVersion = noDate
-    .replace(/-Preview(?:-\d{2}-\d{2})?$/i, "")
-    .replace(/-Exp(?:-\d{4})?$/i, "")
-    .replace(/-Experimental$/i, "")
-    .replace(/-00[0-9]$/i, "")
-    .replace(/-bf16$/i, "")
-    .replace(/-fp8$/i, "");
-  if (noVersion !== noDate) candidates.push(noVersion);
-
-  // Dashes to spaces for each candidate
-  const withSpaces = candidates.map((c) => c.replace(/-/g, " "));
-  candidates.push(...withSpaces);
-
-  // ChatGPT → GPT mapping
-  const chatGptMapped = candidates
-    .filter((c) => c.startsWith("ChatGPT"))
-    .map((c) => c.replace(/^ChatGPT/, "GPT"));
-  candidates.push(...chatGptMapped);
-
-  // Handle "Meta-Llama-X" → "Llama X" (Arena uses Meta- prefix)
-  const metaStripped = candidates
-    .filter((c) => /^Meta[- ]Llama/i.test(c))
-    .map((c) => c.replace(/^Meta[- ]/i, ""));
-  candidates.push(...metaStripped);
-
-  // Handle "Nvidia-Llama-X" → "Llama X" and keep "Nemotron" variants
-  const nvidiaStripped = candidates
-    .filter((c) => /^Nvidia[- ]/i.test(c))
-    .map((c) => c.replace(/^Nvidia[- ]/i, ""));
-  candidates.push(...nvidiaStripped);
-
-  return [...new Set(candidates)];
-}
-
-/**
- * Normalize LMArena ELO score to 0-100 scale.
- * ELO typically ranges ~1000-1500. We map 1000→0, 1500→100.
- * This gives reasonable spread: 1200→40, 1300→60, 1400→80, 1470→94.
- */
-function normalizeArenaElo(elo: number): number {
-  const normalized = ((elo - 1000) / 500) * 100;
-  return Math.max(0, Math.min(100, Math.round(normalized * 10) / 10));
-}
-
-/** Merge LMArena ELO scores into models */
-function mergeLMArena(
-  models: Map<string, EnrichedModel>,
-  arenaEntries: LMArenaEntry[]
-): void {
-  // Group by resolved OpenRouter ID, keeping best entry (highest ELO)
-  const bestByOrId = new Map<string, LMArenaEntry>();
-
-  for (const entry of arenaEntries) {
-    if (!entry.model || !entry.arenaScore) continue;
-
-    // Generate candidate names and try resolving each
-    const candidates = arenaNameCandidates(entry.model);
-    let id: string | null = null;
-
-    for (const candidate of candidates) {
-      id = resolveAlias(candidate);
-      if (id && models.has(id)) break;
-      id = null;
-    }
-
-    // Also try with org prefix
-    if (!id) {
-      for (const candidate of candidates) {
-        id = resolveAlias(`${entry.organization} ${candidate}`);
-        if (id && models.has(id)) break;
-        id = null;
-      }
-    }
-
-    if (!id || !models.has(id)) continue;
-
-    const existing = bestByOrId.get(id);
-    if (!existing || entry.arenaScore > existing.arenaScore) {
-      bestByOrId.set(id, entry);
-    }
-  }
-
-  let matched = 0;
-
-  for (const [id, entry] of bestByOrId) {
-    const model = models.get(id);
-    if (!model) continue;
-
-    matched++;
-    if (!model.sourcesCovered.includes("lmarena")) {
-      model.sourcesCovered.push("lmarena");
-    }
-
-    model.benchmarks = {
-      ...model.benchmarks,
-      arena: normalizeArenaElo(entry.arenaScore),
-    };
-  }
-
-  console.log(
-    `[pipeline] LMArena: matched ${matched}/${arenaEntries.length} models`
-  );
-}
-
-/**
- * Generate candidate names for LiveBench model name matching.
- * LiveBench website CSV uses variant-heavy names like:
- *   "claude-opus-4-6-thinking-auto-high-effort"
- *   "gpt-5.2-2025-12-11-high"
- *   "gemini-2.5-flash-06-05-highthinking"
- *   "claude-4-1-opus-20250805-base"
- * We iteratively strip suffixes until we find the base model name.
- */
-function liveBenchNameCandidates(name: string): string[] {
-  const candidates: string[] = [name];
-
-  // Handle Amazon Bedrock format
-  let cur = name.replace(/^amazon\./, "amazon/").replace(/:\d+$/, "");
-  if (cur !== name) candidates.push(cur);
-
-  // Iteratively strip known suffixes (order matters, run until stable)
-  let prev = "";
-  while (cur !== prev) {
-    prev = cur;
-
-    // Strip thinking/effort combos: -thinking-auto-high-effort, -thinking-64k-medium-effort
-    cur = cur.replace(/-thinking(?:-[a-z0-9]+)*(?:-(high|medium|low)(?:-effort)?)?$/i, "");
-    // Strip standalone effort: -high-effort, -medium-effort, -low-effort
-    cur = cur.replace(/-(high|medium|low)-effort$/i, "");
-    // Strip mode suffixes: -highthinking, -nothinking, -non-reasoning, -reasoning
-    cur = cur.replace(/-(highthinking|nothinking|non-reasoning|reasoning)$/i, "");
-    // Strip effort levels: -high, -medium, -low, -minimal
-    cur = cur.replace(/-(high|medium|low|minimal)$/i, "");
-    // Strip base/instruct: -base, -instruct
-    cur = cur.replace(/-(base|instruct)$/i, "");
-    // Strip trailing dates: -2025-12-11, -20251001, -11-2025, -06-05, -0825
-    cur = cur.replace(/-\d{4}-\d{2}-\d{2}$/, "");
-    cur = cur.replace(/-\d{8}$/, "");
-    cur = cur.replace(/-\d{2}-\d{4}$/, "");
-    cur = cur.replace(/-\d{2}-\d{2}$/, ""); // MM-DD (e.g. Gemini -06-05)
-    cur = cur.replace(/-\d{4}$/, "");
-    // Strip version suffixes: -preview-MM-YYYY, -preview, -exp, -001, -turbo
-    cur = cur.replace(/-preview(?:-\d{2}-\d{4})?$/i, "");
-    cur = cur.replace(/-exp(?:-\d{2}-\d{2})?$/i, "");
-    cur = cur.replace(/-00[0-9]$/i, "");
-    cur = cur.replace(/-turbo$/i, "");
-
-    if (cur !== prev) candidates.push(cur);
-  }
-
-  // Handle "Meta-Llama-" / "meta-llama-" prefix
-  const metaStripped = candidates
-    .filter((c) => /^meta[-.]llama[-.]?/i.test(c))
-    .map((c) => c.replace(/^meta[-.]llama[-.]?/i, "Llama-"));
-  candidates.push(...metaStripped);
-
-  // Try converting version dashes to dots: "claude-haiku-4-5" → "claude-haiku-4.5"
-  // Matches patterns like X-N-N at the end or X-N-N-suffix
-  const withDots = candidates
-    .map((c) => c.replace(/(\d)-(\d)/g, "$1.$2"))
-    .filter((c) => !candidates.includes(c));
-  candidates.push(...withDots);
-
-  // Dashes to spaces for each candidate
-  const withSpaces = candidates.map((c) => c.replace(/-/g, " "));
-  candidates.push(...withSpaces);
-
-  return [...new Set(candidates)];
-}
-
-/** Merge LiveBench scores into models */
-function mergeLiveBench(
-  models: Map<string, EnrichedModel>,
-  lbEntries: LiveBenchEntry[]
-): void {
-  let matched = 0;
-  const unmatched: string[] = [];
-
-  for (const entry of lbEntries) {
-    if (!entry.model) continue;
-
-    // Generate candidate names and try resolving each
-    const candidates = liveBenchNameCandidates(entry.model);
-    let id: string | null = null;
-
-    for (const candidate of candidates) {
-      id = resolveAlias(candidate);
-      if (id && models.has(id)) break;
-      id = null;
-    }
-
-    // Also try the raw name as an OpenRouter ID (some match directly)
-    if (!id) {
-      const lowered = entry.model.toLowerCase();
-      if (models.has(lowered)) id = lowered;
-    }
-
-    if (!id || !models.has(id)) {
-      unmatched.push(entry.model);
-      continue;
-    }
-
-    const model = models.get(id)!;
-    matched++;
-
-    if (!model.sourcesCovered.includes("livebench")) {
-      model.sourcesCovered.push("livebench");
-    }
-
-    // Only set if we don't already have this data from a higher-priority source
-    model.benchmarks = {
-      ...model.benchmarks,
-      liveBenchCoding: model.benchmarks?.liveBenchCoding ?? entry.coding,
-      liveBenchAgenticCoding:
-        model.benchmarks?.liveBenchAgenticCoding ?? entry.agenticCoding,
-      liveBenchReasoning:
-        model.benchmarks?.liveBenchReasoning ?? entry.reasoning,
-      liveBenchMath: model.benchmarks?.liveBenchMath ?? entry.mathematics,
-      liveBenchLanguage: model.benchmarks?.liveBenchLanguage ?? entry.language,
-      liveBenchIF: model.benchmarks?.liveBenchIF ?? entry.instructionFollowing,
-    };
-  }
-
-  if (unmatched.length > 0) {
-    console.log(
-      `[pipeline] LiveBench unmatched (${unmatched.length}): ${unmatched.slice(0, 10).join(", ")}${unmatched.length > 10 ? "..." : ""}`
-    );
-  }
-
-  console.log(
-    `[pipeline] LiveBench: matched ${matched}/${lbEntries.length} models`
-  );
-}
-
 /**
  * Propagate benchmarks and speed data from base models to their variants.
  * OpenRouter has variant IDs like "model:free", "model:thinking", "model:exacto"
@@ -734,6 +411,7 @@ function propagateToVariants(models: Map<string, EnrichedModel>): void {
 
     // Copy benchmarks and speed from base
     model.benchmarks = { ...base.benchmarks };
+    if (base.benchmarkSources) model.benchmarkSources = { ...base.benchmarkSources };
     if (base.speed) model.speed = { ...base.speed };
 
     // Copy sourcesCovered (mark as inherited)
@@ -764,7 +442,10 @@ export function startRefreshTimer(): void {
 export const pipeline = {
   getState,
   getNormParams,
+  getUnmatchedReport,
+  loadSeedOverrides,
   loadFromCache,
   refresh,
+  mergeSource,
   startRefreshTimer,
 };
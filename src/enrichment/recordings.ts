@@ -0,0 +1,84 @@
+import { existsSync, mkdirSync, readdirSync, readFileSync, statSync, unlinkSync, writeFileSync } from "fs";
+import { join } from "path";
+import type { SourceResult } from "../types.ts";
+
+/**
+ * Refresh recordings: the pulled (pre-merge) payload of every source, written
+ * to data/recordings/ on each refresh. Replaying one rebuilds pipeline state
+ * without network access — for merge regressions in CI and for reproducing a
+ * bad refresh locally (PIPELINE_REPLAY=<file or dir> bun run refresh).
+ */
+
+export const RECORDINGS_DIR = join(import.meta.dir, "../../data/recordings");
+const RECORDING_RETENTION = 20;
+const RECORDING_VERSION = 1;
+
+export interface RefreshRecording {
+  version: number;
+  recordedAt: string;
+  /** Pull results keyed by source name, including "openrouter" */
+  sources: Record<string, SourceResult<unknown>>;
+}
+
+/** Recording is on unless PIPELINE_RECORDINGS=false */
+export function recordingEnabled(): boolean {
+  return process.env["PIPELINE_RECORDINGS"] !== "false";
+}
+
+/** Write a gzipped recording and prune old ones. Returns the file path. */
+export function saveRecording(
+  sources: Record<string, SourceResult<unknown>>,
+  dir = RECORDINGS_DIR
+): string {
+  if (!existsSync(dir)) mkdirSync(dir, { recursive: true });
+  const recording: RefreshRecording = {
+    version: RECORDING_VERSION,
+    recordedAt: new Date().toISOString(),
+    sources,
+  };
+  const path = join(dir, `refresh-${recording.recordedAt.replace(/[:.]/g, "-")}.json.gz`);
+  writeFileSync(path, Bun.gzipSync(new TextEncoder().encode(JSON.stringify(recording))));
+
+  const stale = listRecordings(dir).slice(RECORDING_RETENTION);
+  for (const file of stale) unlinkSync(file);
+  return path;
+}
+
+/** Recording files in `dir`, newest first */
+export function listRecordings(dir = RECORDINGS_DIR): string[] {
+  if (!existsSync(dir)) return [];
+  return readdirSync(dir)
+    .filter((f) => /\.json(\.gz)?$/.test(f))
+    .sort()
+    .reverse()
+    .map((f) => join(dir, f));
+}
+
+/**
+ * Load a recording from a .json or .json.gz file, or the newest one in a
+ * directory. Throws if nothing usable is found.
+ */
+export function loadRecording(path: string): RefreshRecording {
+  if (!existsSync(path)) throw new Error(`Recording not found: ${path}`);
+  let file = path;
+  if (statSync(path).isDirectory()) {
+    const newest = listRecordings(path)[0];
+    if (!newest) throw new Error(`No recordings in ${path}`);
+    file = newest;
+  }
+
+  const raw = readFileSync(file);
+  const text = file.endsWith(".gz") ? new TextDecoder().decode(Bun.gunzipSync(raw)) : raw.toString("utf-8");
+  const recording = JSON.parse(text) as RefreshRecording;
+  if (recording?.version !== RECORDING_VERSION || !recording.sources || typeof recording.recordedAt !== "string") {
+    throw new Error(`Not a refresh recording (version ${RECORDING_VERSION}): ${file}`);
+  }
+  return recording;
+}
+
+/** The recorded pull result for `source`, or a failed result if it wasn't recorded */
+export function replayResult<T>(recording: RefreshRecording, source: string): SourceResult<T> {
+  const result = recording.sources[source] as SourceResult<T> | undefined;
+  if (result) return result;
+  return { source, data: [], pulledAt: recording.recordedAt, count: 0, error: "not in recording" };
+}
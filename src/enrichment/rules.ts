@@ -83,6 +83,7 @@ export function deriveTags(model: EnrichedModel): string[] {
   if (model.capabilities.functionCalling) tags.push("tool-use");
   if (model.capabilities.json) tags.push("structured-output");
   if (model.pricing.prompt < 0.5) tags.push("cheap");
+  if (model.expiresAt) tags.push("deprecated");
 
   // Speed tags from Artificial Analysis data
   if (model.speed?.outputTokensPerSecond) {
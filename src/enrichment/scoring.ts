@@ -1,5 +1,6 @@
-import type { Category, EnrichedModel } from "../types.ts";
+import type { BenchmarkKey, BenchmarkSource, Category, EnrichedModel } from "../types.ts";
 import { TIER_BASELINES } from "../types.ts";
+import { getDeclaredBenchmarks } from "./source-registry.ts";
 
 // === Normalization ===
 // Each benchmark has a different effective range. AA indices compress everything
@@ -13,8 +14,6 @@ import { TIER_BASELINES } from "../types.ts";
 //
 // Mapping: z=-2.5→0, z=0→50, z=+1→70, z=+2→90, z=+2.5→100
 
-type BenchmarkKey = keyof NonNullable<EnrichedModel["benchmarks"]>;
-
 export interface NormParams {
   mean: number;
   stddev: number;
@@ -120,42 +119,88 @@ function wavg(sources: WeightedSource[]): number | undefined {
 //   LiveBench Language (w2) — language quality
 //   general score (w1) — baseline
 
+export type WeightedCategory = "general" | "coding" | "reasoning" | "creative";
+
+export type BenchmarkWeights = Record<WeightedCategory, Array<{ key: BenchmarkKey; weight: number }>>;
+
+/**
+ * Built-in weights. Source plugins can add their declared benchmarks (see
+ * defaultBenchmarkWeights) and named profiles (src/weight-profiles.ts) can
+ * replace any category.
+ */
+export const BENCHMARK_WEIGHTS: BenchmarkWeights = {
+  general: [
+    { key: "arena", weight: 3 },
+    { key: "mmluPro", weight: 2 },
+    { key: "gpqa", weight: 2 },
+    { key: "intelligenceIndex", weight: 1 },
+  ],
+  coding: [
+    { key: "liveCodeBench", weight: 4 },
+    { key: "liveBenchAgenticCoding", weight: 3 },
+    { key: "liveBenchCoding", weight: 2 },
+    { key: "codingIndex", weight: 1 },
+  ],
+  reasoning: [
+    { key: "liveBenchReasoning", weight: 3 },
+    { key: "gpqa", weight: 3 },
+    { key: "mathIndex", weight: 2 },
+    { key: "arena", weight: 1 },
+    { key: "intelligenceIndex", weight: 1 },
+  ],
+  // Creative also mixes in the general score at weight 1
+  creative: [
+    { key: "arena", weight: 4 },
+    { key: "liveBenchLanguage", weight: 2 },
+  ],
+};
+
+const CREATIVE_GENERAL_WEIGHT = 1;
+
+/** BENCHMARK_WEIGHTS plus the category weights declared by registered source plugins. */
+export function defaultBenchmarkWeights(): BenchmarkWeights {
+  const declared = getDeclaredBenchmarks();
+  if (declared.length === 0) return BENCHMARK_WEIGHTS;
+
+  const weights: BenchmarkWeights = {
+    general: [...BENCHMARK_WEIGHTS.general],
+    coding: [...BENCHMARK_WEIGHTS.coding],
+    reasoning: [...BENCHMARK_WEIGHTS.reasoning],
+    creative: [...BENCHMARK_WEIGHTS.creative],
+  };
+  for (const { key, weights: declaredWeights } of declared) {
+    for (const [category, weight] of Object.entries(declaredWeights ?? {}) as [WeightedCategory, number][]) {
+      if (weight > 0 && !weights[category].some((w) => w.key === key)) {
+        weights[category].push({ key, weight });
+      }
+    }
+  }
+  return weights;
+}
+
 export function computeScores(
   model: EnrichedModel,
-  normParams: Record<string, NormParams>
+  normParams: Record<string, NormParams>,
+  weights: BenchmarkWeights = defaultBenchmarkWeights()
 ): Partial<Record<Category, number>> {
   const scores: Partial<Record<Category, number>> = {};
   const b = model.benchmarks;
   const baseline = TIER_BASELINES[model.tier];
-  const n = (val: number | undefined, key: BenchmarkKey) => norm(val, key, normParams);
+  const weighted = (category: WeightedCategory): WeightedSource[] =>
+    weights[category].map(({ key, weight }) => ({
+      value: norm(b?.[key], key, normParams),
+      weight,
+    }));
 
   // === General ===
-  scores.general =
-    wavg([
-      { value: n(b?.arena, "arena"), weight: 3 },
-      { value: n(b?.mmluPro, "mmluPro"), weight: 2 },
-      { value: n(b?.gpqa, "gpqa"), weight: 2 },
-      { value: n(b?.intelligenceIndex, "intelligenceIndex"), weight: 1 },
-    ]) ?? baseline;
+  scores.general = wavg(weighted("general")) ?? baseline;
 
   // === Coding ===
   scores.coding =
-    wavg([
-      { value: n(b?.liveCodeBench, "liveCodeBench"), weight: 4 },
-      { value: n(b?.liveBenchAgenticCoding, "liveBenchAgenticCoding"), weight: 3 },
-      { value: n(b?.liveBenchCoding, "liveBenchCoding"), weight: 2 },
-      { value: n(b?.codingIndex, "codingIndex"), weight: 1 },
-    ]) ?? Math.round((scores.general ?? baseline) * 0.85);
+    wavg(weighted("coding")) ?? Math.round((scores.general ?? baseline) * 0.85);
 
   // === Reasoning ===
-  scores.reasoning =
-    wavg([
-      { value: n(b?.liveBenchReasoning, "liveBenchReasoning"), weight: 3 },
-      { value: n(b?.gpqa, "gpqa"), weight: 3 },
-      { value: n(b?.mathIndex, "mathIndex"), weight: 2 },
-      { value: n(b?.arena, "arena"), weight: 1 },
-      { value: n(b?.intelligenceIndex, "intelligenceIndex"), weight: 1 },
-    ]) ?? baseline;
+  scores.reasoning = wavg(weighted("reasoning")) ?? baseline;
   if (model.capabilities.reasoning && scores.reasoning < 80) {
     scores.reasoning = Math.max(scores.reasoning, 65);
   }
@@ -172,19 +217,14 @@ export function computeScores(
 
   // === Research ===
   if (model.contextLength >= 100_000) {
-    const contextBonus = Math.min(
-      (model.contextLength / 1_000_000) * 20,
-      20
-    );
-    scores.research = Math.round((scores.general ?? baseline) + contextBonus);
+    scores.research = Math.round((scores.general ?? baseline) + researchContextBonus(model));
   }
 
   // === Creative ===
   if (b?.arena || b?.liveBenchLanguage) {
     scores.creative = wavg([
-      { value: n(b?.arena, "arena"), weight: 4 },
-      { value: n(b?.liveBenchLanguage, "liveBenchLanguage"), weight: 2 },
-      { value: scores.general, weight: 1 },
+      ...weighted("creative"),
+      { value: scores.general, weight: CREATIVE_GENERAL_WEIGHT },
     ]);
   } else if (model.tier === "premium") {
     scores.creative = scores.general;
@@ -201,6 +241,141 @@ export function computeScores(
   return scores;
 }
 
+function researchContextBonus(model: EnrichedModel): number {
+  return Math.min((model.contextLength / 1_000_000) * 20, 20);
+}
+
+// === Explainability ===
+
+export interface BenchmarkContribution {
+  benchmark: BenchmarkKey;
+  raw: number;
+  normalized: number;
+  /** false when fewer than 5 models report the benchmark, so the raw value is used as-is */
+  zNormalized: boolean;
+  weight: number;
+  /** Share of the category's weighted average after missing benchmarks are dropped */
+  share: number;
+  source: BenchmarkSource | "unknown";
+}
+
+export interface CategoryExplanation {
+  score: number;
+  /** "seed-override" is only set by callers that apply seed overrides on top */
+  method: "benchmarks" | "derived" | "tier-baseline" | "seed-override";
+  detail: string;
+  components: BenchmarkContribution[];
+}
+
+const plural = (n: number, noun: string) => `${n} ${noun}${n === 1 ? "" : "s"}`;
+
+/**
+ * Where a benchmark value came from. Models cached before sources were tracked
+ * fall back to the source that owns the benchmark (AA over HF for shared ones).
+ */
+export function benchmarkSource(model: EnrichedModel, key: BenchmarkKey): BenchmarkSource | "unknown" {
+  const tracked = model.benchmarkSources?.[key];
+  if (tracked) return tracked;
+  if (key === "arena") return "lmarena";
+  if (key.startsWith("liveBench")) return "livebench";
+  if (key === "ifEval" || key === "bbh") return "hf-leaderboard";
+  if (key === "mmluPro" || key === "gpqa") {
+    if (model.sourcesCovered.includes("artificial-analysis")) return "artificial-analysis";
+    if (model.sourcesCovered.includes("hf-leaderboard")) return "hf-leaderboard";
+    return "unknown";
+  }
+  return "artificial-analysis";
+}
+
+/**
+ * Break down how computeScores arrived at each category score: the benchmarks
+ * that fed the weighted average (raw, z-normalized, weight) or the fallback
+ * rule used when none were available. Scores are recomputed from the current
+ * benchmarks, so they ignore seed overrides.
+ */
+export function explainScores(
+  model: EnrichedModel,
+  normParams: Record<string, NormParams>,
+  weights: BenchmarkWeights = defaultBenchmarkWeights()
+): Partial<Record<Category, CategoryExplanation>> {
+  const scores = computeScores(model, normParams, weights);
+  const b = model.benchmarks;
+  const out: Partial<Record<Category, CategoryExplanation>> = {};
+
+  const components = (category: WeightedCategory): BenchmarkContribution[] => {
+    const present = weights[category].filter(({ key }) => b?.[key] !== undefined);
+    const extra = category === "creative" ? CREATIVE_GENERAL_WEIGHT : 0;
+    const totalWeight = present.reduce((sum, { weight }) => sum + weight, extra);
+    return present.map(({ key, weight }) => {
+      const raw = b![key]!;
+      return {
+        benchmark: key,
+        raw,
+        normalized: Math.round(norm(raw, key, normParams)! * 100) / 100,
+        zNormalized: normParams[key] !== undefined,
+        weight,
+        share: Math.round((weight / totalWeight) * 1000) / 1000,
+        source: benchmarkSource(model, key),
+      };
+    });
+  };
+
+  const fromBenchmarks = (category: "general" | "coding" | "reasoning", fallback: string) => {
+    const parts = components(category);
+    return parts.length > 0
+      ? { method: "benchmarks" as const, detail: `Weighted average of ${plural(parts.length, "normalized benchmark")}`, components: parts }
+      : { method: category === "coding" ? "derived" as const : "tier-baseline" as const, detail: fallback, components: [] };
+  };
+
+  const general = fromBenchmarks("general", `No general benchmarks; ${model.tier} tier baseline (${TIER_BASELINES[model.tier]})`);
+  out.general = { score: scores.general!, ...general };
+
+  out.coding = { score: scores.coding!, ...fromBenchmarks("coding", "No coding benchmarks; 85% of the general score") };
+
+  const reasoning = fromBenchmarks("reasoning", `No reasoning benchmarks; ${model.tier} tier baseline (${TIER_BASELINES[model.tier]})`);
+  if (model.capabilities.reasoning) {
+    reasoning.detail += "; reasoning-capable models below 80 are floored at 65";
+  }
+  out.reasoning = { score: scores.reasoning!, ...reasoning };
+
+  if (scores.vision !== undefined) {
+    out.vision = { score: scores.vision, method: "derived", detail: "Vision-capable; equals the general score", components: [] };
+  }
+
+  if (scores["fast-cheap"] !== undefined) {
+    out["fast-cheap"] = {
+      score: scores["fast-cheap"],
+      method: "derived",
+      detail: `100 - prompt price ($${model.pricing.prompt}/M) x 50`,
+      components: [],
+    };
+  }
+
+  if (scores.research !== undefined) {
+    const bonus = Math.round(researchContextBonus(model) * 100) / 100;
+    out.research = {
+      score: scores.research,
+      method: "derived",
+      detail: `General score + context bonus of ${bonus} (${model.contextLength.toLocaleString("en-US")} tokens, max 20)`,
+      components: [],
+    };
+  }
+
+  if (scores.creative !== undefined) {
+    const parts = b?.arena || b?.liveBenchLanguage ? components("creative") : [];
+    out.creative = parts.length > 0
+      ? {
+          score: scores.creative,
+          method: "benchmarks",
+          detail: `Weighted average of ${plural(parts.length, "normalized benchmark")} plus the general score (weight ${CREATIVE_GENERAL_WEIGHT})`,
+          components: parts,
+        }
+      : { score: scores.creative, method: "derived", detail: "No creative benchmarks; premium tier uses the general score", components: [] };
+  }
+
+  return out;
+}
+
 /**
  * Cost-efficiency: score / price ratio per category.
  */
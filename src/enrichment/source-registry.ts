@@ -0,0 +1,92 @@
+import type {
+  BenchmarkKey,
+  EnrichedModel,
+  OpenRouterModel,
+  SourceResult,
+} from "../types.ts";
+import type { ModelMatcher } from "./model-matcher.ts";
+import type { WeightedCategory } from "./scoring.ts";
+
+/**
+ * Enrichment source plugins.
+ *
+ * A source pulls raw entries, maps them to OpenRouter model IDs (via the
+ * shared matcher, which records misses for /status/unmatched) and merges benchmark values into the catalog. Sources run in
+ * registration order, so a source registered later only wins where it chooses
+ * to overwrite. Sources may declare benchmark keys that are not built in,
+ * together with the category weights they contribute to scoring.
+ */
+
+export interface MergeContext {
+  /** Current catalog, keyed by OpenRouter ID */
+  models: Map<string, EnrichedModel>;
+  /** Raw OpenRouter catalog from this refresh (for hugging_face_id etc.) */
+  openRouter: OpenRouterModel[];
+  /** Name → ID matching over `models`, shared by all sources in this run */
+  matcher: ModelMatcher;
+}
+
+export interface BenchmarkDeclaration {
+  key: BenchmarkKey;
+  description?: string;
+  /** Weight of this benchmark in each category's weighted average */
+  weights?: Partial<Record<WeightedCategory, number>>;
+}
+
+export interface EnrichmentSource<T = unknown> {
+  name: string;
+  pull(): Promise<SourceResult<T>>;
+  merge(ctx: MergeContext, data: T[]): void;
+  /** New benchmark keys this source produces (built-in keys need no declaration) */
+  benchmarks?: BenchmarkDeclaration[];
+}
+
+const sources: EnrichmentSource<any>[] = [];
+
+/** Register a source; a source with the same name is replaced in place. */
+export function registerSource<T>(source: EnrichmentSource<T>): void {
+  const idx = sources.findIndex((s) => s.name === source.name);
+  if (idx >= 0) sources[idx] = source;
+  else sources.push(source);
+}
+
+export function getSources(): EnrichmentSource<unknown>[] {
+  return [...sources];
+}
+
+/** Benchmarks declared by registered sources, in registration order */
+export function getDeclaredBenchmarks(): Array<BenchmarkDeclaration & { source: string }> {
+  return sources.flatMap((s) => (s.benchmarks ?? []).map((b) => ({ ...b, source: s.name })));
+}
+
+/** Add `source` to the model's sourcesCovered list */
+export function markCovered(model: EnrichedModel, source: string): void {
+  if (!model.sourcesCovered.includes(source)) {
+    model.sourcesCovered.push(source);
+  }
+}
+
+/**
+ * Merge benchmark values into a model. With `overwrite` every listed key is
+ * replaced (an undefined value clears it); otherwise only missing keys are
+ * filled. Changed values are attributed to `source` for score explanations.
+ */
+export function mergeBenchmarks(
+  model: EnrichedModel,
+  source: string,
+  values: Record<string, number | undefined>,
+  opts: { overwrite: boolean }
+): void {
+  const before = model.benchmarks;
+  const next: NonNullable<EnrichedModel["benchmarks"]> = { ...model.benchmarks };
+  for (const [key, value] of Object.entries(values)) {
+    next[key] = opts.overwrite ? value : (before?.[key] ?? value);
+  }
+  model.benchmarks = next;
+
+  // Unchanged values keep their earlier attribution
+  for (const [key, value] of Object.entries(next)) {
+    if (value === undefined || before?.[key] === value) continue;
+    (model.benchmarkSources ??= {})[key] = source;
+  }
+}
@@ -1,4 +1,5 @@
 import type { ArtificialAnalysisModel, SourceResult } from "../../types.ts";
+import { markCovered, mergeBenchmarks, type EnrichmentSource, type MergeContext } from "../source-registry.ts";
 
 const AA_API = "https://artificialanalysis.ai/api/v2/data/llms/models";
 
@@ -50,3 +51,119 @@ export async function pullArtificialAnalysis(): Promise<
     };
   }
 }
+
+/**
+ * Normalize AA Intelligence Index scores to 0-100 scale.
+ *
+ * AA Index v4.0 uses a -100 to +100 scale:
+ *   - 0 means as many correct as incorrect answers
+ *   - Negative means more incorrect than correct
+ *   - Current top: Opus 4.6 ~53, GPT-5.2 ~51
+ *   - 4 equal-weight categories: Agents, Coding, General, Scientific Reasoning
+ *   - Scored via pass@1 across 10 evaluations
+ *
+ * We normalize the -100..+100 range to 0-100:
+ *   normalized = (raw + 100) / 2
+ *   So -100 → 0, 0 → 50, 53 → 76.5, 100 → 100
+ */
+function normalizeAA(raw: number | undefined | null): number | undefined {
+  if (raw === undefined || raw === null) return undefined;
+  return Math.max(0, Math.min(100, Math.round((raw + 100) / 2)));
+}
+
+/** Convert 0-1 fraction to 0-100 percentage, rounding to 1 decimal */
+function toPercent(raw: number | undefined | null): number | undefined {
+  if (raw === undefined || raw === null) return undefined;
+  return Math.round(raw * 1000) / 10; // e.g. 0.896 → 89.6
+}
+
+/**
+ * Strip AA name variant suffixes for alias matching.
+ * AA has entries like "Claude 4.5 Sonnet (Reasoning)" — we need "Claude 4.5 Sonnet".
+ */
+function stripAAVariant(name: string): string {
+  return name
+    .replace(/\s*\(Adaptive Reasoning\)\s*$/i, "")
+    .replace(/\s*\(Reasoning\)\s*$/i, "")
+    .replace(/\s*\(Non-reasoning\)\s*$/i, "")
+    .replace(/\s*\([^)]*'[0-9]{2}\)\s*$/i, "") // "(Sep '25)" date suffixes
+    .trim();
+}
+
+/** Check if an AA entry is a reasoning variant (preferred over non-reasoning) */
+function isReasoningVariant(name: string): boolean {
+  return /\((?:Adaptive )?Reasoning\)/i.test(name);
+}
+
+/** Merge Artificial Analysis benchmark data into models */
+function mergeArtificialAnalysis(
+  { models, matcher }: MergeContext,
+  aaModels: ArtificialAnalysisModel[]
+): void {
+  let matched = 0;
+
+  // Group AA entries by resolved OpenRouter ID, preferring reasoning variants
+  const bestByOrId = new Map<string, ArtificialAnalysisModel>();
+
+  for (const aa of aaModels) {
+    const stripped = stripAAVariant(aa.name);
+    const id = matcher.match("artificial-analysis", aa.name, [
+      stripped,
+      aa.slug,
+      `${aa.model_creator.name} ${stripped}`,
+      `${aa.model_creator.slug} ${stripped}`,
+    ])?.id;
+
+    if (!id || !models.has(id)) continue;
+
+    const existing = bestByOrId.get(id);
+    if (!existing) {
+      bestByOrId.set(id, aa);
+    } else if (isReasoningVariant(aa.name) && !isReasoningVariant(existing.name)) {
+      // Prefer reasoning variant
+      bestByOrId.set(id, aa);
+    }
+  }
+
+  for (const [id, aa] of bestByOrId) {
+    const model = models.get(id);
+    if (!model) continue;
+
+    matched++;
+    markCovered(model, "artificial-analysis");
+
+    // Merge benchmarks
+    // AA Index scores (-100 to +100) → normalized to 0-100 via normalizeAA()
+    // AA accuracy benchmarks (mmluPro, gpqa, etc.) are 0-1 fractions → multiply by 100
+    // Note: HF uses a different normalization (random=0, perfect=100), so
+    // these values are NOT directly comparable across sources.
+    const evals = aa.evaluations;
+    mergeBenchmarks(model, "artificial-analysis", {
+      intelligenceIndex: normalizeAA(evals.artificial_analysis_intelligence_index),
+      codingIndex: normalizeAA(evals.artificial_analysis_coding_index),
+      mathIndex: normalizeAA(evals.artificial_analysis_math_index),
+      mmluPro: toPercent(evals.mmlu_pro),
+      gpqa: toPercent(evals.gpqa),
+      liveCodeBench: toPercent(evals.livecodebench),
+      math500: toPercent(evals.math_500),
+    }, { overwrite: true });
+
+    // Merge speed data
+    if (aa.median_output_tokens_per_second || aa.median_time_to_first_token_seconds) {
+      model.speed = {
+        outputTokensPerSecond: aa.median_output_tokens_per_second,
+        timeToFirstToken: aa.median_time_to_first_token_seconds,
+      };
+    }
+  }
+
+  console.log(
+    `[pipeline] Artificial Analysis: matched ${matched}/${aaModels.length} models`
+  );
+}
+
+export const artificialAnalysisSource: EnrichmentSource<ArtificialAnalysisModel> = {
+  name: "artificial-analysis",
+  pull: pullArtificialAnalysis,
+  merge: mergeArtificialAnalysis,
+};
@@ -0,0 +1,238 @@
+import { existsSync, readFileSync } from "fs";
+import { dirname, isAbsolute, join } from "path";
+import { parse } from "yaml";
+import type { SourceResult } from "../../types.ts";
+import {
+  markCovered,
+  mergeBenchmarks,
+  type BenchmarkDeclaration,
+  type EnrichmentSource,
+  type MergeContext,
+} from "../source-registry.ts";
+import type { WeightedCategory } from "../scoring.ts";
+
+/**
+ * Declarative benchmark sources — local files or URLs listed in
+ * src/data/sources.yaml, merged like the built-in sources. Each entry maps
+ * columns of a JSON array or CSV table onto benchmark keys:
+ *
+ *   swe-bench:
+ *     url: https://example.com/swe-bench.json   # or file: evals/swe-bench.csv
+ *     model_field: model                        # model name or OpenRouter ID
+ *     overwrite: false                          # default: only fill gaps
+ *     benchmarks:
+ *       sweBenchVerified:
+ *         field: resolved
+ *         scale: 100                            # multiply raw values
+ *         weights: { coding: 3 }
+ */
+
+const CONFIG_PATH = join(import.meta.dir, "../../data/sources.yaml");
+const FETCH_TIMEOUT_MS = 30_000;
+const WEIGHTED_CATEGORIES: WeightedCategory[] = ["general", "coding", "reasoning", "creative"];
+
+type Row = Record<string, unknown>;
+
+interface ColumnMapping {
+  key: string;
+  field: string;
+  scale: number;
+}
+
+interface SourceConfig {
+  name: string;
+  location: { url: string } | { file: string };
+  format: "json" | "csv";
+  modelField: string;
+  overwrite: boolean;
+  columns: ColumnMapping[];
+  declarations: BenchmarkDeclaration[];
+}
+
+/** Validate one YAML entry; throws with a message naming the bad field. */
+function parseConfig(name: string, raw: unknown, baseDir: string): SourceConfig {
+  if (!raw || typeof raw !== "object") throw new Error("entry must be a mapping");
+  if (name === "openrouter") throw new Error("openrouter is the catalog, not an enrichment source");
+  const entry = raw as Record<string, unknown>;
+
+  let location: SourceConfig["location"];
+  if (typeof entry.url === "string" && /^https?:\/\//.test(entry.url)) {
+    location = { url: entry.url };
+  } else if (typeof entry.file === "string" && entry.file) {
+    location = { file: isAbsolute(entry.file) ? entry.file : join(baseDir, entry.file) };
+  } else {
+    throw new Error("needs an http(s) url or a file path");
+  }
+
+  const target = "url" in location ? location.url : location.file;
+  const format = entry.format ?? (/\.csv(\?|$)/i.test(target) ? "csv" : "json");
+  if (format !== "json" && format !== "csv") throw new Error("format must be json or csv");
+
+  if (!entry.benchmarks || typeof entry.benchmarks !== "object") throw new Error("benchmarks must be a mapping");
+  const columns: ColumnMapping[] = [];
+  const declarations: BenchmarkDeclaration[] = [];
+  for (const [key, spec] of Object.entries(entry.benchmarks as Record<string, unknown>)) {
+    if (!/^[a-zA-Z][a-zA-Z0-9]*$/.test(key)) throw new Error(`benchmarks.${key}: keys must be camelCase identifiers`);
+    const column = (spec ?? {}) as { field?: unknown; scale?: unknown; weights?: unknown; description?: unknown };
+    const scale = column.scale ?? 1;
+    if (typeof scale !== "number" || !Number.isFinite(scale)) throw new Error(`benchmarks.${key}.scale must be a number`);
+    columns.push({ key, field: typeof column.field === "string" ? column.field : key, scale });
+
+    const weights: BenchmarkDeclaration["weights"] = {};
+    for (const [category, weight] of Object.entries((column.weights ?? {}) as Record<string, unknown>)) {
+      if (!WEIGHTED_CATEGORIES.includes(category as WeightedCategory)) {
+        throw new Error(`benchmarks.${key}.weights.${category}: only ${WEIGHTED_CATEGORIES.join(", ")} are weighted`);
+      }
+      if (typeof weight !== "number" || weight < 0) throw new Error(`benchmarks.${key}.weights.${category} must be >= 0`);
+      weights[category as WeightedCategory] = weight;
+    }
+    declarations.push({
+      key,
+      ...(typeof column.description === "string" ? { description: column.description } : {}),
+      weights,
+    });
+  }
+  if (columns.length === 0) throw new Error("declares no benchmarks");
+
+  return {
+    name,
+    location,
+    format,
+    modelField: typeof entry.model_field === "string" ? entry.model_field : "model",
+    overwrite: entry.overwrite === true,
+    columns,
+    declarations,
+  };
+}
+
+/** Minimal RFC 4180 CSV parser: header row, quoted fields, "" escapes. */
+export function parseCsv(text: string): Row[] {
+  const records: string[][] = [];
+  let record: string[] = [];
+  let field = "";
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i]!;
+    if (quoted) {
+      if (ch === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (ch === '"') {
+        quoted = false;
+      } else {
+        field += ch;
+      }
+    } else if (ch === '"') {
+      quoted = true;
+    } else if (ch === ",") {
+      record.push(field);
+      field = "";
+    } else if (ch === "\n" || ch === "\r") {
+      if (ch === "\r" && text[i + 1] === "\n") i++;
+      record.push(field);
+      records.push(record);
+      record = [];
+      field = "";
+    } else {
+      field += ch;
+    }
+  }
+  if (field !== "" || record.length > 0) {
+    record.push(field);
+    records.push(record);
+  }
+
+  const [header, ...rows] = records.filter((r) => r.some((cell) => cell.trim() !== ""));
+  if (!header) return [];
+  const keys = header.map((h) => h.trim());
+  return rows.map((r) => Object.fromEntries(keys.map((k, idx) => [k, r[idx]?.trim() ?? ""])));
+}
+
+function toNumber(raw: unknown): number | undefined {
+  if (typeof raw === "number") return Number.isFinite(raw) ? raw : undefined;
+  if (typeof raw !== "string" || raw.trim() === "") return undefined;
+  const n = Number(raw.replace(/%$/, ""));
+  return Number.isFinite(n) ? n : undefined;
+}
+
+async function readRows(config: SourceConfig): Promise<Row[]> {
+  let text: string;
+  if ("url" in config.location) {
+    const res = await fetch(config.location.url, { signal: AbortSignal.timeout(FETCH_TIMEOUT_MS) });
+    if (!res.ok) throw new Error(`HTTP ${res.status}`);
+    text = await res.text();
+  } else {
+    text = readFileSync(config.location.file, "utf-8");
+  }
+
+  if (config.format === "csv") return parseCsv(text);
+  const parsed = JSON.parse(text) as unknown;
+  const rows = Array.isArray(parsed) ? parsed : (parsed as { data?: unknown })?.data;
+  if (!Array.isArray(rows)) throw new Error("expected a JSON array (or { data: [...] })");
+  return rows.filter((r): r is Row => !!r && typeof r === "object");
+}
+
+function buildSource(config: SourceConfig): EnrichmentSource<Row> {
+  return {
+    name: config.name,
+    benchmarks: config.declarations,
+
+    async pull(): Promise<SourceResult<Row>> {
+      try {
+        const data = await readRows(config);
+        return { source: config.name, data, pulledAt: new Date().toISOString(), count: data.length };
+      } catch (e) {
+        const msg = e instanceof Error ? e.message : String(e);
+        console.error(`[${config.name}] Failed to pull: ${msg}`);
+        return { source: config.name, data: [], pulledAt: new Date().toISOString(), count: 0, error: msg };
+      }
+    },
+
+    merge({ models, matcher }: MergeContext, rows: Row[]): void {
+      let matched = 0;
+      for (const row of rows) {
+        const name = row[config.modelField];
+        if (typeof name !== "string" || !name.trim()) continue;
+        const id = matcher.match(config.name, name)?.id;
+        const model = id ? models.get(id) : undefined;
+        if (!model) continue;
+
+        const values: Record<string, number | undefined> = {};
+        for (const column of config.columns) {
+          const value = toNumber(row[column.field]);
+          if (value !== undefined) values[column.key] = Math.round(value * column.scale * 10) / 10;
+        }
+        if (Object.keys(values).length === 0) continue;
+
+        matched++;
+        markCovered(model, config.name);
+        mergeBenchmarks(model, config.name, values, { overwrite: config.overwrite });
+      }
+      console.log(`[pipeline] ${config.name}: matched ${matched}/${rows.length} models`);
+    },
+  };
+}
+
+/** Read sources.yaml; invalid entries are logged and skipped. */
+export function loadConfiguredSources(path = CONFIG_PATH): EnrichmentSource<Row>[] {
+  try {
+    if (!existsSync(path)) return [];
+    const raw = (parse(readFileSync(path, "utf-8")) as Record<string, unknown>) ?? {};
+    const sources: EnrichmentSource<Row>[] = [];
+    for (const [name, entry] of Object.entries(raw)) {
+      try {
+        sources.push(buildSource(parseConfig(name, entry, dirname(path))));
+      } catch (e) {
+        console.warn(`[sources] Skipping source "${name}": ${(e as Error).message}`);
+      }
+    }
+    if (sources.length > 0) {
+      console.log(`[sources] Loaded ${sources.length} configured sources: ${sources.map((s) => s.name).join(", ")}`);
+    }
+    return sources;
+  } catch (e) {
+    console.error("[sources] Failed to load sources.yaml:", e);
+    return [];
+  }
+}
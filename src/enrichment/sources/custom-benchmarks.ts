@@ -0,0 +1,154 @@
+import { dbGetCustomBenchmarkScores, dbListCustomBenchmarks, type CustomBenchmarkScore } from "../../db.ts";
+import type { EnrichedModel, SourceResult } from "../../types.ts";
+import {
+  markCovered,
+  mergeBenchmarks,
+  type BenchmarkDeclaration,
+  type EnrichmentSource,
+  type MergeContext,
+} from "../source-registry.ts";
+import type { WeightedCategory } from "../scoring.ts";
+import { parseCsv } from "./configured.ts";
+
+/**
+ * Private benchmarks — results from our own evals, uploaded through
+ * POST /api/benchmarks/custom and stored in SQLite. Each benchmark is a new
+ * key in `benchmarks`, normalized and weighted like the public sources.
+ */
+
+export const CUSTOM_SOURCE = "custom-benchmarks";
+
+const MAX_UPLOAD_ROWS = 5000;
+
+let declarations: BenchmarkDeclaration[] | null = null;
+
+/** Drop cached declarations after a benchmark is added, changed or deleted */
+export function reloadCustomBenchmarks(): void {
+  declarations = null;
+}
+
+function loadDeclarations(): BenchmarkDeclaration[] {
+  if (declarations) return declarations;
+  try {
+    declarations = dbListCustomBenchmarks().map((b) => ({
+      key: b.name,
+      ...(b.description ? { description: b.description } : {}),
+      weights: b.weights as Partial<Record<WeightedCategory, number>>,
+    }));
+  } catch (e) {
+    console.error(`[${CUSTOM_SOURCE}] Failed to load benchmarks:`, e);
+    declarations = [];
+  }
+  return declarations;
+}
+
+export const customBenchmarkSource: EnrichmentSource<CustomBenchmarkScore> = {
+  name: CUSTOM_SOURCE,
+
+  get benchmarks() {
+    return loadDeclarations();
+  },
+
+  async pull(): Promise<SourceResult<CustomBenchmarkScore>> {
+    try {
+      const data = dbGetCustomBenchmarkScores();
+      return { source: CUSTOM_SOURCE, data, pulledAt: new Date().toISOString(), count: data.length };
+    } catch (e) {
+      const msg = e instanceof Error ? e.message : String(e);
+      console.error(`[${CUSTOM_SOURCE}] Failed to pull: ${msg}`);
+      return { source: CUSTOM_SOURCE, data: [], pulledAt: new Date().toISOString(), count: 0, error: msg };
+    }
+  },
+
+  merge({ models, matcher }: MergeContext, rows: CustomBenchmarkScore[]): void {
+    // Clear earlier uploads first so deleted benchmarks and dropped rows disappear
+    for (const model of models.values()) {
+      if (!model.benchmarkSources || !model.benchmarks) continue;
+      for (const [key, source] of Object.entries(model.benchmarkSources)) {
+        if (source !== CUSTOM_SOURCE) continue;
+        delete model.benchmarks[key];
+        delete model.benchmarkSources[key];
+      }
+      model.sourcesCovered = model.sourcesCovered.filter((s) => s !== CUSTOM_SOURCE);
+    }
+
+    const byModel = new Map<EnrichedModel, Record<string, number>>();
+    for (const row of rows) {
+      const id = matcher.match(CUSTOM_SOURCE, row.model)?.id;
+      const model = id ? models.get(id) : undefined;
+      if (!model) continue;
+      const values = byModel.get(model) ?? {};
+      values[row.benchmark] = row.score;
+      byModel.set(model, values);
+    }
+
+    for (const [model, values] of byModel) {
+      markCovered(model, CUSTOM_SOURCE);
+      mergeBenchmarks(model, CUSTOM_SOURCE, values, { overwrite: true });
+    }
+    console.log(`[pipeline] ${CUSTOM_SOURCE}: matched ${byModel.size} models from ${rows.length} scores`);
+  },
+};
+
+/**
+ * Parse an uploaded score file. CSV needs a header with `model` and `score`
+ * columns; JSONL has one `{"model": ..., "score": ...}` object per line.
+ * Bad rows are reported by line number and skipped.
+ */
+export function parseScoreUpload(
+  text: string,
+  format: "csv" | "jsonl"
+): { scores: Array<{ model: string; score: number }>; errors: string[] } {
+  const errors: string[] = [];
+  let rows: Array<{ line: number; model: unknown; score: unknown }>;
+
+  if (format === "csv") {
+    const parsed = parseCsv(text);
+    if (parsed.length > 0 && (!("model" in parsed[0]!) || !("score" in parsed[0]!))) {
+      return { scores: [], errors: ["CSV header must include model and score columns"] };
+    }
+    // Header is line 1
+    rows = parsed.map((r, i) => ({ line: i + 2, model: r.model, score: r.score }));
+  } else {
+    rows = [];
+    text.split(/\r?\n/).forEach((raw, i) => {
+      if (!raw.trim()) return;
+      try {
+        const entry = JSON.parse(raw) as { model?: unknown; score?: unknown };
+        rows.push({ line: i + 1, model: entry?.model, score: entry?.score });
+      } catch {
+        errors.push(`line ${i + 1}: invalid JSON`);
+      }
+    });
+  }
+
+  return { scores: validateScores(rows, errors), errors };
+}
+
+/** Validate `{ model, score }` entries; `line` is used in error messages when given. */
+export function validateScores(
+  rows: Array<{ line?: number; model: unknown; score: unknown }>,
+  errors: string[] = []
+): Array<{ model: string; score: number }> {
+  const scores = new Map<string, number>();
+  rows.forEach((row, i) => {
+    const where = `line ${row.line ?? i + 1}`;
+    if (typeof row.model !== "string" || !row.model.trim() || row.model.length > 200) {
+      errors.push(`${where}: model must be a non-empty string`);
+      return;
+    }
+    const score = typeof row.score === "string" && row.score.trim() !== "" ? Number(row.score) : row.score;
+    if (typeof score !== "number" || !Number.isFinite(score)) {
+      errors.push(`${where}: score must be a number`);
+      return;
+    }
+    // Later rows for the same model win
+    scores.set(row.model.trim().replace(/^openrouter\//, ""), score);
+  });
+
+  if (scores.size > MAX_UPLOAD_ROWS) {
+    errors.push(`too many models (${scores.size}), max ${MAX_UPLOAD_ROWS} per upload`);
+    return [];
+  }
+  return Array.from(scores, ([model, score]) => ({ model, score }));
+}
@@ -1,4 +1,5 @@
 import type { HFLeaderboardEntry, SourceResult } from "../../types.ts";
+import { markCovered, mergeBenchmarks, type EnrichmentSource, type MergeContext } from "../source-registry.ts";
 
 const HF_API_BASE =
   "https://datasets-server.huggingface.co/rows?dataset=open-llm-leaderboard/contents&config=default&split=train";
@@ -83,3 +84,71 @@ function numberOrUndefined(val: unknown): number | undefined {
   const n = Number(val);
   return isNaN(n) ? undefined : n;
 }
+
+/** Merge HF Leaderboard data using hugging_face_id + alias map */
+function mergeHFLeaderboard(
+  { models, openRouter: orModels, matcher }: MergeContext,
+  hfEntries: HFLeaderboardEntry[]
+): void {
+  // Build HF ID → OpenRouter ID mapping from OpenRouter's hugging_face_id field
+  const hfToOr = new Map<string, string>();
+  for (const or of orModels) {
+    if (or.hugging_face_id) {
+      hfToOr.set(or.hugging_face_id.toLowerCase(), or.id);
+    }
+  }
+
+  // Group by resolved OpenRouter ID, keeping best entry (highest Average)
+  const bestByOrId = new Map<string, HFLeaderboardEntry>();
+
+  for (const hf of hfEntries) {
+    if (!hf.Model) continue;
+
+    // Strategy 1: Match via OpenRouter hugging_face_id
+    let orId = hfToOr.get(hf.Model.toLowerCase());
+
+    // Strategy 2-4: OpenRouter ID, then alias map with the full HF path or just
+    // the model name after org/. Exact lookups only: the leaderboard is mostly
+    // fine-tunes that would fuzzy-match their base model, so misses aren't reported.
+    if (!orId) {
+      const modelName = hf.Model.split("/").pop()!;
+      orId = matcher.match("hf-leaderboard", hf.Model, [modelName], { strict: true, quiet: true })?.id;
+    }
+
+    if (!orId || !models.has(orId)) continue;
+
+    const existing = bestByOrId.get(orId);
+    if (!existing || hf.Average > existing.Average) {
+      bestByOrId.set(orId, hf);
+    }
+  }
+
+  let matched = 0;
+
+  for (const [orId, hf] of bestByOrId) {
+    const model = models.get(orId);
+    if (!model) continue;
+
+    matched++;
+    markCovered(model, "hf-leaderboard");
+
+    // HF scores are already on 0-100 scale
+    // Only set if we don't already have this data (from Artificial Analysis)
+    mergeBenchmarks(model, "hf-leaderboard", {
+      ifEval: hf.IFEval,
+      bbh: hf.BBH,
+      mmluPro: hf["MMLU-PRO"],
+      gpqa: hf.GPQA,
+    }, { overwrite: false });
+  }
+
+  console.log(
+    `[pipeline] HF Leaderboard: matched ${matched}/${hfEntries.length} models`
+  );
+}
+
+export const hfLeaderboardSource: EnrichmentSource<HFLeaderboardEntry> = {
+  name: "hf-leaderboard",
+  pull: pullHFLeaderboard,
+  merge: mergeHFLeaderboard,
+};
@@ -1,4 +1,5 @@
 import type { SourceResult } from "../../types.ts";
+import { markCovered, mergeBenchmarks, type EnrichmentSource, type MergeContext } from "../source-registry.ts";
 
 /**
  * LiveBench data source — fetches pre-aggregated leaderboard CSV from livebench.ai.
@@ -298,3 +299,121 @@ function round1(v: number | undefined): number | undefined {
   if (v === undefined) return undefined;
   return Math.round(v * 10) / 10;
 }
+
+/**
+ * Generate candidate names for LiveBench model name matching.
+ * LiveBench website CSV uses variant-heavy names like:
+ *   "claude-opus-4-6-thinking-auto-high-effort"
+ *   "gpt-5.2-2025-12-11-high"
+ *   "gemini-2.5-flash-06-05-highthinking"
+ *   "claude-4-1-opus-20250805-base"
+ * We iteratively strip suffixes until we find the base model name.
+ */
+function liveBenchNameCandidates(name: string): string[] {
+  const candidates: string[] = [name];
+
+  // Handle Amazon Bedrock format
+  let cur = name.replace(/^amazon\./, "amazon/").replace(/:\d+$/, "");
+  if (cur !== name) candidates.push(cur);
+
+  // Iteratively strip known suffixes (order matters, run until stable)
+  let prev = "";
+  while (cur !== prev) {
+    prev = cur;
+
+    // Strip thinking/effort combos: -thinking-auto-high-effort, -thinking-64k-medium-effort
+    cur = cur.replace(/-thinking(?:-[a-z0-9]+)*(?:-(high|medium|low)(?:-effort)?)?$/i, "");
+    // Strip standalone effort: -high-effort, -medium-effort, -low-effort
+    cur = cur.replace(/-(high|medium|low)-effort$/i, "");
+    // Strip mode suffixes: -highthinking, -nothinking, -non-reasoning, -reasoning
+    cur = cur.replace(/-(highthinking|nothinking|non-reasoning|reasoning)$/i, "");
+    // Strip effort levels: -high, -medium, -low, -minimal
+    cur = cur.replace(/-(high|medium|low|minimal)$/i, "");
+    // Strip base/instruct: -base, -instruct
+    cur = cur.replace(/-(base|instruct)$/i, "");
+    // Strip trailing dates: -2025-12-11, -20251001, -11-2025, -06-05, -0825
+    cur = cur.replace(/-\d{4}-\d{2}-\d{2}$/, "");
+    cur = cur.replace(/-\d{8}$/, "");
+    cur = cur.replace(/-\d{2}-\d{4}$/, "");
+    cur = cur.replace(/-\d{2}-\d{2}$/, ""); // MM-DD (e.g. Gemini -06-05)
+    cur = cur.replace(/-\d{4}$/, "");
+    // Strip version suffixes: -preview-MM-YYYY, -preview, -exp, -001, -turbo
+    cur = cur.replace(/-preview(?:-\d{2}-\d{4})?$/i, "");
+    cur = cur.replace(/-exp(?:-\d{2}-\d{2})?$/i, "");
+    cur = cur.replace(/-00[0-9]$/i, "");
+    cur = cur.replace(/-turbo$/i, "");
+
+    if (cur !== prev) candidates.push(cur);
+  }
+
+  // Handle "Meta-Llama-" / "meta-llama-" prefix
+  const metaStripped = candidates
+    .filter((c) => /^meta[-.]llama[-.]?/i.test(c))
+    .map((c) => c.replace(/^meta[-.]llama[-.]?/i, "Llama-"));
+  candidates.push(...metaStripped);
+
+  // Try converting version dashes to dots: "claude-haiku-4-5" → "claude-haiku-4.5"
+  // Matches patterns like X-N-N at the end or X-N-N-suffix
+  const withDots = candidates
+    .map((c) => c.replace(/(\d)-(\d)/g, "$1.$2"))
+    .filter((c) => !candidates.includes(c));
+  candidates.push(...withDots);
+
+  // Dashes to spaces for each candidate
+  const withSpaces = candidates.map((c) => c.replace(/-/g, " "));
+  candidates.push(...withSpaces);
+
+  return [...new Set(candidates)];
+}
+
+/** Merge LiveBench scores into models */
+function mergeLiveBench(
+  { models, matcher }: MergeContext,
+  lbEntries: LiveBenchEntry[]
+): void {
+  let matched = 0;
+  const unmatched: string[] = [];
+
+  for (const entry of lbEntries) {
+    if (!entry.model) continue;
+
+    // Generate candidate names and resolve (raw names that are OpenRouter IDs match directly)
+    const id = matcher.match("livebench", entry.model, liveBenchNameCandidates(entry.model))?.id;
+
+    if (!id || !models.has(id)) {
+      unmatched.push(entry.model);
+      continue;
+    }
+
+    const model = models.get(id)!;
+    matched++;
+
+    markCovered(model, "livebench");
+
+    // Only set if we don't already have this data from a higher-priority source
+    mergeBenchmarks(model, "livebench", {
+      liveBenchCoding: entry.coding,
+      liveBenchAgenticCoding: entry.agenticCoding,
+      liveBenchReasoning: entry.reasoning,
+      liveBenchMath: entry.mathematics,
+      liveBenchLanguage: entry.language,
+      liveBenchIF: entry.instructionFollowing,
+    }, { overwrite: false });
+  }
+
+  if (unmatched.length > 0) {
+    console.log(
+      `[pipeline] LiveBench unmatched (${unmatched.length}): ${unmatched.slice(0, 10).join(", ")}${unmatched.length > 10 ? "..." : ""}`
+    );
+  }
+
+  console.log(
+    `[pipeline] LiveBench: matched ${matched}/${lbEntries.length} models`
+  );
+}
+
+export const liveBenchSource: EnrichmentSource<LiveBenchEntry> = {
+  name: "livebench",
+  pull: pullLiveBench,
+  merge: mergeLiveBench,
+};
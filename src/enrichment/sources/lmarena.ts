@@ -1,4 +1,5 @@
 import type { LMArenaEntry, SourceResult } from "../../types.ts";
+import { markCovered, mergeBenchmarks, type EnrichmentSource, type MergeContext } from "../source-registry.ts";
 
 const RELEASES_API =
   "https://api.github.com/repos/fboulnois/llm-leaderboard-csv/releases/latest";
@@ -134,3 +135,116 @@ function parseCSVLine(line: string): string[] {
   result.push(current.trim());
   return result;
 }
+
+/**
+ * Progressively strip LMArena display name suffixes for alias matching.
+ * Arena uses names like "ChatGPT-4o-latest (2025-03-26)", "Grok-4-0709",
+ * "GPT-4.1-2025-04-14", "Gemini-2.5-Pro-Preview-05-06".
+ * Returns array of candidate names from most specific to least.
+ */
+function arenaNameCandidates(name: string): string[] {
+  const candidates: string[] = [name];
+
+  // Strip parenthesized suffixes: "(2025-03-26)", "(Early Grok-3)", "(thinking-16k)", "(20250514)"
+  let stripped = name.replace(/\s*\([^)]+\)\s*$/, "").trim();
+  if (stripped !== name) candidates.push(stripped);
+
+  // Strip trailing date: "-2025-04-14", "-0709", "-02-24"
+  let noDate = stripped
+    .replace(/-\d{4}-\d{2}-\d{2}$/, "")
+    .replace(/-\d{4}$/, "")
+    .replace(/-\d{2}-\d{2}$/, "");
+  if (noDate !== stripped) candidates.push(noDate);
+
+  // Strip version suffixes: "-Preview-05-06", "-Exp-0827", "-001", "-002"
+  let noVersion = noDate
+    .replace(/-Preview(?:-\d{2}-\d{2})?$/i, "")
+    .replace(/-Exp(?:-\d{4})?$/i, "")
+    .replace(/-Experimental$/i, "")
+    .replace(/-00[0-9]$/i, "")
+    .replace(/-bf16$/i, "")
+    .replace(/-fp8$/i, "");
+  if (noVersion !== noDate) candidates.push(noVersion);
+
+  // Dashes to spaces for each candidate
+  const withSpaces = candidates.map((c) => c.replace(/-/g, " "));
+  candidates.push(...withSpaces);
+
+  // ChatGPT → GPT mapping
+  const chatGptMapped = candidates
+    .filter((c) => c.startsWith("ChatGPT"))
+    .map((c) => c.replace(/^ChatGPT/, "GPT"));
+  candidates.push(...chatGptMapped);
+
+  // Handle "Meta-Llama-X" → "Llama X" (Arena uses Meta- prefix)
+  const metaStripped = candidates
+    .filter((c) => /^Meta[- ]Llama/i.test(c))
+    .map((c) => c.replace(/^Meta[- ]/i, ""));
+  candidates.push(...metaStripped);
+
+  // Handle "Nvidia-Llama-X" → "Llama X" and keep "Nemotron" variants
+  const nvidiaStripped = candidates
+    .filter((c) => /^Nvidia[- ]/i.test(c))
+    .map((c) => c.replace(/^Nvidia[- ]/i, ""));
+  candidates.push(...nvidiaStripped);
+
+  return [...new Set(candidates)];
+}
+
+/**
+ * Normalize LMArena ELO score to 0-100 scale.
+ * ELO typically ranges ~1000-1500. We map 1000→0, 1500→100.
+ * This gives reasonable spread: 1200→40, 1300→60, 1400→80, 1470→94.
+ */
+function normalizeArenaElo(elo: number): number {
+  const normalized = ((elo - 1000) / 500) * 100;
+  return Math.max(0, Math.min(100, Math.round(normalized * 10) / 10));
+}
+
+/** Merge LMArena ELO scores into models */
+function mergeLMArena(
+  { models, matcher }: MergeContext,
+  arenaEntries: LMArenaEntry[]
+): void {
+  // Group by resolved OpenRouter ID, keeping best entry (highest ELO)
+  const bestByOrId = new Map<string, LMArenaEntry>();
+
+  for (const entry of arenaEntries) {
+    if (!entry.model || !entry.arenaScore) continue;
+
+    // Generate candidate names (plain, then with org prefix) and resolve
+    const candidates = arenaNameCandidates(entry.model);
+    const id = matcher.match("lmarena", entry.model, [
+      ...candidates,
+      ...candidates.map((candidate) => `${entry.organization} ${candidate}`),
+    ])?.id;
+
+    if (!id || !models.has(id)) continue;
+
+    const existing = bestByOrId.get(id);
+    if (!existing || entry.arenaScore > existing.arenaScore) {
+      bestByOrId.set(id, entry);
+    }
+  }
+
+  let matched = 0;
+
+  for (const [id, entry] of bestByOrId) {
+    const model = models.get(id);
+    if (!model) continue;
+
+    matched++;
+    markCovered(model, "lmarena");
+    mergeBenchmarks(model, "lmarena", { arena: normalizeArenaElo(entry.arenaScore) }, { overwrite: true });
+  }
+
+  console.log(
+    `[pipeline] LMArena: matched ${matched}/${arenaEntries.length} models`
+  );
+}
+
+export const lmArenaSource: EnrichmentSource<LMArenaEntry> = {
+  name: "lmarena",
+  pull: pullLMArena,
+  merge: mergeLMArena,
+};
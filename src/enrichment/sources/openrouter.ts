@@ -1,4 +1,4 @@
-import type { OpenRouterModel, SourceResult } from "../../types.ts";
+import type { EnrichedModel, OpenRouterModel, SourceResult } from "../../types.ts";
 
 const OPENROUTER_API = "https://openrouter.ai/api/v1/models";
 
@@ -43,6 +43,25 @@ export function parsePricing(perToken: string, modelId?: string): number {
   return val * 1_000_000;
 }
 
+/**
+ * Per-1M-token prices for a model. Cache-read and reasoning prices are only
+ * kept when OpenRouter lists a non-zero price for them.
+ */
+export function extractPricing(model: OpenRouterModel): EnrichedModel["pricing"] {
+  const optional = (perToken: string | undefined) => {
+    const val = perToken === undefined ? NaN : parseFloat(perToken);
+    return val > 0 ? val * 1_000_000 : undefined;
+  };
+  const cacheRead = optional(model.pricing.input_cache_read);
+  const reasoning = optional(model.pricing.internal_reasoning);
+  return {
+    prompt: parsePricing(model.pricing.prompt, model.id),
+    completion: parsePricing(model.pricing.completion, model.id),
+    ...(cacheRead !== undefined ? { cacheRead } : {}),
+    ...(reasoning !== undefined ? { reasoning } : {}),
+  };
+}
+
 /** Extract capabilities from OpenRouter model data */
 export function extractCapabilities(model: OpenRouterModel) {
   const params = model.supported_parameters ?? [];
@@ -16,9 +16,16 @@ import { swarmRoute } from "./routes/swarm.ts";
 import { communityRoute } from "./routes/community.ts";
 import { rolesRoute } from "./routes/roles.ts";
 import { compareRoute } from "./routes/compare.ts";
+import { changesRoute } from "./routes/changes.ts";
+import { benchmarksRoute } from "./routes/benchmarks.ts";
+import { healthReportRoute } from "./routes/health-report.ts";
+import { budgetsRoute } from "./routes/budgets.ts";
+import { adminRoute } from "./routes/admin.ts";
+import { DEFAULT_TENANT } from "./db.ts";
 import { pipeline } from "./enrichment/pipeline.ts";
 import { rateLimit } from "./middleware/rate-limit.ts";
 import { responseCache } from "./middleware/response-cache.ts";
+import { tenantAuth, tenantOf } from "./middleware/tenant-auth.ts";
 
 const app = new Hono();
 
@@ -34,6 +41,7 @@ app.use("*", async (c, next) => {
 });
 app.use("*", cors());
 app.use("*", rateLimit({ windowMs: 60 * 1000, max: 200 }));
+app.use("*", tenantAuth());
 app.use("*", async (c, next) => {
   await next();
   c.header("X-Content-Type-Options", "nosniff");
@@ -43,10 +51,13 @@ app.use("*", async (c, next) => {
   const path = url.pathname;
   const isGet = c.req.method === "GET";
   const cleanPath = path.replace(/^\/api/, "");
-  if (cleanPath.startsWith("/refresh") || cleanPath.startsWith("/spawn-log")) {
+  // Picks for a project with a spend budget change as it spends
+  const live = url.searchParams.has("project");
+  if (cleanPath.startsWith("/refresh") || cleanPath.startsWith("/spawn-log") || cleanPath.startsWith("/benchmarks") || cleanPath.startsWith("/health-report") || cleanPath.startsWith("/budgets") || cleanPath.startsWith("/admin") || live) {
     c.header("Cache-Control", "no-store");
   } else if (isGet && ["/models", "/pick", "/recommend", "/compare", "/status"].includes(cleanPath)) {
-    c.header("Cache-Control", "public, max-age=300");
+    // Tenant rankings include their own feedback, so shared caches must not serve them to others
+    c.header("Cache-Control", `${tenantOf(c) === DEFAULT_TENANT ? "public" : "private"}, max-age=300`);
   }
 });
 app.use(
@@ -54,6 +65,8 @@ app.use(
   responseCache({
     ttlMs: 60 * 1000,
     paths: ["/models", "/pick", "/recommend", "/compare", "/status"],
+    bypassParams: ["project"],
+    varyBy: tenantOf,
   })
 );
 
@@ -70,6 +83,11 @@ api.route("/decompose", decomposeRoute);
 api.route("/swarm", swarmRoute);
 api.route("/community", communityRoute);
 api.route("/roles", rolesRoute);
+api.route("/changes", changesRoute);
+api.route("/benchmarks", benchmarksRoute);
+api.route("/health-report", healthReportRoute);
+api.route("/budgets", budgetsRoute);
+api.route("/admin", adminRoute);
 
 api.get("/", (c) =>
   c.json({
@@ -78,6 +96,9 @@ api.get("/", (c) =>
       version: "1.0.0",
       endpoints: [
         "/api/models",
+        "/api/models/:id",
+        "/api/models/:id/history",
+        "/api/changes",
         "/api/recommend",
         "/api/pick",
         "/api/compare",
@@ -87,8 +108,13 @@ api.get("/", (c) =>
         "/api/roles/blocks",
         "/api/roles/compose",
         "/api/status",
+        "/api/status/unmatched",
         "/api/refresh",
+        "/api/benchmarks/custom",
         "/api/spawn-log",
+        "/api/health-report",
+        "/api/budgets",
+        "/api/admin/keys",
       ],
     },
   })
@@ -108,6 +134,11 @@ app.route("/decompose", decomposeRoute);
 app.route("/swarm", swarmRoute);
 app.route("/community", communityRoute);
 app.route("/roles", rolesRoute);
+app.route("/changes", changesRoute);
+app.route("/benchmarks", benchmarksRoute);
+app.route("/health-report", healthReportRoute);
+app.route("/budgets", budgetsRoute);
+app.route("/admin", adminRoute);
 
 // Landing page — serve static files from /landing
 app.get("/favicon.svg", serveStatic({ path: "./landing/favicon.svg" }));
@@ -1,8 +1,10 @@
-import type { MiddlewareHandler } from "hono";
+import type { Context, MiddlewareHandler } from "hono";
 
 interface RateLimitOptions {
   windowMs: number;
   max: number;
+  /** What requests are counted by; the client IP when omitted */
+  keyBy?: (c: Context) => string;
 }
 
 interface RateLimitEntry {
@@ -19,11 +21,11 @@ function getClientIp(req: Request): string {
 }
 
 export function rateLimit(options: RateLimitOptions): MiddlewareHandler {
-  const { windowMs, max } = options;
+  const { windowMs, max, keyBy } = options;
   const store = new Map<string, RateLimitEntry>();
 
   return async (c, next) => {
-    const ip = getClientIp(c.req.raw);
+    const ip = keyBy ? keyBy(c) : getClientIp(c.req.raw);
     const now = Date.now();
     const entry = store.get(ip) ?? { timestamps: [] };
 
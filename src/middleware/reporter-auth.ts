@@ -0,0 +1,26 @@
+import type { Context, MiddlewareHandler } from "hono";
+
+/**
+ * Who submitted a health report: the tenant API key that sent it, or
+ * "ingest" for the shared INGEST_API_KEY bearer. Null for anonymous requests.
+ */
+export function reporterOf(c: Context): string | null {
+  const apiKeyId = c.get("apiKeyId");
+  if (apiKeyId) return apiKeyId;
+  const ingestKey = process.env["INGEST_API_KEY"];
+  if (ingestKey && c.req.header("authorization") === `Bearer ${ingestKey}`) return "ingest";
+  return null;
+}
+
+/** Reject requests without a tenant API key or the ingest token */
+export function requireReporter(): MiddlewareHandler {
+  return async (c, next) => {
+    if (!reporterOf(c)) {
+      return c.json(
+        { error: { code: "UNAUTHORIZED", message: "Send an X-API-Key or the INGEST_API_KEY bearer token" } },
+        401
+      );
+    }
+    await next();
+  };
+}
@@ -1,4 +1,4 @@
-import type { MiddlewareHandler } from "hono";
+import type { Context, MiddlewareHandler } from "hono";
 
 interface CacheEntry {
   body: string;
@@ -8,8 +8,18 @@ interface CacheEntry {
 
 const cache = new Map<string, CacheEntry>();
 
-export function responseCache(options: { ttlMs: number; paths: string[] }): MiddlewareHandler {
-  const { ttlMs, paths } = options;
+/**
+ * Cache successful GET responses for `paths`. Requests carrying any of
+ * `bypassParams` depend on live state and always go through; `varyBy` keeps
+ * separate entries for requests that differ beyond the URL.
+ */
+export function responseCache(options: {
+  ttlMs: number;
+  paths: string[];
+  bypassParams?: string[];
+  varyBy?: (c: Context) => string;
+}): MiddlewareHandler {
+  const { ttlMs, paths, bypassParams = [], varyBy } = options;
   const pathSet = new Set(paths);
 
   return async (c, next) => {
@@ -19,8 +29,10 @@ export function responseCache(options: { ttlMs: number; paths: string[] }): Midd
     const path = url.pathname;
 
     if (!pathSet.has(path)) return next();
+    if (bypassParams.some((param) => url.searchParams.has(param))) return next();
 
-    const key = `${c.req.method}:${url.pathname}?${url.searchParams.toString()}`;
+    const vary = varyBy ? `${varyBy(c)}|` : "";
+    const key = `${vary}${c.req.method}:${url.pathname}?${url.searchParams.toString()}`;
     const now = Date.now();
     const cached = cache.get(key);
 
@@ -0,0 +1,54 @@
+import type { Context, MiddlewareHandler } from "hono";
+import { DEFAULT_TENANT } from "../db.ts";
+import { apiKeysRequired, resolveApiKey } from "../tenants.ts";
+
+declare module "hono" {
+  interface ContextVariableMap {
+    tenant: string;
+    apiKeyId?: string;
+  }
+}
+
+/** Reachable without a key even when API_KEYS_REQUIRED is set */
+const EXEMPT_PATHS = ["/status", "/admin"];
+
+function isExempt(path: string): boolean {
+  if (path === "/" || path === "/favicon.svg" || path === "/api" || path === "/api/") return true;
+  const clean = path.replace(/^\/api/, "");
+  return EXEMPT_PATHS.some((p) => clean === p || clean.startsWith(`${p}/`));
+}
+
+/**
+ * Resolve the request's tenant from its X-API-Key header. Requests without a
+ * key use the default tenant unless API_KEYS_REQUIRED=true; an unknown or
+ * revoked key is always rejected.
+ */
+export function tenantAuth(): MiddlewareHandler {
+  return async (c, next) => {
+    const key = c.req.header("x-api-key");
+    if (key) {
+      const apiKey = resolveApiKey(key.trim());
+      if (!apiKey) {
+        return c.json(
+          { error: { code: "UNAUTHORIZED", message: "Invalid or revoked API key" } },
+          401
+        );
+      }
+      c.set("tenant", apiKey.tenant);
+      c.set("apiKeyId", apiKey.id);
+    } else if (apiKeysRequired() && !isExempt(new URL(c.req.url).pathname)) {
+      return c.json(
+        { error: { code: "UNAUTHORIZED", message: "X-API-Key header is required" } },
+        401
+      );
+    } else {
+      c.set("tenant", DEFAULT_TENANT);
+    }
+    await next();
+  };
+}
+
+/** The tenant resolved for this request */
+export function tenantOf(c: Context): string {
+  return c.get("tenant") ?? DEFAULT_TENANT;
+}
@@ -0,0 +1,89 @@
+import type { Category, EnrichedModel } from "./types.ts";
+
+/** Models expiring within this many days are left out of selection (override with EXPIRY_WINDOW_DAYS) */
+export const DEFAULT_EXPIRY_WINDOW_DAYS = 14;
+export const MAX_EXPIRY_WINDOW_DAYS = 365;
+/** Ranking penalty for models with an announced expiration further out than the window */
+export const DEPRECATION_PENALTY = 5;
+
+const DAY_MS = 86400_000;
+
+export function expiryWindowDays(): number {
+  const raw = parseInt(process.env["EXPIRY_WINDOW_DAYS"] ?? "", 10);
+  return Number.isFinite(raw) ? Math.max(0, Math.min(raw, MAX_EXPIRY_WINDOW_DAYS)) : DEFAULT_EXPIRY_WINDOW_DAYS;
+}
+
+/** Parse an `expiryWindow` query param (days); missing or invalid falls back to the configured window */
+export function parseExpiryWindow(raw: string | undefined): number {
+  const days = parseInt(raw ?? "", 10);
+  return Number.isFinite(days) ? Math.max(0, Math.min(days, MAX_EXPIRY_WINDOW_DAYS)) : expiryWindowDays();
+}
+
+/** Whole days until the model's expiration date (negative once past), or null if none is announced */
+export function daysUntilExpiry(model: EnrichedModel, now = Date.now()): number | null {
+  if (!model.expiresAt) return null;
+  const at = Date.parse(model.expiresAt);
+  return Number.isNaN(at) ? null : Math.floor((at - now) / DAY_MS);
+}
+
+/** True when the model expires within `windowDays` (or already has). A window of 0 disables this. */
+export function isExpiring(model: EnrichedModel, windowDays: number, now = Date.now()): boolean {
+  if (windowDays <= 0) return false;
+  const days = daysUntilExpiry(model, now);
+  return days !== null && days <= windowDays;
+}
+
+export function deprecationPenalty(model: EnrichedModel): number {
+  return model.expiresAt ? DEPRECATION_PENALTY : 0;
+}
+
+/**
+ * Provider plus the non-version words of the model name, so that
+ * "openai/gpt-4o-2024-05-13" and "openai/gpt-4.1" are both "openai/gpt" and
+ * "anthropic/claude-3.5-sonnet" matches "anthropic/claude-sonnet-4.5".
+ */
+function modelFamily(model: EnrichedModel): string {
+  const name = model.id.split(":")[0]!.split("/").pop() ?? "";
+  const words = name.split(/[-_.\s]+/).filter((w) => w && !/\d/.test(w)).sort();
+  return `${model.provider}/${words.join("-")}`;
+}
+
+/** Best-scoring model from the same provider family without an expiration date */
+export function findSuccessor(model: EnrichedModel, pool: EnrichedModel[], category: Category): EnrichedModel | null {
+  const family = modelFamily(model);
+  const score = (m: EnrichedModel) => m.scores[category] ?? m.scores.general ?? 0;
+  let best: EnrichedModel | null = null;
+  for (const m of pool) {
+    if (m.id === model.id || m.expiresAt || m.id.includes(":") || modelFamily(m) !== family) continue;
+    if (!best || score(m) > score(best)) best = m;
+  }
+  return best;
+}
+
+/**
+ * Reason suffix for a selection: warns when the pick itself is deprecated,
+ * or names the best model that was skipped for expiring, with a successor
+ * from its family where there is one. Empty when neither applies.
+ */
+export function expiryNote(
+  pick: EnrichedModel,
+  expiring: EnrichedModel[],
+  pool: EnrichedModel[],
+  category: Category
+): string {
+  if (pick.expiresAt) {
+    const successor = findSuccessor(pick, pool, category);
+    return ` — deprecated, expires ${pick.expiresAt.slice(0, 10)}${successor ? `; consider ${successor.id}` : ""}`;
+  }
+
+  const score = (m: EnrichedModel) => m.scores[category] ?? m.scores.general ?? 0;
+  const skipped = expiring
+    .filter((m) => score(m) > score(pick))
+    .sort((a, b) => score(b) - score(a))[0];
+  if (!skipped) return "";
+  const successor = findSuccessor(skipped, pool, category);
+  const swap = successor?.id === pick.id
+    ? `; ${pick.id} is its successor`
+    : successor ? `; successor: ${successor.id}` : "";
+  return ` — skipped ${skipped.id} (expires ${skipped.expiresAt!.slice(0, 10)})${swap}`;
+}
@@ -0,0 +1,69 @@
+import type { ModelSnapshot } from "./db.ts";
+
+export interface PriceChange {
+  id: string;
+  before: { prompt: number; completion: number };
+  after: { prompt: number; completion: number };
+}
+
+export interface ScoreChange {
+  id: string;
+  category: string;
+  before: number | null;
+  after: number | null;
+  delta: number;
+}
+
+export interface SnapshotDiff {
+  added: Array<{ id: string; pricing: { prompt: number; completion: number } }>;
+  removed: Array<{ id: string }>;
+  repriced: PriceChange[];
+  scoreChanges: ScoreChange[];
+}
+
+const round = (n: number) => Math.round(n * 100) / 100;
+
+/**
+ * Compare two refresh snapshots. A score that appears or disappears counts as a
+ * change; otherwise only moves of at least `minScoreDelta` points are reported.
+ */
+export function diffSnapshots(
+  before: ModelSnapshot[],
+  after: ModelSnapshot[],
+  minScoreDelta = 1
+): SnapshotDiff {
+  const prev = new Map(before.map((m) => [m.model, m]));
+  const next = new Map(after.map((m) => [m.model, m]));
+
+  const added = after
+    .filter((m) => !prev.has(m.model))
+    .map((m) => ({ id: m.model, pricing: m.pricing }));
+  const removed = before
+    .filter((m) => !next.has(m.model))
+    .map((m) => ({ id: m.model }));
+
+  const repriced: PriceChange[] = [];
+  const scoreChanges: ScoreChange[] = [];
+
+  for (const m of after) {
+    const old = prev.get(m.model);
+    if (!old) continue;
+
+    if (old.pricing.prompt !== m.pricing.prompt || old.pricing.completion !== m.pricing.completion) {
+      repriced.push({ id: m.model, before: old.pricing, after: m.pricing });
+    }
+
+    const categories = new Set([...Object.keys(old.scores), ...Object.keys(m.scores)]);
+    for (const category of categories) {
+      const b = old.scores[category] ?? null;
+      const a = m.scores[category] ?? null;
+      if (b === a) continue;
+      const delta = round((a ?? 0) - (b ?? 0));
+      if (b !== null && a !== null && Math.abs(delta) < minScoreDelta) continue;
+      scoreChanges.push({ id: m.model, category, before: b, after: a, delta });
+    }
+  }
+
+  scoreChanges.sort((x, y) => Math.abs(y.delta) - Math.abs(x.delta));
+  return { added, removed, repriced, scoreChanges };
+}
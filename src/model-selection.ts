@@ -2,35 +2,245 @@ import { pipeline } from "./enrichment/pipeline.ts";
 import { dbGetContextScoreBatch, dbGetCommunityScoreBatch } from "./db.ts";
 import type { Budget, Category, EnrichedModel } from "./types.ts";
 import { BUDGET_THRESHOLDS } from "./types.ts";
-import { blendScore } from "./scoring-utils.ts";
+import { explainBlend, type BlendOverrides, type BlendWeights } from "./scoring-utils.ts";
 import { computeContextBoost } from "./context-signals.ts";
+import { modelsForProfile, type WeightProfile } from "./weight-profiles.ts";
+import { deprecationPenalty, expiryNote, expiryWindowDays, isExpiring } from "./model-expiry.ts";
+import { getHealthSnapshot, reliabilityPenalty } from "./provider-health.ts";
+import { effectiveSpeed, meetsSpeedConstraints, type LatencyObjective, type Optimize } from "./model-speed.ts";
+
+const EXPLAIN_TOP_N = 5;
+const EXPLAIN_REMOVED_SAMPLE = 3;
+/** Share of the ranking given to speed or price under optimize=latency|cost */
+const OBJECTIVE_WEIGHT = 0.5;
+
+/** Every signal that went into a candidate's ranking score. */
+export interface CandidateBreakdown {
+  rank: number;
+  id: string;
+  name: string;
+  provider: string;
+  score: number;
+  benchmark: number;
+  personal: number | null;
+  contextScore: number | null;
+  community: number | null;
+  contextBoost: number;
+  deprecationPenalty: number;
+  reliabilityPenalty: number;
+  weights: BlendWeights;
+  pricing: { prompt: number; completion: number };
+}
+
+/** One filter step, with the best-scoring models it removed. */
+export interface FilterStep {
+  filter: "budget" | "exclude" | "require" | "minContext" | "category" | "expiring" | "speed";
+  detail: string;
+  removed: EnrichedModel[];
+}
+
+export interface SelectionExplanation {
+  category: Category;
+  contextTags: string[];
+  filters: Array<{
+    filter: FilterStep["filter"];
+    detail: string;
+    removed: number;
+    topRemoved: Array<{ id: string; score: number }>;
+  }>;
+  candidateCount: number;
+  candidates: CandidateBreakdown[];
+}
 
 /**
- * Sort models by blended score (benchmark + personal + context + community + context boost).
- * Mutates the array in-place and returns it.
+ * Keep the models matching `keep`; when a trace is passed, record what was
+ * dropped so explain mode can report it.
  */
-export function sortModelsByScore(
+export function applyFilter(
   models: EnrichedModel[],
-  category: Category,
-  contextTags: string[] = []
+  filter: FilterStep["filter"],
+  detail: string,
+  keep: (m: EnrichedModel) => boolean,
+  trace?: FilterStep[]
 ): EnrichedModel[] {
+  const kept: EnrichedModel[] = [];
+  const removed: EnrichedModel[] = [];
+  for (const m of models) (keep(m) ? kept : removed).push(m);
+  trace?.push({ filter, detail, removed });
+  return kept;
+}
+
+function scoreSignals(category: Category, contextTags: string[], blendOverrides?: BlendOverrides, tenant?: string) {
   const normParams = pipeline.getNormParams();
-  const ctxScores = dbGetContextScoreBatch(category, contextTags);
+  const ctxScores = dbGetContextScoreBatch(category, contextTags, tenant);
   const cmScores = dbGetCommunityScoreBatch(category);
+  const health = getHealthSnapshot();
+
+  return (model: EnrichedModel, rank = 0): CandidateBreakdown => {
+    const contextScore = contextTags.length ? (ctxScores.get(model.id) ?? null) : null;
+    const community = cmScores.get(model.id) ?? null;
+    const contextBoost = computeContextBoost(model, contextTags, normParams);
+    const penalty = deprecationPenalty(model);
+    const reliability = reliabilityPenalty(model, health);
+    const blend = explainBlend(model.scores[category] ?? model.scores.general ?? 0, model.id, category, {
+      contextScore,
+      communityScore: community,
+      weights: blendOverrides,
+      tenant,
+    });
+    return {
+      rank,
+      id: model.id,
+      name: model.name,
+      provider: model.provider,
+      score: Math.round((blend.score + contextBoost - penalty - reliability) * 100) / 100,
+      benchmark: blend.benchmarkScore,
+      personal: blend.signals.personal,
+      contextScore,
+      community,
+      contextBoost,
+      deprecationPenalty: penalty,
+      reliabilityPenalty: reliability,
+      weights: blend.weights,
+      pricing: model.pricing,
+    };
+  };
+}
+
+/**
+ * Drop models expiring within `windowDays`, recording them in the trace (if
+ * any) and in `expiring` so callers can say what was skipped.
+ */
+export function filterExpiring(
+  models: EnrichedModel[],
+  windowDays: number,
+  expiring: EnrichedModel[],
+  trace?: FilterStep[]
+): EnrichedModel[] {
+  if (windowDays <= 0) return models;
+  const steps: FilterStep[] = [];
+  const kept = applyFilter(models, "expiring", `expires within ${windowDays} days`,
+    (m) => !isExpiring(m, windowDays), steps);
+  expiring.push(...steps[0]!.removed);
+  trace?.push(...steps);
+  return kept;
+}
+
+/**
+ * Drop models not known to meet `maxTtfb` / `minTokensPerSecond`. Models with
+ * no speed data at all can't be vouched for, so they go too.
+ */
+export function filterSpeed(
+  models: EnrichedModel[],
+  objective: LatencyObjective,
+  trace?: FilterStep[]
+): EnrichedModel[] {
+  if (objective.maxTtfb === undefined && objective.minTokensPerSecond === undefined) return models;
+  const detail = [
+    objective.maxTtfb !== undefined ? `TTFB <= ${objective.maxTtfb}ms` : null,
+    objective.minTokensPerSecond !== undefined ? `>= ${objective.minTokensPerSecond} tok/s` : null,
+  ].filter(Boolean).join(", ");
+  return applyFilter(models, "speed", detail, (m) => meetsSpeedConstraints(effectiveSpeed(m), objective), trace);
+}
 
-  return models.sort((a, b) => {
-    const aCtx = contextTags.length ? (ctxScores.get(a.id) ?? null) : null;
-    const bCtx = contextTags.length ? (ctxScores.get(b.id) ?? null) : null;
-    const aCm = cmScores.get(a.id) ?? null;
-    const bCm = cmScores.get(b.id) ?? null;
-    const aBoost = computeContextBoost(a, contextTags, normParams);
-    const bBoost = computeContextBoost(b, contextTags, normParams);
-    const aScore = blendScore(a.scores[category] ?? a.scores.general ?? 0, a.id, category, { contextScore: aCtx, communityScore: aCm }) + aBoost;
-    const bScore = blendScore(b.scores[category] ?? b.scores.general ?? 0, b.id, category, { contextScore: bCtx, communityScore: bCm }) + bBoost;
-    return bScore - aScore;
+/** 0-100 position of each value among `values` (higher = better), null for unknowns */
+function percentiles(values: Array<number | null>, lowerIsBetter: boolean): Array<number | null> {
+  const known = values.filter((v): v is number => v !== null).sort((a, b) => a - b);
+  return values.map((v) => {
+    if (v === null) return null;
+    if (known.length < 2) return 100;
+    const below = known.filter((k) => (lowerIsBetter ? k > v : k < v)).length;
+    return (below / (known.length - 1)) * 100;
   });
 }
 
+/**
+ * Sort by the routing objective. `quality` is sortModelsByScore; `latency`
+ * and `cost` mix the blended score with the candidate's percentile on speed
+ * (throughput and TTFB) or price. Unknown speed counts as slowest.
+ * Mutates the array in-place and returns it.
+ */
+export function sortModelsByObjective(
+  models: EnrichedModel[],
+  optimize: Optimize,
+  category: Category,
+  contextTags: string[] = [],
+  blendOverrides?: BlendOverrides,
+  tenant?: string
+): EnrichedModel[] {
+  if (optimize === "quality") return sortModelsByScore(models, category, contextTags, blendOverrides, tenant);
+
+  const score = scoreSignals(category, contextTags, blendOverrides, tenant);
+  let objective: number[];
+  if (optimize === "latency") {
+    const speeds = models.map((m) => effectiveSpeed(m));
+    const tps = percentiles(speeds.map((s) => s?.tokensPerSecond ?? null), false);
+    const ttfb = percentiles(speeds.map((s) => s?.ttfbMs ?? null), true);
+    objective = models.map((_, i) => {
+      const known = [tps[i], ttfb[i]].filter((v): v is number => v !== null);
+      return known.length ? known.reduce((a, b) => a + b, 0) / known.length : 0;
+    });
+  } else {
+    objective = percentiles(models.map((m) => m.pricing.prompt + m.pricing.completion), true).map((v) => v ?? 0);
+  }
+
+  const ranked = new Map(models.map((m, i) => [
+    m.id,
+    (1 - OBJECTIVE_WEIGHT) * score(m).score + OBJECTIVE_WEIGHT * objective[i]!,
+  ]));
+  return models.sort((a, b) => ranked.get(b.id)! - ranked.get(a.id)!);
+}
+
+/**
+ * Sort models by blended score (benchmark + personal + context + community +
+ * context boost), less penalties for deprecated models and for models or
+ * providers currently failing (see provider-health.ts). Personal and context
+ * scores are the tenant's own.
+ * Mutates the array in-place and returns it.
+ */
+export function sortModelsByScore(
+  models: EnrichedModel[],
+  category: Category,
+  contextTags: string[] = [],
+  blendOverrides?: BlendOverrides,
+  tenant?: string
+): EnrichedModel[] {
+  const score = scoreSignals(category, contextTags, blendOverrides, tenant);
+  const scores = new Map(models.map((m) => [m.id, score(m).score]));
+  return models.sort((a, b) => scores.get(b.id)! - scores.get(a.id)!);
+}
+
+/**
+ * Score breakdown for the top `top` of an already sorted candidate list, plus
+ * what each filter step removed (highest benchmark scores first).
+ */
+export function explainSelection(
+  sorted: EnrichedModel[],
+  category: Category,
+  contextTags: string[],
+  trace: FilterStep[],
+  opts?: { top?: number; blend?: BlendOverrides; tenant?: string }
+): SelectionExplanation {
+  const score = scoreSignals(category, contextTags, opts?.blend, opts?.tenant);
+  const benchmark = (m: EnrichedModel) => m.scores[category] ?? m.scores.general ?? 0;
+
+  return {
+    category,
+    contextTags,
+    filters: trace.map((step) => ({
+      filter: step.filter,
+      detail: step.detail,
+      removed: step.removed.length,
+      topRemoved: [...step.removed]
+        .sort((a, b) => benchmark(b) - benchmark(a))
+        .slice(0, EXPLAIN_REMOVED_SAMPLE)
+        .map((m) => ({ id: m.id, score: benchmark(m) })),
+    })),
+    candidateCount: sorted.length,
+    candidates: sorted.slice(0, opts?.top ?? EXPLAIN_TOP_N).map((m, i) => score(m, i + 1)),
+  };
+}
+
 export interface ModelPick {
   id: string;
   name: string;
@@ -38,6 +248,7 @@ export interface ModelPick {
   score: number;
   pricing: { prompt: number; completion: number };
   reason: string;
+  explanation?: SelectionExplanation;
 }
 
 /**
@@ -48,37 +259,40 @@ export function pickBestModel(
   category: Category,
   budget: Budget,
   contextTags: string[] = [],
-  opts?: { exclude?: string[] }
+  opts?: { exclude?: string[]; explain?: boolean; profile?: WeightProfile; expiryWindow?: number; tenant?: string }
 ): ModelPick | null {
-  const state = pipeline.getState();
+  const models = opts?.profile ? modelsForProfile(opts.profile) : pipeline.getState().models;
+  const blend = opts?.profile?.blend;
   const tier = BUDGET_THRESHOLDS[budget] ?? BUDGET_THRESHOLDS.medium;
-  const normParams = pipeline.getNormParams();
   const excludeIds = opts?.exclude ?? [];
+  const trace: FilterStep[] | undefined = opts?.explain ? [] : undefined;
 
-  const filtered = state.models
-    .filter((m) => m.pricing.prompt >= tier.min && m.pricing.prompt <= tier.max)
-    .filter((m) => !excludeIds.includes(m.id))
-    .filter((m) => m.categories.includes(category) || m.categories.includes("general"));
+  let filtered = applyFilter(models, "budget", `${budget}: $${tier.min}-${tier.max}/M prompt`,
+    (m) => m.pricing.prompt >= tier.min && m.pricing.prompt <= tier.max, trace);
+  if (excludeIds.length > 0) {
+    filtered = applyFilter(filtered, "exclude", excludeIds.join(","), (m) => !excludeIds.includes(m.id), trace);
+  }
+  filtered = applyFilter(filtered, "category", `${category} or general`,
+    (m) => m.categories.includes(category) || m.categories.includes("general"), trace);
+  const expiring: EnrichedModel[] = [];
+  filtered = filterExpiring(filtered, opts?.expiryWindow ?? expiryWindowDays(), expiring, trace);
 
-  const candidates = sortModelsByScore(filtered, category, contextTags);
+  const tenant = opts?.tenant;
+  const candidates = sortModelsByScore(filtered, category, contextTags, blend, tenant);
 
   const best = candidates[0];
   if (!best) return null;
 
   // Compute final blended score for the picked model
-  const ctxScores = dbGetContextScoreBatch(category, contextTags);
-  const cmScores = dbGetCommunityScoreBatch(category);
-  const ctxScore = contextTags.length ? (ctxScores.get(best.id) ?? null) : null;
-  const cmScore = cmScores.get(best.id) ?? null;
-  const ctxBoost = computeContextBoost(best, contextTags, normParams);
-  const score = blendScore(best.scores[category] ?? best.scores.general ?? 0, best.id, category, { contextScore: ctxScore, communityScore: cmScore }) + ctxBoost;
+  const { score, contextBoost, reliabilityPenalty: reliability } = scoreSignals(category, contextTags, blend, tenant)(best);
 
   return {
     id: best.id,
     name: best.name,
     provider: best.provider,
-    score: Math.round(score * 100) / 100,
+    score,
     pricing: best.pricing,
-    reason: `Best ${category} model at ${budget} budget ($${tier.min}-${tier.max}/M) — score: ${Math.round(score * 100) / 100}${ctxBoost > 0 ? ` (context boost: +${ctxBoost})` : ""}`,
+    reason: `Best ${category} model at ${budget} budget ($${tier.min}-${tier.max}/M) — score: ${score}${contextBoost > 0 ? ` (context boost: +${contextBoost})` : ""}${reliability > 0 ? ` (reliability penalty: -${reliability})` : ""}${expiryNote(best, expiring, models, category)}`,
+    ...(trace ? { explanation: explainSelection(candidates, category, contextTags, trace, { blend, tenant }) } : {}),
   };
 }
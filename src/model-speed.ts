@@ -0,0 +1,217 @@
+import { dbGetSpeedSamples, dbPruneSpeedSamples, type SpeedSample } from "./db.ts";
+import { minReporters } from "./provider-health.ts";
+import type { EnrichedModel } from "./types.ts";
+
+/** Measurements older than this no longer count */
+const SPEED_WINDOW_MS = 7 * 24 * 60 * 60 * 1000;
+/** Artificial Analysis medians weigh as much as this many of our own measurements */
+const PRIOR_SAMPLES = 10;
+/** Without an AA median, a model needs this many measurements before they're trusted */
+const MIN_MEASURED_SAMPLES = 3;
+/** Samples per reporter and model that count within the window */
+export const MAX_SAMPLES_PER_REPORTER = 50;
+/** Too few output tokens make throughput mostly noise */
+const MIN_OUTPUT_TOKENS = 20;
+const MAX_TTFB_MS = 10 * 60 * 1000;
+const MAX_TOKENS_PER_SECOND = 10_000;
+const CACHE_TTL_MS = 60 * 1000;
+
+export type Optimize = "quality" | "latency" | "cost";
+
+/** Routing objective from /pick and /recommend query params */
+export interface LatencyObjective {
+  optimize: Optimize;
+  maxTtfb?: number;
+  minTokensPerSecond?: number;
+}
+
+export interface ModelSpeed {
+  ttfbMs?: number;
+  tokensPerSecond?: number;
+  /** Our own measurements behind the figures (0 = AA medians only) */
+  samples: number;
+  source: "measured" | "artificial-analysis" | "blended";
+}
+
+interface MeasuredSpeed {
+  ttfbMs: number | null;
+  ttfbSamples: number;
+  tokensPerSecond: number | null;
+  tpsSamples: number;
+}
+
+let cached: { at: number; speeds: Map<string, MeasuredSpeed> } | null = null;
+
+function median(values: number[]): number | null {
+  if (values.length === 0) return null;
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid]! : (sorted[mid - 1]! + sorted[mid]!) / 2;
+}
+
+/**
+ * Per-model medians of reported measurements, cached briefly. Like health
+ * reports, a model's measurements only count once enough distinct reporters
+ * sent them, so one key can't make a model look fast or slow for everyone.
+ */
+function getMeasuredSpeeds(now = Date.now()): Map<string, MeasuredSpeed> {
+  if (cached && now - cached.at < CACHE_TTL_MS) return cached.speeds;
+  const speeds = new Map<string, MeasuredSpeed>();
+  const since = new Date(now - SPEED_WINDOW_MS).toISOString();
+  for (const [model, samples] of dbGetSpeedSamples(since, MAX_SAMPLES_PER_REPORTER)) {
+    const reporters = new Set(samples.map((s) => s.reporter).filter((r) => r !== null));
+    if (reporters.size < minReporters()) continue;
+    const ttfb = samples.map((s) => s.ttfbMs).filter((v): v is number => v !== null);
+    const tps = samples.map((s) => s.tokensPerSecond).filter((v): v is number => v !== null);
+    speeds.set(model, {
+      ttfbMs: median(ttfb),
+      ttfbSamples: ttfb.length,
+      tokensPerSecond: median(tps),
+      tpsSamples: tps.length,
+    });
+  }
+  cached = { at: now, speeds };
+  return speeds;
+}
+
+/** Drop the cached medians (after new samples) and prune expired rows */
+export function invalidateMeasuredSpeeds(): void {
+  cached = null;
+  try {
+    dbPruneSpeedSamples(new Date(Date.now() - 4 * SPEED_WINDOW_MS).toISOString());
+  } catch (e) {
+    console.error("[speed] Failed to prune samples:", e);
+  }
+}
+
+/** Blend a measured median into the AA median, weighted by sample count */
+export function blendMetric(aa: number | undefined, measured: number | null, samples: number): number | undefined {
+  if (measured === null || samples === 0) return aa;
+  if (aa === undefined) return samples >= MIN_MEASURED_SAMPLES ? measured : undefined;
+  const w = samples / (samples + PRIOR_SAMPLES);
+  return w * measured + (1 - w) * aa;
+}
+
+/**
+ * Best estimate of a model's TTFB and throughput: Artificial Analysis medians
+ * blended with what executions have reported. Variants (:free) fall back to
+ * their base model's measurements. Null when nothing is known.
+ */
+export function effectiveSpeed(model: EnrichedModel): ModelSpeed | null {
+  const speeds = getMeasuredSpeeds();
+  const measured = speeds.get(model.id) ?? speeds.get(model.id.split(":")[0]!);
+  const aaTtfb = model.speed?.timeToFirstToken !== undefined ? model.speed.timeToFirstToken * 1000 : undefined;
+  const aaTps = model.speed?.outputTokensPerSecond;
+
+  const ttfbMs = blendMetric(aaTtfb, measured?.ttfbMs ?? null, measured?.ttfbSamples ?? 0);
+  const tokensPerSecond = blendMetric(aaTps, measured?.tokensPerSecond ?? null, measured?.tpsSamples ?? 0);
+  if (ttfbMs === undefined && tokensPerSecond === undefined) return null;
+
+  const samples = Math.max(measured?.ttfbSamples ?? 0, measured?.tpsSamples ?? 0);
+  const hasAA = aaTtfb !== undefined || aaTps !== undefined;
+  return {
+    ...(ttfbMs !== undefined ? { ttfbMs: Math.round(ttfbMs) } : {}),
+    ...(tokensPerSecond !== undefined ? { tokensPerSecond: Math.round(tokensPerSecond * 10) / 10 } : {}),
+    samples,
+    source: samples === 0 ? "artificial-analysis" : hasAA ? "blended" : "measured",
+  };
+}
+
+/** Whether a model is known to meet the objective's speed constraints */
+export function meetsSpeedConstraints(speed: ModelSpeed | null, objective: LatencyObjective): boolean {
+  if (objective.maxTtfb !== undefined && (speed?.ttfbMs === undefined || speed.ttfbMs > objective.maxTtfb)) {
+    return false;
+  }
+  if (
+    objective.minTokensPerSecond !== undefined &&
+    (speed?.tokensPerSecond === undefined || speed.tokensPerSecond < objective.minTokensPerSecond)
+  ) {
+    return false;
+  }
+  return true;
+}
+
+/** Whether speed matters to this request (optimizing for it, or limits set) */
+export function isLatencyBound(objective: LatencyObjective): boolean {
+  return objective.optimize === "latency" || objective.maxTtfb !== undefined || objective.minTokensPerSecond !== undefined;
+}
+
+/** Short " — 420ms TTFB, 95 tok/s (measured)" style reason suffix */
+export function speedNote(speed: ModelSpeed | null): string {
+  if (!speed) return "";
+  const parts = [
+    speed.ttfbMs !== undefined ? `${speed.ttfbMs}ms TTFB` : null,
+    speed.tokensPerSecond !== undefined ? `${speed.tokensPerSecond} tok/s` : null,
+  ].filter(Boolean);
+  return ` — ${parts.join(", ")} (${speed.source === "artificial-analysis" ? "AA median" : `${speed.samples} measured`})`;
+}
+
+function parsePositive(raw: string | undefined, max: number): number | undefined | null {
+  if (raw === undefined || raw.trim() === "") return undefined;
+  const n = Number(raw);
+  return Number.isFinite(n) && n > 0 && n <= max ? n : null;
+}
+
+/**
+ * Parse `optimize`, `maxTtfb` (ms) and `minTokensPerSecond` query params.
+ * Defaults to optimize=quality with no constraints.
+ */
+export function parseLatencyObjective(query: {
+  optimize?: string;
+  maxTtfb?: string;
+  minTokensPerSecond?: string;
+}): LatencyObjective | { error: string } {
+  const optimize = (query.optimize?.trim() || "quality") as Optimize;
+  if (!["quality", "latency", "cost"].includes(optimize)) {
+    return { error: "optimize must be quality, latency or cost" };
+  }
+  const maxTtfb = parsePositive(query.maxTtfb, MAX_TTFB_MS);
+  if (maxTtfb === null) return { error: `maxTtfb must be milliseconds between 1 and ${MAX_TTFB_MS}` };
+  const minTokensPerSecond = parsePositive(query.minTokensPerSecond, MAX_TOKENS_PER_SECOND);
+  if (minTokensPerSecond === null) {
+    return { error: `minTokensPerSecond must be between 1 and ${MAX_TOKENS_PER_SECOND}` };
+  }
+  return {
+    optimize,
+    ...(maxTtfb !== undefined ? { maxTtfb } : {}),
+    ...(minTokensPerSecond !== undefined ? { minTokensPerSecond } : {}),
+  };
+}
+
+/**
+ * Read speed fields from a report body: `ttfbMs`, and either `tokensPerSecond`
+ * or `outputTokens` over `durationMs` (less the TTFB when known). Returns null
+ * when the report carries no usable speed data.
+ */
+export function parseSpeedSample(
+  model: string,
+  raw: Record<string, unknown>,
+  durationMs: number | undefined,
+  source?: string
+): SpeedSample | null | { error: string } {
+  const num = (v: unknown) => (typeof v === "number" && Number.isFinite(v) && v >= 0 ? v : null);
+  const field = (name: string, max: number): number | undefined | { error: string } => {
+    if (raw[name] === undefined || raw[name] === null) return undefined;
+    const v = num(raw[name]);
+    return v === null || v > max ? { error: `${name} must be a number between 0 and ${max}` } : v;
+  };
+
+  const ttfbMs = field("ttfbMs", MAX_TTFB_MS);
+  if (typeof ttfbMs === "object") return ttfbMs;
+  let tokensPerSecond = field("tokensPerSecond", MAX_TOKENS_PER_SECOND);
+  if (typeof tokensPerSecond === "object") return tokensPerSecond;
+  const outputTokens = field("outputTokens", 10_000_000);
+  if (typeof outputTokens === "object") return outputTokens;
+
+  if (tokensPerSecond === undefined && outputTokens !== undefined && outputTokens >= MIN_OUTPUT_TOKENS && durationMs) {
+    const generatingMs = durationMs - (ttfbMs ?? 0);
+    if (generatingMs > 0) tokensPerSecond = Math.min(MAX_TOKENS_PER_SECOND, (outputTokens * 1000) / generatingMs);
+  }
+  if (ttfbMs === undefined && tokensPerSecond === undefined) return null;
+  return {
+    model,
+    ...(ttfbMs !== undefined ? { ttfbMs: Math.round(ttfbMs) } : {}),
+    ...(tokensPerSecond !== undefined ? { tokensPerSecond: Math.round(tokensPerSecond * 10) / 10 } : {}),
+    ...(source ? { source } : {}),
+  };
+}
@@ -0,0 +1,96 @@
+import {
+  dbGetHealthStats,
+  dbPruneHealthReports,
+  type HealthErrorKind,
+  type HealthStats,
+} from "./db.ts";
+import type { EnrichedModel } from "./types.ts";
+
+/** Reports older than this no longer affect routing */
+export const HEALTH_WINDOW_MS = 15 * 60 * 1000;
+/** Kept for /health-report's longer views, then pruned */
+const HEALTH_RETENTION_MS = 24 * 60 * 60 * 1000;
+/** Below this many reports a model or provider isn't judged */
+const MIN_REPORTS = 5;
+/** Reports per reporter and model/provider that count within the window */
+export const MAX_REPORTS_PER_REPORTER = 20;
+/** Failure rate tolerated before any penalty; the full penalty applies at MAX_PENALTY_RATE */
+const TOLERATED_FAILURE_RATE = 0.05;
+const MAX_PENALTY_RATE = 0.5;
+export const MAX_RELIABILITY_PENALTY = 20;
+const CACHE_TTL_MS = 10 * 1000;
+
+export interface HealthSnapshot {
+  windowMinutes: number;
+  models: Map<string, HealthStats>;
+  providers: Map<string, HealthStats>;
+}
+
+let cached: { at: number; snapshot: HealthSnapshot } | null = null;
+
+/** Classify a failed call from its HTTP status or error message */
+export function classifyHealthError(status: number | undefined, error: string | undefined): HealthErrorKind {
+  if (status === 429) return "rate_limit";
+  if (status !== undefined && status >= 500) return "server_error";
+  const text = (error ?? "").toLowerCase();
+  if (/\b429\b|rate.?limit|too many requests/.test(text)) return "rate_limit";
+  if (/timed? ?out|timeout|etimedout|aborted/.test(text)) return "timeout";
+  if (/\b5\d\d\b|overloaded|unavailable|bad gateway|internal server error/.test(text)) return "server_error";
+  return "client_error";
+}
+
+/** Current rolling window, cached briefly so ranking doesn't query per candidate */
+export function getHealthSnapshot(now = Date.now()): HealthSnapshot {
+  if (cached && now - cached.at < CACHE_TTL_MS) return cached.snapshot;
+  const stats = dbGetHealthStats(new Date(now - HEALTH_WINDOW_MS).toISOString(), MAX_REPORTS_PER_REPORTER);
+  const snapshot: HealthSnapshot = {
+    windowMinutes: HEALTH_WINDOW_MS / 60_000,
+    models: new Map(stats.models.map((s) => [s.key, s])),
+    providers: new Map(stats.providers.map((s) => [s.key, s])),
+  };
+  cached = { at: now, snapshot };
+  return snapshot;
+}
+
+/** Drop the cached window (after new reports) and prune expired rows */
+export function invalidateHealthSnapshot(): void {
+  cached = null;
+  try {
+    dbPruneHealthReports(new Date(Date.now() - HEALTH_RETENTION_MS).toISOString());
+  } catch (e) {
+    console.error("[health] Failed to prune reports:", e);
+  }
+}
+
+/**
+ * Distinct reporters needed before a model or provider is judged, so one key
+ * can't penalize a provider for everyone (HEALTH_MIN_REPORTERS, default 2).
+ */
+export function minReporters(): number {
+  const n = parseInt(process.env["HEALTH_MIN_REPORTERS"] ?? "", 10);
+  return Number.isFinite(n) && n >= 1 ? n : 2;
+}
+
+/** Failure rate, or null while there are too few reports or reporters to judge */
+export function failureRate(stats: HealthStats | undefined): number | null {
+  if (!stats || stats.requests < MIN_REPORTS || stats.reporters < minReporters()) return null;
+  return stats.failures / stats.requests;
+}
+
+/** Map a failure rate onto 0..MAX_RELIABILITY_PENALTY points */
+export function penaltyForRate(rate: number | null): number {
+  if (rate === null || rate <= TOLERATED_FAILURE_RATE) return 0;
+  const scaled = Math.min(1, (rate - TOLERATED_FAILURE_RATE) / (MAX_PENALTY_RATE - TOLERATED_FAILURE_RATE));
+  return Math.round(scaled * MAX_RELIABILITY_PENALTY * 10) / 10;
+}
+
+/**
+ * Ranking penalty for a model whose own calls, or its provider's, have been
+ * failing (429s, 5xx, timeouts) within the rolling window. The worse of the
+ * two applies; it fades as failures age out of the window.
+ */
+export function reliabilityPenalty(model: EnrichedModel, snapshot = getHealthSnapshot()): number {
+  const byModel = failureRate(snapshot.models.get(model.id));
+  const byProvider = failureRate(snapshot.providers.get(model.provider));
+  return Math.max(penaltyForRate(byModel), penaltyForRate(byProvider));
+}
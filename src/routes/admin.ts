@@ -0,0 +1,80 @@
+import { Hono } from "hono";
+import { dbGetApiKey, dbListApiKeys, dbRevokeApiKey } from "../db.ts";
+import { rateLimit } from "../middleware/rate-limit.ts";
+import { createApiKey, invalidateApiKeys } from "../tenants.ts";
+import { sanitizeTenant, sanitizeText } from "../utils/validation.ts";
+
+export const adminRoute = new Hono();
+
+adminRoute.use("*", rateLimit({ windowMs: 60 * 1000, max: 20 }));
+
+// Key management needs ADMIN_API_KEY (or REFRESH_API_KEY) and is off without one
+adminRoute.use("*", async (c, next) => {
+  const apiKey = process.env["ADMIN_API_KEY"] || process.env["REFRESH_API_KEY"];
+  if (!apiKey) {
+    return c.json(
+      { error: { code: "UNAUTHORIZED", message: "Admin endpoints are disabled: set ADMIN_API_KEY" } },
+      403
+    );
+  }
+  const auth = c.req.header("authorization") ?? "";
+  if (auth !== `Bearer ${apiKey}`) {
+    return c.json(
+      { error: { code: "UNAUTHORIZED", message: "Invalid or missing admin API key" } },
+      401
+    );
+  }
+  await next();
+});
+
+/**
+ * POST /admin/keys — Create an API key for a tenant.
+ * Body: { tenant, label? }. The key is only shown in this response.
+ */
+adminRoute.post("/keys", async (c) => {
+  const body = await c.req.json().catch(() => null);
+  const tenant = sanitizeTenant(typeof body?.tenant === "string" ? body.tenant : undefined);
+  if (!tenant) {
+    return c.json(
+      { error: { code: "INVALID_BODY", message: "tenant must be letters, digits and . _ : - (max 64)" } },
+      400
+    );
+  }
+  const label = body.label == null ? undefined : sanitizeText(String(body.label), 100);
+  if (label === null) {
+    return c.json(
+      { error: { code: "INVALID_BODY", message: "label must be plain text (max 100 chars)" } },
+      400
+    );
+  }
+
+  const { key, apiKey } = createApiKey(tenant, label);
+  invalidateApiKeys();
+  return c.json({ data: { ...apiKey, key } }, 201);
+});
+
+/** GET /admin/keys — Every key (never the key itself), newest first. ?tenant= filters to one tenant. */
+adminRoute.get("/keys", (c) => {
+  const rawTenant = c.req.query("tenant") ?? undefined;
+  const tenant = sanitizeTenant(rawTenant);
+  if (rawTenant && !tenant) {
+    return c.json(
+      { error: { code: "INVALID_PARAM", message: "tenant must be letters, digits and . _ : - (max 64)" } },
+      400
+    );
+  }
+  return c.json({ data: dbListApiKeys(tenant ?? undefined) });
+});
+
+/** DELETE /admin/keys/:id — Revoke a key; its tenant's data is kept */
+adminRoute.delete("/keys/:id", (c) => {
+  const id = c.req.param("id");
+  if (!dbRevokeApiKey(id)) {
+    const existing = dbGetApiKey(id);
+    return existing
+      ? c.json({ error: { code: "INVALID_PARAM", message: `Key ${id} is already revoked` } }, 400)
+      : c.json({ error: { code: "NOT_FOUND", message: `No key "${id.slice(0, 64)}"` } }, 404);
+  }
+  invalidateApiKeys();
+  return c.json({ data: dbGetApiKey(id) });
+});
@@ -0,0 +1,202 @@
+import { Hono } from "hono";
+import { dbDeleteCustomBenchmark, dbListCustomBenchmarks, dbSaveCustomBenchmark } from "../db.ts";
+import { pipeline } from "../enrichment/pipeline.ts";
+import type { WeightedCategory } from "../enrichment/scoring.ts";
+import { createModelMatcher } from "../enrichment/model-matcher.ts";
+import { getDeclaredBenchmarks } from "../enrichment/source-registry.ts";
+import {
+  CUSTOM_SOURCE,
+  parseScoreUpload,
+  reloadCustomBenchmarks,
+  validateScores,
+} from "../enrichment/sources/custom-benchmarks.ts";
+import { rateLimit } from "../middleware/rate-limit.ts";
+import { BUILTIN_BENCHMARK_KEYS, reloadWeightProfiles } from "../weight-profiles.ts";
+
+export const benchmarksRoute = new Hono();
+
+const WEIGHTED_CATEGORIES: WeightedCategory[] = ["general", "coding", "reasoning", "creative"];
+const MAX_ERRORS_REPORTED = 10;
+const MAX_UNMATCHED_REPORTED = 50;
+
+benchmarksRoute.use("*", rateLimit({ windowMs: 60 * 1000, max: 20 }));
+
+// Private results: uploads need BENCHMARK_API_KEY (or REFRESH_API_KEY) and are off without one
+benchmarksRoute.use("*", async (c, next) => {
+  const apiKey = process.env["BENCHMARK_API_KEY"] || process.env["REFRESH_API_KEY"];
+  if (!apiKey) {
+    return c.json(
+      { error: { code: "UNAUTHORIZED", message: "Custom benchmarks are disabled: set BENCHMARK_API_KEY" } },
+      403
+    );
+  }
+  const auth = c.req.header("authorization") ?? "";
+  if (auth !== `Bearer ${apiKey}`) {
+    return c.json(
+      { error: { code: "UNAUTHORIZED", message: "Invalid or missing benchmark API key" } },
+      401
+    );
+  }
+  await next();
+});
+
+/** Benchmark names become keys in `benchmarks`, so they can't shadow public ones */
+function validateName(raw: unknown): string | { error: string } {
+  if (typeof raw !== "string" || !/^[a-zA-Z][a-zA-Z0-9]{0,63}$/.test(raw)) {
+    return { error: "name must be a camelCase identifier (letters and digits, max 64)" };
+  }
+  const taken = getDeclaredBenchmarks().find((b) => b.key === raw && b.source !== CUSTOM_SOURCE);
+  if (BUILTIN_BENCHMARK_KEYS.includes(raw) || taken) {
+    return { error: `"${raw}" is already provided by ${taken?.source ?? "a built-in source"}` };
+  }
+  return raw;
+}
+
+/** Accepts { coding: 3 } from JSON or "coding:3,general:1" from the query string */
+function parseWeights(raw: unknown): Record<string, number> | undefined | { error: string } {
+  if (raw === undefined || raw === null || raw === "") return undefined;
+  const entries =
+    typeof raw === "string"
+      ? raw.split(",").map((pair) => {
+          const [category, weight] = pair.split(":");
+          return [category?.trim() ?? "", Number(weight)] as const;
+        })
+      : typeof raw === "object"
+        ? Object.entries(raw as Record<string, unknown>)
+        : null;
+  if (!entries) return { error: "weights must be an object like { \"coding\": 3 }" };
+
+  const weights: Record<string, number> = {};
+  for (const [category, weight] of entries) {
+    if (!WEIGHTED_CATEGORIES.includes(category as WeightedCategory)) {
+      return { error: `weights.${category}: only ${WEIGHTED_CATEGORIES.join(", ")} are weighted` };
+    }
+    if (typeof weight !== "number" || !Number.isFinite(weight) || weight < 0) {
+      return { error: `weights.${category} must be a number >= 0` };
+    }
+    weights[category] = weight;
+  }
+  return weights;
+}
+
+/**
+ * POST /benchmarks/custom — Upload per-model scores for a private benchmark.
+ *
+ * JSON body: { name, description?, weights?, replace?, scores: [{ model, score }] }
+ *   (or csv / jsonl as a string instead of scores)
+ * Raw body: text/csv or application/x-ndjson with ?name=&weights=coding:3&replace=true
+ *
+ * Weights are required when the benchmark is first created. Scores are merged
+ * into the catalog immediately; unmatched models are kept for later refreshes.
+ */
+benchmarksRoute.post("/custom", async (c) => {
+  const contentType = c.req.header("content-type") ?? "";
+  let body: Record<string, unknown>;
+  const errors: string[] = [];
+  let scores: Array<{ model: string; score: number }>;
+
+  if (contentType.includes("application/json")) {
+    const parsed = await c.req.json().catch(() => null);
+    if (!parsed || typeof parsed !== "object") {
+      return c.json({ error: { code: "INVALID_BODY", message: "Invalid JSON body" } }, 400);
+    }
+    body = parsed as Record<string, unknown>;
+    if (Array.isArray(body.scores)) {
+      scores = validateScores(body.scores.map((s) => ({ model: s?.model, score: s?.score })), errors);
+    } else if (typeof body.csv === "string" || typeof body.jsonl === "string") {
+      const upload = typeof body.csv === "string"
+        ? parseScoreUpload(body.csv, "csv")
+        : parseScoreUpload(body.jsonl as string, "jsonl");
+      scores = upload.scores;
+      errors.push(...upload.errors);
+    } else {
+      return c.json(
+        { error: { code: "MISSING_PARAM", message: "scores (array), csv or jsonl is required" } },
+        400
+      );
+    }
+  } else {
+    const format = /csv/.test(contentType) ? "csv" : /ndjson|jsonl/.test(contentType) ? "jsonl" : null;
+    if (!format) {
+      return c.json(
+        { error: { code: "INVALID_BODY", message: "Send application/json, text/csv or application/x-ndjson" } },
+        400
+      );
+    }
+    body = {
+      name: c.req.query("name"),
+      description: c.req.query("description"),
+      weights: c.req.query("weights"),
+      replace: c.req.query("replace") === "true",
+    };
+    const upload = parseScoreUpload(await c.req.text(), format);
+    scores = upload.scores;
+    errors.push(...upload.errors);
+  }
+
+  const name = validateName(body.name);
+  if (typeof name !== "string") {
+    return c.json({ error: { code: "INVALID_PARAM", message: name.error } }, 400);
+  }
+  const weights = parseWeights(body.weights);
+  if (weights && "error" in weights) {
+    return c.json({ error: { code: "INVALID_PARAM", message: weights.error as string } }, 400);
+  }
+  const existing = dbListCustomBenchmarks().find((b) => b.name === name);
+  if (!existing && !weights) {
+    return c.json(
+      { error: { code: "MISSING_PARAM", message: "weights are required for a new benchmark, e.g. { \"coding\": 3 }" } },
+      400
+    );
+  }
+  if (errors.length > 0) {
+    const shown = errors.slice(0, MAX_ERRORS_REPORTED).join("; ");
+    const more = errors.length > MAX_ERRORS_REPORTED ? ` (and ${errors.length - MAX_ERRORS_REPORTED} more)` : "";
+    return c.json({ error: { code: "INVALID_BODY", message: `${shown}${more}` } }, 400);
+  }
+  if (scores.length === 0) {
+    return c.json({ error: { code: "INVALID_BODY", message: "No scores found in upload" } }, 400);
+  }
+
+  const description = typeof body.description === "string" ? body.description.slice(0, 500) : undefined;
+  const replace = body.replace === true;
+  dbSaveCustomBenchmark({ name, description, weights: weights as Record<string, number> | undefined }, scores, replace);
+  reloadCustomBenchmarks();
+  const applied = await pipeline.mergeSource(CUSTOM_SOURCE);
+  reloadWeightProfiles();
+
+  const matcher = createModelMatcher(new Map(pipeline.getState().models.map((m) => [m.id, m])));
+  const unmatched = scores.filter((s) => !matcher.match(CUSTOM_SOURCE, s.model)).map((s) => s.model);
+
+  return c.json({
+    data: {
+      name,
+      created: !existing,
+      replaced: replace,
+      stored: scores.length,
+      matched: scores.length - unmatched.length,
+      unmatched: unmatched.slice(0, MAX_UNMATCHED_REPORTED),
+      applied,
+    },
+  });
+});
+
+/** GET /benchmarks/custom — List private benchmarks with their weights and model counts */
+benchmarksRoute.get("/custom", (c) => {
+  return c.json({ data: dbListCustomBenchmarks() });
+});
+
+/** DELETE /benchmarks/custom/:name — Remove a private benchmark and its scores */
+benchmarksRoute.delete("/custom/:name", async (c) => {
+  const name = c.req.param("name");
+  if (!dbDeleteCustomBenchmark(name)) {
+    return c.json(
+      { error: { code: "NOT_FOUND", message: `Custom benchmark "${name.slice(0, 64)}" not found` } },
+      404
+    );
+  }
+  reloadCustomBenchmarks();
+  const applied = await pipeline.mergeSource(CUSTOM_SOURCE);
+  reloadWeightProfiles();
+  return c.json({ data: { deleted: name, applied } });
+});
@@ -0,0 +1,111 @@
+import { Hono } from "hono";
+import { dbDeleteSpendBudget, dbListBudgetAlerts, dbListSpendBudgets, dbSaveSpendBudget } from "../db.ts";
+import { rateLimit } from "../middleware/rate-limit.ts";
+import { DEFAULT_ALERT_AT, getBudgetStatus, invalidateBudgetStatus } from "../spend-budgets.ts";
+import { sanitizeProject } from "../utils/validation.ts";
+import { tenantOf } from "../middleware/tenant-auth.ts";
+
+export const budgetsRoute = new Hono();
+
+const MAX_DAILY_USD = 100_000;
+const ALERT_HISTORY_DAYS = 7;
+
+budgetsRoute.use("*", rateLimit({ windowMs: 60 * 1000, max: 60 }));
+
+// Setting or removing budgets needs a tenant API key (for that tenant's own budgets) or
+// BUDGET_API_KEY (or REFRESH_API_KEY); keyless changes are off without one
+budgetsRoute.on(["PUT", "DELETE"], "*", async (c, next) => {
+  if (c.get("apiKeyId")) {
+    await next();
+    return;
+  }
+  const apiKey = process.env["BUDGET_API_KEY"] || process.env["REFRESH_API_KEY"];
+  if (!apiKey) {
+    return c.json(
+      { error: { code: "UNAUTHORIZED", message: "Budget changes are disabled: set BUDGET_API_KEY" } },
+      403
+    );
+  }
+  const auth = c.req.header("authorization") ?? "";
+  if (auth !== `Bearer ${apiKey}`) {
+    return c.json(
+      { error: { code: "UNAUTHORIZED", message: "Invalid or missing budget API key" } },
+      401
+    );
+  }
+  await next();
+});
+
+function alertsSince(): string {
+  return new Date(Date.now() - ALERT_HISTORY_DAYS * 86400_000).toISOString().slice(0, 10);
+}
+
+/** GET /budgets — Every project budget of the tenant with today's spend, burn rate and state */
+budgetsRoute.get("/", (c) => {
+  const tenant = tenantOf(c);
+  const budgets = dbListSpendBudgets(tenant).map((b) => ({ ...getBudgetStatus(b.project, tenant)!, updatedAt: b.updatedAt }));
+  return c.json({ data: budgets, meta: { alerts: dbListBudgetAlerts(alertsSince(), tenant) } });
+});
+
+/** GET /budgets/:project — One project's budget status and its recent alerts */
+budgetsRoute.get("/:project", (c) => {
+  const tenant = tenantOf(c);
+  const project = sanitizeProject(c.req.param("project"));
+  const status = project ? getBudgetStatus(project, tenant) : null;
+  if (!project || !status) {
+    return c.json(
+      { error: { code: "NOT_FOUND", message: `No budget for project "${c.req.param("project").slice(0, 64)}"` } },
+      404
+    );
+  }
+  return c.json({ data: { ...status, alerts: dbListBudgetAlerts(alertsSince(), tenant, project) } });
+});
+
+/**
+ * PUT /budgets/:project — Create or replace a project's daily budget.
+ * Body: { dailyUsd, alertAt? } where alertAt is the share of dailyUsd that
+ * raises a warning (default 0.8).
+ */
+budgetsRoute.put("/:project", async (c) => {
+  const project = sanitizeProject(c.req.param("project"));
+  if (!project) {
+    return c.json(
+      { error: { code: "INVALID_PARAM", message: "project must be letters, digits and . _ : - (max 64)" } },
+      400
+    );
+  }
+  const body = await c.req.json().catch(() => null);
+  const dailyUsd = body?.dailyUsd;
+  if (typeof dailyUsd !== "number" || !Number.isFinite(dailyUsd) || dailyUsd <= 0 || dailyUsd > MAX_DAILY_USD) {
+    return c.json(
+      { error: { code: "INVALID_BODY", message: `dailyUsd must be a number above 0 and at most ${MAX_DAILY_USD}` } },
+      400
+    );
+  }
+  const alertAt = body.alertAt ?? DEFAULT_ALERT_AT;
+  if (typeof alertAt !== "number" || !(alertAt > 0 && alertAt <= 1)) {
+    return c.json(
+      { error: { code: "INVALID_BODY", message: "alertAt must be a fraction above 0 and at most 1" } },
+      400
+    );
+  }
+
+  const tenant = tenantOf(c);
+  const budget = dbSaveSpendBudget(project, dailyUsd, alertAt, tenant);
+  invalidateBudgetStatus(project, tenant);
+  return c.json({ data: { ...getBudgetStatus(project, tenant)!, updatedAt: budget.updatedAt } });
+});
+
+/** DELETE /budgets/:project — Remove a project's budget and its alerts (spawn history is kept) */
+budgetsRoute.delete("/:project", (c) => {
+  const tenant = tenantOf(c);
+  const project = sanitizeProject(c.req.param("project"));
+  if (!project || !dbDeleteSpendBudget(project, tenant)) {
+    return c.json(
+      { error: { code: "NOT_FOUND", message: `No budget for project "${c.req.param("project").slice(0, 64)}"` } },
+      404
+    );
+  }
+  invalidateBudgetStatus(project, tenant);
+  return c.json({ data: { deleted: project } });
+});
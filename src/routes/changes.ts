@@ -0,0 +1,57 @@
+import { Hono } from "hono";
+import { dbGetSnapshotAt, dbGetSnapshotModels, dbListSnapshots } from "../db.ts";
+import { diffSnapshots } from "../model-history.ts";
+import { sanitizeSince } from "../utils/validation.ts";
+
+export const changesRoute = new Hono();
+
+/**
+ * GET /changes?since=7d
+ * New, removed and repriced models plus score deltas between the snapshot that was
+ * current at `since` and the latest one. Without `since`, compares the last two refreshes.
+ */
+changesRoute.get("/", (c) => {
+  const rawSince = c.req.query("since") ?? undefined;
+  const since = sanitizeSince(rawSince);
+  if (rawSince && !since) {
+    return c.json(
+      { error: { code: "INVALID_PARAM", message: "since must be an ISO date or a window like 24h / 7d" } },
+      400
+    );
+  }
+
+  const minDelta = Math.max(0, parseFloat(c.req.query("minDelta") ?? "1") || 0);
+
+  const [latest, previous] = dbListSnapshots(2);
+  if (!latest) {
+    return c.json(
+      { error: { code: "NO_HISTORY", message: "No snapshots recorded yet; history starts at the next refresh" } },
+      404
+    );
+  }
+
+  const base = since ? dbGetSnapshotAt(since) : previous ?? null;
+  if (!base || base.id === latest.id) {
+    return c.json({
+      data: { added: [], removed: [], repriced: [], scoreChanges: [] },
+      meta: { since, from: base, to: latest, minDelta },
+    });
+  }
+
+  const diff = diffSnapshots(dbGetSnapshotModels(base.id), dbGetSnapshotModels(latest.id), minDelta);
+  return c.json({
+    data: diff,
+    meta: {
+      since,
+      from: base,
+      to: latest,
+      minDelta,
+      counts: {
+        added: diff.added.length,
+        removed: diff.removed.length,
+        repriced: diff.repriced.length,
+        scoreChanges: diff.scoreChanges.length,
+      },
+    },
+  });
+});
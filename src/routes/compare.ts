@@ -1,6 +1,6 @@
 import { Hono } from "hono";
-import { pipeline } from "../enrichment/pipeline.ts";
 import { sanitizeModelIdList } from "../utils/validation.ts";
+import { modelsForProfile, resolveProfileParam } from "../weight-profiles.ts";
 
 export const compareRoute = new Hono();
 
@@ -21,9 +21,17 @@ compareRoute.get("/", (c) => {
     );
   }
 
-  const state = pipeline.getState();
-  const found = models.map((id) => state.models.find((m) => m.id === id)).filter(Boolean);
-  const missing = models.filter((id) => !state.models.find((m) => m.id === id));
+  const resolved = resolveProfileParam(c.req.query("profile") ?? undefined);
+  if ("error" in resolved) {
+    return c.json(
+      { error: { code: "INVALID_PARAM", message: resolved.error } },
+      400
+    );
+  }
+  const catalog = modelsForProfile(resolved.profile);
+
+  const found = models.map((id) => catalog.find((m) => m.id === id)).filter(Boolean);
+  const missing = models.filter((id) => !catalog.find((m) => m.id === id));
 
   if (found.length === 0) {
     return c.json(
@@ -52,5 +60,8 @@ compareRoute.get("/", (c) => {
       })),
       missing,
     },
+    meta: {
+      profile: resolved.profile.name,
+    },
   });
 });
@@ -3,6 +3,8 @@ import type { Budget } from "../types.ts";
 import { parseContextTags } from "../context-signals.ts";
 import { splitTask } from "../task-splitter.ts";
 import { pickBestModel } from "../model-selection.ts";
+import { resolveProfileParam } from "../weight-profiles.ts";
+import { tenantOf } from "../middleware/tenant-auth.ts";
 
 export const decomposeRoute = new Hono();
 
@@ -19,6 +21,16 @@ decomposeRoute.post("/", async (c) => {
   const budget: Budget = body.budget ?? "medium";
   const context: string | undefined = body.context;
   const contextTags = parseContextTags(context);
+  const explain = body.explain === true;
+
+  const resolved = resolveProfileParam(typeof body.profile === "string" ? body.profile : undefined);
+  if ("error" in resolved) {
+    return c.json(
+      { error: { code: "INVALID_PARAM", message: resolved.error } },
+      400
+    );
+  }
+  const { profile } = resolved;
 
   const { subtasks } = splitTask(task, budget);
 
@@ -29,7 +41,7 @@ decomposeRoute.post("/", async (c) => {
 
   // Pick a model for each subtask
   const steps = subtasks.map((st) => {
-    const pick = pickBestModel(st.category, st.budget, contextTags);
+    const pick = pickBestModel(st.category, st.budget, contextTags, { explain, profile, tenant: tenantOf(c) });
     return {
       step: st.step,
       task: st.task,
@@ -39,6 +51,7 @@ decomposeRoute.post("/", async (c) => {
         ? { id: pick.id, name: pick.name, provider: pick.provider, score: pick.score, pricing: pick.pricing }
         : null,
       reason: pick?.reason ?? `No model found for ${st.category} at ${st.budget} budget`,
+      ...(pick?.explanation ? { explanation: pick.explanation } : {}),
     };
   });
 
@@ -48,5 +61,6 @@ decomposeRoute.post("/", async (c) => {
     steps,
     originalTask: task,
     context: context ?? null,
+    profile: profile.name,
   });
 });
@@ -0,0 +1,167 @@
+import { Hono } from "hono";
+import {
+  dbRecordHealthReports,
+  dbRecordSpeedSamples,
+  type HealthErrorKind,
+  type HealthReport,
+  type HealthStats,
+  type SpeedSample,
+} from "../db.ts";
+import { pipeline } from "../enrichment/pipeline.ts";
+import { rateLimit } from "../middleware/rate-limit.ts";
+import { reporterOf, requireReporter } from "../middleware/reporter-auth.ts";
+import {
+  classifyHealthError,
+  failureRate,
+  getHealthSnapshot,
+  invalidateHealthSnapshot,
+  penaltyForRate,
+  reliabilityPenalty,
+} from "../provider-health.ts";
+import { invalidateMeasuredSpeeds, parseSpeedSample } from "../model-speed.ts";
+import { sanitizeModelId, sanitizeText } from "../utils/validation.ts";
+
+export const healthReportRoute = new Hono();
+
+const MAX_REPORTS_PER_REQUEST = 100;
+const MAX_LATENCY_MS = 30 * 60 * 1000;
+const HEALTH_ERROR_KINDS: HealthErrorKind[] = ["rate_limit", "server_error", "timeout", "client_error"];
+
+healthReportRoute.use("*", rateLimit({ windowMs: 60 * 1000, max: 120 }));
+
+/** Reports move rankings for every tenant, so each reporter gets its own limit too */
+const perReporterLimit = rateLimit({ windowMs: 60 * 1000, max: 30, keyBy: (c) => reporterOf(c) ?? "anonymous" });
+
+function parseReport(raw: unknown, index: number): { report: HealthReport; speed: SpeedSample | null } | { error: string } {
+  const r = (raw ?? {}) as Record<string, unknown>;
+  const at = `reports[${index}]`;
+  const model = typeof r.model === "string" ? sanitizeModelId(r.model) : null;
+  if (!model) return { error: `${at}.model must be a model ID` };
+  if (typeof r.ok !== "boolean") return { error: `${at}.ok must be true or false` };
+
+  let status: number | undefined;
+  if (r.status !== undefined && r.status !== null) {
+    if (!Number.isInteger(r.status) || (r.status as number) < 100 || (r.status as number) > 599) {
+      return { error: `${at}.status must be an HTTP status code` };
+    }
+    status = r.status as number;
+  }
+  let latencyMs: number | undefined;
+  if (r.latencyMs !== undefined && r.latencyMs !== null) {
+    if (typeof r.latencyMs !== "number" || !Number.isFinite(r.latencyMs) || r.latencyMs < 0) {
+      return { error: `${at}.latencyMs must be a number >= 0` };
+    }
+    latencyMs = Math.round(Math.min(r.latencyMs, MAX_LATENCY_MS));
+  }
+  const error = typeof r.error === "string" ? (sanitizeText(r.error.slice(0, 500)) ?? undefined) : undefined;
+  const source = typeof r.source === "string" ? (sanitizeText(r.source, 32) ?? undefined) : undefined;
+  // Executors that already classified the failure say so; anything else is classified here
+  const kind = HEALTH_ERROR_KINDS.includes(r.kind as HealthErrorKind)
+    ? (r.kind as HealthErrorKind)
+    : classifyHealthError(status, error);
+
+  // Only successful calls say anything about how fast a model is
+  const speed = r.ok ? parseSpeedSample(model, r, latencyMs, source) : null;
+  if (speed && "error" in speed) return { error: `${at}.${speed.error}` };
+
+  return {
+    report: {
+      model,
+      ok: r.ok,
+      kind: r.ok ? undefined : kind,
+      status,
+      latencyMs,
+      source,
+    },
+    speed,
+  };
+}
+
+/**
+ * POST /health-report — Executors report the outcome of model calls.
+ * Body: { model, ok, kind?, status?, latencyMs?, error?, source? } or { reports: [...] } (max 100).
+ * Successful calls may add ttfbMs and tokensPerSecond (or outputTokens) for
+ * the measured speeds behind optimize=latency.
+ *
+ * Failures are classified as rate_limit (429), server_error (5xx), timeout or
+ * client_error from the status and error text, unless the report names its
+ * `kind`; all but client_error count
+ * against the model's and its provider's reliability in ranking.
+ *
+ * Needs a tenant X-API-Key or the INGEST_API_KEY bearer; reports are recorded
+ * against that reporter (see provider-health.ts for how reporters are weighed).
+ */
+healthReportRoute.post("/", requireReporter(), perReporterLimit, async (c) => {
+  const body = await c.req.json().catch(() => null);
+  if (!body || typeof body !== "object") {
+    return c.json({ error: { code: "INVALID_BODY", message: "Invalid JSON body" } }, 400);
+  }
+  const raw: unknown[] = Array.isArray(body.reports) ? body.reports : [body];
+  if (raw.length === 0 || raw.length > MAX_REPORTS_PER_REQUEST) {
+    return c.json(
+      { error: { code: "INVALID_BODY", message: `Send 1-${MAX_REPORTS_PER_REQUEST} reports` } },
+      400
+    );
+  }
+
+  const reporter = reporterOf(c)!;
+  const reports: HealthReport[] = [];
+  const speeds: SpeedSample[] = [];
+  for (const [i, r] of raw.entries()) {
+    const parsed = parseReport(r, i);
+    if ("error" in parsed) {
+      return c.json({ error: { code: "INVALID_BODY", message: parsed.error } }, 400);
+    }
+    reports.push({ ...parsed.report, reporter });
+    if (parsed.speed) speeds.push({ ...parsed.speed, reporter });
+  }
+
+  dbRecordHealthReports(reports);
+  invalidateHealthSnapshot();
+  if (speeds.length > 0) {
+    dbRecordSpeedSamples(speeds);
+    invalidateMeasuredSpeeds();
+  }
+
+  return c.json({
+    data: {
+      recorded: reports.length,
+      failures: reports.filter((r) => r.kind && r.kind !== "client_error").length,
+      speedSamples: speeds.length,
+    },
+  });
+});
+
+/**
+ * GET /health-report — Current rolling window per provider and model, with
+ * the ranking penalty each one carries. ?provider= filters models to one provider.
+ */
+healthReportRoute.get("/", (c) => {
+  const snapshot = getHealthSnapshot();
+  const provider = c.req.query("provider");
+  const catalog = new Map(pipeline.getState().models.map((m) => [m.id, m]));
+  const withRate = (s: HealthStats) => ({
+    ...s,
+    failureRate: Math.round((s.failures / s.requests) * 1000) / 1000,
+  });
+
+  const providers = [...snapshot.providers.values()]
+    .filter((s) => !provider || s.key === provider)
+    .map((s) => ({ ...withRate(s), penalty: penaltyForRate(failureRate(s)) }));
+  const models = [...snapshot.models.values()]
+    .filter((s) => !provider || s.key.startsWith(`${provider}/`))
+    .map((s) => {
+      const model = catalog.get(s.key);
+      return { ...withRate(s), penalty: model ? reliabilityPenalty(model, snapshot) : 0 };
+    });
+  const byPenalty = (a: { penalty: number; requests: number }, b: { penalty: number; requests: number }) =>
+    b.penalty - a.penalty || b.requests - a.requests;
+
+  return c.json({
+    data: {
+      providers: providers.sort(byPenalty),
+      models: models.sort(byPenalty),
+    },
+    meta: { windowMinutes: snapshot.windowMinutes },
+  });
+});
@@ -1,8 +1,13 @@
 import { Hono } from "hono";
 import { pipeline } from "../enrichment/pipeline.ts";
+import { explainScores, type CategoryExplanation } from "../enrichment/scoring.ts";
 import type { Category, Tier } from "../types.ts";
-import { KNOWN_CATEGORIES } from "../scoring-utils.ts";
-import { sanitizeCategory, sanitizeSort, sanitizeTier } from "../utils/validation.ts";
+import { KNOWN_CATEGORIES, explainBlend, type BlendExplanation } from "../scoring-utils.ts";
+import { computeContextBoost, parseContextTags } from "../context-signals.ts";
+import { dbGetCommunityScore, dbGetContextScore, dbGetModelHistory } from "../db.ts";
+import { sanitizeCategory, sanitizeModelId, sanitizeSince, sanitizeSort, sanitizeTier } from "../utils/validation.ts";
+import { modelsForProfile, resolveProfileParam } from "../weight-profiles.ts";
+import { tenantOf } from "../middleware/tenant-auth.ts";
 
 export const modelsRoute = new Hono();
 
@@ -29,9 +34,18 @@ modelsRoute.get("/", (c) => {
   }
 
   const limit = Math.max(1, Math.min(parseInt(c.req.query("limit") ?? "50", 10) || 50, 500));
+  const offset = Math.max(0, parseInt(c.req.query("offset") ?? "0", 10) || 0);
   const sort = sanitizeSort(c.req.query("sort") ?? undefined);
 
-  let filtered = [...state.models];
+  const resolved = resolveProfileParam(c.req.query("profile") ?? undefined);
+  if ("error" in resolved) {
+    return c.json(
+      { error: { code: "INVALID_PARAM", message: resolved.error } },
+      400
+    );
+  }
+
+  let filtered = [...modelsForProfile(resolved.profile)];
 
   // Filter by category
   if (category) {
@@ -74,16 +88,144 @@ modelsRoute.get("/", (c) => {
   }
 
   const total = filtered.length;
-  filtered = filtered.slice(0, limit);
+  filtered = filtered.slice(offset, offset + limit);
 
   return c.json({
     data: filtered,
     meta: {
       total: state.models.length,
       filtered: total,
+      offset,
       returned: filtered.length,
       lastRefresh: state.lastRefresh,
       version: state.version,
+      profile: resolved.profile.name,
+    },
+  });
+});
+
+// Model IDs contain a slash ("openai/gpt-4o"), so the param has to span segments.
+modelsRoute.get("/:id{.+}/history", (c) => {
+  const id = sanitizeModelId(c.req.param("id"));
+  if (!id) {
+    return c.json(
+      { error: { code: "INVALID_PARAM", message: "model id is invalid" } },
+      400
+    );
+  }
+
+  const rawSince = c.req.query("since") ?? undefined;
+  const since = sanitizeSince(rawSince) ?? undefined;
+  if (rawSince && !since) {
+    return c.json(
+      { error: { code: "INVALID_PARAM", message: "since must be an ISO date or a window like 24h / 7d" } },
+      400
+    );
+  }
+
+  const limit = Math.max(1, Math.min(parseInt(c.req.query("limit") ?? "100", 10) || 100, 1000));
+  const points = dbGetModelHistory(id, since, limit);
+  if (points.length === 0) {
+    return c.json(
+      { error: { code: "NOT_FOUND", message: `No history for model ${id}` } },
+      404
+    );
+  }
+
+  return c.json({
+    data: {
+      id,
+      points,
+    },
+    meta: {
+      returned: points.length,
+      since: since ?? null,
+      first: points[0]!.takenAt,
+      last: points[points.length - 1]!.takenAt,
+    },
+  });
+});
+
+// Exactly "provider/model" — a greedy `.+` would also swallow ".../history".
+modelsRoute.get("/:id{[^/]+/[^/]+}", (c) => {
+  const id = sanitizeModelId(c.req.param("id"));
+  if (!id) {
+    return c.json(
+      { error: { code: "INVALID_PARAM", message: "model id is invalid" } },
+      400
+    );
+  }
+
+  const resolved = resolveProfileParam(c.req.query("profile") ?? undefined);
+  if ("error" in resolved) {
+    return c.json(
+      { error: { code: "INVALID_PARAM", message: resolved.error } },
+      400
+    );
+  }
+  const { profile } = resolved;
+
+  const model = modelsForProfile(profile).find((m) => m.id === id);
+  if (!model) {
+    return c.json(
+      { error: { code: "NOT_FOUND", message: `Model ${id} not found` } },
+      404
+    );
+  }
+
+  const contextTags = parseContextTags(c.req.query("context") ?? undefined);
+  const tenant = tenantOf(c);
+  const normParams = pipeline.getNormParams();
+  const computed = explainScores(model, normParams, profile.benchmarks);
+  const overrides = pipeline.loadSeedOverrides()[id]?.scores ?? {};
+
+  const categories: Partial<Record<Category, CategoryExplanation & {
+    computedScore: number | null;
+    seedOverride: boolean;
+    blend: BlendExplanation;
+  }>> = {};
+  for (const category of KNOWN_CATEGORIES) {
+    const score = model.scores[category];
+    if (score === undefined) continue;
+    const seedOverride = overrides[category] !== undefined;
+    const base = computed[category];
+    const how: Pick<CategoryExplanation, "method" | "detail" | "components"> = seedOverride
+      ? { method: "seed-override", detail: `Set by seed-overrides.yaml${base ? ` (benchmarks give ${base.score})` : ""}`, components: base?.components ?? [] }
+      : base ?? { method: "derived", detail: "Not reproducible from the current benchmarks", components: [] };
+    categories[category] = {
+      ...how,
+      score,
+      computedScore: base?.score ?? null,
+      seedOverride,
+      blend: explainBlend(score, id, category, {
+        contextScore: contextTags.length ? dbGetContextScore(id, category, contextTags, tenant) : null,
+        communityScore: dbGetCommunityScore(id, category),
+        weights: profile.blend,
+        tenant,
+      }),
+    };
+  }
+
+  const normalization: Record<string, { mean: number; stddev: number }> = {};
+  for (const key of Object.keys(model.benchmarks ?? {})) {
+    const p = normParams[key];
+    if (p) normalization[key] = { mean: Math.round(p.mean * 100) / 100, stddev: Math.round(p.stddev * 100) / 100 };
+  }
+
+  return c.json({
+    data: {
+      model,
+      explanation: {
+        categories,
+        normalization,
+        ...(contextTags.length > 0
+          ? { contextTags, contextBoost: computeContextBoost(model, contextTags, normParams) }
+          : {}),
+      },
+    },
+    meta: {
+      lastRefresh: pipeline.getState().lastRefresh,
+      profile: profile.name,
     },
   });
 });
@@ -1,16 +1,30 @@
 import { Hono } from "hono";
 import { pipeline } from "../enrichment/pipeline.ts";
 import { dbGetPersonalScore, dbGetContextScore, dbGetCommunityScore } from "../db.ts";
-import type { Budget, Category } from "../types.ts";
+import type { Budget, Category, EnrichedModel } from "../types.ts";
 import { BUDGET_THRESHOLDS } from "../types.ts";
 import { KNOWN_CATEGORIES, blendScore, classifyTask } from "../scoring-utils.ts";
 import { computeContextBoost, parseContextTags } from "../context-signals.ts";
-import { sortModelsByScore } from "../model-selection.ts";
-import { sanitizeBudget, sanitizeModelIdList, sanitizeText } from "../utils/validation.ts";
+import {
+  applyFilter,
+  explainSelection,
+  filterExpiring,
+  filterSpeed,
+  sortModelsByObjective,
+  type FilterStep,
+} from "../model-selection.ts";
+import { deprecationPenalty, expiryNote, parseExpiryWindow } from "../model-expiry.ts";
+import { reliabilityPenalty } from "../provider-health.ts";
+import { effectiveSpeed, isLatencyBound, parseLatencyObjective, speedNote } from "../model-speed.ts";
+import { sanitizeBudget, sanitizeFlag, sanitizeModelIdList, sanitizeProject, sanitizeText } from "../utils/validation.ts";
+import { modelsForProfile, resolveProfileParam } from "../weight-profiles.ts";
+import { budgetNote, getBudgetStatus, tightenBudget } from "../spend-budgets.ts";
+import { tenantOf } from "../middleware/tenant-auth.ts";
 
 export const pickRoute = new Hono();
 
 pickRoute.get("/", (c) => {
+  const tenant = tenantOf(c);
   const taskParam = sanitizeText(c.req.query("task") ?? undefined, 200);
   if (!taskParam) {
     return c.json(
@@ -20,7 +34,7 @@ pickRoute.get("/", (c) => {
   }
 
   const rawBudget = c.req.query("budget") ?? undefined;
-  const budget = (sanitizeBudget(rawBudget) ?? "medium") as Budget;
+  const requestedBudget = (sanitizeBudget(rawBudget) ?? "medium") as Budget;
   if (rawBudget && !sanitizeBudget(rawBudget)) {
     return c.json(
       { error: { code: "INVALID_PARAM", message: "budget is invalid" } },
@@ -28,6 +42,18 @@ pickRoute.get("/", (c) => {
     );
   }
 
+  // A project with a daily spend budget gets a tighter tier as it nears the cap
+  const rawProject = c.req.query("project") ?? undefined;
+  const project = sanitizeProject(rawProject);
+  if (rawProject && !project) {
+    return c.json(
+      { error: { code: "INVALID_PARAM", message: "project must be letters, digits and . _ : - (max 64)" } },
+      400
+    );
+  }
+  const spend = project ? getBudgetStatus(project, tenant) : null;
+  const budget = tightenBudget(requestedBudget, spend);
+
   const category: Category = KNOWN_CATEGORIES.includes(taskParam as Category)
     ? (taskParam as Category)
     : classifyTask(taskParam);
@@ -44,18 +70,50 @@ pickRoute.get("/", (c) => {
   // Context tags for context-aware routing
   const contextTags = parseContextTags(c.req.query("context") ?? undefined);
 
-  const state = pipeline.getState();
-  const tier = BUDGET_THRESHOLDS[budget] ?? BUDGET_THRESHOLDS.medium;
+  const resolved = resolveProfileParam(c.req.query("profile") ?? undefined);
+  if ("error" in resolved) {
+    return c.json(
+      { error: { code: "INVALID_PARAM", message: resolved.error } },
+      400
+    );
+  }
+  const { profile } = resolved;
 
-  // Filter by price range (min AND max) + category + exclusions
-  const filtered = state.models
-    .filter((m) => m.pricing.prompt >= tier.min && m.pricing.prompt <= tier.max)
-    .filter((m) => !excludeIds.includes(m.id))
-    .filter(
-      (m) => m.categories.includes(category) || m.categories.includes("general")
+  // Models expiring within this many days are skipped (0 keeps them, down-ranked)
+  const expiryWindow = parseExpiryWindow(c.req.query("expiryWindow") ?? undefined);
+
+  // Latency objective: hard TTFB/throughput limits, and what to optimize for
+  const objective = parseLatencyObjective({
+    optimize: c.req.query("optimize"),
+    maxTtfb: c.req.query("maxTtfb"),
+    minTokensPerSecond: c.req.query("minTokensPerSecond"),
+  });
+  if ("error" in objective) {
+    return c.json(
+      { error: { code: "INVALID_PARAM", message: objective.error } },
+      400
     );
+  }
+
+  // explain=true returns the top candidates' score components and what each filter removed
+  const trace: FilterStep[] | undefined = sanitizeFlag(c.req.query("explain") ?? undefined) ? [] : undefined;
+
+  const tier = BUDGET_THRESHOLDS[budget] ?? BUDGET_THRESHOLDS.medium;
+
+  // Filter by price range (min AND max) + category + exclusions + expiry + speed
+  const pool = modelsForProfile(profile);
+  let filtered = applyFilter(pool, "budget", `${budget}: $${tier.min}-${tier.max}/M prompt`,
+    (m) => m.pricing.prompt >= tier.min && m.pricing.prompt <= tier.max, trace);
+  if (excludeIds.length > 0) {
+    filtered = applyFilter(filtered, "exclude", excludeIds.join(","), (m) => !excludeIds.includes(m.id), trace);
+  }
+  filtered = applyFilter(filtered, "category", `${category} or general`,
+    (m) => m.categories.includes(category) || m.categories.includes("general"), trace);
+  const expiring: EnrichedModel[] = [];
+  filtered = filterExpiring(filtered, expiryWindow, expiring, trace);
+  filtered = filterSpeed(filtered, objective, trace);
 
-  const candidates = sortModelsByScore(filtered, category, contextTags);
+  const candidates = sortModelsByObjective(filtered, objective.optimize, category, contextTags, profile.blend, tenant);
 
   const best = candidates[0];
 
@@ -64,7 +122,7 @@ pickRoute.get("/", (c) => {
       {
         error: {
           code: "NO_MODEL",
-          message: `No model found for task=${taskParam} budget=${budget}`,
+          message: `No model found for task=${taskParam} budget=${budget}${objective.maxTtfb || objective.minTokensPerSecond ? " within the speed limits" : ""}`,
         },
       },
       404
@@ -72,11 +130,15 @@ pickRoute.get("/", (c) => {
   }
 
   const benchmarkScore = best.scores[category] ?? best.scores.general ?? 0;
-  const personalScore = dbGetPersonalScore(best.id, category);
-  const contextScore = contextTags.length ? dbGetContextScore(best.id, category, contextTags) : null;
+  const personalScore = dbGetPersonalScore(best.id, category, tenant);
+  const contextScore = contextTags.length ? dbGetContextScore(best.id, category, contextTags, tenant) : null;
   const communityScore = dbGetCommunityScore(best.id, category);
   const contextBoost = computeContextBoost(best, contextTags, pipeline.getNormParams());
-  const finalScore = blendScore(benchmarkScore, best.id, category, { contextScore, communityScore }) + contextBoost;
+  const reliability = reliabilityPenalty(best);
+  const speed = effectiveSpeed(best);
+  const latencyBound = isLatencyBound(objective);
+  const finalScore = blendScore(benchmarkScore, best.id, category, { contextScore, communityScore, weights: profile.blend, tenant })
+    + contextBoost - deprecationPenalty(best) - reliability;
 
   return c.json({
     data: {
@@ -88,10 +150,16 @@ pickRoute.get("/", (c) => {
       personalScore,
       ...(contextTags.length > 0 ? { contextBoost, contextTags } : {}),
       pricing: best.pricing,
+      ...(speed ? { speed } : {}),
+      ...(best.expiresAt ? { expiresAt: best.expiresAt } : {}),
       budget,
+      ...(spend ? { spendBudget: { ...spend, requestedBudget } } : {}),
       tier: { min: tier.min, max: tier.max },
       candidateCount: candidates.length,
-      reason: `Best ${category} model at ${budget} budget ($${tier.min}-${tier.max}/M) — score: ${Math.round(finalScore * 100) / 100}${personalScore != null ? ` (personal: ${Math.round(personalScore * 100)}%)` : ""}${contextBoost > 0 ? ` (context boost: +${contextBoost})` : ""}`,
+      profile: profile.name,
+      optimize: objective.optimize,
+      reason: `Best ${category} model at ${budget} budget ($${tier.min}-${tier.max}/M) — score: ${Math.round(finalScore * 100) / 100}${personalScore != null ? ` (personal: ${Math.round(personalScore * 100)}%)` : ""}${contextBoost > 0 ? ` (context boost: +${contextBoost})` : ""}${reliability > 0 ? ` (reliability penalty: -${reliability})` : ""}${objective.optimize !== "quality" ? ` (optimized for ${objective.optimize})` : ""}${latencyBound ? speedNote(speed) : ""}${expiryNote(best, expiring, pool, category)}${budgetNote(spend, requestedBudget, budget)}`,
+      ...(trace ? { explanation: explainSelection(candidates, category, contextTags, trace, { blend: profile.blend, tenant }) } : {}),
     },
   });
 });
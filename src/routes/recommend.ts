@@ -1,16 +1,35 @@
 import { Hono } from "hono";
-import { pipeline } from "../enrichment/pipeline.ts";
 import { dbGetPersonalScore } from "../db.ts";
 import type { Budget, Category, EnrichedModel } from "../types.ts";
 import { BUDGET_THRESHOLDS } from "../types.ts";
 import { KNOWN_CATEGORIES, classifyTask } from "../scoring-utils.ts";
 import { parseContextTags } from "../context-signals.ts";
-import { sortModelsByScore } from "../model-selection.ts";
-import { sanitizeBudget, sanitizeCapabilityList, sanitizeModelIdList, sanitizeText } from "../utils/validation.ts";
+import {
+  applyFilter,
+  explainSelection,
+  filterExpiring,
+  filterSpeed,
+  sortModelsByObjective,
+  type FilterStep,
+} from "../model-selection.ts";
+import { expiryNote, parseExpiryWindow } from "../model-expiry.ts";
+import { effectiveSpeed, isLatencyBound, parseLatencyObjective, speedNote } from "../model-speed.ts";
+import {
+  sanitizeBudget,
+  sanitizeCapabilityList,
+  sanitizeFlag,
+  sanitizeModelIdList,
+  sanitizeProject,
+  sanitizeText,
+} from "../utils/validation.ts";
+import { modelsForProfile, resolveProfileParam } from "../weight-profiles.ts";
+import { budgetNote, getBudgetStatus, tightenBudget } from "../spend-budgets.ts";
+import { tenantOf } from "../middleware/tenant-auth.ts";
 
 export const recommendRoute = new Hono();
 
 recommendRoute.get("/", (c) => {
+  const tenant = tenantOf(c);
   const taskParam = sanitizeText(c.req.query("task") ?? c.req.query("category") ?? undefined, 200);
   if (!taskParam) {
     return c.json(
@@ -20,7 +39,7 @@ recommendRoute.get("/", (c) => {
   }
 
   const rawBudget = c.req.query("budget") ?? undefined;
-  const budget = (sanitizeBudget(rawBudget) ?? "medium") as Budget;
+  const requestedBudget = (sanitizeBudget(rawBudget) ?? "medium") as Budget;
   if (rawBudget && !sanitizeBudget(rawBudget)) {
     return c.json(
       { error: { code: "INVALID_PARAM", message: "budget is invalid" } },
@@ -28,6 +47,18 @@ recommendRoute.get("/", (c) => {
     );
   }
 
+  // A project with a daily spend budget gets a tighter tier as it nears the cap
+  const rawProject = c.req.query("project") ?? undefined;
+  const project = sanitizeProject(rawProject);
+  if (rawProject && !project) {
+    return c.json(
+      { error: { code: "INVALID_PARAM", message: "project must be letters, digits and . _ : - (max 64)" } },
+      400
+    );
+  }
+  const spend = project ? getBudgetStatus(project, tenant) : null;
+  const budget = tightenBudget(requestedBudget, spend);
+
   const count = Math.max(1, Math.min(parseInt(c.req.query("count") ?? "1", 10) || 1, 5));
   const exclude = sanitizeModelIdList(c.req.query("exclude") ?? undefined, 50);
   if (exclude === null) {
@@ -46,63 +77,108 @@ recommendRoute.get("/", (c) => {
   }
 
   const minContext = Math.max(0, Math.min(parseInt(c.req.query("minContext") ?? "0", 10) || 0, 1_000_000));
+  const expiryWindow = parseExpiryWindow(c.req.query("expiryWindow") ?? undefined);
   const contextTags = parseContextTags(c.req.query("context") ?? undefined);
 
+  const objective = parseLatencyObjective({
+    optimize: c.req.query("optimize"),
+    maxTtfb: c.req.query("maxTtfb"),
+    minTokensPerSecond: c.req.query("minTokensPerSecond"),
+  });
+  if ("error" in objective) {
+    return c.json(
+      { error: { code: "INVALID_PARAM", message: objective.error } },
+      400
+    );
+  }
+  const latencyBound = isLatencyBound(objective);
+
+  const resolved = resolveProfileParam(c.req.query("profile") ?? undefined);
+  if ("error" in resolved) {
+    return c.json(
+      { error: { code: "INVALID_PARAM", message: resolved.error } },
+      400
+    );
+  }
+  const { profile } = resolved;
+
   // Classify task
   const category = KNOWN_CATEGORIES.includes(taskParam as Category)
     ? (taskParam as Category)
     : classifyTask(taskParam);
 
-  const state = pipeline.getState();
-  let candidates = [...state.models];
+  // explain=true returns the top candidates' score components and what each filter removed
+  const trace: FilterStep[] | undefined = sanitizeFlag(c.req.query("explain") ?? undefined) ? [] : undefined;
+
+  const pool = modelsForProfile(profile);
+  let candidates = [...pool];
 
   // Filter by budget
   const tier = BUDGET_THRESHOLDS[budget] ?? BUDGET_THRESHOLDS.medium;
-  candidates = candidates.filter((m) => m.pricing.prompt >= tier.min && m.pricing.prompt <= tier.max);
+  candidates = applyFilter(candidates, "budget", `${budget}: $${tier.min}-${tier.max}/M prompt`,
+    (m) => m.pricing.prompt >= tier.min && m.pricing.prompt <= tier.max, trace);
 
   // Filter by exclusions
   if (exclude.length > 0) {
-    candidates = candidates.filter((m) => !exclude.includes(m.id));
+    candidates = applyFilter(candidates, "exclude", exclude.join(","), (m) => !exclude.includes(m.id), trace);
   }
 
   // Filter by required capabilities
   for (const req of require) {
-    candidates = candidates.filter((m) => {
+    candidates = applyFilter(candidates, "require", req, (m) => {
       if (req === "vision") return m.capabilities.vision;
       if (req === "functionCalling") return m.capabilities.functionCalling;
       if (req === "json") return m.capabilities.json;
       if (req === "reasoning") return m.capabilities.reasoning;
       return true;
-    });
+    }, trace);
   }
 
   // Filter by minimum context
   if (minContext > 0) {
-    candidates = candidates.filter((m) => m.contextLength >= minContext);
+    candidates = applyFilter(candidates, "minContext", `>= ${minContext} tokens`,
+      (m) => m.contextLength >= minContext, trace);
   }
 
   // Filter by category relevance
-  candidates = candidates.filter(
-    (m) => m.categories.includes(category) || m.categories.includes("general")
-  );
+  candidates = applyFilter(candidates, "category", `${category} or general`,
+    (m) => m.categories.includes(category) || m.categories.includes("general"), trace);
+
+  // Skip models about to be removed from OpenRouter
+  const expiring: EnrichedModel[] = [];
+  candidates = filterExpiring(candidates, expiryWindow, expiring, trace);
+
+  // Filter by measured/AA speed limits
+  candidates = filterSpeed(candidates, objective, trace);
 
-  // Sort by blended score (benchmark + personal + context + community)
-  sortModelsByScore(candidates, category, contextTags);
+  // Sort by blended score (benchmark + personal + context + community), mixed with speed or price if optimizing for them
+  sortModelsByObjective(candidates, objective.optimize, category, contextTags, profile.blend, tenant);
 
   // Take top N, preferring diverse providers
   const recommendations = pickDiverse(candidates, count, category);
 
   return c.json({
-    data: recommendations.map((model) => ({
+    data: recommendations.map((model, i) => ({
       model,
-      reason: buildReason(model, category, budget),
-      confidence: computeConfidence(model, category),
+      // Only the top pick mentions better models skipped for expiring
+      reason: buildReason(model, category, budget)
+        + (latencyBound ? speedNote(effectiveSpeed(model)) : "")
+        + expiryNote(model, i === 0 ? expiring : [], pool, category)
+        + (i === 0 ? budgetNote(spend, requestedBudget, budget) : ""),
+      confidence: computeConfidence(model, category, tenant),
     })),
     meta: {
       task: category,
       taskRaw: taskParam,
       budget,
+      ...(spend ? { spendBudget: { ...spend, requestedBudget } } : {}),
       candidatesConsidered: candidates.length,
+      expiryWindow,
+      ...objective,
+      profile: profile.name,
+      ...(trace
+        ? { explanation: explainSelection(candidates, category, contextTags, trace, { top: Math.max(count, 5), blend: profile.blend, tenant }) }
+        : {}),
     },
   });
 });
@@ -154,7 +230,8 @@ function buildReason(
 
   parts.push(`at ${budget} budget`);
 
-  if (model.speed?.outputTokensPerSecond && model.speed.outputTokensPerSecond >= 80) {
+  const tokensPerSecond = effectiveSpeed(model)?.tokensPerSecond;
+  if (tokensPerSecond && tokensPerSecond >= 80) {
     parts.push("(fast)");
   }
 
@@ -165,7 +242,7 @@ function buildReason(
   return parts.join(" ");
 }
 
-function computeConfidence(model: EnrichedModel, category: Category): number {
+function computeConfidence(model: EnrichedModel, category: Category, tenant: string): number {
   const score = model.scores[category] ?? model.scores.general;
   if (score === undefined) return 0.3;
 
@@ -181,7 +258,7 @@ function computeConfidence(model: EnrichedModel, category: Category): number {
   if (model.benchmarks?.arena) confidence += 0.1;
 
   // Has personal feedback data — strong signal
-  const personal = dbGetPersonalScore(model.id, category);
+  const personal = dbGetPersonalScore(model.id, category, tenant);
   if (personal != null) confidence += 0.15;
 
   return Math.min(confidence, 0.99);
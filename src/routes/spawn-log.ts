@@ -1,21 +1,100 @@
-import { Hono } from "hono";
-import { dbLogSpawn, dbGetSpawnStats, dbReportOutcome, dbReportContextOutcome, dbGetPersonalScores } from "../db.ts";
+import { Hono, type Context } from "hono";
+import {
+  dbLogSpawn,
+  dbGetSpawnStats,
+  dbReportOutcome,
+  dbReportContextOutcome,
+  dbGetPersonalScores,
+  dbRecordSpeedSamples,
+  dbUpdateSpawnUsage,
+  dbListSpendBudgets,
+  type SpawnUsage,
+  type SpeedSample,
+} from "../db.ts";
 import { pipeline } from "../enrichment/pipeline.ts";
 import { parseContextTags } from "../context-signals.ts";
-import { sanitizeCategory } from "../utils/validation.ts";
+import { invalidateMeasuredSpeeds, parseSpeedSample } from "../model-speed.ts";
+import { invalidateTokenHistory, spawnCost } from "../cost-estimate.ts";
+import { classifyTask } from "../scoring-utils.ts";
+import { getBudgetStatus, invalidateBudgetStatus } from "../spend-budgets.ts";
+import { tenantOf } from "../middleware/tenant-auth.ts";
+import { reporterOf } from "../middleware/reporter-auth.ts";
+import { sanitizeCategory, sanitizeProject, sanitizeText } from "../utils/validation.ts";
 
 export const spawnLogRoute = new Hono();
 
+const MAX_TOKENS = 10_000_000;
+const MAX_LATENCY_MS = 24 * 60 * 60 * 1000;
+const MAX_COST_USD = 10_000;
+
+/** Read actual usage fields from a request body; absent fields stay undefined */
+function parseUsage(body: Record<string, unknown>): SpawnUsage | { error: string } {
+  const usage: SpawnUsage = {};
+  for (const key of ["promptTokens", "completionTokens", "reasoningTokens"] as const) {
+    const v = body[key];
+    if (v === undefined || v === null) continue;
+    if (!Number.isInteger(v) || (v as number) < 0 || (v as number) > MAX_TOKENS) {
+      return { error: `${key} must be an integer between 0 and ${MAX_TOKENS}` };
+    }
+    usage[key] = v as number;
+  }
+  if (body.latencyMs !== undefined && body.latencyMs !== null) {
+    const v = body.latencyMs;
+    if (typeof v !== "number" || !Number.isFinite(v) || v < 0 || v > MAX_LATENCY_MS) {
+      return { error: `latencyMs must be a number between 0 and ${MAX_LATENCY_MS}` };
+    }
+    usage.latencyMs = Math.round(v);
+  }
+  if (body.costUsd !== undefined && body.costUsd !== null) {
+    const v = body.costUsd;
+    if (typeof v !== "number" || !Number.isFinite(v) || v < 0 || v > MAX_COST_USD) {
+      return { error: `costUsd must be a number between 0 and ${MAX_COST_USD}` };
+    }
+    usage.costUsd = v;
+  }
+  return usage;
+}
+
+/**
+ * A speed sample from explicit `ttfbMs`, `tokensPerSecond` or `outputTokens`
+ * over `durationMs`. Usage latency covers the whole spawn (tool calls,
+ * retries) so it's never used. Only requests with an API key or the ingest
+ * token record samples, since they steer latency routing for every tenant.
+ */
+function speedSampleFrom(
+  c: Context,
+  model: string,
+  body: Record<string, unknown>,
+  source: string
+): SpeedSample | null | { error: string } {
+  const durationMs = typeof body.durationMs === "number" && body.durationMs > 0 ? body.durationMs : undefined;
+  const speed = parseSpeedSample(model, body, durationMs, source);
+  if (!speed || "error" in speed) return speed;
+  const reporter = reporterOf(c);
+  return reporter ? { ...speed, reporter } : null;
+}
+
 /**
  * POST /spawn-log — Plugin reports a spawn event.
- * Body: { model, category, budget, mode, source }
+ * Body: { model, category, budget, mode, source } (or `task` in place of
+ * category, classified like /pick does), plus optional timings
+ * { ttfbMs, tokensPerSecond | outputTokens, durationMs } for measured speeds
+ * and actual usage { promptTokens, completionTokens, reasoningTokens,
+ * latencyMs, costUsd } when the spawn has already finished. `project` counts
+ * the spawn against that project's spend budget (see /budgets). The spawn is
+ * logged for the tenant of the request's API key.
  * Pricing is looked up from the model catalog automatically.
+ * Returns the spawn's ID, for reporting usage later via /spawn-log/usage.
  */
 spawnLogRoute.post("/", async (c) => {
+  const tenant = tenantOf(c);
   const body = await c.req.json().catch(() => null);
-  if (!body?.model || !body?.category) {
+  // Executors that don't track categories send the task text instead
+  const task = typeof body?.task === "string" ? sanitizeText(body.task, 200) : null;
+  const category = body?.category || (task ? classifyTask(task) : null);
+  if (!body?.model || !category) {
     return c.json(
-      { error: { code: "INVALID_BODY", message: "model and category are required" } },
+      { error: { code: "INVALID_BODY", message: "model and category (or task) are required" } },
       400
     );
   }
@@ -25,9 +104,26 @@ spawnLogRoute.post("/", async (c) => {
   const modelId = (body.model as string).replace(/^openrouter\//, "");
   const found = state.models.find((m) => m.id === modelId);
 
-  dbLogSpawn({
+  const usage = parseUsage(body);
+  if ("error" in usage) {
+    return c.json({ error: { code: "INVALID_BODY", message: usage.error } }, 400);
+  }
+  const project = typeof body.project === "string" ? sanitizeProject(body.project) : null;
+  if (body.project != null && !project) {
+    return c.json(
+      { error: { code: "INVALID_BODY", message: "project must be letters, digits and . _ : - (max 64)" } },
+      400
+    );
+  }
+
+  const speed = speedSampleFrom(c, modelId, body, body.source ?? "api");
+  if (speed && "error" in speed) {
+    return c.json({ error: { code: "INVALID_BODY", message: speed.error } }, 400);
+  }
+
+  const id = dbLogSpawn({
     model: modelId,
-    category: body.category,
+    category,
     budget: body.budget ?? "medium",
     mode: body.mode ?? "single",
     role: body.role ?? "primary",
@@ -35,14 +131,72 @@ spawnLogRoute.post("/", async (c) => {
     promptPrice: found?.pricing.prompt ?? 0,
     completionPrice: found?.pricing.completion ?? 0,
     context: body.context ?? undefined,
+    project: project ?? undefined,
+    tenant,
+    ...usage,
   });
+  if (usage.completionTokens !== undefined) invalidateTokenHistory();
+  if (project) invalidateBudgetStatus(project, tenant);
+  if (speed) {
+    dbRecordSpeedSamples([speed]);
+    invalidateMeasuredSpeeds();
+  }
 
-  return c.json({ data: { logged: true } });
+  return c.json({ data: { logged: true, id } });
+});
+
+/**
+ * POST /spawn-log/usage — Report actual usage once a logged spawn finishes.
+ * Body: { id, promptTokens?, completionTokens?, reasoningTokens?, latencyMs?, costUsd? }
+ * where id is what POST /spawn-log returned for the same tenant. Measured cost replaces the
+ * estimate in /spawn-log/stats; token counts feed future cost estimates. Speed
+ * fields are read as on POST /spawn-log.
+ */
+spawnLogRoute.post("/usage", async (c) => {
+  const body = await c.req.json().catch(() => null);
+  if (!body || !Number.isInteger(body.id) || body.id < 1) {
+    return c.json(
+      { error: { code: "INVALID_BODY", message: "id of a logged spawn is required" } },
+      400
+    );
+  }
+  const usage = parseUsage(body);
+  if ("error" in usage) {
+    return c.json({ error: { code: "INVALID_BODY", message: usage.error } }, 400);
+  }
+  if (Object.keys(usage).length === 0) {
+    return c.json(
+      {
+        error: {
+          code: "INVALID_BODY",
+          message: "Report at least one of promptTokens, completionTokens, reasoningTokens, latencyMs, costUsd",
+        },
+      },
+      400
+    );
+  }
+
+  const tenant = tenantOf(c);
+  const spawn = dbUpdateSpawnUsage(body.id, usage, tenant);
+  if (!spawn) {
+    return c.json({ error: { code: "NOT_FOUND", message: `No spawn with id ${body.id}` } }, 404);
+  }
+  if (usage.completionTokens !== undefined) invalidateTokenHistory();
+  if (spawn.project) invalidateBudgetStatus(spawn.project, tenant);
+
+  const speed = speedSampleFrom(c, spawn.model, body, "usage");
+  if (speed && !("error" in speed)) {
+    dbRecordSpeedSamples([speed]);
+    invalidateMeasuredSpeeds();
+  }
+
+  return c.json({ data: { updated: true, id: body.id, model: spawn.model, ...usage } });
 });
 
 /**
  * POST /spawn-log/outcome — Report quality feedback for a model+category.
- * Body: { model, category, rating } where rating is 1-5.
+ * Body: { model, category, rating } where rating is 1-5. Feedback only
+ * shapes rankings for the tenant that gave it.
  */
 spawnLogRoute.post("/outcome", async (c) => {
   const body = await c.req.json().catch(() => null);
@@ -56,19 +210,20 @@ spawnLogRoute.post("/outcome", async (c) => {
   const rating = Math.max(1, Math.min(5, Math.round(body.rating)));
   const modelId = (body.model as string).replace(/^openrouter\//, "");
 
-  dbReportOutcome(modelId, body.category, rating);
+  const tenant = tenantOf(c);
+  dbReportOutcome(modelId, body.category, rating, tenant);
 
   // Also update context-aware scores if context tags provided
   const contextTags = parseContextTags(body.context);
   if (contextTags.length > 0) {
-    dbReportContextOutcome(modelId, body.category, contextTags, rating);
+    dbReportContextOutcome(modelId, body.category, contextTags, rating, tenant);
   }
 
   return c.json({ data: { recorded: true, model: modelId, category: body.category, rating } });
 });
 
 /**
- * GET /spawn-log/scores?category=coding&minSamples=3 — Personal model scores.
+ * GET /spawn-log/scores?category=coding&minSamples=3 — The tenant's personal model scores.
  */
 spawnLogRoute.get("/scores", (c) => {
   const rawCategory = c.req.query("category") ?? undefined;
@@ -80,15 +235,30 @@ spawnLogRoute.get("/scores", (c) => {
     );
   }
   const minSamples = Math.max(1, parseInt(c.req.query("minSamples") ?? "3", 10) || 3);
-  const scores = dbGetPersonalScores(category || undefined, minSamples);
+  const scores = dbGetPersonalScores(category || undefined, tenantOf(c), minSamples);
   return c.json({ data: scores });
 });
 
 /**
- * GET /spawn-log/stats?days=7 — Spawn statistics for cost dashboard.
+ * GET /spawn-log/stats?days=7&project= — The tenant's spawn statistics for cost dashboard.
+ * With a project, only its spawns count, plus today's burn rate against its
+ * spend budget when it has one; without, every budget's burn rate is listed.
  */
 spawnLogRoute.get("/stats", (c) => {
   const days = Math.max(1, Math.min(parseInt(c.req.query("days") ?? "7", 10) || 7, 365));
-  const stats = dbGetSpawnStats(days);
-  return c.json({ data: stats });
+  const rawProject = c.req.query("project") ?? undefined;
+  const project = sanitizeProject(rawProject);
+  if (rawProject && !project) {
+    return c.json(
+      { error: { code: "INVALID_PARAM", message: "project must be letters, digits and . _ : - (max 64)" } },
+      400
+    );
+  }
+  const tenant = tenantOf(c);
+  const stats = dbGetSpawnStats(days, spawnCost(tenant), { tenant, project: project ?? undefined });
+  if (project) {
+    return c.json({ data: { ...stats, project, budget: getBudgetStatus(project, tenant) } });
+  }
+  const budgets = dbListSpendBudgets(tenant).map((b) => getBudgetStatus(b.project, tenant)!);
+  return c.json({ data: { ...stats, ...(budgets.length > 0 ? { budgets } : {}) } });
 });
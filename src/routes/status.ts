@@ -1,6 +1,7 @@
 import { Hono } from "hono";
 import { pipeline } from "../enrichment/pipeline.ts";
 import { getAliasStats } from "../enrichment/alias-map.ts";
+import { listWeightProfiles } from "../weight-profiles.ts";
 
 export const statusRoute = new Hono();
 
@@ -24,8 +25,32 @@ statusRoute.get("/", (c) => {
       modelsWithScores,
       modelsWithBenchmarks,
       aliases: aliasStats,
+      profiles: listWeightProfiles(),
       sources: state.sources,
       version: state.version,
     },
   });
 });
+
+/**
+ * GET /status/unmatched — Source entries that matched no OpenRouter ID, with
+ * suggested IDs to add them under in aliases.yaml. ?source= filters to one source.
+ */
+statusRoute.get("/unmatched", (c) => {
+  const report = pipeline.getUnmatchedReport();
+  const source = c.req.query("source");
+  const sources = source ? { [source]: report.sources[source] ?? [] } : report.sources;
+  // Entries with a strong suggestion first: those are the quickest to fix
+  const entries = Object.values(sources)
+    .flat()
+    .sort((a, b) => (b.suggestions[0]?.similarity ?? 0) - (a.suggestions[0]?.similarity ?? 0));
+
+  return c.json({
+    data: entries,
+    meta: {
+      updatedAt: report.updatedAt || null,
+      total: entries.length,
+      bySource: Object.fromEntries(Object.entries(sources).map(([name, list]) => [name, list.length])),
+    },
+  });
+});
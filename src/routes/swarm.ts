@@ -4,6 +4,11 @@ import { parseContextTags } from "../context-signals.ts";
 import { splitTask } from "../task-splitter.ts";
 import type { SplitMethod } from "../task-splitter.ts";
 import { pickBestModel } from "../model-selection.ts";
+import { composeFromExplicit } from "../roles/composer.ts";
+import { estimateCost } from "../cost-estimate.ts";
+import { pipeline } from "../enrichment/pipeline.ts";
+import { resolveProfileParam } from "../weight-profiles.ts";
+import { tenantOf } from "../middleware/tenant-auth.ts";
 
 export const swarmRoute = new Hono();
 
@@ -304,6 +309,15 @@ swarmRoute.post("/", async (c) => {
   const maxParallel = Math.min(Math.max(1, body.maxParallel ?? 5), 8);
   const contextTags = parseContextTags(context);
 
+  const resolved = resolveProfileParam(typeof body.profile === "string" ? body.profile : undefined);
+  if ("error" in resolved) {
+    return c.json(
+      { error: { code: "INVALID_PARAM", message: resolved.error } },
+      400
+    );
+  }
+  const { profile } = resolved;
+
   // Split the task
   const { subtasks, method } = splitTask(task, budget);
 
@@ -352,9 +366,27 @@ swarmRoute.post("/", async (c) => {
   // Compute waves
   const waveMap = computeWaves(taskIds, edges, maxParallel);
 
-  // Pick a model for each task
+  // Pick a model for each task, and estimate its cost from the prompt it would get
+  const tenant = tenantOf(c);
+  const catalog = new Map(pipeline.getState().models.map((m) => [m.id, m]));
+  const promptsSeen = new Set<string>();
   const dagTasks = swarmTasks.map((t) => {
-    const pick = pickBestModel(t.category, t.budget, contextTags);
+    const pick = pickBestModel(t.category, t.budget, contextTags, { profile, tenant });
+    const model = pick ? catalog.get(pick.id) : undefined;
+    let cost: ReturnType<typeof estimateCost> | null = null;
+    if (model) {
+      // Tasks sharing a persona on the same model repeat the role prompt, which providers can serve from cache
+      const { fullPrompt } = composeFromExplicit({ task: t.description, persona: t.persona });
+      const rolePrompt = fullPrompt.slice(0, fullPrompt.lastIndexOf(t.description));
+      const cacheKey = `${model.id}\u0000${t.persona}`;
+      cost = estimateCost(model, {
+        category: t.category,
+        text: fullPrompt,
+        cachedText: promptsSeen.has(cacheKey) ? rolePrompt : undefined,
+        tenant,
+      });
+      promptsSeen.add(cacheKey);
+    }
     return {
       id: t.id,
       description: t.description,
@@ -367,6 +399,7 @@ swarmRoute.post("/", async (c) => {
         : null,
       reason: pick?.reason ?? `No model found for ${t.category} at ${t.budget} budget`,
       wave: waveMap.get(t.id) ?? 0,
+      estimatedCost: cost,
     };
   });
 
@@ -386,18 +419,16 @@ swarmRoute.post("/", async (c) => {
       description: `${ids.length} ${ids.length === 1 ? "task" : "parallel tasks"}`,
     }));
 
-  // Cost estimation: assume 1K tokens (low) and 10K tokens (high) per task
-  const estimatedCost = { low: 0, high: 0 };
+  // Range over predicted output length; prompt tokens come from each task's text
+  const estimatedCost = { low: 0, expected: 0, high: 0 };
   for (const t of dagTasks) {
-    if (t.model) {
-      // pricing is per 1M tokens, so 1K tokens = pricing / 1000, 10K = pricing / 100
-      const promptCostLow = (t.model.pricing.prompt / 1000) + (t.model.pricing.completion / 1000);
-      const promptCostHigh = (t.model.pricing.prompt / 100) + (t.model.pricing.completion / 100);
-      estimatedCost.low += promptCostLow;
-      estimatedCost.high += promptCostHigh;
-    }
+    if (!t.estimatedCost) continue;
+    estimatedCost.low += t.estimatedCost.low;
+    estimatedCost.expected += t.estimatedCost.costUsd;
+    estimatedCost.high += t.estimatedCost.high;
   }
   estimatedCost.low = Math.round(estimatedCost.low * 1000) / 1000;
+  estimatedCost.expected = Math.round(estimatedCost.expected * 1000) / 1000;
   estimatedCost.high = Math.round(estimatedCost.high * 1000) / 1000;
 
   return c.json({
@@ -410,6 +441,7 @@ swarmRoute.post("/", async (c) => {
       totalWaves: waves.length,
       originalTask: task,
       context: context ?? null,
+      profile: profile.name,
       estimatedCost,
       ...(warning ? { warning } : {}),
     },
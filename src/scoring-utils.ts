@@ -58,8 +58,13 @@ export function classifyTask(taskText: string): Category {
 export interface BlendScoreOpts {
   contextScore?: number | null;   // 0-1, from context_scores table
   communityScore?: number | null; // 0-1, from community_scores table
+  weights?: BlendOverrides;       // from the active weight profile
+  tenant?: string;                // whose personal scores to use (default tenant when omitted)
 }
 
+/** Per-signal weights that replace the matrix value wherever that signal is present. */
+export type BlendOverrides = Partial<Record<"personal" | "context" | "community", number>>;
+
 /**
  * Blend benchmark score with personal feedback, context, and community scores.
  *
@@ -81,39 +86,81 @@ export function blendScore(
   category: string,
   opts?: BlendScoreOpts
 ): number {
-  const personal = dbGetPersonalScore(modelId, category);
+  return explainBlend(benchmarkScore, modelId, category, opts).score;
+}
+
+export interface BlendWeights {
+  benchmark: number;
+  personal: number;
+  context: number;
+  community: number;
+}
+
+export interface BlendExplanation {
+  score: number;
+  benchmarkScore: number;
+  /** Signals on their 0-1 scale; null when there is no data */
+  signals: { personal: number | null; context: number | null; community: number | null };
+  weights: BlendWeights;
+}
+
+/**
+ * Row of the blending matrix for the signals that are present. Overrides
+ * replace the weight of each present signal; the benchmark gets the rest.
+ */
+export function blendWeights(
+  hasPersonal: boolean,
+  hasContext: boolean,
+  hasCommunity: boolean,
+  overrides?: BlendOverrides
+): BlendWeights {
+  const row = matrixRow(hasPersonal, hasContext, hasCommunity);
+  if (!overrides) return row;
+
+  const personal = hasPersonal ? (overrides.personal ?? row.personal) : 0;
+  const context = hasContext ? (overrides.context ?? row.context) : 0;
+  const community = hasCommunity ? (overrides.community ?? row.community) : 0;
+  return { benchmark: Math.max(0, 1 - personal - context - community), personal, context, community };
+}
+
+function matrixRow(hasPersonal: boolean, hasContext: boolean, hasCommunity: boolean): BlendWeights {
+  const w = (benchmark: number, personal: number, context: number, community: number) =>
+    ({ benchmark, personal, context, community });
+
+  if (!hasPersonal && !hasContext && !hasCommunity) return w(1, 0, 0, 0);
+  if (hasPersonal && !hasContext && !hasCommunity) return w(0.7, 0.3, 0, 0);
+  if (hasPersonal && hasContext && !hasCommunity) return w(0.6, 0.2, 0.2, 0);
+  if (!hasPersonal && hasContext && !hasCommunity) return w(0.8, 0, 0.2, 0);
+  if (!hasPersonal && !hasContext && hasCommunity) return w(0.7, 0, 0, 0.3);
+  if (hasPersonal && !hasContext && hasCommunity) return w(0.5, 0.25, 0, 0.25);
+  if (!hasPersonal && hasContext && hasCommunity) return w(0.55, 0, 0.2, 0.25);
+  // all three
+  return w(0.45, 0.2, 0.15, 0.2);
+}
+
+/** Same as blendScore, but also returns the signals and matrix weights that produced it. */
+export function explainBlend(
+  benchmarkScore: number,
+  modelId: string,
+  category: string,
+  opts?: BlendScoreOpts
+): BlendExplanation {
+  const personal = dbGetPersonalScore(modelId, category, opts?.tenant);
   const context = opts?.contextScore ?? null;
   const community = opts?.communityScore ?? null;
+  const signals = { personal, context, community };
 
-  const hasPersonal = personal != null;
-  const hasContext = context != null;
-  const hasCommunity = community != null;
+  const weights = blendWeights(personal != null, context != null, community != null, opts?.weights);
+  if (weights.benchmark === 1) {
+    return { score: benchmarkScore, benchmarkScore, signals, weights };
+  }
 
   // Scale 0-1 values to 0-100 for blending
-  const pScore = hasPersonal ? personal * 100 : 0;
-  const cxScore = hasContext ? context * 100 : 0;
-  const cmScore = hasCommunity ? community * 100 : 0;
-
-  let result: number;
-
-  if (!hasPersonal && !hasContext && !hasCommunity) {
-    return benchmarkScore;
-  } else if (hasPersonal && !hasContext && !hasCommunity) {
-    result = benchmarkScore * 0.7 + pScore * 0.3;
-  } else if (hasPersonal && hasContext && !hasCommunity) {
-    result = benchmarkScore * 0.6 + pScore * 0.2 + cxScore * 0.2;
-  } else if (!hasPersonal && hasContext && !hasCommunity) {
-    result = benchmarkScore * 0.8 + cxScore * 0.2;
-  } else if (!hasPersonal && !hasContext && hasCommunity) {
-    result = benchmarkScore * 0.7 + cmScore * 0.3;
-  } else if (hasPersonal && !hasContext && hasCommunity) {
-    result = benchmarkScore * 0.5 + pScore * 0.25 + cmScore * 0.25;
-  } else if (!hasPersonal && hasContext && hasCommunity) {
-    result = benchmarkScore * 0.55 + cxScore * 0.2 + cmScore * 0.25;
-  } else {
-    // all three
-    result = benchmarkScore * 0.45 + pScore * 0.2 + cxScore * 0.15 + cmScore * 0.2;
-  }
+  const result =
+    benchmarkScore * weights.benchmark +
+    (personal ?? 0) * 100 * weights.personal +
+    (context ?? 0) * 100 * weights.context +
+    (community ?? 0) * 100 * weights.community;
 
-  return Math.round(result * 100) / 100;
+  return { score: Math.round(result * 100) / 100, benchmarkScore, signals, weights };
 }
@@ -0,0 +1,144 @@
+import {
+  DEFAULT_TENANT,
+  dbGetProjectSpend,
+  dbGetSpendBudget,
+  dbRecordBudgetAlert,
+  type BudgetAlertLevel,
+  type SpendBudget,
+} from "./db.ts";
+import { spawnCost } from "./cost-estimate.ts";
+import type { Budget } from "./types.ts";
+
+/** Share of the daily cap that raises a warning, unless the budget sets its own */
+export const DEFAULT_ALERT_AT = 0.8;
+/** Burn rate is measured over at least this long, so one early spawn doesn't project wildly */
+const MIN_BURN_WINDOW_HOURS = 1;
+const CACHE_TTL_MS = 30 * 1000;
+
+/** Tiers from tightest to loosest; tightening steps left */
+const BUDGET_ORDER: Budget[] = ["low", "medium", "high", "any"];
+
+export type BudgetState = "ok" | "warning" | "exceeded";
+
+export interface BudgetStatus {
+  tenant: string;
+  project: string;
+  day: string; // UTC date the spend is counted for
+  dailyUsd: number;
+  alertAt: number;
+  spentUsd: number;
+  remainingUsd: number;
+  spawns: number;
+  /** Average spend per hour so far today */
+  burnRatePerHour: number;
+  /** Spend by the end of the day at the current burn rate */
+  projectedUsd: number;
+  state: BudgetState;
+}
+
+/** Keyed by `${tenant}\n${project}` */
+const cached = new Map<string, { at: number; status: BudgetStatus | null }>();
+
+function cacheKey(tenant: string, project: string): string {
+  return `${tenant}\n${project}`;
+}
+
+function roundUsd(n: number): number {
+  return Math.round(n * 10_000) / 10_000;
+}
+
+function computeStatus(budget: SpendBudget, now: number): BudgetStatus {
+  const day = new Date(now).toISOString().slice(0, 10);
+  const midnight = Date.parse(`${day}T00:00:00.000Z`);
+  const { spawns, spentUsd } = dbGetProjectSpend(
+    budget.project, new Date(midnight).toISOString(), spawnCost(budget.tenant), budget.tenant
+  );
+
+  const hoursElapsed = Math.max((now - midnight) / 3600_000, MIN_BURN_WINDOW_HOURS);
+  const burnRatePerHour = spentUsd / hoursElapsed;
+  const projectedUsd = spentUsd + burnRatePerHour * Math.max(0, 24 - (now - midnight) / 3600_000);
+
+  // Warn at the alert threshold, or earlier when the burn rate will blow the cap by tonight
+  const state: BudgetState = spentUsd >= budget.dailyUsd
+    ? "exceeded"
+    : spentUsd >= budget.dailyUsd * budget.alertAt || projectedUsd > budget.dailyUsd
+      ? "warning"
+      : "ok";
+
+  return {
+    tenant: budget.tenant,
+    project: budget.project,
+    day,
+    dailyUsd: budget.dailyUsd,
+    alertAt: budget.alertAt,
+    spentUsd: roundUsd(spentUsd),
+    remainingUsd: roundUsd(Math.max(0, budget.dailyUsd - spentUsd)),
+    spawns,
+    burnRatePerHour: roundUsd(burnRatePerHour),
+    projectedUsd: roundUsd(projectedUsd),
+    state,
+  };
+}
+
+/** Record the day's first warning/exceeded alert for a project and log it */
+function raiseAlert(status: BudgetStatus): void {
+  if (status.state === "ok") return;
+  const level: BudgetAlertLevel = status.state;
+  try {
+    const isNew = dbRecordBudgetAlert({
+      tenant: status.tenant,
+      project: status.project,
+      day: status.day,
+      level,
+      spentUsd: status.spentUsd,
+      dailyUsd: status.dailyUsd,
+    });
+    if (isNew) {
+      const who = status.tenant === DEFAULT_TENANT ? status.project : `${status.tenant}/${status.project}`;
+      console.warn(
+        `[budget] ${who} ${level === "exceeded" ? "exceeded" : "approaching"} its $${status.dailyUsd}/day budget: ` +
+        `$${status.spentUsd} spent, $${status.projectedUsd} projected`
+      );
+    }
+  } catch (e) {
+    console.error("[budget] Failed to record alert:", e);
+  }
+}
+
+/**
+ * Today's spend against a tenant project's daily budget, cached briefly. Null
+ * when the project has no budget. Crossing the warning or cap raises an alert.
+ */
+export function getBudgetStatus(project: string, tenant = DEFAULT_TENANT, now = Date.now()): BudgetStatus | null {
+  const key = cacheKey(tenant, project);
+  const hit = cached.get(key);
+  if (hit && now - hit.at < CACHE_TTL_MS) return hit.status;
+  const budget = dbGetSpendBudget(project, tenant);
+  const status = budget ? computeStatus(budget, now) : null;
+  if (status) raiseAlert(status);
+  cached.set(key, { at: now, status });
+  return status;
+}
+
+/** Drop cached status after spend or budget changes (all projects when omitted) */
+export function invalidateBudgetStatus(project?: string, tenant = DEFAULT_TENANT): void {
+  if (project) cached.delete(cacheKey(tenant, project));
+  else cached.clear();
+}
+
+/**
+ * The budget tier to route at given a project's spend: one tier tighter once
+ * it's in warning, the cheapest tier once it's over the cap.
+ */
+export function tightenBudget(budget: Budget, status: BudgetStatus | null): Budget {
+  if (!status || status.state === "ok") return budget;
+  if (status.state === "exceeded") return "low";
+  return BUDGET_ORDER[Math.max(0, BUDGET_ORDER.indexOf(budget) - 1)]!;
+}
+
+/** Short " — project X at $16.2 of $20/day, budget high → medium" style reason suffix */
+export function budgetNote(status: BudgetStatus | null, requested: Budget, applied: Budget): string {
+  if (!status || status.state === "ok") return "";
+  const tightened = applied !== requested ? `, budget ${requested} → ${applied}` : "";
+  return ` — project ${status.project} ${status.state === "exceeded" ? "over" : "at"} $${status.spentUsd} of $${status.dailyUsd}/day${tightened}`;
+}
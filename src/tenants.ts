@@ -0,0 +1,52 @@
+import { createHash, randomBytes } from "node:crypto";
+import { dbCreateApiKey, dbGetApiKeyByHash, dbTouchApiKey, type ApiKey } from "./db.ts";
+
+/**
+ * Tenant API keys. Each key belongs to one tenant, whose personal and
+ * context scores, spawn log and spend budgets are kept apart from everyone
+ * else's. Community scores stay shared across tenants.
+ */
+
+const KEY_PREFIX = "ss_";
+const CACHE_TTL_MS = 60 * 1000;
+
+/** Keyed by key hash; null marks an unknown or revoked key */
+const cached = new Map<string, { at: number; key: ApiKey | null }>();
+
+function hashKey(key: string): string {
+  return createHash("sha256").update(key).digest("hex");
+}
+
+/** Whether requests without X-API-Key are turned away (API_KEYS_REQUIRED=true) */
+export function apiKeysRequired(): boolean {
+  return process.env["API_KEYS_REQUIRED"] === "true";
+}
+
+/** Create a key for `tenant`. The plaintext key is only ever returned here. */
+export function createApiKey(tenant: string, label?: string): { key: string; apiKey: ApiKey } {
+  const key = KEY_PREFIX + randomBytes(24).toString("hex");
+  const id = `key_${randomBytes(6).toString("hex")}`;
+  return { key, apiKey: dbCreateApiKey(id, tenant, hashKey(key), label) };
+}
+
+/**
+ * The active key matching `key`, or null if it's unknown or revoked. Lookups
+ * are cached briefly; last-used time is updated on each cache miss.
+ */
+export function resolveApiKey(key: string, now = Date.now()): ApiKey | null {
+  if (!key.startsWith(KEY_PREFIX)) return null;
+  const hash = hashKey(key);
+  const hit = cached.get(hash);
+  if (hit && now - hit.at < CACHE_TTL_MS) return hit.key;
+
+  const found = dbGetApiKeyByHash(hash);
+  const active = found && !found.revokedAt ? found : null;
+  if (active) dbTouchApiKey(active.id);
+  cached.set(hash, { at: now, key: active });
+  return active;
+}
+
+/** Drop cached lookups after a key is created or revoked */
+export function invalidateApiKeys(): void {
+  cached.clear();
+}
@@ -22,7 +22,10 @@ export interface EnrichedModel {
   pricing: {
     prompt: number; // per 1M tokens, USD
     completion: number;
+    cacheRead?: number; // cached prompt tokens, when the provider discounts them
+    reasoning?: number; // internal reasoning tokens, when billed differently from completion
   };
+  tokenizer?: string; // OpenRouter architecture.tokenizer: "GPT", "Claude", "Llama3", ...
   capabilities: {
     vision: boolean;
     functionCalling: boolean;
@@ -36,24 +39,8 @@ export interface EnrichedModel {
   costEfficiency: Partial<Record<Category, number>>; // quality/cost ratio
   tier: Tier;
 
-  benchmarks?: {
-    arena?: number;
-    intelligenceIndex?: number;
-    codingIndex?: number;
-    mathIndex?: number;
-    mmluPro?: number;
-    gpqa?: number;
-    liveCodeBench?: number;
-    math500?: number;
-    ifEval?: number;
-    bbh?: number;
-    liveBenchCoding?: number; // LiveBench coding score (contamination-free)
-    liveBenchAgenticCoding?: number; // LiveBench agentic coding (JS/TS/Python)
-    liveBenchReasoning?: number; // LiveBench reasoning score
-    liveBenchMath?: number; // LiveBench mathematics score
-    liveBenchLanguage?: number; // LiveBench language score
-    liveBenchIF?: number; // LiveBench instruction following score
-  };
+  benchmarks?: BuiltinBenchmarks & { [key: string]: number | undefined }; // plus keys declared by plugin sources
+  benchmarkSources?: Partial<Record<BenchmarkKey, BenchmarkSource>>; // which enrichment source set each benchmark
 
   speed?: {
     outputTokensPerSecond?: number;
@@ -61,10 +48,36 @@ export interface EnrichedModel {
   };
 
   tags: string[];
+  expiresAt?: string; // OpenRouter expiration_date, set once a model is scheduled for removal
   lastUpdated: string;
   sourcesCovered: string[];
 }
 
+export interface BuiltinBenchmarks {
+  arena?: number;
+  intelligenceIndex?: number;
+  codingIndex?: number;
+  mathIndex?: number;
+  mmluPro?: number;
+  gpqa?: number;
+  liveCodeBench?: number;
+  math500?: number;
+  ifEval?: number;
+  bbh?: number;
+  liveBenchCoding?: number; // LiveBench coding score (contamination-free)
+  liveBenchAgenticCoding?: number; // LiveBench agentic coding (JS/TS/Python)
+  liveBenchReasoning?: number; // LiveBench reasoning score
+  liveBenchMath?: number; // LiveBench mathematics score
+  liveBenchLanguage?: number; // LiveBench language score
+  liveBenchIF?: number; // LiveBench instruction following score
+}
+
+// Built-in keys, or a key declared by an enrichment source plugin
+export type BenchmarkKey = keyof BuiltinBenchmarks | (string & {});
+
+// Name of the enrichment source that set a benchmark, e.g. "artificial-analysis"
+export type BenchmarkSource = string;
+
 // === Source-specific raw types ===
 
 export interface OpenRouterModel {
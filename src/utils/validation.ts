@@ -57,6 +57,22 @@ export function sanitizeBudget(raw: string | undefined): Budget | null {
   return null;
 }
 
+const KEY_NAME_RE = /^[a-zA-Z0-9][a-zA-Z0-9._:-]{0,63}$/;
+
+/** Spend budget project keys: letters, digits and . _ : - (max 64) */
+export function sanitizeProject(raw: string | undefined): string | null {
+  if (!raw) return null;
+  const trimmed = raw.trim();
+  return KEY_NAME_RE.test(trimmed) ? trimmed : null;
+}
+
+/** Tenant names for API keys, same shape as project keys */
+export function sanitizeTenant(raw: string | undefined): string | null {
+  if (!raw) return null;
+  const trimmed = raw.trim();
+  return KEY_NAME_RE.test(trimmed) ? trimmed : null;
+}
+
 export function sanitizeCapabilityList(raw: string | undefined): string[] | null {
   if (!raw) return [];
   const allowed = new Set(["vision", "functionCalling", "json", "reasoning"]);
@@ -76,3 +92,26 @@ export function sanitizeSort(raw: string | undefined): string {
   if (KNOWN_CATEGORIES.includes(trimmed as Category)) return trimmed;
   return "score";
 }
+
+/** Boolean query flag: "true" / "1" / "yes" turn it on, anything else is off. */
+export function sanitizeFlag(raw: string | undefined): boolean {
+  if (!raw) return false;
+  return ["true", "1", "yes"].includes(raw.trim().toLowerCase());
+}
+
+/**
+ * Parse a `since` value: an ISO date/datetime or a relative window like "12h" / "7d".
+ * Returns an ISO timestamp, or null when the value is not understood.
+ */
+export function sanitizeSince(raw: string | undefined, now = Date.now()): string | null {
+  if (!raw) return null;
+  const trimmed = raw.trim();
+  const relative = trimmed.match(/^(\d{1,4})([hd])$/);
+  if (relative) {
+    const hours = Number(relative[1]) * (relative[2] === "d" ? 24 : 1);
+    return new Date(now - hours * 3600_000).toISOString();
+  }
+  if (!/^\d{4}-\d{2}-\d{2}/.test(trimmed)) return null;
+  const ms = Date.parse(trimmed);
+  return Number.isFinite(ms) ? new Date(ms).toISOString() : null;
+}
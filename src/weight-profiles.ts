@@ -0,0 +1,179 @@
+import { readFileSync, existsSync } from "fs";
+import { join } from "path";
+import { parse } from "yaml";
+import { pipeline } from "./enrichment/pipeline.ts";
+import {
+  computeCostEfficiency,
+  computeScores,
+  defaultBenchmarkWeights,
+  type BenchmarkWeights,
+  type WeightedCategory,
+} from "./enrichment/scoring.ts";
+import { getDeclaredBenchmarks } from "./enrichment/source-registry.ts";
+import type { BlendOverrides } from "./scoring-utils.ts";
+import type { BenchmarkKey, EnrichedModel } from "./types.ts";
+
+const PROFILES_PATH = join(import.meta.dir, "data/weight-profiles.yaml");
+
+export const DEFAULT_PROFILE = "default";
+
+const WEIGHTED_CATEGORIES: WeightedCategory[] = ["general", "coding", "reasoning", "creative"];
+
+export const BUILTIN_BENCHMARK_KEYS: BenchmarkKey[] = [
+  "arena", "intelligenceIndex", "codingIndex", "mathIndex", "mmluPro", "gpqa",
+  "liveCodeBench", "math500", "ifEval", "bbh", "liveBenchCoding", "liveBenchAgenticCoding",
+  "liveBenchReasoning", "liveBenchMath", "liveBenchLanguage", "liveBenchIF",
+];
+
+export interface WeightProfile {
+  name: string;
+  description: string;
+  benchmarks: BenchmarkWeights;
+  blend?: BlendOverrides;
+}
+
+// Resolved on use so benchmarks declared by source plugins are included
+const defaultProfile = (): WeightProfile => ({
+  name: DEFAULT_PROFILE,
+  description: "Built-in weights used by the enrichment pipeline",
+  benchmarks: defaultBenchmarkWeights(),
+});
+
+let profiles: Map<string, WeightProfile> | null = null;
+
+/** Rescored model lists, keyed by profile and invalidated on every refresh */
+const rescored = new Map<string, { lastRefresh: string; models: EnrichedModel[] }>();
+
+/**
+ * Validate one YAML entry. Categories left out keep their default weights.
+ * Throws with a message naming the bad field.
+ */
+function parseProfile(name: string, raw: unknown): WeightProfile {
+  if (!raw || typeof raw !== "object") throw new Error("profile must be a mapping");
+  const entry = raw as { description?: unknown; benchmarks?: unknown; blend?: unknown };
+  const benchmarks: BenchmarkWeights = { ...defaultBenchmarkWeights() };
+  const knownKeys = new Set<string>([...BUILTIN_BENCHMARK_KEYS, ...getDeclaredBenchmarks().map((b) => b.key)]);
+
+  if (entry.benchmarks !== undefined) {
+    if (!entry.benchmarks || typeof entry.benchmarks !== "object") throw new Error("benchmarks must be a mapping");
+    for (const [category, weights] of Object.entries(entry.benchmarks as Record<string, unknown>)) {
+      if (!WEIGHTED_CATEGORIES.includes(category as WeightedCategory)) {
+        throw new Error(`benchmarks.${category}: only ${WEIGHTED_CATEGORIES.join(", ")} are weighted`);
+      }
+      if (!weights || typeof weights !== "object") throw new Error(`benchmarks.${category} must be a mapping`);
+      const list = Object.entries(weights as Record<string, unknown>).map(([key, weight]) => {
+        if (!knownKeys.has(key)) throw new Error(`benchmarks.${category}.${key}: unknown benchmark`);
+        if (typeof weight !== "number" || !(weight >= 0)) throw new Error(`benchmarks.${category}.${key}: weight must be >= 0`);
+        return { key: key as BenchmarkKey, weight };
+      });
+      benchmarks[category as WeightedCategory] = list.filter((w) => w.weight > 0);
+    }
+  }
+
+  let blend: BlendOverrides | undefined;
+  if (entry.blend !== undefined) {
+    if (!entry.blend || typeof entry.blend !== "object") throw new Error("blend must be a mapping");
+    blend = {};
+    for (const [signal, weight] of Object.entries(entry.blend as Record<string, unknown>)) {
+      if (signal !== "personal" && signal !== "context" && signal !== "community") {
+        throw new Error(`blend.${signal}: expected personal, context or community`);
+      }
+      if (typeof weight !== "number" || weight < 0 || weight > 1) throw new Error(`blend.${signal}: weight must be 0-1`);
+      blend[signal] = weight;
+    }
+    const total = (blend.personal ?? 0) + (blend.context ?? 0) + (blend.community ?? 0);
+    if (total > 1) throw new Error("blend weights must add up to at most 1");
+  }
+
+  return {
+    name,
+    description: typeof entry.description === "string" ? entry.description : "",
+    benchmarks,
+    ...(blend ? { blend } : {}),
+  };
+}
+
+/** Load profiles from YAML once; invalid entries are logged and skipped. */
+function loadProfiles(): Map<string, WeightProfile> {
+  if (profiles) return profiles;
+  profiles = new Map();
+
+  try {
+    if (!existsSync(PROFILES_PATH)) return profiles;
+    const raw = (parse(readFileSync(PROFILES_PATH, "utf-8")) as Record<string, unknown>) ?? {};
+    for (const [name, entry] of Object.entries(raw)) {
+      if (name === DEFAULT_PROFILE) {
+        console.warn(`[profiles] "${DEFAULT_PROFILE}" is built in, ignoring YAML entry`);
+        continue;
+      }
+      try {
+        profiles.set(name, parseProfile(name, entry));
+      } catch (e) {
+        console.warn(`[profiles] Skipping profile "${name}": ${(e as Error).message}`);
+      }
+    }
+    console.log(`[profiles] Loaded ${profiles.size} weight profiles`);
+  } catch (e) {
+    console.error("[profiles] Failed to load weight profiles:", e);
+  }
+
+  return profiles;
+}
+
+/**
+ * Re-read profiles and drop rescored models, e.g. after benchmarks were
+ * declared or removed at runtime.
+ */
+export function reloadWeightProfiles(): void {
+  profiles = null;
+  rescored.clear();
+}
+
+export function getWeightProfile(name: string): WeightProfile | null {
+  if (name === DEFAULT_PROFILE) return defaultProfile();
+  return loadProfiles().get(name) ?? null;
+}
+
+export function listWeightProfiles(): Array<{ name: string; description: string }> {
+  return [defaultProfile(), ...loadProfiles().values()].map((p) => ({ name: p.name, description: p.description }));
+}
+
+/**
+ * Resolve a `profile` query param. Missing means the default profile; an
+ * unknown name returns an error message listing the available profiles.
+ */
+export function resolveProfileParam(raw: string | undefined): { profile: WeightProfile } | { error: string } {
+  const name = raw?.trim() || DEFAULT_PROFILE;
+  const profile = getWeightProfile(name);
+  if (profile) return { profile };
+  const available = listWeightProfiles().map((p) => p.name).join(", ");
+  return { error: `unknown profile "${name.slice(0, 50)}" (available: ${available})` };
+}
+
+/**
+ * Current models scored under `profile`. The default profile returns the
+ * pipeline's models as-is; other profiles rescore copies and reapply seed
+ * overrides, cached until the next refresh.
+ */
+export function modelsForProfile(profile: WeightProfile): EnrichedModel[] {
+  const state = pipeline.getState();
+  if (profile.name === DEFAULT_PROFILE) return state.models;
+
+  const cached = rescored.get(profile.name);
+  if (cached && cached.lastRefresh === state.lastRefresh && cached.models.length === state.models.length) {
+    return cached.models;
+  }
+
+  const normParams = pipeline.getNormParams();
+  const overrides = pipeline.loadSeedOverrides();
+  const models = state.models.map((m) => {
+    const model: EnrichedModel = { ...m, scores: computeScores(m, normParams, profile.benchmarks) };
+    const override = overrides[m.id]?.scores;
+    if (override) model.scores = { ...model.scores, ...override };
+    model.costEfficiency = computeCostEfficiency(model);
+    return model;
+  });
+
+  rescored.set(profile.name, { lastRefresh: state.lastRefresh, models });
+  return models;
+}
@@ -0,0 +1,54 @@
+import { expect, test } from "bun:test";
+import { countTokens, estimateCost } from "../src/cost-estimate.ts";
+import { dbGetTokenUsageByCategory, dbLogSpawn } from "../src/db.ts";
+
+test("estimateCost sizes the prompt with the model's tokenizer and gives a range around typical output", () => {
+  const text = "x".repeat(3500);
+  const estimate = estimateCost({ pricing: { prompt: 3, completion: 15 }, tokenizer: "Claude" }, { category: "vision", text });
+
+  expect(countTokens(text, "Claude")).toBe(1000);
+  expect(estimate).toMatchObject({ promptTokens: 1500, cachedTokens: 0, completionTokens: 800, reasoningTokens: 0 });
+  expect(estimate.costUsd).toBeCloseTo((1500 * 3 + 800 * 15) / 1_000_000, 6);
+  expect(estimate.low).toBeCloseTo((1500 * 3 + 400 * 15) / 1_000_000, 6);
+  expect(estimate.high).toBeCloseTo((1500 * 3 + 1600 * 15) / 1_000_000, 6);
+});
+
+test("estimateCost bills cached prompt tokens and hidden reasoning at their own prices", () => {
+  const model = {
+    pricing: { prompt: 2, completion: 8, cacheRead: 0.5, reasoning: 4 },
+    tokenizer: "GPT",
+    capabilities: { vision: false, functionCalling: true, streaming: true, json: true, reasoning: true },
+  };
+  const estimate = estimateCost(model, {
+    category: "reasoning",
+    text: "y".repeat(8000),
+    cachedText: "y".repeat(4000),
+    completionTokens: 1000,
+  });
+
+  // 2000 prompt tokens + overhead, half of the text cached; reasoning models think 2x the output here
+  expect(estimate).toMatchObject({ promptTokens: 2500, cachedTokens: 1000, completionTokens: 1000, reasoningTokens: 2000 });
+  expect(estimate.costUsd).toBeCloseTo((1500 * 2 + 1000 * 0.5 + 1000 * 8 + 2000 * 4) / 1_000_000, 6);
+});
+
+test("estimateCost prices reported usage exactly, with no range", () => {
+  const estimate = estimateCost(
+    { pricing: { prompt: 1, completion: 2 } },
+    { category: "coding", promptTokens: 3000, completionTokens: 500, reasoningTokens: 250 }
+  );
+
+  expect(estimate).toMatchObject({ promptTokens: 3000, completionTokens: 500, reasoningTokens: 250 });
+  expect(estimate.costUsd).toBeCloseTo((3000 * 1 + 750 * 2) / 1_000_000, 6);
+  expect(estimate.low).toBe(estimate.costUsd);
+  expect(estimate.high).toBe(estimate.costUsd);
+});
+
+test("token history counts spawns logged earlier today", () => {
+  dbLogSpawn({
+    model: "acme/sage", category: "summarize", budget: "medium", mode: "single", role: "primary", source: "test",
+    promptPrice: 1, completionPrice: 4, promptTokens: 2000, completionTokens: 300,
+  });
+
+  const since = new Date(Date.now() - 3600_000).toISOString();
+  expect(dbGetTokenUsageByCategory(since).get("summarize")).toEqual({ promptTokens: 2000, completionTokens: 300, samples: 1 });
+});
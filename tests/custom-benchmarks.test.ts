@@ -0,0 +1,65 @@
+import { afterAll, expect, test } from "bun:test";
+import { registerSource } from "../src/enrichment/source-registry.ts";
+import { parseScoreUpload } from "../src/enrichment/sources/custom-benchmarks.ts";
+import { benchmarksRoute } from "../src/routes/benchmarks.ts";
+
+test("parseScoreUpload reads CSV with line-numbered errors, and later rows win", () => {
+  const csv = "model,score,notes\nopenrouter/acme/sage,71.5,first run\nacme/swift,n/a,\n,40,\nacme/sage,73,rerun\n";
+
+  expect(parseScoreUpload(csv, "csv")).toEqual({
+    scores: [{ model: "acme/sage", score: 73 }],
+    errors: ["line 3: score must be a number", "line 4: model must be a non-empty string"],
+  });
+  expect(parseScoreUpload("name,value\nacme/sage,1\n", "csv")).toEqual({
+    scores: [],
+    errors: ["CSV header must include model and score columns"],
+  });
+});
+
+test("parseScoreUpload reads JSONL, skipping blank lines and reporting bad ones", () => {
+  const jsonl = '{"model": "acme/sage", "score": 0.8}\n\n{"model": "acme/swift", "score": "0.6"}\nnot json\n';
+
+  expect(parseScoreUpload(jsonl, "jsonl")).toEqual({
+    scores: [{ model: "acme/sage", score: 0.8 }, { model: "acme/swift", score: 0.6 }],
+    errors: ["line 4: invalid JSON"],
+  });
+});
+
+const previousKey = process.env["BENCHMARK_API_KEY"];
+process.env["BENCHMARK_API_KEY"] = "bench-key";
+afterAll(() => {
+  if (previousKey === undefined) delete process.env["BENCHMARK_API_KEY"];
+  else process.env["BENCHMARK_API_KEY"] = previousKey;
+});
+
+async function upload(name: string): Promise<{ status: number; body: any }> {
+  const res = await benchmarksRoute.request("/custom", {
+    method: "POST",
+    headers: { "Content-Type": "application/json", Authorization: "Bearer bench-key" },
+    body: JSON.stringify({ name, weights: { coding: 2 }, scores: [{ model: "acme/sage", score: 70 }] }),
+  });
+  return { status: res.status, body: await res.json() };
+}
+
+test("custom benchmarks can't take a name a built-in or configured source already provides", async () => {
+  registerSource({
+    name: "team-evals",
+    benchmarks: [{ key: "teamEval" }],
+    pull: async () => ({ source: "team-evals", data: [], pulledAt: "", count: 0 }),
+    merge: () => {},
+  });
+
+  expect(await upload("arena")).toEqual({
+    status: 400,
+    body: { error: { code: "INVALID_PARAM", message: '"arena" is already provided by a built-in source' } },
+  });
+  expect(await upload("teamEval")).toEqual({
+    status: 400,
+    body: { error: { code: "INVALID_PARAM", message: '"teamEval" is already provided by team-evals' } },
+  });
+  expect((await upload("team-eval")).status).toBe(400);
+
+  const created = await upload("privateEval");
+  expect(created.status).toBe(200);
+  expect(created.body.data).toMatchObject({ name: "privateEval", created: true, stored: 1 });
+});
@@ -0,0 +1,21 @@
+import type { EnrichedModel } from "../src/types.ts";
+
+/** A catalog model with sensible defaults; override only what the test is about. */
+export function makeModel(id: string, overrides: Partial<EnrichedModel> = {}): EnrichedModel {
+  return {
+    id,
+    name: id.split("/").pop() ?? id,
+    provider: id.split("/")[0] ?? "test",
+    contextLength: 128_000,
+    pricing: { prompt: 1, completion: 4 },
+    capabilities: { vision: false, functionCalling: true, streaming: true, json: true, reasoning: false },
+    categories: ["general"],
+    scores: {},
+    costEfficiency: {},
+    tier: "standard",
+    tags: [],
+    lastUpdated: "2026-01-01T00:00:00.000Z",
+    sourcesCovered: ["openrouter"],
+    ...overrides,
+  };
+}
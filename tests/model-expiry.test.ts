@@ -0,0 +1,42 @@
+import { expect, test } from "bun:test";
+import { findSuccessor, isExpiring } from "../src/model-expiry.ts";
+import { makeModel } from "./helpers.ts";
+
+const now = Date.parse("2026-03-01T00:00:00.000Z");
+
+test("isExpiring counts whole days up to and including the window", () => {
+  const inTenDays = makeModel("a/m", { expiresAt: "2026-03-11T00:00:00.000Z" });
+
+  expect(isExpiring(inTenDays, 10, now)).toBe(true);
+  expect(isExpiring(inTenDays, 9, now)).toBe(false);
+  expect(isExpiring(makeModel("a/m", { expiresAt: "2026-02-01T00:00:00.000Z" }), 14, now)).toBe(true);
+});
+
+test("isExpiring ignores models without a valid date, and a window of 0 turns it off", () => {
+  expect(isExpiring(makeModel("a/m"), 14, now)).toBe(false);
+  expect(isExpiring(makeModel("a/m", { expiresAt: "soon" }), 14, now)).toBe(false);
+  expect(isExpiring(makeModel("a/m", { expiresAt: "2026-02-01T00:00:00.000Z" }), 0, now)).toBe(false);
+});
+
+test("findSuccessor picks the best non-expiring model of the same family", () => {
+  const old = makeModel("openai/gpt-4o-2024-05-13", { expiresAt: "2026-03-05", scores: { coding: 70 } });
+  const pool = [
+    old,
+    makeModel("openai/gpt-4.1", { scores: { coding: 82 } }),
+    makeModel("openai/gpt-4o", { scores: { coding: 76 } }),
+    makeModel("openai/gpt-4.5", { expiresAt: "2026-04-01", scores: { coding: 90 } }),
+    makeModel("openai/gpt-4.1:free", { scores: { coding: 95 } }),
+    makeModel("openai/o3", { scores: { coding: 99 } }),
+    makeModel("anthropic/gpt-4.2", { scores: { coding: 99 } }),
+  ];
+
+  expect(findSuccessor(old, pool, "coding")?.id).toBe("openai/gpt-4.1");
+});
+
+test("findSuccessor matches families regardless of where the version sits", () => {
+  const old = makeModel("anthropic/claude-3.5-sonnet", { expiresAt: "2026-03-05" });
+  const pool = [old, makeModel("anthropic/claude-sonnet-4.5", { scores: { general: 80 } }), makeModel("anthropic/claude-opus-4")];
+
+  expect(findSuccessor(old, pool, "coding")?.id).toBe("anthropic/claude-sonnet-4.5");
+  expect(findSuccessor(old, [old], "coding")).toBeNull();
+});
@@ -0,0 +1,43 @@
+import { expect, test } from "bun:test";
+import type { ModelSnapshot } from "../src/db.ts";
+import { diffSnapshots } from "../src/model-history.ts";
+
+function snapshot(model: string, prompt: number, scores: Record<string, number>): ModelSnapshot {
+  return { model, pricing: { prompt, completion: prompt * 4 }, scores, benchmarks: {} };
+}
+
+test("diffSnapshots reports added, removed and repriced models", () => {
+  const diff = diffSnapshots(
+    [snapshot("a/kept", 1, {}), snapshot("a/gone", 2, {}), snapshot("a/repriced", 3, {})],
+    [snapshot("a/kept", 1, {}), snapshot("a/repriced", 2.5, {}), snapshot("a/new", 0.5, {})]
+  );
+
+  expect(diff.added).toEqual([{ id: "a/new", pricing: { prompt: 0.5, completion: 2 } }]);
+  expect(diff.removed).toEqual([{ id: "a/gone" }]);
+  expect(diff.repriced).toEqual([
+    { id: "a/repriced", before: { prompt: 3, completion: 12 }, after: { prompt: 2.5, completion: 10 } },
+  ]);
+  expect(diff.scoreChanges).toEqual([]);
+});
+
+test("diffSnapshots ignores small score moves but always reports scores that appear or disappear", () => {
+  const diff = diffSnapshots(
+    [snapshot("a/m", 1, { coding: 70, research: 60, creative: 55 })],
+    [snapshot("a/m", 1, { coding: 70.4, research: 64, vision: 50 })]
+  );
+
+  expect(diff.scoreChanges).toEqual([
+    { id: "a/m", category: "creative", before: 55, after: null, delta: -55 },
+    { id: "a/m", category: "vision", before: null, after: 50, delta: 50 },
+    { id: "a/m", category: "research", before: 60, after: 64, delta: 4 },
+  ]);
+  expect(diff.repriced).toEqual([]);
+});
+
+test("diffSnapshots honors a custom minimum score delta", () => {
+  const before = [snapshot("a/m", 1, { coding: 70 })];
+  const after = [snapshot("a/m", 1, { coding: 72 })];
+
+  expect(diffSnapshots(before, after).scoreChanges).toHaveLength(1);
+  expect(diffSnapshots(before, after, 5).scoreChanges).toEqual([]);
+});
@@ -0,0 +1,52 @@
+import { expect, test } from "bun:test";
+import { FUZZY_ACCEPT, createModelMatcher, normalizeModelName } from "../src/enrichment/model-matcher.ts";
+import { makeModel } from "./helpers.ts";
+
+test("normalizeModelName drops vendors, dates, variants and effort markers", () => {
+  expect(normalizeModelName("Claude-Sonnet-4-5-20250929 (thinking)")).toBe("claude sonnet 4.5");
+  expect(normalizeModelName("meta-llama/Meta-Llama-3.1-8B-Instruct")).toBe("llama 3.1 8b instruct");
+  expect(normalizeModelName("openai/gpt-4.1:free")).toBe("gpt 4.1");
+  expect(normalizeModelName("GPT-4o-2024-08-06")).toBe("gpt 4o");
+  expect(normalizeModelName("gemini-2.5-pro-preview-05-06")).toBe("gemini 2.5 pro");
+  expect(normalizeModelName("grok-4-0709")).toBe("grok 4");
+  expect(normalizeModelName("o3 (high)")).toBe("o3");
+});
+
+test("normalizeModelName keeps size tokens apart from version numbers", () => {
+  expect(normalizeModelName("Qwen3-235B-A22B")).toBe("qwen3 235b a22b");
+});
+
+function catalog(ids: string[]) {
+  return createModelMatcher(new Map(ids.map((id) => [id, makeModel(id)])));
+}
+
+test("model matcher accepts a fuzzy match only above the threshold", () => {
+  const matcher = catalog(["acme/zephyrine-large-instruct", "acme/zephyrine-large-chat", "acme/orbitron-mega"]);
+
+  expect(matcher.match("src", "zephyrine large instruct")).toEqual({ id: "acme/zephyrine-large-instruct", method: "normalized" });
+  expect(matcher.match("src", "Zephyrine Large Instrct")).toEqual({ id: "acme/zephyrine-large-instruct", method: "fuzzy" });
+
+  // Just under FUZZY_ACCEPT: reported with the near miss as a suggestion instead
+  expect(matcher.match("src", "orbitron meg")).toBeNull();
+  const [miss] = matcher.unmatched()["src"]!;
+  expect(miss!.name).toBe("orbitron meg");
+  expect(miss!.suggestions[0]!.id).toBe("acme/orbitron-mega");
+  expect(miss!.suggestions[0]!.similarity).toBeLessThan(FUZZY_ACCEPT);
+});
+
+test("model matcher rejects a fuzzy match without a clear lead over the runner-up", () => {
+  const matcher = catalog(["acme/orbitron-mega", "acme/orbitron-megas"]);
+
+  expect(matcher.match("src", "orbitron megaz")).toBeNull();
+  const [best, runnerUp] = matcher.unmatched()["src"]![0]!.suggestions;
+  expect(best!.similarity).toBeGreaterThanOrEqual(FUZZY_ACCEPT);
+  expect(best!.similarity - runnerUp!.similarity).toBeLessThan(0.05);
+});
+
+test("strict and quiet lookups skip fuzzy matching and the unmatched report", () => {
+  const matcher = catalog(["acme/zephyrine-large-instruct"]);
+
+  expect(matcher.match("hf", "Zephyrine Large Instrct", [], { strict: true })).toBeNull();
+  expect(matcher.match("hf", "Zephyrine Large", [], { quiet: true })).toBeNull();
+  expect(matcher.unmatched()).toEqual({ hf: [{ source: "hf", name: "Zephyrine Large Instrct", suggestions: [] }] });
+});
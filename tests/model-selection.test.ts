@@ -0,0 +1,50 @@
+import { expect, test } from "bun:test";
+import { applyFilter, explainSelection, type FilterStep } from "../src/model-selection.ts";
+import { makeModel } from "./helpers.ts";
+
+const models = [
+  makeModel("a/cheap", { pricing: { prompt: 0.2, completion: 0.8 }, scores: { coding: 60 } }),
+  makeModel("a/mid", { pricing: { prompt: 2, completion: 8 }, scores: { coding: 75 } }),
+  makeModel("a/premium", { pricing: { prompt: 15, completion: 75 }, scores: { coding: 90 } }),
+  makeModel("a/luxury", { pricing: { prompt: 30, completion: 120 }, scores: { general: 95 } }),
+  makeModel("a/writer", { pricing: { prompt: 1, completion: 4 }, categories: ["creative"], scores: { coding: 40 } }),
+  makeModel("a/exotic", { pricing: { prompt: 25, completion: 100 }, scores: { coding: 50 } }),
+];
+
+test("explainSelection reports each filter step with its best-scoring removals", () => {
+  const trace: FilterStep[] = [];
+  let filtered = applyFilter(models, "budget", "medium: $0-5/M prompt", (m) => m.pricing.prompt <= 5, trace);
+  filtered = applyFilter(filtered, "category", "coding or general",
+    (m) => m.categories.includes("coding") || m.categories.includes("general"), trace);
+
+  const explanation = explainSelection(filtered, "coding", [], trace);
+
+  expect(explanation.filters).toEqual([
+    {
+      filter: "budget",
+      detail: "medium: $0-5/M prompt",
+      removed: 3,
+      // Highest benchmark first; a model without a category score falls back to general
+      topRemoved: [
+        { id: "a/luxury", score: 95 },
+        { id: "a/premium", score: 90 },
+        { id: "a/exotic", score: 50 },
+      ],
+    },
+    { filter: "category", detail: "coding or general", removed: 1, topRemoved: [{ id: "a/writer", score: 40 }] },
+  ]);
+  expect(explanation.candidateCount).toBe(2);
+  expect(explanation.candidates.map((c) => [c.rank, c.id])).toEqual([[1, "a/cheap"], [2, "a/mid"]]);
+});
+
+test("explainSelection caps removals at three and candidates at `top`", () => {
+  const trace: FilterStep[] = [];
+  applyFilter(models, "exclude", "everything", () => false, trace);
+
+  const explanation = explainSelection(models, "coding", [], trace, { top: 2 });
+
+  expect(explanation.filters[0]!.removed).toBe(models.length);
+  expect(explanation.filters[0]!.topRemoved.map((m) => m.id)).toEqual(["a/luxury", "a/premium", "a/mid"]);
+  expect(explanation.candidates).toHaveLength(2);
+  expect(explanation.candidateCount).toBe(models.length);
+});
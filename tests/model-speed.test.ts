@@ -0,0 +1,50 @@
+import { expect, test } from "bun:test";
+import { dbRecordSpeedSamples, type SpeedSample } from "../src/db.ts";
+import { blendMetric, effectiveSpeed, invalidateMeasuredSpeeds, parseSpeedSample } from "../src/model-speed.ts";
+import { makeModel } from "./helpers.ts";
+
+test("parseSpeedSample derives throughput from output tokens over the time after the first token", () => {
+  expect(parseSpeedSample("a/m", { ttfbMs: 500, outputTokens: 900 }, 5000, "mcp")).toEqual({
+    model: "a/m",
+    ttfbMs: 500,
+    tokensPerSecond: 200,
+    source: "mcp",
+  });
+  // An explicit rate wins over the derived one
+  expect(parseSpeedSample("a/m", { tokensPerSecond: 42.25, outputTokens: 900 }, 5000)).toEqual({
+    model: "a/m",
+    tokensPerSecond: 42.3,
+  });
+});
+
+test("parseSpeedSample skips throughput it can't measure and rejects out-of-range fields", () => {
+  // Too few tokens to be more than noise, so only the TTFB is kept
+  expect(parseSpeedSample("a/m", { ttfbMs: 300, outputTokens: 5 }, 1000)).toEqual({ model: "a/m", ttfbMs: 300 });
+  expect(parseSpeedSample("a/m", { outputTokens: 900 }, undefined)).toBeNull();
+  expect(parseSpeedSample("a/m", {}, 1000)).toBeNull();
+  expect(parseSpeedSample("a/m", { ttfbMs: -1 }, 1000)).toEqual({ error: "ttfbMs must be a number between 0 and 600000" });
+  expect(parseSpeedSample("a/m", { tokensPerSecond: "fast" }, 1000)).toHaveProperty("error");
+});
+
+test("blendMetric weighs measurements against the AA median by sample count", () => {
+  expect(blendMetric(100, null, 0)).toBe(100);
+  expect(blendMetric(100, 200, 10)).toBe(150);
+  expect(blendMetric(100, 200, 30)).toBe(175);
+  // Without an AA median, a few measurements aren't trusted yet
+  expect(blendMetric(undefined, 200, 2)).toBeUndefined();
+  expect(blendMetric(undefined, 200, 3)).toBe(200);
+});
+
+test("measured speed only counts once enough distinct reporters sent it", () => {
+  const samples = (reporter: string, count: number): SpeedSample[] =>
+    Array.from({ length: count }, () => ({ model: "speedy/model", ttfbMs: 200, tokensPerSecond: 120, reporter }));
+  const model = makeModel("speedy/model");
+
+  dbRecordSpeedSamples(samples("key_a", 10));
+  invalidateMeasuredSpeeds();
+  expect(effectiveSpeed(model)).toBeNull();
+
+  dbRecordSpeedSamples(samples("key_b", 10));
+  invalidateMeasuredSpeeds();
+  expect(effectiveSpeed(model)).toEqual({ ttfbMs: 200, tokensPerSecond: 120, samples: 20, source: "measured" });
+});
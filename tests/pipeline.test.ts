@@ -0,0 +1,38 @@
+import { expect, test } from "bun:test";
+import { join } from "path";
+import { pipeline } from "../src/enrichment/pipeline.ts";
+
+const RECORDING = join(import.meta.dir, "fixtures/refresh-recording.json");
+
+test("replaying a recorded refresh rebuilds the merged catalog", async () => {
+  await pipeline.refresh({ fixtures: RECORDING });
+  const state = pipeline.getState();
+  const model = (id: string) => state.models.find((m) => m.id === id)!;
+
+  expect(state.lastRefresh).toBe("2026-03-01T06:00:00.000Z");
+  expect(state.models).toHaveLength(6);
+
+  // AA indexes are rescaled to 0-100, accuracies turned into percentages, arena ELO normalized
+  expect(model("anthropic/claude-sonnet-4").benchmarks).toEqual({
+    intelligenceIndex: 77, codingIndex: 75, mmluPro: 83.7, gpqa: 68.3, liveCodeBench: 44.9, arena: 67.2,
+  });
+  expect(model("anthropic/claude-sonnet-4").benchmarkSources).toMatchObject({ mmluPro: "artificial-analysis", arena: "lmarena" });
+  expect(model("anthropic/claude-sonnet-4").scores).toMatchObject({ general: 57, coding: 51, reasoning: 65 });
+  expect(model("google/gemini-2.5-pro").scores).toMatchObject({ general: 78, coding: 78, reasoning: 78 });
+  expect(model("deepseek/deepseek-r1").scores).toMatchObject({ general: 65, coding: 74, reasoning: 69 });
+
+  // Not on the recorded arena leaderboard, so scored from AA alone
+  const mistral = model("mistralai/mistral-small-3.1-24b-instruct");
+  expect(mistral.benchmarks?.arena).toBeUndefined();
+  expect(mistral.sourcesCovered).toEqual(["openrouter", "artificial-analysis"]);
+  expect(mistral.scores).toMatchObject({ general: 23, coding: 28 });
+});
+
+test("sources that failed or weren't recorded are marked stale in a replay", async () => {
+  await pipeline.refresh({ fixtures: RECORDING });
+  const { sources } = pipeline.getState();
+
+  expect(sources["lmarena"]).toEqual({ status: "ok", lastPull: "2026-03-01T06:00:00.000Z", count: 5 });
+  expect(sources["livebench"]).toMatchObject({ status: "stale", error: "HTTP 503" });
+  expect(sources["hf-leaderboard"]).toMatchObject({ status: "stale", error: "not in recording" });
+});
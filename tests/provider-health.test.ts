@@ -0,0 +1,100 @@
+import { expect, test } from "bun:test";
+import { Hono } from "hono";
+import { join } from "path";
+import { dbRecordHealthReports, type HealthReport, type HealthStats } from "../src/db.ts";
+import { pipeline } from "../src/enrichment/pipeline.ts";
+import { tenantAuth } from "../src/middleware/tenant-auth.ts";
+import {
+  MAX_RELIABILITY_PENALTY,
+  MAX_REPORTS_PER_REPORTER,
+  failureRate,
+  getHealthSnapshot,
+  invalidateHealthSnapshot,
+  penaltyForRate,
+  reliabilityPenalty,
+} from "../src/provider-health.ts";
+import { healthReportRoute } from "../src/routes/health-report.ts";
+import { pickRoute } from "../src/routes/pick.ts";
+import { createApiKey } from "../src/tenants.ts";
+import { makeModel } from "./helpers.ts";
+
+const app = new Hono();
+app.use("*", tenantAuth());
+app.route("/pick", pickRoute);
+app.route("/health-report", healthReportRoute);
+
+function stats(key: string, requests: number, failures: number, reporters = 2): HealthStats {
+  return {
+    key, requests, reporters, failures, rateLimited: failures, serverErrors: 0, timeouts: 0, avgLatencyMs: null,
+  };
+}
+
+test("penaltyForRate tolerates a few failures and caps at the maximum", () => {
+  expect(penaltyForRate(null)).toBe(0);
+  expect(penaltyForRate(0)).toBe(0);
+  expect(penaltyForRate(0.05)).toBe(0);
+  expect(penaltyForRate(0.275)).toBe(MAX_RELIABILITY_PENALTY / 2);
+  expect(penaltyForRate(0.5)).toBe(MAX_RELIABILITY_PENALTY);
+  expect(penaltyForRate(1)).toBe(MAX_RELIABILITY_PENALTY);
+});
+
+test("failureRate waits for enough reports from enough distinct reporters", () => {
+  expect(failureRate(undefined)).toBeNull();
+  expect(failureRate(stats("m", 4, 4))).toBeNull();
+  expect(failureRate(stats("m", 10, 10, 1))).toBeNull();
+  expect(failureRate(stats("m", 10, 5))).toBe(0.5);
+});
+
+test("reliabilityPenalty applies the worse of the model's and its provider's rates", () => {
+  const snapshot = {
+    windowMinutes: 15,
+    models: new Map([["acme/fast", stats("acme/fast", 10, 1)]]),
+    providers: new Map([["acme", stats("acme", 20, 10)]]),
+  };
+
+  expect(reliabilityPenalty(makeModel("acme/fast"), snapshot)).toBe(MAX_RELIABILITY_PENALTY);
+  expect(reliabilityPenalty(makeModel("other/model"), snapshot)).toBe(0);
+});
+
+test("one reporter's flood counts only up to its per-reporter cap", () => {
+  const failing = (reporter: string, count: number): HealthReport[] =>
+    Array.from({ length: count }, () => ({ model: "flood/model", ok: false, kind: "rate_limit" as const, reporter }));
+  const passing = (reporter: string, count: number): HealthReport[] =>
+    Array.from({ length: count }, () => ({ model: "flood/model", ok: true, reporter }));
+
+  dbRecordHealthReports([...failing("key_a", 200), ...passing("key_b", MAX_REPORTS_PER_REPORTER)]);
+  invalidateHealthSnapshot();
+
+  const model = getHealthSnapshot().models.get("flood/model")!;
+  expect(model).toMatchObject({ requests: 2 * MAX_REPORTS_PER_REPORTER, reporters: 2, failures: MAX_REPORTS_PER_REPORTER });
+  expect(failureRate(model)).toBe(0.5);
+});
+
+test("a burst of reported failures from executors moves /pick off the failing model", async () => {
+  await pipeline.refresh({ fixtures: join(import.meta.dir, "fixtures/refresh-recording.json") });
+  const pick = async () => {
+    const res = await app.request("/pick?task=Refactor%20the%20billing%20module&budget=any");
+    return ((await res.json()) as { data: { id: string } }).data.id;
+  };
+  const before = await pick();
+
+  // Two executors (one tenant key each) hit rate limits and server errors on the picked model
+  for (const tenant of ["burst_a", "burst_b"]) {
+    const reports = Array.from({ length: 6 }, (_, i) => ({
+      model: before,
+      ok: false,
+      ...(i % 2 ? { kind: "rate_limit", status: 429 } : { status: 503 }),
+      latencyMs: 900,
+      source: "mcp",
+    }));
+    const res = await app.request("/health-report", {
+      method: "POST",
+      headers: { "Content-Type": "application/json", "X-API-Key": createApiKey(tenant).key },
+      body: JSON.stringify({ reports }),
+    });
+    expect(((await res.json()) as { data: { failures: number } }).data.failures).toBe(6);
+  }
+
+  expect(getHealthSnapshot().models.get(before)).toMatchObject({ requests: 12, reporters: 2, rateLimited: 6, serverErrors: 6 });
+  expect(await pick()).not.toBe(before);
+});
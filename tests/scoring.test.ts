@@ -0,0 +1,28 @@
+import { expect, test } from "bun:test";
+import { BENCHMARK_WEIGHTS, explainScores } from "../src/enrichment/scoring.ts";
+import { makeModel } from "./helpers.ts";
+
+test("explainScores breaks a score down into raw, z-normalized, weight and source per benchmark", () => {
+  const model = makeModel("acme/sage", {
+    benchmarks: { arena: 1300, mmluPro: 80 },
+    sourcesCovered: ["openrouter", "artificial-analysis", "lmarena"],
+  });
+
+  const { general } = explainScores(model, { arena: { mean: 1200, stddev: 50 } }, BENCHMARK_WEIGHTS);
+
+  expect(general).toMatchObject({ score: 86, method: "benchmarks", detail: "Weighted average of 2 normalized benchmarks" });
+  expect(general!.components).toEqual([
+    { benchmark: "arena", raw: 1300, normalized: 90, zNormalized: true, weight: 3, share: 0.6, source: "lmarena" },
+    // Too few models report it to normalize, so the raw value counts as-is
+    { benchmark: "mmluPro", raw: 80, normalized: 80, zNormalized: false, weight: 2, share: 0.4, source: "artificial-analysis" },
+  ]);
+});
+
+test("explainScores names the fallback rule when a category has no benchmarks", () => {
+  const model = makeModel("acme/plain", { benchmarks: { arena: 1300 }, benchmarkSources: { arena: "custom" } });
+
+  const explanation = explainScores(model, {}, BENCHMARK_WEIGHTS);
+
+  expect(explanation.general!.components[0]!.source).toBe("custom");
+  expect(explanation.coding).toMatchObject({ method: "derived", detail: "No coding benchmarks; 85% of the general score", components: [] });
+});
@@ -0,0 +1,2 @@
+// Every test runs against a throwaway in-memory database
+process.env["DB_PATH"] = ":memory:";
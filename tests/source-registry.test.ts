@@ -0,0 +1,55 @@
+import { expect, test } from "bun:test";
+import { mkdtempSync, rmSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { createModelMatcher } from "../src/enrichment/model-matcher.ts";
+import { defaultBenchmarkWeights, explainScores } from "../src/enrichment/scoring.ts";
+import { getDeclaredBenchmarks, registerSource } from "../src/enrichment/source-registry.ts";
+import { loadConfiguredSources, parseCsv } from "../src/enrichment/sources/configured.ts";
+import { makeModel } from "./helpers.ts";
+
+test("parseCsv handles quoted fields, escaped quotes and CRLF", () => {
+  expect(parseCsv('model,resolved\r\n"Acme ""Sage"", v2",0.5\r\nacme/swift,\r\n')).toEqual([
+    { model: 'Acme "Sage", v2', resolved: "0.5" },
+    { model: "acme/swift", resolved: "" },
+  ]);
+});
+
+test("a configured source adds a new benchmark key with its scoring weight", async () => {
+  const dir = mkdtempSync(join(tmpdir(), "smart-spawn-"));
+  try {
+    writeFileSync(join(dir, "swe.csv"), "model,resolved\nacme/sage,0.62\nunknown/model,0.9\n");
+    writeFileSync(join(dir, "sources.yaml"), [
+      "swe-bench:",
+      "  file: swe.csv",
+      "  benchmarks:",
+      "    sweBenchVerified:",
+      "      field: resolved",
+      "      scale: 100",
+      "      weights: { coding: 3 }",
+      "broken:",
+      "  benchmarks: {}",
+    ].join("\n"));
+
+    // Entries without a location are skipped, not fatal
+    const sources = loadConfiguredSources(join(dir, "sources.yaml"));
+    expect(sources.map((s) => s.name)).toEqual(["swe-bench"]);
+    const [source] = sources;
+    registerSource(source!);
+
+    expect(getDeclaredBenchmarks()).toContainEqual({ key: "sweBenchVerified", weights: { coding: 3 }, source: "swe-bench" });
+    expect(defaultBenchmarkWeights().coding).toContainEqual({ key: "sweBenchVerified", weight: 3 });
+
+    const sage = makeModel("acme/sage");
+    const models = new Map([[sage.id, sage]]);
+    const pulled = await source!.pull();
+    source!.merge({ models, openRouter: [], matcher: createModelMatcher(models) }, pulled.data);
+
+    expect(sage.benchmarks).toEqual({ sweBenchVerified: 62 });
+    expect(sage.benchmarkSources).toEqual({ sweBenchVerified: "swe-bench" });
+    expect(sage.sourcesCovered).toContain("swe-bench");
+    expect(explainScores(sage, {}).coding!.components).toMatchObject([{ benchmark: "sweBenchVerified", weight: 3, source: "swe-bench" }]);
+  } finally {
+    rmSync(dir, { recursive: true, force: true });
+  }
+});
@@ -0,0 +1,71 @@
+import { expect, test } from "bun:test";
+import { Hono } from "hono";
+import { dbGetSpawnStats, dbGetSpeedSamples, dbLogSpawn } from "../src/db.ts";
+import { tenantAuth } from "../src/middleware/tenant-auth.ts";
+import { spawnLogRoute } from "../src/routes/spawn-log.ts";
+import { createApiKey } from "../src/tenants.ts";
+
+const app = new Hono();
+app.use("*", tenantAuth());
+app.route("/spawn-log", spawnLogRoute);
+
+const keyA = createApiKey("usage_a").key;
+const keyB = createApiKey("usage_b").key;
+
+function post(path: string, body: unknown, key?: string) {
+  return app.request(path, {
+    method: "POST",
+    headers: { "Content-Type": "application/json", ...(key ? { "X-API-Key": key } : {}) },
+    body: JSON.stringify(body),
+  });
+}
+
+test("POST /spawn-log/usage only updates spawns the caller's tenant logged", async () => {
+  const logged = await post("/spawn-log", { model: "acme/sage", category: "coding", project: "usage" }, keyA);
+  const { id } = (await logged.json() as { data: { id: number } }).data;
+
+  expect((await post("/spawn-log/usage", { id, costUsd: 9 }, keyB)).status).toBe(404);
+  expect((await post("/spawn-log/usage", { id, costUsd: 9 })).status).toBe(404);
+
+  const updated = await post("/spawn-log/usage", { id, costUsd: 0.25, completionTokens: 1200 }, keyA);
+  expect(updated.status).toBe(200);
+  expect(await updated.json()).toEqual({ data: { updated: true, id, model: "acme/sage", costUsd: 0.25, completionTokens: 1200 } });
+
+  const stats = await app.request("/spawn-log/stats?project=usage", { headers: { "X-API-Key": keyA } });
+  expect((await stats.json() as { data: unknown }).data).toMatchObject({ totalSpawns: 1, measuredSpawns: 1, totalEstimatedCost: 0.25 });
+  const other = await app.request("/spawn-log/stats?project=usage", { headers: { "X-API-Key": keyB } });
+  expect((await other.json() as { data: unknown }).data).toMatchObject({ totalSpawns: 0, measuredSpawns: 0 });
+});
+
+test("POST /spawn-log/usage records a sub-agent's model-call timings as a speed sample for keyed callers", async () => {
+  const timings = { latencyMs: 60_000, ttfbMs: 800, durationMs: 20_800, outputTokens: 2000 };
+  const logId = async (key?: string) =>
+    ((await (await post("/spawn-log", { model: "acme/swift", category: "coding" }, key)).json()) as { data: { id: number } }).data.id;
+
+  expect((await post("/spawn-log/usage", { id: await logId(keyA), ...timings }, keyA)).status).toBe(200);
+  expect((await post("/spawn-log/usage", { id: await logId(), ...timings })).status).toBe(200);
+
+  // Throughput comes from the model call alone (2000 tokens over 20s), not the spawn's whole latency
+  const samples = dbGetSpeedSamples(new Date(Date.now() - 60_000).toISOString(), 50).get("acme/swift");
+  expect(samples).toHaveLength(1);
+  expect(samples![0]).toMatchObject({ ttfbMs: 800, tokensPerSecond: 100 });
+});
+
+test("POST /spawn-log/usage rejects bad ids and usage without any fields", async () => {
+  expect((await post("/spawn-log/usage", { id: "1", costUsd: 1 }, keyA)).status).toBe(400);
+  expect((await post("/spawn-log/usage", { id: 1 }, keyA)).status).toBe(400);
+  expect((await post("/spawn-log/usage", { id: 1, completionTokens: -5 }, keyA)).status).toBe(400);
+});
+
+test("spawn stats prefer measured cost over the estimate", () => {
+  const spawn = {
+    model: "acme/sage", category: "coding", budget: "medium", mode: "single", role: "primary" as const, source: "test",
+    promptPrice: 1, completionPrice: 4, project: "stats", tenant: "stats_tenant",
+  };
+  dbLogSpawn(spawn);
+  dbLogSpawn({ ...spawn, costUsd: 0.04 });
+
+  const stats = dbGetSpawnStats(7, () => 1, { tenant: "stats_tenant", project: "stats" });
+  expect(stats).toMatchObject({ totalSpawns: 2, measuredSpawns: 1, totalEstimatedCost: 1.04 });
+  expect(stats.topModels).toEqual([{ model: "acme/sage", count: 2, avgCost: 0.52 }]);
+});
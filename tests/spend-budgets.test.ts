@@ -0,0 +1,42 @@
+import { expect, test } from "bun:test";
+import { dbLogSpawn, dbSaveSpendBudget } from "../src/db.ts";
+import { budgetNote, getBudgetStatus, tightenBudget, type BudgetStatus } from "../src/spend-budgets.ts";
+
+function status(state: BudgetStatus["state"]): BudgetStatus {
+  return {
+    tenant: "default", project: "web", day: "2026-03-01", dailyUsd: 20, alertAt: 0.8, spentUsd: 16.2,
+    remainingUsd: 3.8, spawns: 40, burnRatePerHour: 1.35, projectedUsd: 32.4, state,
+  };
+}
+
+test("tightenBudget steps one tier tighter on a warning and drops to low once over the cap", () => {
+  expect(tightenBudget("high", null)).toBe("high");
+  expect(tightenBudget("high", status("ok"))).toBe("high");
+  expect(tightenBudget("any", status("warning"))).toBe("high");
+  expect(tightenBudget("high", status("warning"))).toBe("medium");
+  expect(tightenBudget("low", status("warning"))).toBe("low");
+  expect(tightenBudget("any", status("exceeded"))).toBe("low");
+});
+
+test("budgetNote explains the spend and any tightening", () => {
+  expect(budgetNote(status("ok"), "high", "high")).toBe("");
+  expect(budgetNote(status("warning"), "high", "medium")).toBe(" — project web at $16.2 of $20/day, budget high → medium");
+  expect(budgetNote(status("exceeded"), "low", "low")).toBe(" — project web over $16.2 of $20/day");
+});
+
+test("a project over its cap routes at the cheapest tier, without affecting other tenants", () => {
+  dbSaveSpendBudget("shop", 1, 0.8, "tenant_a");
+  dbSaveSpendBudget("shop", 1, 0.8, "tenant_b");
+  dbLogSpawn({
+    model: "acme/big", category: "coding", budget: "high", mode: "single", role: "primary", source: "test",
+    promptPrice: 10, completionPrice: 30, costUsd: 1.5, project: "shop", tenant: "tenant_a",
+  });
+
+  const over = getBudgetStatus("shop", "tenant_a");
+  expect(over).toMatchObject({ state: "exceeded", spentUsd: 1.5, remainingUsd: 0, spawns: 1 });
+  expect(tightenBudget("high", over)).toBe("low");
+
+  const other = getBudgetStatus("shop", "tenant_b");
+  expect(other).toMatchObject({ state: "ok", spentUsd: 0, spawns: 0 });
+  expect(tightenBudget("high", other)).toBe("high");
+});
@@ -0,0 +1,78 @@
+import { Database } from "bun:sqlite";
+import { expect, test } from "bun:test";
+import { mkdtempSync, rmSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { invalidateTokenHistory, predictCompletionTokens } from "../src/cost-estimate.ts";
+import { dbLogSpawn, dbUpdateSpawnUsage } from "../src/db.ts";
+
+test("dbUpdateSpawnUsage only updates the calling tenant's spawns", () => {
+  const id = dbLogSpawn({
+    model: "acme/model", category: "coding", budget: "medium", mode: "single", role: "primary", source: "test",
+    promptPrice: 1, completionPrice: 2, project: "web", tenant: "tenant_a",
+  });
+
+  expect(dbUpdateSpawnUsage(id, { completionTokens: 999 }, "tenant_b")).toBeNull();
+  expect(dbUpdateSpawnUsage(id, { completionTokens: 999 })).toBeNull();
+  expect(dbUpdateSpawnUsage(id, { completionTokens: 500 }, "tenant_a")).toEqual({
+    model: "acme/model", category: "coding", project: "web",
+  });
+});
+
+test("completion length predictions only learn from the tenant's own usage", () => {
+  for (let i = 0; i < 5; i++) {
+    dbLogSpawn({
+      model: "acme/model", category: "creative", budget: "medium", mode: "single", role: "primary", source: "test",
+      promptPrice: 1, completionPrice: 2, completionTokens: 4500, tenant: "verbose",
+    });
+  }
+  invalidateTokenHistory();
+
+  // 1500 by default, blended half and half with five reported spawns
+  expect(predictCompletionTokens("creative", "verbose")).toBe(3000);
+  expect(predictCompletionTokens("creative", "terse")).toBe(1500);
+  expect(predictCompletionTokens("creative")).toBe(1500);
+});
+
+test("tables keyed before tenants existed move their rows to the default tenant", () => {
+  const dir = mkdtempSync(join(tmpdir(), "smart-spawn-"));
+  try {
+    const path = join(dir, "old.db");
+    const old = new Database(path);
+    old.run(`CREATE TABLE personal_scores (
+      model TEXT NOT NULL, category TEXT NOT NULL, successes INTEGER NOT NULL DEFAULT 0,
+      failures INTEGER NOT NULL DEFAULT 0, total INTEGER NOT NULL DEFAULT 0, score REAL,
+      updated_at TEXT NOT NULL DEFAULT (datetime('now')), PRIMARY KEY (model, category)
+    )`);
+    old.run(`CREATE TABLE spend_budgets (
+      project TEXT PRIMARY KEY, daily_usd REAL NOT NULL, alert_at REAL NOT NULL DEFAULT 0.8,
+      created_at TEXT NOT NULL, updated_at TEXT NOT NULL
+    )`);
+    old.run(`INSERT INTO personal_scores (model, category, successes, failures, total, score) VALUES ('a/m', 'coding', 4, 1, 5, 0.8)`);
+    old.run(`INSERT INTO spend_budgets VALUES ('web', 20, 0.8, '2026-03-01', '2026-03-01')`);
+    old.close();
+
+    // db.ts migrates on import, so open the old file in a fresh process
+    const script = join(dir, "check.ts");
+    writeFileSync(script, `
+      import { dbGetPersonalScore, dbGetSpendBudget, dbReportOutcome } from ${JSON.stringify(join(import.meta.dir, "../src/db.ts"))};
+      for (let i = 0; i < 3; i++) dbReportOutcome("a/m", "coding", 1, "tenant_a");
+      console.log(JSON.stringify({
+        migrated: dbGetPersonalScore("a/m", "coding"),
+        other: dbGetPersonalScore("a/m", "coding", "tenant_a"),
+        budget: dbGetSpendBudget("web"),
+        otherBudget: dbGetSpendBudget("web", "tenant_a"),
+      }));
+    `);
+    const run = Bun.spawnSync([process.execPath, script], { env: { ...process.env, DB_PATH: path } });
+    expect(run.exitCode).toBe(0);
+
+    const result = JSON.parse(run.stdout.toString().trim().split("\n").at(-1)!);
+    expect(result.migrated).toBe(0.8);
+    expect(result.other).toBeLessThan(0.8);
+    expect(result.budget).toMatchObject({ tenant: "default", project: "web", dailyUsd: 20 });
+    expect(result.otherBudget).toBeNull();
+  } finally {
+    rmSync(dir, { recursive: true, force: true });
+  }
+});
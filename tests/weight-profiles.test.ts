@@ -0,0 +1,38 @@
+import { expect, test } from "bun:test";
+import { swarmRoute } from "../src/routes/swarm.ts";
+import { DEFAULT_PROFILE, resolveProfileParam } from "../src/weight-profiles.ts";
+
+test("resolveProfileParam falls back to the default profile when the param is missing or blank", () => {
+  for (const raw of [undefined, "", "   "]) {
+    const resolved = resolveProfileParam(raw);
+    expect("profile" in resolved && resolved.profile.name).toBe(DEFAULT_PROFILE);
+  }
+});
+
+test("resolveProfileParam resolves a shipped profile by its trimmed name", () => {
+  const resolved = resolveProfileParam(" human-preference ");
+  if (!("profile" in resolved)) throw new Error(resolved.error);
+  expect(resolved.profile.name).toBe("human-preference");
+  expect(resolved.profile.blend).toEqual({ community: 0.35 });
+});
+
+test("resolveProfileParam rejects an unknown name and lists what is available", () => {
+  const resolved = resolveProfileParam("x".repeat(80));
+  if (!("error" in resolved)) throw new Error("expected an error");
+  expect(resolved.error).toStartWith(`unknown profile "${"x".repeat(50)}" (available: default, `);
+  expect(resolved.error).toContain("agentic-coding");
+  expect(resolved.error).toContain("human-preference");
+});
+
+test("/swarm picks under the requested profile and echoes it", async () => {
+  const swarm = (body: Record<string, unknown>) =>
+    swarmRoute.request("/", { method: "POST", headers: { "Content-Type": "application/json" }, body: JSON.stringify(body) });
+  const task = "Research competitor pricing, then write a landing page";
+
+  const picked = await swarm({ task, profile: "agentic-coding" });
+  expect(picked.status).toBe(200);
+  expect(((await picked.json()) as { dag: { profile: string } }).dag.profile).toBe("agentic-coding");
+
+  const unknown = await swarm({ task, profile: "nope" });
+  expect(unknown.status).toBe(400);
+});